@@ -17,14 +17,24 @@ import CreateOrder from "./pages/client/CreateOrder";
 import OrderStatus from "./pages/client/OrderStatus";
 import OrderDetail from "./pages/client/OrderDetail";
 import OrderHistory from "./pages/client/OrderHistory";
+import ClientNotifications from "./pages/client/Notifications";
 import AdminDashboard from "./pages/admin/Dashboard";
 import OrderManagement from "./pages/admin/OrderManagement";
 import AdminOrderDetail from "./pages/admin/OrderDetail";
 import ClientManagement from "./pages/admin/ClientManagement";
 import TeamManagement from "./pages/admin/TeamManagement";
 import Reports from "./pages/admin/Reports";
+import AdminOvenBatches from "./pages/admin/OvenBatches";
+import PowderInventory from "./pages/admin/PowderInventory";
+import ColorCatalog from "./pages/admin/ColorCatalog";
+import Pricing from "./pages/admin/Pricing";
+import AdminNotifications from "./pages/admin/Notifications";
+import EmailTemplates from "./pages/admin/EmailTemplates";
+import NotificationDeliveries from "./pages/admin/NotificationDeliveries";
 import TeamDashboard from "./pages/team/Dashboard";
 import TeamOrderDetail from "./pages/team/OrderDetail";
+import TeamOvenBatches from "./pages/team/OvenBatches";
+import TeamNotifications from "./pages/team/Notifications";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -117,6 +127,15 @@ const AppContent = () => {
           </AuthGuard>
         } 
       />
+      <Route
+        path="/client/notifications"
+        element={
+          <AuthGuard>
+            <Navigation isAdmin={false} onLogout={handleLogout} />
+            <ClientNotifications />
+          </AuthGuard>
+        }
+      />
       
       {/* Admin routes - Protected with admin role check */}
       <Route 
@@ -173,6 +192,69 @@ const AppContent = () => {
           </AuthGuard>
         } 
       />
+      <Route
+        path="/admin/oven-batches"
+        element={
+          <AuthGuard requireAdmin>
+            <Navigation isAdmin={true} onLogout={handleLogout} />
+            <AdminOvenBatches />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/admin/inventory"
+        element={
+          <AuthGuard requireAdmin>
+            <Navigation isAdmin={true} onLogout={handleLogout} />
+            <PowderInventory />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/admin/colors"
+        element={
+          <AuthGuard requireAdmin>
+            <Navigation isAdmin={true} onLogout={handleLogout} />
+            <ColorCatalog />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/admin/pricing"
+        element={
+          <AuthGuard requireAdmin>
+            <Navigation isAdmin={true} onLogout={handleLogout} />
+            <Pricing />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/admin/notifications"
+        element={
+          <AuthGuard requireAdmin>
+            <Navigation isAdmin={true} onLogout={handleLogout} />
+            <AdminNotifications />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/admin/email-templates"
+        element={
+          <AuthGuard requireAdmin>
+            <Navigation isAdmin={true} onLogout={handleLogout} />
+            <EmailTemplates />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/admin/deliveries"
+        element={
+          <AuthGuard requireAdmin>
+            <Navigation isAdmin={true} onLogout={handleLogout} />
+            <NotificationDeliveries />
+          </AuthGuard>
+        }
+      />
       
       {/* Team Member Routes */}
       <Route 
@@ -193,6 +275,24 @@ const AppContent = () => {
           </AuthGuard>
         } 
       />
+      <Route
+        path="/team/oven-batches"
+        element={
+          <AuthGuard requireTeamMember>
+            <Navigation isTeamMember={true} onLogout={handleLogout} />
+            <TeamOvenBatches />
+          </AuthGuard>
+        }
+      />
+      <Route
+        path="/team/notifications"
+        element={
+          <AuthGuard requireTeamMember>
+            <Navigation isTeamMember={true} onLogout={handleLogout} />
+            <TeamNotifications />
+          </AuthGuard>
+        }
+      />
       
       {/* 404 */}
       <Route path="*" element={<NotFound />} />
@@ -15,6 +15,7 @@ import {
   XCircle
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { ORDER_STATUS_STEPS, getStatusBadgeClass, getStatusLabel } from '@/lib/orderStatus';
 
 interface AdminDashboardProps {
   onViewChange: (view: string) => void;
@@ -121,35 +122,11 @@ export function AdminDashboard({ onViewChange }: AdminDashboardProps) {
   ];
 
   // Production stats using correct database enum values
-  const productionStats = [
-    { stage: 'Pending Quote', count: allOrders.filter(o => o.status === 'pending_quote').length, color: 'bg-yellow-500' },
-    { stage: 'Queued', count: allOrders.filter(o => o.status === 'queued').length, color: 'bg-blue-500' },
-    { stage: 'Sand Blasting', count: allOrders.filter(o => o.status === 'sand-blasting').length, color: 'bg-orange-500' },
-    { stage: 'Coating', count: allOrders.filter(o => o.status === 'coating').length, color: 'bg-primary' },
-    { stage: 'Curing', count: allOrders.filter(o => o.status === 'curing').length, color: 'bg-purple-500' },
-    { stage: 'Quality Check', count: allOrders.filter(o => o.status === 'quality-check').length, color: 'bg-indigo-500' },
-    { stage: 'Completed', count: allOrders.filter(o => o.status === 'completed').length, color: 'bg-green-500' },
-  ];
-
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      'pending_quote': 'bg-yellow-500 text-white',
-      'queued': 'bg-blue-500 text-white',
-      'sand-blasting': 'bg-orange-500 text-white',
-      'coating': 'bg-primary text-primary-foreground',
-      'curing': 'bg-purple-500 text-white',
-      'quality-check': 'bg-indigo-500 text-white',
-      'completed': 'bg-green-500 text-white',
-      'delayed': 'bg-red-500 text-white',
-    };
-    return colors[status] || 'bg-gray-100 text-gray-800';
-  };
-
-  const formatStatus = (status: string) => {
-    return status.split('-').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ').replace('_', ' ');
-  };
+  const productionStats = ORDER_STATUS_STEPS.map((step) => ({
+    stage: step.label,
+    count: allOrders.filter(o => o.status === step.key).length,
+    color: step.color,
+  }));
 
   const getPriorityColor = (priority: string) => {
     const colors: Record<string, string> = {
@@ -232,8 +209,8 @@ export function AdminDashboard({ onViewChange }: AdminDashboardProps) {
                         <Badge className={getPriorityColor(order.priority)}>
                           {order.priority}
                         </Badge>
-                        <Badge className={getStatusColor(order.status)}>
-                          {formatStatus(order.status)}
+                        <Badge className={getStatusBadgeClass(order.status)}>
+                          {getStatusLabel(order.status)}
                         </Badge>
                       </div>
                     </div>
@@ -2,17 +2,22 @@ import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Environment } from '@react-three/drei';
 import { useMemo } from 'react';
 import * as THREE from 'three';
+import { CoatingFinish, CoatingTexture } from '@/lib/colorCatalog';
 
+// Rendering settings come from the coating catalog
 interface CoatingPreview3DProps {
-  finish: 'matte' | 'glossy' | 'satin';
-  texture: 'smooth' | 'textured' | 'hammered';
+  finish: Pick<CoatingFinish, 'finish' | 'roughness' | 'metalness' | 'env_map_intensity'>;
+  texture: Pick<CoatingTexture, 'texture' | 'normal_scale'>;
   color: string;
 }
 
 function CoatedPanel({ finish, texture, color }: CoatingPreview3DProps) {
+  const surface = texture.texture;
+  const normalScale = Number(texture.normal_scale);
+
   // Create normal map textures procedurally with seeded random for consistency
   const normalMap = useMemo(() => {
-    if (texture === 'smooth') {
+    if (normalScale === 0) {
       return null;
     }
     
@@ -29,7 +34,7 @@ function CoatedPanel({ finish, texture, color }: CoatingPreview3DProps) {
     const imageData = ctx.getImageData(0, 0, size, size);
     const data = imageData.data;
     
-    if (texture === 'textured') {
+    if (surface !== 'hammered') {
       // Seeded random for consistent texture
       const seed = 12345;
       let seedValue = seed;
@@ -44,7 +49,7 @@ function CoatedPanel({ finish, texture, color }: CoatingPreview3DProps) {
         data[i] = Math.min(255, Math.max(0, 128 + variation));     // R
         data[i + 1] = Math.min(255, Math.max(0, 128 + variation)); // G
       }
-    } else if (texture === 'hammered') {
+    } else {
       // Seeded random for consistent dimples
       const seed = 54321;
       let seedValue = seed;
@@ -99,7 +104,7 @@ function CoatedPanel({ finish, texture, color }: CoatingPreview3DProps) {
     normalTexture.repeat.set(3, 3);
     normalTexture.needsUpdate = true;
     return normalTexture;
-  }, [texture]);
+  }, [surface, normalScale]);
 
   // Material properties based on finish type
   const materialProps = useMemo(() => {
@@ -114,41 +119,23 @@ function CoatedPanel({ finish, texture, color }: CoatingPreview3DProps) {
       envMapIntensity?: number;
     } = {
       color: baseColor,
-      roughness: 0.5,
-      metalness: 0.1,
+      roughness: Number(finish.roughness),
+      metalness: Number(finish.metalness),
+      envMapIntensity: Number(finish.env_map_intensity),
     };
     
-    switch (finish) {
-      case 'matte':
-        baseProps.roughness = 0.9;
-        baseProps.metalness = 0.05;
-        break;
-      case 'glossy':
-        baseProps.roughness = 0.1;
-        baseProps.metalness = 0.4;
-        baseProps.envMapIntensity = 1.5;
-        break;
-      case 'satin':
-        baseProps.roughness = 0.4;
-        baseProps.metalness = 0.2;
-        baseProps.envMapIntensity = 0.8;
-        break;
-    }
-    
     // Apply normal map based on texture
-    if (normalMap && texture !== 'smooth') {
+    if (normalMap) {
       baseProps.normalMap = normalMap;
-      baseProps.normalScale = texture === 'hammered' 
-        ? new THREE.Vector2(2, 2) 
-        : new THREE.Vector2(0.8, 0.8);
+      baseProps.normalScale = new THREE.Vector2(normalScale, normalScale);
     }
     
     return baseProps;
-  }, [finish, texture, color, normalMap]);
+  }, [finish, color, normalMap, normalScale]);
 
   return (
     <mesh 
-      key={`${finish}-${texture}-${color}`}
+      key={`${finish.finish}-${surface}-${color}`}
       rotation={[-Math.PI / 6, 0, 0]} 
       castShadow 
       receiveShadow
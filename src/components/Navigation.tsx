@@ -3,7 +3,7 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Bell, LogOut, Menu, X, Package, FileText, Clock, Users, BarChart, FileBarChart } from 'lucide-react';
+import { Bell, LogOut, Menu, X, Package, FileText, Clock, Users, BarChart, FileBarChart, Flame, Boxes, Palette, Calculator, Mail, Send } from 'lucide-react';
 import { NotificationsPopover } from './NotificationsPopover';
 import logo from '@/assets/logo.jpg';
 
@@ -33,11 +33,18 @@ export function Navigation({ isAdmin = false, isTeamMember = false, onLogout }:
     { label: 'Orders', path: '/admin/orders', icon: Package },
     { label: 'Clients', path: '/admin/clients', icon: Users },
     { label: 'Team', path: '/admin/team', icon: Users },
+    { label: 'Oven Batches', path: '/admin/oven-batches', icon: Flame },
+    { label: 'Inventory', path: '/admin/inventory', icon: Boxes },
+    { label: 'Colors', path: '/admin/colors', icon: Palette },
+    { label: 'Pricing', path: '/admin/pricing', icon: Calculator },
+    { label: 'Emails', path: '/admin/email-templates', icon: Mail },
+    { label: 'Deliveries', path: '/admin/deliveries', icon: Send },
     { label: 'Reports', path: '/admin/reports', icon: FileBarChart },
   ];
 
   const teamNav = [
     { label: 'Dashboard', path: '/team/dashboard', icon: BarChart },
+    { label: 'Oven Batches', path: '/team/oven-batches', icon: Flame },
   ];
 
   const navItems = isAdmin ? adminNav : isTeamMember ? teamNav : clientNav;
@@ -80,6 +87,7 @@ export function Navigation({ isAdmin = false, isTeamMember = false, onLogout }:
         .from('messages')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', user.id)
+        .is('archived_at', null)
         .eq('is_read', false);
 
       if (!error) {
@@ -149,6 +157,7 @@ export function Navigation({ isAdmin = false, isTeamMember = false, onLogout }:
                   fetchUnreadCount();
                 }}
                 isAdmin={isAdmin}
+                isTeamMember={isTeamMember}
               />
             </div>
 
@@ -0,0 +1,536 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import {
+  AlertTriangle,
+  Archive,
+  ArchiveRestore,
+  Bell,
+  CheckCheck,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Loader2,
+  Search,
+  Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import {
+  NOTIFICATIONS_PAGE_SIZE,
+  NOTIFICATION_EMAIL_EVENTS,
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_PRIORITIES,
+  NOTIFICATION_ROLE_EVENTS,
+  NOTIFICATION_SMS_EVENTS,
+  Notification,
+  NotificationEvent,
+  NotificationPreference,
+  NotificationRole,
+  fetchNotificationPreferences,
+  saveNotificationPreference,
+  toSearchPattern,
+} from '@/lib/notifications';
+import { normalizePhoneNumber } from '@/lib/phone';
+
+type NotificationWithOrder = Notification & { orders: { order_number: string } | null };
+
+interface NotificationCenterProps {
+  role: NotificationRole;
+  // Base path for order detail links, e.g. /admin/orders
+  orderPath: string;
+}
+
+const getPriorityIcon = (priority: string) => {
+  switch (priority) {
+    case 'high':
+      return <AlertTriangle className="w-4 h-4 text-destructive" />;
+    case 'medium':
+      return <Clock className="w-4 h-4 text-yellow-500" />;
+    default:
+      return <CheckCircle className="w-4 h-4 text-primary" />;
+  }
+};
+
+export function NotificationCenter({ role, orderPath }: NotificationCenterProps) {
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notifications, setNotifications] = useState<NotificationWithOrder[]>([]);
+  const [total, setTotal] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [view, setView] = useState<'inbox' | 'archived'>('inbox');
+  const [priority, setPriority] = useState('all');
+  const [orderFilter, setOrderFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(0);
+  const [orderOptions, setOrderOptions] = useState<{ id: string; order_number: string }[]>([]);
+  const [preferences, setPreferences] = useState<Record<NotificationEvent, NotificationPreference> | null>(null);
+  const [deleting, setDeleting] = useState<NotificationWithOrder | null>(null);
+  // E.164 number texts go to, null when the profile has no usable number
+  const [smsPhone, setSmsPhone] = useState<string | null>(null);
+
+  const preferenceEvents = NOTIFICATION_ROLE_EVENTS[role];
+  const smsEvents = NOTIFICATION_SMS_EVENTS[role];
+  const preferenceColumns =
+    smsEvents.length > 0 ? 'grid-cols-[1fr_4.5rem_4.5rem_4.5rem]' : 'grid-cols-[1fr_4.5rem_4.5rem]';
+  const pageCount = Math.max(1, Math.ceil(total / NOTIFICATIONS_PAGE_SIZE));
+
+  useEffect(() => {
+    const loadUser = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      try {
+        // Orders the user has notifications about, for the order filter
+        const [{ data: orderRows, error: ordersError }, savedPreferences, { data: profile }] = await Promise.all([
+          supabase
+            .from('messages')
+            .select('order_id, orders(order_number)')
+            .eq('user_id', user.id)
+            .not('order_id', 'is', null)
+            .order('created_at', { ascending: false })
+            .limit(1000),
+          fetchNotificationPreferences(user.id),
+          supabase.from('profiles').select('phone').eq('id', user.id).maybeSingle(),
+        ]);
+        if (ordersError) throw ordersError;
+
+        const options = new Map<string, string>();
+        for (const row of orderRows || []) {
+          if (row.order_id && row.orders) options.set(row.order_id, row.orders.order_number);
+        }
+        setOrderOptions(
+          Array.from(options, ([id, order_number]) => ({ id, order_number })).sort((a, b) =>
+            b.order_number.localeCompare(a.order_number)
+          )
+        );
+        setPreferences(savedPreferences);
+        setSmsPhone(normalizePhoneNumber(profile?.phone));
+      } catch (error) {
+        console.error('Error fetching notification settings:', error);
+      }
+    };
+
+    loadUser();
+  }, []);
+
+  // Wait for typing to settle before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(search.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchNotifications = async () => {
+      setLoading(true);
+      try {
+        let request = supabase
+          .from('messages')
+          .select('*, orders(order_number)', { count: 'exact' })
+          .eq('user_id', userId);
+
+        request = view === 'inbox' ? request.is('archived_at', null) : request.not('archived_at', 'is', null);
+        if (priority !== 'all') request = request.eq('priority', priority);
+        if (orderFilter !== 'all') request = request.eq('order_id', orderFilter);
+        if (query) {
+          const pattern = toSearchPattern(query);
+          request = request.or(`subject.ilike.${pattern},message.ilike.${pattern}`);
+        }
+
+        const from = page * NOTIFICATIONS_PAGE_SIZE;
+        const { data, count, error } = await request
+          .order('created_at', { ascending: false })
+          .range(from, from + NOTIFICATIONS_PAGE_SIZE - 1);
+        if (error) throw error;
+
+        setNotifications((data || []) as NotificationWithOrder[]);
+        setTotal(count || 0);
+      } catch (error) {
+        console.error('Error fetching notifications:', error);
+        toast.error('Failed to load notifications');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchNotifications();
+  }, [userId, view, priority, orderFilter, query, page, reloadKey]);
+
+  // Step back a page when the last item on it goes away
+  const reload = (removed = 0) => {
+    if (removed > 0 && removed >= notifications.length && page > 0) {
+      setPage(page - 1);
+    } else {
+      setReloadKey((key) => key + 1);
+    }
+  };
+
+  const updateFilter = (apply: () => void) => {
+    apply();
+    setPage(0);
+  };
+
+  const markAsRead = async (notification: NotificationWithOrder) => {
+    if (notification.is_read) return;
+    const { error } = await supabase.from('messages').update({ is_read: true }).eq('id', notification.id);
+    if (error) {
+      console.error('Error marking as read:', error);
+      return;
+    }
+    setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, is_read: true } : n)));
+  };
+
+  const markAllAsRead = async () => {
+    if (!userId) return;
+    const { error } = await supabase
+      .from('messages')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .is('archived_at', null)
+      .eq('is_read', false);
+    if (error) {
+      console.error('Error marking all as read:', error);
+      toast.error('Failed to mark notifications as read');
+      return;
+    }
+    reload();
+  };
+
+  const handleOpen = async (notification: NotificationWithOrder) => {
+    await markAsRead(notification);
+    if (notification.order_id) {
+      navigate(`${orderPath}/${notification.order_id}`);
+    }
+  };
+
+  const handleArchive = async (notification: NotificationWithOrder) => {
+    const archived = !notification.archived_at;
+    const { error } = await supabase
+      .from('messages')
+      .update({ archived_at: archived ? new Date().toISOString() : null, is_read: true })
+      .eq('id', notification.id);
+    if (error) {
+      console.error('Error archiving notification:', error);
+      toast.error(archived ? 'Failed to archive notification' : 'Failed to restore notification');
+      return;
+    }
+    toast.success(archived ? 'Notification archived' : 'Notification moved to inbox');
+    reload(1);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const { error } = await supabase.from('messages').delete().eq('id', deleting.id);
+    setDeleting(null);
+    if (error) {
+      console.error('Error deleting notification:', error);
+      toast.error('Failed to delete notification');
+      return;
+    }
+    toast.success('Notification deleted');
+    reload(1);
+  };
+
+  const handlePreferenceChange = async (event: NotificationEvent, channel: keyof NotificationPreference, value: boolean) => {
+    if (!userId || !preferences) return;
+
+    const previous = preferences[event];
+    const next = { ...previous, [channel]: value };
+    setPreferences({ ...preferences, [event]: next });
+    try {
+      await saveNotificationPreference(userId, event, next);
+    } catch (error) {
+      console.error('Error saving notification preference:', error);
+      toast.error('Failed to save preference');
+      setPreferences((current) => (current ? { ...current, [event]: previous } : current));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pt-20">
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+            <Bell className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold">Notifications</h1>
+            <p className="text-muted-foreground">Everything that has happened on your orders</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Tabs value={view} onValueChange={(value) => updateFilter(() => setView(value as 'inbox' | 'archived'))}>
+                <TabsList>
+                  <TabsTrigger value="inbox">Inbox</TabsTrigger>
+                  <TabsTrigger value="archived">Archived</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {view === 'inbox' && (
+                <Button variant="outline" size="sm" onClick={markAllAsRead}>
+                  <CheckCheck className="h-4 w-4 mr-2" />
+                  Mark all as read
+                </Button>
+              )}
+            </div>
+            <div className="grid gap-2 sm:grid-cols-[1fr_10rem_12rem]">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search notifications..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={priority} onValueChange={(value) => updateFilter(() => setPriority(value))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Priority" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All priorities</SelectItem>
+                  {NOTIFICATION_PRIORITIES.map((value) => (
+                    <SelectItem key={value} value={value} className="capitalize">
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={orderFilter} onValueChange={(value) => updateFilter(() => setOrderFilter(value))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Order" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All orders</SelectItem>
+                  {orderOptions.map((order) => (
+                    <SelectItem key={order.id} value={order.id}>
+                      {order.order_number}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">
+                {view === 'inbox' ? 'No notifications' : 'No archived notifications'}
+              </p>
+            ) : (
+              <div className="divide-y divide-border rounded-md border">
+                {notifications.map((notification) => (
+                  <div
+                    key={notification.id}
+                    className={cn('flex gap-3 p-4', !notification.is_read && 'bg-primary/5')}
+                  >
+                    <div className="mt-0.5">{getPriorityIcon(notification.priority)}</div>
+                    <button
+                      type="button"
+                      onClick={() => handleOpen(notification)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p
+                          className={cn(
+                            'text-sm font-medium',
+                            notification.is_read ? 'text-muted-foreground' : 'text-foreground'
+                          )}
+                        >
+                          {notification.subject}
+                        </p>
+                        {!notification.is_read && <span className="w-2 h-2 rounded-full bg-primary" />}
+                        <Badge variant="outline" className="text-xs">
+                          {NOTIFICATION_EVENT_LABELS[notification.event].label}
+                        </Badge>
+                        {notification.orders && (
+                          <Badge variant="secondary" className="text-xs">
+                            {notification.orders.order_number}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-0.5">{notification.message}</p>
+                      <p
+                        className="text-xs text-muted-foreground/70 mt-1"
+                        title={format(new Date(notification.created_at), 'PPpp')}
+                      >
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                      </p>
+                    </button>
+                    <div className="flex items-start gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleArchive(notification)}
+                        aria-label={notification.archived_at ? 'Move to inbox' : 'Archive'}
+                        title={notification.archived_at ? 'Move to inbox' : 'Archive'}
+                      >
+                        {notification.archived_at ? (
+                          <ArchiveRestore className="h-4 w-4" />
+                        ) : (
+                          <Archive className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => setDeleting(notification)}
+                        aria-label="Delete"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {total > NOTIFICATIONS_PAGE_SIZE && (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  {page * NOTIFICATIONS_PAGE_SIZE + 1}–{Math.min((page + 1) * NOTIFICATIONS_PAGE_SIZE, total)} of{' '}
+                  {total}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {page + 1} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {preferenceEvents.length > 0 && preferences && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Preferences</CardTitle>
+              <CardDescription>
+                Choose which events notify you here and which also send an email
+                {smsEvents.length > 0 && ' or a text message'}.
+                {smsEvents.length > 0 &&
+                  (smsPhone
+                    ? ` Texts go to ${smsPhone}.`
+                    : ' Texts need a valid mobile number on your profile.')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y divide-border">
+                <div className={cn('grid gap-4 pb-2 text-xs font-medium text-muted-foreground', preferenceColumns)}>
+                  <span>Event</span>
+                  <span className="text-center">In-app</span>
+                  <span className="text-center">Email</span>
+                  {smsEvents.length > 0 && <span className="text-center">SMS</span>}
+                </div>
+                {preferenceEvents.map((event) => (
+                  <div key={event} className={cn('grid items-center gap-4 py-3', preferenceColumns)}>
+                    <div>
+                      <p className="text-sm font-medium">{NOTIFICATION_EVENT_LABELS[event].label}</p>
+                      <p className="text-xs text-muted-foreground">{NOTIFICATION_EVENT_LABELS[event].description}</p>
+                    </div>
+                    <div className="flex justify-center">
+                      <Switch
+                        checked={preferences[event].in_app}
+                        onCheckedChange={(checked) => handlePreferenceChange(event, 'in_app', checked)}
+                        aria-label={`${NOTIFICATION_EVENT_LABELS[event].label} in-app notifications`}
+                      />
+                    </div>
+                    <div className="flex justify-center">
+                      {NOTIFICATION_EMAIL_EVENTS[role].includes(event) ? (
+                        <Switch
+                          checked={preferences[event].email}
+                          onCheckedChange={(checked) => handlePreferenceChange(event, 'email', checked)}
+                          aria-label={`${NOTIFICATION_EVENT_LABELS[event].label} emails`}
+                        />
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </div>
+                    {smsEvents.length > 0 && (
+                      <div className="flex justify-center">
+                        {smsEvents.includes(event) ? (
+                          <Switch
+                            checked={preferences[event].sms}
+                            onCheckedChange={(checked) => handlePreferenceChange(event, 'sms', checked)}
+                            disabled={!smsPhone && !preferences[event].sms}
+                            aria-label={`${NOTIFICATION_EVENT_LABELS[event].label} text messages`}
+                          />
+                        ) : (
+                          <span className="text-xs text-muted-foreground">—</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete notification?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.subject}" will be removed permanently. Archive it instead to keep it out of your inbox.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
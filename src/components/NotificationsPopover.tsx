@@ -21,10 +21,12 @@ interface NotificationsPopoverProps {
   isOpen: boolean;
   onClose: () => void;
   isAdmin?: boolean;
+  isTeamMember?: boolean;
 }
 
-export function NotificationsPopover({ isOpen, onClose, isAdmin = false }: NotificationsPopoverProps) {
+export function NotificationsPopover({ isOpen, onClose, isAdmin = false, isTeamMember = false }: NotificationsPopoverProps) {
   const navigate = useNavigate();
+  const basePath = isAdmin ? '/admin' : isTeamMember ? '/team' : '/client';
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -43,6 +45,7 @@ export function NotificationsPopover({ isOpen, onClose, isAdmin = false }: Notif
         .from('messages')
         .select('*')
         .eq('user_id', user.id)
+        .is('archived_at', null)
         .order('created_at', { ascending: false })
         .limit(10);
 
@@ -79,6 +82,7 @@ export function NotificationsPopover({ isOpen, onClose, isAdmin = false }: Notif
         .from('messages')
         .update({ is_read: true })
         .eq('user_id', user.id)
+        .is('archived_at', null)
         .eq('is_read', false);
 
       setNotifications(prev => prev.map(n => ({ ...n, is_read: true })));
@@ -92,13 +96,15 @@ export function NotificationsPopover({ isOpen, onClose, isAdmin = false }: Notif
     onClose();
     
     if (notification.order_id) {
-      const path = isAdmin 
-        ? `/admin/orders/${notification.order_id}`
-        : `/client/orders/${notification.order_id}`;
-      navigate(path);
+      navigate(`${basePath}/orders/${notification.order_id}`);
     }
   };
 
+  const handleViewAll = () => {
+    onClose();
+    navigate(`${basePath}/notifications`);
+  };
+
   const getPriorityIcon = (priority: string) => {
     switch (priority) {
       case 'high':
@@ -186,19 +192,22 @@ export function NotificationsPopover({ isOpen, onClose, isAdmin = false }: Notif
       </ScrollArea>
 
       {/* Footer */}
-      {notifications.length > 0 && (
-        <div className="p-3 border-t border-border bg-muted/30">
+      <div className="flex gap-2 p-3 border-t border-border bg-muted/30">
+        {notifications.length > 0 && (
           <Button
             variant="ghost"
             size="sm"
-            className="w-full text-primary hover:text-primary"
+            className="flex-1 text-primary hover:text-primary"
             onClick={markAllAsRead}
             disabled={unreadCount === 0}
           >
             Mark all as read
           </Button>
-        </div>
-      )}
+        )}
+        <Button variant="ghost" size="sm" className="flex-1" onClick={handleViewAll}>
+          View all
+        </Button>
+      </div>
     </div>
   );
 }
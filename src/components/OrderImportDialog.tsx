@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { ScrollArea } from './ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { CheckCircle2, Download, FileSpreadsheet, Loader2, Upload, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchColorCatalog } from '@/lib/colorCatalog';
+import { SpreadsheetFormat, downloadSpreadsheet, readSpreadsheet } from '@/lib/spreadsheet';
+import {
+  IMPORT_COLUMNS,
+  ImportRowResult,
+  MAX_IMPORT_ROWS,
+  RawImportRow,
+  downloadImportTemplate,
+  isBlankImportRow,
+  mapImportHeaders,
+  toRawImportRow,
+  validateImportRow,
+} from '@/lib/orderImport';
+import { normalizePhoneNumber } from '@/lib/phone';
+
+interface ParsedRow {
+  row: number;
+  values: RawImportRow;
+  errors?: string[];
+}
+
+interface OrderImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export function OrderImportDialog({ open, onOpenChange, onImported }: OrderImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [fileFormat, setFileFormat] = useState<SpreadsheetFormat>('csv');
+  const [parsing, setParsing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [rows, setRows] = useState<ParsedRow[]>([]);
+  const [results, setResults] = useState<ImportRowResult[] | null>(null);
+
+  const validRows = rows.filter((row) => !row.errors);
+  const invalidRows = rows.filter((row) => row.errors);
+
+  // Rows the browser already rejected never reach the server, so the report merges both
+  const report: ImportRowResult[] = results
+    ? [...invalidRows.map((row) => ({ row: row.row, success: false, errors: row.errors })), ...results].sort(
+        (a, b) => a.row - b.row
+      )
+    : invalidRows.map((row) => ({ row: row.row, success: false, errors: row.errors }));
+  const failedRows = report.filter((result) => !result.success);
+
+  const reset = () => {
+    setFileName('');
+    setRows([]);
+    setResults(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (importing) return;
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const lowerName = file.name.toLowerCase();
+    if (!lowerName.endsWith('.csv') && !lowerName.endsWith('.xlsx')) {
+      toast.error('Upload a .csv or .xlsx file');
+      return;
+    }
+
+    reset();
+    setParsing(true);
+    try {
+      const [cells, catalog] = await Promise.all([readSpreadsheet(file), fetchColorCatalog()]);
+
+      const headerIndex = cells.findIndex((row) => row.some((cell) => cell.trim()));
+      if (headerIndex === -1) {
+        toast.error('The file is empty');
+        return;
+      }
+
+      const { mapping, missing } = mapImportHeaders(cells[headerIndex]);
+      if (missing.length > 0) {
+        toast.error(`Missing columns: ${missing.join(', ')}. Start from the template.`);
+        return;
+      }
+
+      const parsed = cells
+        .map((cellRow, index) => ({ row: index + 1, values: toRawImportRow(cellRow, mapping) }))
+        .slice(headerIndex + 1)
+        .filter((row) => !isBlankImportRow(row.values));
+
+      if (parsed.length === 0) {
+        toast.error('The file has no order rows');
+        return;
+      }
+      if (parsed.length > MAX_IMPORT_ROWS) {
+        toast.error(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+        return;
+      }
+
+      setFileName(file.name);
+      setFileFormat(lowerName.endsWith('.csv') ? 'csv' : 'xlsx');
+      setRows(
+        parsed.map((row) => {
+          const validation = validateImportRow(row.values, catalog.colors, normalizePhoneNumber);
+          return validation.errors ? { ...row, errors: validation.errors } : row;
+        })
+      );
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Could not read the file');
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) return;
+
+    setImporting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('import-walk-in-orders', {
+        body: { rows: validRows.map(({ row, values }) => ({ row, values })) },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setResults(data.results);
+      if (data.created > 0) {
+        toast.success(`Created ${data.created} order${data.created === 1 ? '' : 's'}`);
+        onImported();
+      }
+      if (data.failed > 0) {
+        toast.error(`${data.failed} row${data.failed === 1 ? '' : 's'} could not be imported`);
+      }
+    } catch (error) {
+      console.error('Error importing orders:', error);
+      toast.error('Failed to import orders');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDownloadErrors = async () => {
+    const valuesByRow = new Map(rows.map((row) => [row.row, row.values]));
+    await downloadSpreadsheet(
+      fileFormat,
+      `${fileName.replace(/\.(csv|xlsx)$/i, '')}-errors`,
+      ['Row', 'Errors', ...IMPORT_COLUMNS.map((column) => column.header)],
+      failedRows.map((result) => [
+        result.row,
+        (result.errors || []).join('; '),
+        ...IMPORT_COLUMNS.map((column) => valuesByRow.get(result.row)?.[column.key] || ''),
+      ]),
+      'Errors'
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Walk-in Orders</DialogTitle>
+          <DialogDescription>
+            Create orders from a spreadsheet, one order per row. Customers are matched by email or phone number and
+            get a client account if they don't have one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Template:</span>
+            <Button variant="outline" size="sm" onClick={() => downloadImportTemplate('xlsx')}>
+              <Download className="h-4 w-4 mr-2" />
+              Excel
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => downloadImportTemplate('csv')}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="order-import-file">Spreadsheet (.xlsx or .csv)</Label>
+            <Input
+              id="order-import-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              disabled={parsing || importing}
+            />
+            <p className="text-xs text-muted-foreground">
+              Finish: matte, glossy or satin. Texture: smooth, textured or hammered. Priority: low, medium, high or
+              urgent. Color: a catalog name, RAL code or hex code.
+            </p>
+          </div>
+
+          {parsing && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking rows...
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
+                <span className="text-sm font-medium">{fileName}</span>
+                {results ? (
+                  <>
+                    <Badge variant="secondary">
+                      {results.filter((result) => result.success).length} created
+                    </Badge>
+                    {failedRows.length > 0 && <Badge variant="destructive">{failedRows.length} failed</Badge>}
+                  </>
+                ) : (
+                  <>
+                    <Badge variant="secondary">{validRows.length} ready</Badge>
+                    {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} with errors</Badge>}
+                  </>
+                )}
+              </div>
+
+              {report.length > 0 && (
+                <ScrollArea className="h-64 rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        <TableHead>Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.map((result) => (
+                        <TableRow key={result.row}>
+                          <TableCell className="font-medium">{result.row}</TableCell>
+                          <TableCell>
+                            {result.success ? (
+                              <span className="flex items-center gap-2 text-sm">
+                                <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />
+                                {result.order_number} for {result.customer}
+                              </span>
+                            ) : (
+                              <div className="flex items-start gap-2 text-sm">
+                                <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                                <ul className="space-y-0.5">
+                                  {(result.errors || []).map((message) => (
+                                    <li key={message}>{message}</li>
+                                  ))}
+                                </ul>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              )}
+
+              {failedRows.length > 0 && (
+                <Button variant="outline" size="sm" onClick={handleDownloadErrors}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Error Report
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importing}>
+            {results ? 'Close' : 'Cancel'}
+          </Button>
+          {!results && (
+            <Button onClick={handleImport} disabled={importing || validRows.length === 0}>
+              {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Import {validRows.length} Order{validRows.length === 1 ? '' : 's'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
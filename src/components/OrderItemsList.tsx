@@ -0,0 +1,78 @@
+import { Badge } from '@/components/ui/badge';
+import { getColorLabel } from '@/lib/colorCatalog';
+import { formatArea, formatGeometry } from '@/lib/geometry';
+import { OrderItem } from '@/lib/orderItems';
+
+interface OrderItemsListProps {
+  items: OrderItem[];
+  showQuotes?: boolean;
+}
+
+export function OrderItemsList({ items, showQuotes = false }: OrderItemsListProps) {
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">No items recorded for this order.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((item) => {
+        const coating = item.order_customizations;
+        const size = formatGeometry(item);
+
+        return (
+          <div key={item.id} className="p-4 border rounded-lg space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-medium">
+                  {items.length > 1 && <span className="text-muted-foreground">{item.position}. </span>}
+                  {item.description}
+                </p>
+                <p className="text-sm text-muted-foreground">{item.quantity} pieces</p>
+              </div>
+              {showQuotes && item.quoted_price !== null && (
+                <span className="font-semibold">₱{Number(item.quoted_price).toLocaleString()}</span>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Size</p>
+                <p className="font-medium">{size || item.dimensions || 'Not specified'}</p>
+                {size && item.dimensions && <p className="text-muted-foreground">{item.dimensions}</p>}
+              </div>
+              <div>
+                <p className="text-muted-foreground">Surface Area</p>
+                <p className="font-medium">
+                  {item.surface_area_sqm
+                    ? `${formatArea(item.surface_area_sqm)} per piece · ${formatArea(item.surface_area_sqm * item.quantity)} total`
+                    : 'Not calculated'}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Coating</p>
+                {coating ? (
+                  <div className="flex items-center gap-2">
+                    <div className="h-5 w-5 rounded border" style={{ backgroundColor: coating.color }} />
+                    <span className="font-medium">{getColorLabel(coating)}</span>
+                    <Badge variant="secondary" className="capitalize">
+                      {coating.finish} / {coating.texture}
+                    </Badge>
+                  </div>
+                ) : (
+                  <p className="font-medium">Not specified</p>
+                )}
+              </div>
+            </div>
+
+            {coating?.custom_notes && (
+              <p className="text-sm">
+                <span className="text-muted-foreground">Coating notes: </span>
+                {coating.custom_notes}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState, useEffect, useRef } from 'react';
+import { format, isToday } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Check, CheckCheck, FileText, Loader2, MessageSquare, Paperclip, Send, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  OrderMessage,
+  OrderMessageAttachment,
+  OrderMessageRead,
+  THREAD_ROLE_LABELS,
+  fetchOrderThread,
+  isShopRole,
+  markThreadRead,
+  openMessageAttachment,
+  uploadMessageAttachment,
+} from '@/lib/orderMessages';
+
+const MAX_ATTACHMENTS = 5;
+
+interface OrderMessagesProps {
+  orderId: string;
+  // Clients see the shop's side as one voice; staff see who wrote each message
+  viewer: 'client' | 'shop';
+}
+
+const formatMessageTime = (value: string) =>
+  isToday(new Date(value)) ? format(new Date(value), 'h:mm a') : format(new Date(value), 'MMM d, h:mm a');
+
+export function OrderMessages({ orderId, viewer }: OrderMessagesProps) {
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<OrderMessage[]>([]);
+  const [reads, setReads] = useState<OrderMessageRead[]>([]);
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [sending, setSending] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        setUserId(user?.id ?? null);
+
+        const thread = await fetchOrderThread(orderId);
+        setMessages(thread.messages);
+        setReads(thread.reads);
+      } catch (error) {
+        console.error('Error fetching messages:', error);
+        toast.error('Failed to load messages');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+
+    const channel = supabase
+      .channel(`order-messages-${orderId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'order_messages', filter: `order_id=eq.${orderId}` },
+        (payload) => {
+          const message = payload.new as OrderMessage;
+          setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'order_message_reads', filter: `order_id=eq.${orderId}` },
+        (payload) => {
+          const read = payload.new as OrderMessageRead;
+          if (!read?.user_id) return;
+          setReads((prev) => [...prev.filter((r) => r.user_id !== read.user_id), read]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [orderId]);
+
+  // Keep the newest message in view and mark the thread read while it is open
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+
+    if (userId && lastMessage && lastMessage.author_id !== userId) {
+      markThreadRead(orderId, userId).catch((error) => console.error('Error marking messages read:', error));
+    }
+  }, [orderId, userId, lastMessage]);
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const rejected = selected.filter((file) => !ATTACHMENT_TYPES.includes(file.type) || file.size > MAX_ATTACHMENT_SIZE);
+    if (rejected.length > 0) {
+      toast.error('Attach images or PDFs under 10MB');
+    }
+
+    const accepted = selected.filter((file) => !rejected.includes(file));
+    if (files.length + accepted.length > MAX_ATTACHMENTS) {
+      toast.error(`Attach up to ${MAX_ATTACHMENTS} files per message`);
+      return;
+    }
+    setFiles((prev) => [...prev, ...accepted]);
+  };
+
+  const handleSend = async () => {
+    const trimmed = body.trim();
+    if (!trimmed && files.length === 0) return;
+
+    setSending(true);
+    try {
+      const attachments: OrderMessageAttachment[] = [];
+      for (const file of files) {
+        attachments.push(await uploadMessageAttachment(orderId, file));
+      }
+
+      // Author, role and name are filled in by the database
+      const { data, error } = await supabase
+        .from('order_messages')
+        .insert({ order_id: orderId, body: trimmed, attachments })
+        .select()
+        .single();
+      if (error) throw error;
+
+      const message = data as unknown as OrderMessage;
+      setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      setBody('');
+      setFiles([]);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast.error('Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleOpenAttachment = async (attachment: OrderMessageAttachment) => {
+    try {
+      await openMessageAttachment(attachment);
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      toast.error('Failed to open attachment');
+    }
+  };
+
+  // Read by someone on the other side of the conversation
+  const isSeen = (message: OrderMessage) =>
+    reads.some(
+      (read) =>
+        read.user_id !== message.author_id &&
+        isShopRole(read.reader_role) !== isShopRole(message.author_role) &&
+        new Date(read.last_read_at) >= new Date(message.created_at)
+    );
+
+  const getAuthorLabel = (message: OrderMessage) => {
+    if (message.author_id === userId) return 'You';
+    if (viewer === 'client' && isShopRole(message.author_role)) return 'Top Powdercoating';
+    return message.author_name || THREAD_ROLE_LABELS[message.author_role];
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Messages
+        </CardTitle>
+        <CardDescription>
+          {viewer === 'client'
+            ? 'Questions or changes? Message the shop about this order.'
+            : 'Conversation with the client about this order.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div ref={scrollRef} className="max-h-96 overflow-y-auto space-y-3 pr-1">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No messages yet.</p>
+          ) : (
+            messages.map((message) => {
+              const isOwn = message.author_id === userId;
+              return (
+                <div key={message.id} className={cn('flex flex-col', isOwn ? 'items-end' : 'items-start')}>
+                  <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{getAuthorLabel(message)}</span>
+                    {viewer === 'shop' && !isOwn && (
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                        {THREAD_ROLE_LABELS[message.author_role]}
+                      </Badge>
+                    )}
+                    <span>{formatMessageTime(message.created_at)}</span>
+                  </div>
+                  <div
+                    className={cn(
+                      'max-w-[85%] rounded-lg px-3 py-2 text-sm space-y-2',
+                      isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                    )}
+                  >
+                    {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+                    {message.attachments.map((attachment) => (
+                      <button
+                        key={attachment.path}
+                        type="button"
+                        onClick={() => handleOpenAttachment(attachment)}
+                        className="flex items-center gap-2 text-left underline-offset-2 hover:underline"
+                      >
+                        <FileText className="h-4 w-4 shrink-0" />
+                        <span className="truncate">{attachment.file_name}</span>
+                        <span className="text-xs opacity-70 shrink-0">{(attachment.file_size / 1024).toFixed(0)} KB</span>
+                      </button>
+                    ))}
+                  </div>
+                  {isOwn && (
+                    <span className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                      {isSeen(message) ? (
+                        <>
+                          <CheckCheck className="h-3 w-3 text-primary" />
+                          Seen
+                        </>
+                      ) : (
+                        <>
+                          <Check className="h-3 w-3" />
+                          Sent
+                        </>
+                      )}
+                    </span>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {files.map((file, index) => (
+                <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1">
+                  <Paperclip className="h-3 w-3" />
+                  <span className="max-w-[10rem] truncate">{file.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                    aria-label={`Remove ${file.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Textarea
+            placeholder="Write a message..."
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={handleKeyDown}
+            maxLength={4000}
+            rows={3}
+            disabled={sending}
+          />
+          <div className="flex items-center justify-between">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_TYPES.join(',')}
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} disabled={sending}>
+              <Paperclip className="h-4 w-4 mr-2" />
+              Attach
+            </Button>
+            <Button size="sm" onClick={handleSend} disabled={sending || (!body.trim() && files.length === 0)}>
+              {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Separator } from './ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Wallet, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { formatPeso } from '@/lib/currency';
+import {
+  OrderBalance,
+  Payment,
+  PaymentMethod,
+  PaymentType,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_TYPE_LABELS,
+  fetchOrderPayments,
+} from '@/lib/payments';
+
+interface OrderPaymentsProps {
+  orderId: string;
+  // Reloads the balance when the quote changes
+  quotedPrice: number | null;
+  // Admins record and remove payments; clients only see them
+  canRecord?: boolean;
+  onPaymentsChange?: () => void;
+}
+
+export function OrderPayments({ orderId, quotedPrice, canRecord = false, onPaymentsChange }: OrderPaymentsProps) {
+  const [loading, setLoading] = useState(true);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [balance, setBalance] = useState<OrderBalance | null>(null);
+  const [recorders, setRecorders] = useState<Record<string, string>>({});
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // New payment
+  const [paymentType, setPaymentType] = useState<PaymentType>('deposit');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [amount, setAmount] = useState('');
+  const [referenceNumber, setReferenceNumber] = useState('');
+  const [paidOn, setPaidOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { payments: loadedPayments, balance: loadedBalance } = await fetchOrderPayments(orderId);
+        setPayments(loadedPayments);
+        setBalance(loadedBalance);
+
+        const recorderIds = [...new Set(loadedPayments.map((p) => p.recorded_by).filter(Boolean))];
+        if (canRecord && recorderIds.length > 0) {
+          const { data: profiles } = await supabase.from('profiles').select('id, full_name').in('id', recorderIds);
+          setRecorders(Object.fromEntries((profiles || []).map((profile) => [profile.id, profile.full_name])));
+        }
+      } catch (error) {
+        console.error('Error fetching payments:', error);
+        toast.error('Failed to load payments');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [orderId, quotedPrice, canRecord, reloadKey]);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setPaymentType('deposit');
+    setMethod('cash');
+    setAmount('');
+    setReferenceNumber('');
+    setPaidOn(format(new Date(), 'yyyy-MM-dd'));
+    setNotes('');
+  };
+
+  const handleRecordPayment = async () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      toast.error('Enter an amount greater than zero');
+      return;
+    }
+
+    if (method !== 'cash' && !referenceNumber.trim()) {
+      toast.error(`A reference number is required for ${PAYMENT_METHOD_LABELS[method]} payments`);
+      return;
+    }
+
+    if (!paidOn) {
+      toast.error('Enter the date the payment was received');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase.from('payments').insert({
+        order_id: orderId,
+        payment_type: paymentType,
+        method,
+        amount: value,
+        reference_number: referenceNumber.trim() || null,
+        notes: notes.trim() || null,
+        paid_at: new Date(`${paidOn}T12:00:00`).toISOString(),
+        recorded_by: user?.id,
+      });
+
+      if (error) throw error;
+
+      toast.success(`${PAYMENT_TYPE_LABELS[paymentType]} of ${formatPeso(value)} recorded`);
+      resetForm();
+      setReloadKey((key) => key + 1);
+      onPaymentsChange?.();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error('Failed to record payment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePayment = async (payment: Payment) => {
+    try {
+      const { error } = await supabase.from('payments').delete().eq('id', payment.id);
+      if (error) throw error;
+
+      toast.success('Payment removed');
+      setReloadKey((key) => key + 1);
+      onPaymentsChange?.();
+    } catch (error) {
+      console.error('Error removing payment:', error);
+      toast.error('Failed to remove payment');
+    }
+  };
+
+  const depositOutstanding =
+    balance && balance.deposit_required > 0 && balance.amount_paid < balance.deposit_required
+      ? balance.deposit_required - balance.amount_paid
+      : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Payments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {balance && balance.total_due !== null ? (
+              <div className="text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Total (incl. VAT)</span>
+                  <span>{formatPeso(balance.total_due)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Paid</span>
+                  <span>{formatPeso(balance.amount_paid)}</span>
+                </div>
+                <Separator />
+                <div className="flex justify-between font-semibold">
+                  <span>Balance Due</span>
+                  {balance.balance_due <= 0 ? (
+                    <Badge className="bg-green-500 text-white">Paid in Full</Badge>
+                  ) : (
+                    <span>{formatPeso(balance.balance_due)}</span>
+                  )}
+                </div>
+                {balance.balance_due > 0 && (
+                  <p className="text-xs text-muted-foreground">Balance is due on pickup.</p>
+                )}
+                {depositOutstanding > 0 && (
+                  <p className="text-xs text-yellow-700 dark:text-yellow-400">
+                    A deposit of {formatPeso(balance.deposit_required)} is required before the order can be completed.{' '}
+                    {formatPeso(depositOutstanding)} outstanding.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">The balance will be shown once the order is quoted.</p>
+            )}
+
+            {payments.length > 0 && (
+              <div className="space-y-2">
+                {payments.map((payment) => (
+                  <div key={payment.id} className="flex items-start justify-between gap-2 p-3 border rounded-lg text-sm">
+                    <div>
+                      <p className="font-medium">
+                        {formatPeso(payment.amount)} · {PAYMENT_TYPE_LABELS[payment.payment_type]}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {PAYMENT_METHOD_LABELS[payment.method]}
+                        {payment.reference_number && ` #${payment.reference_number}`} ·{' '}
+                        {format(new Date(payment.paid_at), 'MMM d, yyyy')}
+                      </p>
+                      {canRecord && payment.recorded_by && recorders[payment.recorded_by] && (
+                        <p className="text-xs text-muted-foreground">Recorded by {recorders[payment.recorded_by]}</p>
+                      )}
+                      {payment.notes && <p className="text-xs text-muted-foreground">{payment.notes}</p>}
+                    </div>
+                    {canRecord && (
+                      <Button variant="ghost" size="icon" onClick={() => handleDeletePayment(payment)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canRecord &&
+              (showForm ? (
+                <div className="space-y-3 p-3 border rounded-lg">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label>Type</Label>
+                      <Select value={paymentType} onValueChange={(value) => setPaymentType(value as PaymentType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PAYMENT_TYPE_LABELS) as PaymentType[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {PAYMENT_TYPE_LABELS[type]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Method</Label>
+                      <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {PAYMENT_METHOD_LABELS[option]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="paymentAmount">Amount (₱)</Label>
+                      <Input
+                        id="paymentAmount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="paymentDate">Received On</Label>
+                      <Input id="paymentDate" type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentReference">Reference Number</Label>
+                    <Input
+                      id="paymentReference"
+                      placeholder={method === 'cash' ? 'Receipt number (optional)' : 'Transaction or check number'}
+                      value={referenceNumber}
+                      onChange={(e) => setReferenceNumber(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="paymentNotes">Notes (optional)</Label>
+                    <Input id="paymentNotes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button className="flex-1" onClick={handleRecordPayment} disabled={saving}>
+                      {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Record Payment
+                    </Button>
+                    <Button variant="outline" onClick={resetForm}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button variant="outline" className="w-full" onClick={() => setShowForm(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record Payment
+                </Button>
+              ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,461 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, addMinutes } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Checkbox } from './ui/checkbox';
+import { ScrollArea } from './ui/scroll-area';
+import { Flame, Loader2, Play, CheckCircle, Trash2, Thermometer, Timer } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { getStatusBadgeClass, getStatusLabel } from '@/lib/orderStatus';
+
+type CuringQueueOrder = Database['public']['Functions']['get_curing_queue']['Returns'][number];
+
+interface OvenBatch {
+  id: string;
+  batch_number: string;
+  oven: string;
+  color: string;
+  finish: string;
+  cure_temperature: number;
+  cure_minutes: number;
+  status: Database['public']['Enums']['oven_batch_status'];
+  notes: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+  created_at: string;
+  oven_batch_orders: { order_id: string }[];
+}
+
+interface OvenBatchesProps {
+  // Base path for order detail links, e.g. /admin/orders
+  orderPath: string;
+}
+
+const batchStatusClasses: Record<OvenBatch['status'], string> = {
+  planned: 'bg-blue-500 text-white',
+  curing: 'bg-orange-500 text-white',
+  completed: 'bg-green-500 text-white',
+};
+
+// Orders can share the oven when their powder color and finish match
+const getCompatibilityKey = (order: Pick<CuringQueueOrder, 'color' | 'finish'>) =>
+  `${order.color.toUpperCase()}|${order.finish}`;
+
+// Mixed-color orders have a queue row per coating
+const getQueueKey = (order: CuringQueueOrder) => `${order.order_id}|${getCompatibilityKey(order)}`;
+
+export function OvenBatches({ orderPath }: OvenBatchesProps) {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [authorized, setAuthorized] = useState(true);
+  const [queue, setQueue] = useState<CuringQueueOrder[]>([]);
+  const [batches, setBatches] = useState<OvenBatch[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [oven, setOven] = useState('');
+  const [cureTemperature, setCureTemperature] = useState('200');
+  const [cureMinutes, setCureMinutes] = useState('20');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [updatingBatchId, setUpdatingBatchId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const { data: queueData, error: queueError } = await supabase.rpc('get_curing_queue');
+
+      if (queueError) {
+        // Only admins and the Curing department can plan batches
+        setAuthorized(false);
+        return;
+      }
+      setQueue(queueData || []);
+
+      const { data: batchData, error: batchError } = await supabase
+        .from('oven_batches')
+        .select('*, oven_batch_orders(order_id)')
+        .order('created_at', { ascending: false })
+        .limit(30);
+
+      if (batchError) throw batchError;
+      setBatches(batchData || []);
+    } catch (error) {
+      console.error('Error fetching oven batches:', error);
+      toast.error('Failed to load oven batches');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unbatchedOrders = queue.filter((order) => !order.batch_id && order.color);
+  const compatibilityGroups = unbatchedOrders.reduce<Record<string, CuringQueueOrder[]>>((groups, order) => {
+    const key = getCompatibilityKey(order);
+    groups[key] = [...(groups[key] || []), order];
+    return groups;
+  }, {});
+
+  // Colors of each order still to cure, batched or not
+  const colorCounts = queue.reduce<Record<string, number>>((counts, order) => {
+    if (order.color) counts[order.order_id] = (counts[order.order_id] || 0) + 1;
+    return counts;
+  }, {});
+
+  const selectedOrders = unbatchedOrders.filter((order) => selectedKeys.includes(getQueueKey(order)));
+  const selectedKey = selectedOrders[0] ? getCompatibilityKey(selectedOrders[0]) : null;
+
+  const toggleOrder = (order: CuringQueueOrder) => {
+    const key = getQueueKey(order);
+    setSelectedKeys((prev) => {
+      if (prev.includes(key)) return prev.filter((selected) => selected !== key);
+      // Picking an order from another color/finish group starts a new selection
+      return selectedKey === getCompatibilityKey(order) ? [...prev, key] : [key];
+    });
+  };
+
+  const handleCreateBatch = async () => {
+    if (selectedOrders.length === 0 || !oven.trim()) {
+      toast.error('Select orders and enter the oven');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('create_oven_batch', {
+        _oven: oven.trim(),
+        _cure_temperature: parseFloat(cureTemperature),
+        _cure_minutes: parseInt(cureMinutes, 10),
+        _order_ids: selectedOrders.map((order) => order.order_id),
+        _color: selectedOrders[0].color,
+        _finish: selectedOrders[0].finish,
+        _notes: notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success(`Batch ${data.batch_number} planned`);
+      setSelectedKeys([]);
+      setNotes('');
+      await fetchData();
+    } catch (error) {
+      console.error('Error creating oven batch:', error);
+      toast.error('Failed to create oven batch');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStartBatch = async (batch: OvenBatch) => {
+    setUpdatingBatchId(batch.id);
+    try {
+      const { error } = await supabase.rpc('start_oven_batch', { _batch_id: batch.id });
+      if (error) throw error;
+
+      toast.success(`Batch ${batch.batch_number} is in the oven`);
+      await fetchData();
+    } catch (error) {
+      console.error('Error starting oven batch:', error);
+      toast.error('Failed to start batch. Every order must be in curing first.');
+    } finally {
+      setUpdatingBatchId(null);
+    }
+  };
+
+  const handleCompleteBatch = async (batch: OvenBatch) => {
+    setUpdatingBatchId(batch.id);
+    try {
+      const { error } = await supabase.rpc('complete_oven_batch', { _batch_id: batch.id });
+      if (error) throw error;
+
+      toast.success(`Batch ${batch.batch_number} completed and orders moved to their next stage`);
+      await fetchData();
+    } catch (error) {
+      console.error('Error completing oven batch:', error);
+      toast.error('Failed to complete batch');
+    } finally {
+      setUpdatingBatchId(null);
+    }
+  };
+
+  const handleDeleteBatch = async (batch: OvenBatch) => {
+    setUpdatingBatchId(batch.id);
+    try {
+      const { error } = await supabase.from('oven_batches').delete().eq('id', batch.id);
+      if (error) throw error;
+
+      toast.success(`Batch ${batch.batch_number} removed`);
+      await fetchData();
+    } catch (error) {
+      console.error('Error deleting oven batch:', error);
+      toast.error('Failed to remove batch');
+    } finally {
+      setUpdatingBatchId(null);
+    }
+  };
+
+  const getOrder = (orderId: string) => queue.find((order) => order.order_id === orderId);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background pt-20">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!authorized) {
+    return (
+      <div className="min-h-screen bg-background pt-20">
+        <div className="container mx-auto px-4 py-8 max-w-7xl text-center">
+          <h2 className="text-2xl font-bold mb-2">Oven batches</h2>
+          <p className="text-muted-foreground">Oven batches are planned by admins and the Curing team.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const openBatches = batches.filter((batch) => batch.status !== 'completed');
+  const completedBatches = batches.filter((batch) => batch.status === 'completed');
+
+  return (
+    <ScrollArea className="h-screen">
+      <div className="min-h-screen bg-background pt-20">
+        <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-4">
+            <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+              <Flame className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Oven Batches</h1>
+              <p className="text-muted-foreground">Group orders with the same color and finish into one cure cycle</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Planner */}
+            <div className="lg:col-span-2 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Ready to Batch</CardTitle>
+                  <CardDescription>
+                    Orders in curing or coming out of coating, grouped by color and finish. Orders with several
+                    colors are listed under each and move on once every color has been cured.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {Object.keys(compatibilityGroups).length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No orders are waiting for the oven</p>
+                  ) : (
+                    Object.entries(compatibilityGroups).map(([key, orders]) => (
+                      <div key={key} className="border rounded-lg p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <div
+                            className="h-5 w-5 rounded border"
+                            style={{ backgroundColor: orders[0].color.startsWith('#') ? orders[0].color : undefined }}
+                          />
+                          <span className="font-medium">{orders[0].color.toUpperCase()}</span>
+                          <Badge variant="outline" className="capitalize">{orders[0].finish}</Badge>
+                          <span className="text-xs text-muted-foreground ml-auto">{orders.length} orders</span>
+                        </div>
+                        {orders.map((order) => (
+                          <div key={getQueueKey(order)} className="flex items-center gap-3 p-2 rounded hover:bg-accent">
+                            <Checkbox
+                              id={`batch-${getQueueKey(order)}`}
+                              checked={selectedKeys.includes(getQueueKey(order))}
+                              onCheckedChange={() => toggleOrder(order)}
+                            />
+                            <label htmlFor={`batch-${getQueueKey(order)}`} className="flex-1 text-sm cursor-pointer">
+                              <span className="font-medium">{order.order_number}</span>
+                              <span className="text-muted-foreground"> • {order.project_name} • {order.quantity} pcs</span>
+                            </label>
+                            {colorCounts[order.order_id] > 1 && (
+                              <Badge variant="outline">{colorCounts[order.order_id]} colors</Badge>
+                            )}
+                            <Badge className={getStatusBadgeClass(order.status)}>{getStatusLabel(order.status)}</Badge>
+                            <Badge variant="outline" className="capitalize">{order.priority}</Badge>
+                          </div>
+                        ))}
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Open Batches */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Open Batches</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {openBatches.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No batches planned or curing</p>
+                  ) : (
+                    openBatches.map((batch) => (
+                      <div key={batch.id} className="border rounded-lg p-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-semibold">{batch.batch_number}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {batch.oven} • {batch.color.toUpperCase()} <span className="capitalize">{batch.finish}</span>
+                            </p>
+                          </div>
+                          <Badge className={`capitalize ${batchStatusClasses[batch.status]}`}>{batch.status}</Badge>
+                        </div>
+                        <div className="flex flex-wrap gap-4 text-sm">
+                          <span className="flex items-center gap-1">
+                            <Thermometer className="h-4 w-4 text-muted-foreground" />
+                            {batch.cure_temperature}°C
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Timer className="h-4 w-4 text-muted-foreground" />
+                            {batch.cure_minutes} min
+                          </span>
+                          {batch.started_at && (
+                            <span className="text-muted-foreground">
+                              In {format(new Date(batch.started_at), 'HH:mm')} • Out{' '}
+                              {format(addMinutes(new Date(batch.started_at), batch.cure_minutes), 'HH:mm')}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {batch.oven_batch_orders.map(({ order_id }) => {
+                            const order = getOrder(order_id);
+                            return (
+                              <Badge
+                                key={order_id}
+                                variant="outline"
+                                className="cursor-pointer"
+                                onClick={() => navigate(`${orderPath}/${order_id}`)}
+                              >
+                                {order?.order_number || 'Order'}
+                                {order && order.status !== 'curing' && ` (${getStatusLabel(order.status)})`}
+                              </Badge>
+                            );
+                          })}
+                        </div>
+                        {batch.notes && <p className="text-sm text-muted-foreground">{batch.notes}</p>}
+                        <div className="flex gap-2">
+                          {batch.status === 'planned' ? (
+                            <>
+                              <Button size="sm" onClick={() => handleStartBatch(batch)} disabled={updatingBatchId === batch.id}>
+                                <Play className="h-4 w-4 mr-2" />
+                                Start Curing
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleDeleteBatch(batch)}
+                                disabled={updatingBatchId === batch.id}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Remove
+                              </Button>
+                            </>
+                          ) : (
+                            <Button size="sm" onClick={() => handleCompleteBatch(batch)} disabled={updatingBatchId === batch.id}>
+                              <CheckCircle className="h-4 w-4 mr-2" />
+                              Complete Batch
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* New Batch */}
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>New Batch</CardTitle>
+                  <CardDescription>
+                    {selectedOrders.length > 0
+                      ? `${selectedOrders.length} orders • ${selectedOrders[0].color.toUpperCase()} ${selectedOrders[0].finish}`
+                      : 'Select compatible orders to batch'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="oven">Oven</Label>
+                    <Input id="oven" value={oven} onChange={(e) => setOven(e.target.value)} placeholder="e.g. Oven 1" />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="cureTemperature">Temperature (°C)</Label>
+                      <Input
+                        id="cureTemperature"
+                        type="number"
+                        min="1"
+                        value={cureTemperature}
+                        onChange={(e) => setCureTemperature(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="cureMinutes">Cure Time (min)</Label>
+                      <Input
+                        id="cureMinutes"
+                        type="number"
+                        min="1"
+                        value={cureMinutes}
+                        onChange={(e) => setCureMinutes(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="batchNotes">Notes</Label>
+                    <Textarea id="batchNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+                  </div>
+                  <Button
+                    className="w-full"
+                    onClick={handleCreateBatch}
+                    disabled={saving || selectedOrders.length === 0}
+                  >
+                    {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Flame className="mr-2 h-4 w-4" />}
+                    Plan Batch
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recently Completed</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {completedBatches.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No completed batches yet</p>
+                  ) : (
+                    completedBatches.map((batch) => (
+                      <div key={batch.id} className="p-2 border rounded text-sm">
+                        <div className="flex justify-between">
+                          <span className="font-medium">{batch.batch_number}</span>
+                          <span className="text-muted-foreground">{batch.oven_batch_orders.length} orders</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {batch.color.toUpperCase()} {batch.finish} • {batch.cure_temperature}°C / {batch.cure_minutes} min
+                          {batch.ended_at && ` • ${format(new Date(batch.ended_at), 'MMM dd, HH:mm')}`}
+                        </p>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,25 @@
+import { EstimateLine, getEstimateTotal } from '@/lib/pricing';
+import { formatPeso } from '@/lib/currency';
+
+interface PriceEstimateProps {
+  lines: EstimateLine[];
+  totalLabel?: string;
+}
+
+export function PriceEstimate({ lines, totalLabel = 'Estimated total' }: PriceEstimateProps) {
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="flex justify-between gap-4 text-sm">
+          <span className="text-muted-foreground">{line.item}</span>
+          <span className={Number(line.amount) < 0 ? 'text-green-600' : undefined}>{formatPeso(line.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-4 border-t pt-2 font-semibold">
+        <span>{totalLabel}</span>
+        <span>{formatPeso(getEstimateTotal(lines))}</span>
+      </div>
+      <p className="text-xs text-muted-foreground">Excludes 12% VAT</p>
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, endOfWeek, max as latestDate, min as earliestDate, startOfWeek } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from './ui/chart';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { ORDER_STATUS_FLOW, OrderStatus, getStatusLabel } from '@/lib/orderStatus';
+import { formatDuration } from '@/lib/workLogs';
+
+type Functions = Database['public']['Functions'];
+type StatusCount = Functions['get_order_status_counts']['Returns'][number];
+type PriorityCount = Functions['get_order_priority_counts']['Returns'][number];
+type StageCycleTime = Functions['get_stage_cycle_times']['Returns'][number];
+type TeamWorkload = Functions['get_team_workload']['Returns'][number];
+
+interface VolumePoint {
+  label: string;
+  from: string;
+  to: string;
+  created: number;
+  completed: number;
+}
+
+interface AnalyticsData {
+  volume: VolumePoint[];
+  wip: StatusCount[];
+  throughput: StageCycleTime[];
+  priorities: PriorityCount[];
+  colors: { color: string; items: number }[];
+  workload: TeamWorkload[];
+}
+
+// Longer ranges are charted by week so the bars stay readable
+const MAX_DAILY_POINTS = 62;
+
+const STATUS_CHART_COLORS: Record<OrderStatus, string> = {
+  pending_quote: '#eab308',
+  queued: '#3b82f6',
+  'sand-blasting': '#f97316',
+  coating: 'hsl(var(--primary))',
+  curing: '#a855f7',
+  'quality-check': '#6366f1',
+  completed: '#22c55e',
+  delayed: '#ef4444',
+};
+
+const PRIORITY_CHART_COLORS: Record<string, string> = {
+  low: '#94a3b8',
+  medium: '#3b82f6',
+  high: '#f97316',
+  urgent: '#ef4444',
+};
+
+const volumeConfig = {
+  created: { label: 'Created', color: 'hsl(var(--primary))' },
+  completed: { label: 'Completed', color: '#22c55e' },
+} satisfies ChartConfig;
+
+const countConfig = {
+  orders: { label: 'Orders', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const throughputConfig = {
+  runs: { label: 'Completed runs', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const colorConfig = {
+  items: { label: 'Items', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const workloadConfig = {
+  assigned_orders: { label: 'Assigned orders', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const priorityConfig: ChartConfig = Object.fromEntries(
+  Object.entries(PRIORITY_CHART_COLORS).map(([priority, color]) => [
+    priority,
+    { label: priority.charAt(0).toUpperCase() + priority.slice(1), color },
+  ])
+);
+
+// Daily points, or weekly ones clamped to the range for long ranges
+const toVolumePoints = (
+  days: Functions['get_order_volume_by_day']['Returns'],
+  startDate: Date,
+  endDate: Date
+): VolumePoint[] => {
+  if (days.length <= MAX_DAILY_POINTS) {
+    return days.map((day) => ({
+      label: format(new Date(`${day.day}T00:00:00`), 'MMM d'),
+      from: day.day,
+      to: day.day,
+      created: day.created_orders,
+      completed: day.completed_orders,
+    }));
+  }
+
+  const weeks = new Map<string, VolumePoint>();
+  days.forEach((day) => {
+    const date = new Date(`${day.day}T00:00:00`);
+    const weekStart = latestDate([startOfWeek(date), startDate]);
+    const key = format(weekStart, 'yyyy-MM-dd');
+    const week = weeks.get(key) || {
+      label: `Week of ${format(weekStart, 'MMM d')}`,
+      from: key,
+      to: format(earliestDate([endOfWeek(date), endDate]), 'yyyy-MM-dd'),
+      created: 0,
+      completed: 0,
+    };
+    week.created += day.created_orders;
+    week.completed += day.completed_orders;
+    weeks.set(key, week);
+  });
+  return [...weeks.values()];
+};
+
+interface ReportAnalyticsProps {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Interactive charts for the Reports date range. Clicking a bar or slice
+// opens Order Management filtered to the orders behind it.
+export function ReportAnalytics({ startDate, endDate }: ReportAnalyticsProps) {
+  const navigate = useNavigate();
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!startDate || !endDate) return;
+
+    const range = {
+      _start_date: format(startDate, 'yyyy-MM-dd'),
+      _end_date: format(endDate, 'yyyy-MM-dd'),
+    };
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [volume, wip, throughput, priorities, coatings, workload] = await Promise.all([
+          supabase.rpc('get_order_volume_by_day', range),
+          supabase.rpc('get_order_status_counts'),
+          supabase.rpc('get_stage_cycle_times', range),
+          supabase.rpc('get_order_priority_counts', range),
+          supabase.rpc('get_coating_breakdown', range),
+          supabase.rpc('get_team_workload'),
+        ]);
+
+        const failed = [volume, wip, throughput, priorities, coatings, workload].find((result) => result.error);
+        if (failed) throw failed.error;
+
+        setData({
+          volume: toVolumePoints(volume.data || [], startDate, endDate),
+          wip: (wip.data || [])
+            .filter((row) => row.status !== 'completed')
+            .sort((a, b) => ORDER_STATUS_FLOW.indexOf(a.status) - ORDER_STATUS_FLOW.indexOf(b.status)),
+          throughput: (throughput.data || []).sort(
+            (a, b) => ORDER_STATUS_FLOW.indexOf(a.stage) - ORDER_STATUS_FLOW.indexOf(b.stage)
+          ),
+          priorities: priorities.data || [],
+          colors: (coatings.data || [])
+            .filter((row) => row.dimension === 'color')
+            .slice(0, 8)
+            .map((row) => ({ color: row.label, items: row.item_count })),
+          workload: (workload.data || []).filter((member) => member.assigned_orders > 0),
+        });
+      } catch (error) {
+        console.error('Error loading analytics:', error);
+        toast.error('Failed to load analytics');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [startDate, endDate]);
+
+  const drillDown = (filters: Record<string, string>, withRange = true) => {
+    const params = new URLSearchParams(filters);
+    if (withRange && startDate && endDate) {
+      if (!params.has('from')) params.set('from', format(startDate, 'yyyy-MM-dd'));
+      if (!params.has('to')) params.set('to', format(endDate, 'yyyy-MM-dd'));
+    }
+    navigate(`/admin/orders?${params.toString()}`);
+  };
+
+  if (!startDate || !endDate) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Select a date range to see the charts.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (loading || !data) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Order Volume */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Order Volume</CardTitle>
+          <CardDescription>Orders created and completed over time. Click a bar to see the orders created then.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={volumeConfig} className="h-[300px] w-full aspect-auto">
+            <BarChart data={data.volume}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar
+                dataKey="created"
+                fill="var(--color-created)"
+                radius={4}
+                className="cursor-pointer"
+                onClick={(_, index) => drillDown({ from: data.volume[index].from, to: data.volume[index].to })}
+              />
+              <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {/* Work in Progress */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Work in Progress</CardTitle>
+          <CardDescription>Open orders by status right now. Click a bar to see them.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={countConfig} className="h-[260px] w-full aspect-auto">
+            <BarChart data={data.wip.map((row) => ({ ...row, label: getStatusLabel(row.status), orders: row.order_count }))}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} angle={-20} textAnchor="end" height={50} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar
+                dataKey="orders"
+                radius={4}
+                className="cursor-pointer"
+                onClick={(_, index) => drillDown({ status: data.wip[index].status }, false)}
+              >
+                {data.wip.map((row) => (
+                  <Cell key={row.status} fill={STATUS_CHART_COLORS[row.status]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      {/* Stage Throughput */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Stage Throughput</CardTitle>
+          <CardDescription>Stage runs clocked out in the period, with average worked time.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.throughput.length > 0 ? (
+            <ChartContainer config={throughputConfig} className="h-[260px] w-full aspect-auto">
+              <BarChart
+                data={data.throughput.map((stage) => ({
+                  label: getStatusLabel(stage.stage),
+                  runs: stage.runs,
+                  avgWorked: formatDuration(stage.avg_worked_minutes),
+                }))}
+              >
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, _, item) => `${value} runs • ${item.payload.avgWorked} avg`}
+                    />
+                  }
+                />
+                <Bar dataKey="runs" fill="var(--color-runs)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground py-12 text-center">No stages were clocked out in this period</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Priority Mix */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Priority Mix</CardTitle>
+          <CardDescription>Orders created in the period by priority. Click a slice to see them.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.priorities.length > 0 ? (
+            <ChartContainer config={priorityConfig} className="h-[260px] w-full aspect-auto">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="priority" hideLabel />} />
+                <Pie
+                  data={data.priorities}
+                  dataKey="order_count"
+                  nameKey="priority"
+                  innerRadius={50}
+                  className="cursor-pointer"
+                  onClick={(_, index) => drillDown({ priority: data.priorities[index].priority })}
+                >
+                  {data.priorities.map((row) => (
+                    <Cell key={row.priority} fill={PRIORITY_CHART_COLORS[row.priority]} />
+                  ))}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="priority" />} />
+              </PieChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground py-12 text-center">No orders were created in this period</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Top Colors */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Colors</CardTitle>
+          <CardDescription>Items ordered in the period by color. Click a bar to see the orders.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.colors.length > 0 ? (
+            <ChartContainer config={colorConfig} className="h-[260px] w-full aspect-auto">
+              <BarChart data={data.colors} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="color" tickLine={false} axisLine={false} width={110} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar
+                  dataKey="items"
+                  fill="var(--color-items)"
+                  radius={4}
+                  className="cursor-pointer"
+                  onClick={(_, index) => drillDown({ color: data.colors[index].color })}
+                />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground py-12 text-center">No items were ordered in this period</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Team Workload */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Team Workload</CardTitle>
+          <CardDescription>Orders currently assigned to each team member. Click a bar to see them.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data.workload.length > 0 ? (
+            <ChartContainer config={workloadConfig} className="h-[260px] w-full aspect-auto">
+              <BarChart data={data.workload}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} interval={0} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar
+                  dataKey="assigned_orders"
+                  fill="var(--color-assigned_orders)"
+                  radius={4}
+                  className="cursor-pointer"
+                  onClick={(_, index) => drillDown({ team_member: data.workload[index].team_member_id }, false)}
+                />
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground py-12 text-center">No orders are assigned to the team</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,510 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { CalendarClock, Loader2, Pencil, Plus, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  REPORT_CATEGORIES,
+  REPORT_CATEGORY_LABELS,
+  REPORT_DATE_RANGE_LABELS,
+  REPORT_FORMAT_LABELS,
+  REPORT_FREQUENCY_LABELS,
+  ReportCategory,
+  ReportDateRange,
+  ReportFormat,
+  ReportFrequency,
+  ReportSchedule,
+  WEEKDAY_LABELS,
+  describeSchedule,
+  formatSendHour,
+  isReportCategory,
+} from '@/lib/reportSchedules';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const emptyForm = {
+  name: '',
+  categories: [] as ReportCategory[],
+  dateRange: 'last_7_days' as ReportDateRange,
+  format: 'pdf' as ReportFormat,
+  frequency: 'weekly' as ReportFrequency,
+  dayOfWeek: '1',
+  dayOfMonth: '1',
+  sendHour: '7',
+  recipients: '',
+};
+
+const parseRecipients = (value: string) =>
+  [...new Set(value.split(/[,;\s]+/).map((email) => email.trim().toLowerCase()).filter(Boolean))];
+
+export function ReportSchedules() {
+  const [loading, setLoading] = useState(true);
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedSchedule, setSelectedSchedule] = useState<ReportSchedule | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data, error } = await supabase.from('report_schedules').select('*').order('name');
+        if (error) throw error;
+        setSchedules(data || []);
+      } catch (error) {
+        console.error('Error fetching report schedules:', error);
+        toast.error('Failed to load report schedules');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [reloadKey]);
+
+  const openCreateDialog = () => {
+    setSelectedSchedule(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (schedule: ReportSchedule) => {
+    setSelectedSchedule(schedule);
+    setForm({
+      name: schedule.name,
+      categories: schedule.categories.filter(isReportCategory),
+      dateRange: schedule.date_range,
+      format: schedule.format,
+      frequency: schedule.frequency,
+      dayOfWeek: schedule.day_of_week.toString(),
+      dayOfMonth: schedule.day_of_month.toString(),
+      sendHour: schedule.send_hour.toString(),
+      recipients: schedule.recipients.join(', '),
+    });
+    setDialogOpen(true);
+  };
+
+  const toggleCategory = (category: ReportCategory) => {
+    setForm((prev) => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter((c) => c !== category)
+        : [...prev.categories, category],
+    }));
+  };
+
+  const handleSave = async () => {
+    const recipients = parseRecipients(form.recipients);
+    if (!form.name.trim()) {
+      toast.error('Enter a name for the report');
+      return;
+    }
+    if (form.categories.length === 0) {
+      toast.error('Select at least one report category');
+      return;
+    }
+    if (recipients.length === 0) {
+      toast.error('Add at least one recipient');
+      return;
+    }
+    const invalid = recipients.filter((email) => !EMAIL_PATTERN.test(email));
+    if (invalid.length > 0) {
+      toast.error(`Invalid email address: ${invalid.join(', ')}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const scheduleData = {
+        name: form.name.trim(),
+        categories: form.categories,
+        date_range: form.dateRange,
+        format: form.format,
+        frequency: form.frequency,
+        day_of_week: parseInt(form.dayOfWeek, 10),
+        day_of_month: parseInt(form.dayOfMonth, 10),
+        send_hour: parseInt(form.sendHour, 10),
+        recipients,
+      };
+
+      if (selectedSchedule) {
+        const { error } = await supabase.from('report_schedules').update(scheduleData).eq('id', selectedSchedule.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase.from('report_schedules').insert({ ...scheduleData, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast.success(selectedSchedule ? 'Schedule updated' : 'Schedule created');
+      setDialogOpen(false);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error saving report schedule:', error);
+      toast.error('Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (schedule: ReportSchedule, enabled: boolean) => {
+    try {
+      const { error } = await supabase.from('report_schedules').update({ enabled }).eq('id', schedule.id);
+      if (error) throw error;
+
+      toast.success(enabled ? `${schedule.name} resumed` : `${schedule.name} paused`);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error updating report schedule:', error);
+      toast.error('Failed to update schedule');
+    }
+  };
+
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setSendingId(schedule.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('send-scheduled-reports', {
+        body: { schedule_id: schedule.id },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success(`${schedule.name} sent to ${schedule.recipients.length} recipient(s)`);
+    } catch (error) {
+      console.error('Error sending report:', error);
+      toast.error('Failed to send report');
+    } finally {
+      setSendingId(null);
+      setReloadKey((key) => key + 1);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedSchedule) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('report_schedules').delete().eq('id', selectedSchedule.id);
+      if (error) throw error;
+
+      toast.success('Schedule deleted');
+      setDeleteDialogOpen(false);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error deleting report schedule:', error);
+      toast.error('Failed to delete schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Scheduled Reports
+          </CardTitle>
+          <CardDescription>
+            Email saved reports automatically. Times are in Philippine time.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Schedule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No scheduled reports yet. Create one to email reports on a regular basis.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{schedule.name}</p>
+                      <Badge variant="outline">{REPORT_FORMAT_LABELS[schedule.format]}</Badge>
+                      {!schedule.enabled && <Badge variant="secondary">Paused</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {describeSchedule(schedule)} · {REPORT_DATE_RANGE_LABELS[schedule.date_range]}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.categories
+                        .filter(isReportCategory)
+                        .map((category) => REPORT_CATEGORY_LABELS[category])
+                        .join(', ')}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">To: {schedule.recipients.join(', ')}</p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Switch
+                      checked={schedule.enabled}
+                      onCheckedChange={(checked) => handleToggleEnabled(schedule, checked)}
+                      aria-label={schedule.enabled ? 'Pause schedule' : 'Resume schedule'}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleSendNow(schedule)}
+                      disabled={sendingId === schedule.id}
+                      title="Send now"
+                    >
+                      {sendingId === schedule.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(schedule)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        setSelectedSchedule(schedule);
+                        setDeleteDialogOpen(true);
+                      }}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+                  <span>
+                    Next run:{' '}
+                    {schedule.enabled && schedule.next_run_at
+                      ? format(new Date(schedule.next_run_at), 'MMM d, yyyy h:mm a')
+                      : '—'}
+                  </span>
+                  <span>
+                    Last sent:{' '}
+                    {schedule.last_sent_at ? format(new Date(schedule.last_sent_at), 'MMM d, yyyy h:mm a') : 'Never'}
+                  </span>
+                  {schedule.last_error && <span className="text-destructive">Last run failed: {schedule.last_error}</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedSchedule ? 'Edit Schedule' : 'New Schedule'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Weekly operations summary"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Report Categories</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {REPORT_CATEGORIES.map((category) => (
+                  <div key={category} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`schedule-${category}`}
+                      checked={form.categories.includes(category)}
+                      onCheckedChange={() => toggleCategory(category)}
+                    />
+                    <Label htmlFor={`schedule-${category}`} className="text-sm font-normal cursor-pointer">
+                      {REPORT_CATEGORY_LABELS[category]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Date Range</Label>
+                <Select
+                  value={form.dateRange}
+                  onValueChange={(value) => setForm({ ...form, dateRange: value as ReportDateRange })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REPORT_DATE_RANGE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select value={form.format} onValueChange={(value) => setForm({ ...form, format: value as ReportFormat })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REPORT_FORMAT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(value) => setForm({ ...form, frequency: value as ReportFrequency })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REPORT_FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.frequency === 'weekly' && (
+                <div className="space-y-2">
+                  <Label>Day</Label>
+                  <Select value={form.dayOfWeek} onValueChange={(value) => setForm({ ...form, dayOfWeek: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAY_LABELS.map((label, index) => (
+                        <SelectItem key={label} value={index.toString()}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {form.frequency === 'monthly' && (
+                <div className="space-y-2">
+                  <Label>Day of Month</Label>
+                  <Select value={form.dayOfMonth} onValueChange={(value) => setForm({ ...form, dayOfMonth: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {/* Capped at 28 so every month has the day */}
+                      {Array.from({ length: 28 }, (_, i) => i + 1).map((day) => (
+                        <SelectItem key={day} value={day.toString()}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Time</Label>
+                <Select value={form.sendHour} onValueChange={(value) => setForm({ ...form, sendHour: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={hour.toString()}>
+                        {formatSendHour(hour)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="schedule-recipients">Recipients</Label>
+              <Input
+                id="schedule-recipients"
+                value={form.recipients}
+                onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+                placeholder="owner@example.com, accounting@example.com"
+              />
+              <p className="text-xs text-muted-foreground">Separate email addresses with commas.</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {selectedSchedule ? 'Save Changes' : 'Create Schedule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedSchedule?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The report will no longer be emailed. Reports already sent are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={saving}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -14,9 +14,266 @@ export type Database = {
   }
   public: {
     Tables: {
+      catalog_color_options: {
+        Row: {
+          color_id: string
+          finish: Database["public"]["Enums"]["finish_type"]
+          id: string
+          texture: Database["public"]["Enums"]["texture_type"]
+        }
+        Insert: {
+          color_id: string
+          finish: Database["public"]["Enums"]["finish_type"]
+          id?: string
+          texture: Database["public"]["Enums"]["texture_type"]
+        }
+        Update: {
+          color_id?: string
+          finish?: Database["public"]["Enums"]["finish_type"]
+          id?: string
+          texture?: Database["public"]["Enums"]["texture_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "catalog_color_options_color_id_fkey"
+            columns: ["color_id"]
+            isOneToOne: false
+            referencedRelation: "catalog_colors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "catalog_color_options_finish_fkey"
+            columns: ["finish"]
+            isOneToOne: false
+            referencedRelation: "coating_finishes"
+            referencedColumns: ["finish"]
+          },
+          {
+            foreignKeyName: "catalog_color_options_texture_fkey"
+            columns: ["texture"]
+            isOneToOne: false
+            referencedRelation: "coating_textures"
+            referencedColumns: ["texture"]
+          },
+        ]
+      }
+      catalog_colors: {
+        Row: {
+          created_at: string
+          hex_code: string
+          id: string
+          is_available: boolean
+          name: string
+          price_surcharge: number
+          ral_code: string | null
+          sort_order: number
+          swatch_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          hex_code: string
+          id?: string
+          is_available?: boolean
+          name: string
+          price_surcharge?: number
+          ral_code?: string | null
+          sort_order?: number
+          swatch_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          hex_code?: string
+          id?: string
+          is_available?: boolean
+          name?: string
+          price_surcharge?: number
+          ral_code?: string | null
+          sort_order?: number
+          swatch_url?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      coating_finishes: {
+        Row: {
+          description: string | null
+          env_map_intensity: number
+          finish: Database["public"]["Enums"]["finish_type"]
+          is_available: boolean
+          label: string
+          metalness: number
+          roughness: number
+          sort_order: number
+          surcharge_percent: number
+        }
+        Insert: {
+          description?: string | null
+          env_map_intensity?: number
+          finish: Database["public"]["Enums"]["finish_type"]
+          is_available?: boolean
+          label: string
+          metalness: number
+          roughness: number
+          sort_order?: number
+          surcharge_percent?: number
+        }
+        Update: {
+          description?: string | null
+          env_map_intensity?: number
+          finish?: Database["public"]["Enums"]["finish_type"]
+          is_available?: boolean
+          label?: string
+          metalness?: number
+          roughness?: number
+          sort_order?: number
+          surcharge_percent?: number
+        }
+        Relationships: []
+      }
+      coating_textures: {
+        Row: {
+          description: string | null
+          is_available: boolean
+          label: string
+          normal_scale: number
+          sort_order: number
+          surcharge_percent: number
+          texture: Database["public"]["Enums"]["texture_type"]
+        }
+        Insert: {
+          description?: string | null
+          is_available?: boolean
+          label: string
+          normal_scale?: number
+          sort_order?: number
+          surcharge_percent?: number
+          texture: Database["public"]["Enums"]["texture_type"]
+        }
+        Update: {
+          description?: string | null
+          is_available?: boolean
+          label?: string
+          normal_scale?: number
+          sort_order?: number
+          surcharge_percent?: number
+          texture?: Database["public"]["Enums"]["texture_type"]
+        }
+        Relationships: []
+      }
+      email_templates: {
+        Row: {
+          created_at: string
+          html_body: string
+          key: Database["public"]["Enums"]["email_template_key"]
+          subject: string
+          text_body: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          html_body: string
+          key: Database["public"]["Enums"]["email_template_key"]
+          subject: string
+          text_body: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          html_body?: string
+          key?: Database["public"]["Enums"]["email_template_key"]
+          subject?: string
+          text_body?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      invoice_counters: {
+        Row: {
+          last_number: number
+          year: number
+        }
+        Insert: {
+          last_number?: number
+          year: number
+        }
+        Update: {
+          last_number?: number
+          year?: number
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          created_at: string
+          id: string
+          invoice_number: string
+          issued_at: string
+          issued_by: string | null
+          line_items: Json
+          order_id: string
+          paid_at: string | null
+          status: Database["public"]["Enums"]["invoice_status"]
+          subtotal: number
+          total_amount: number
+          updated_at: string
+          user_id: string
+          vat_amount: number
+          vat_rate: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invoice_number: string
+          issued_at?: string
+          issued_by?: string | null
+          line_items?: Json
+          order_id: string
+          paid_at?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal: number
+          total_amount: number
+          updated_at?: string
+          user_id: string
+          vat_amount: number
+          vat_rate?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invoice_number?: string
+          issued_at?: string
+          issued_by?: string | null
+          line_items?: Json
+          order_id?: string
+          paid_at?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+          vat_amount?: number
+          vat_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          archived_at: string | null
           created_at: string
+          event: Database["public"]["Enums"]["notification_event"]
           id: string
           is_read: boolean
           message: string
@@ -26,7 +283,9 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
+          event?: Database["public"]["Enums"]["notification_event"]
           id?: string
           is_read?: boolean
           message: string
@@ -36,7 +295,9 @@ export type Database = {
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
+          event?: Database["public"]["Enums"]["notification_event"]
           id?: string
           is_read?: boolean
           message?: string
@@ -55,35 +316,150 @@ export type Database = {
           },
         ]
       }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at: string
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string | null
+          order_id: string | null
+          payload: Json
+          provider_response: Json | null
+          recipient: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["notification_delivery_status"]
+          template: Database["public"]["Enums"]["email_template_key"] | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          order_id?: string | null
+          payload: Json
+          provider_response?: Json | null
+          recipient: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_delivery_status"]
+          template?: Database["public"]["Enums"]["email_template_key"] | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          channel?: Database["public"]["Enums"]["notification_channel"]
+          created_at?: string
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          order_id?: string | null
+          payload?: Json
+          provider_response?: Json | null
+          recipient?: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["notification_delivery_status"]
+          template?: Database["public"]["Enums"]["email_template_key"] | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          email: boolean
+          event: Database["public"]["Enums"]["notification_event"]
+          in_app: boolean
+          sms: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          email?: boolean
+          event: Database["public"]["Enums"]["notification_event"]
+          in_app?: boolean
+          sms?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          email?: boolean
+          event?: Database["public"]["Enums"]["notification_event"]
+          in_app?: boolean
+          sms?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       order_customizations: {
         Row: {
           color: string
+          color_id: string | null
           created_at: string
           custom_notes: string | null
           finish: Database["public"]["Enums"]["finish_type"]
           id: string
           order_id: string
+          order_item_id: string | null
           texture: Database["public"]["Enums"]["texture_type"]
         }
         Insert: {
           color: string
+          color_id?: string | null
           created_at?: string
           custom_notes?: string | null
           finish: Database["public"]["Enums"]["finish_type"]
           id?: string
           order_id: string
+          order_item_id?: string | null
           texture: Database["public"]["Enums"]["texture_type"]
         }
         Update: {
           color?: string
+          color_id?: string | null
           created_at?: string
           custom_notes?: string | null
           finish?: Database["public"]["Enums"]["finish_type"]
           id?: string
           order_id?: string
+          order_item_id?: string | null
           texture?: Database["public"]["Enums"]["texture_type"]
         }
         Relationships: [
+          {
+            foreignKeyName: "order_customizations_color_id_fkey"
+            columns: ["color_id"]
+            isOneToOne: false
+            referencedRelation: "catalog_colors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_customizations_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: true
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "order_customizations_order_id_fkey"
             columns: ["order_id"]
@@ -128,6 +504,141 @@ export type Database = {
           },
         ]
       }
+      order_items: {
+        Row: {
+          created_at: string
+          description: string
+          dimension_unit: Database["public"]["Enums"]["dimension_unit"]
+          dimensions: string | null
+          id: string
+          order_id: string
+          part_diameter: number | null
+          part_height: number | null
+          part_length: number | null
+          part_shape: Database["public"]["Enums"]["part_shape"] | null
+          part_width: number | null
+          position: number
+          quantity: number
+          quoted_price: number | null
+          surface_area_sqm: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          dimension_unit?: Database["public"]["Enums"]["dimension_unit"]
+          dimensions?: string | null
+          id?: string
+          order_id: string
+          part_diameter?: number | null
+          part_height?: number | null
+          part_length?: number | null
+          part_shape?: Database["public"]["Enums"]["part_shape"] | null
+          part_width?: number | null
+          position: number
+          quantity: number
+          quoted_price?: number | null
+          surface_area_sqm?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          dimension_unit?: Database["public"]["Enums"]["dimension_unit"]
+          dimensions?: string | null
+          id?: string
+          order_id?: string
+          part_diameter?: number | null
+          part_height?: number | null
+          part_length?: number | null
+          part_shape?: Database["public"]["Enums"]["part_shape"] | null
+          part_width?: number | null
+          position?: number
+          quantity?: number
+          quoted_price?: number | null
+          surface_area_sqm?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_message_reads: {
+        Row: {
+          last_read_at: string
+          order_id: string
+          reader_role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          order_id: string
+          reader_role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Update: {
+          last_read_at?: string
+          order_id?: string
+          reader_role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_message_reads_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_messages: {
+        Row: {
+          attachments: Json
+          author_id: string
+          author_name: string
+          author_role: Database["public"]["Enums"]["app_role"]
+          body: string
+          created_at: string
+          id: string
+          order_id: string
+        }
+        Insert: {
+          attachments?: Json
+          author_id?: string
+          author_name?: string
+          author_role?: Database["public"]["Enums"]["app_role"]
+          body?: string
+          created_at?: string
+          id?: string
+          order_id: string
+        }
+        Update: {
+          attachments?: Json
+          author_id?: string
+          author_name?: string
+          author_role?: Database["public"]["Enums"]["app_role"]
+          body?: string
+          created_at?: string
+          id?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_messages_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_status_history: {
         Row: {
           changed_at: string
@@ -166,102 +677,398 @@ export type Database = {
       order_team_assignments: {
         Row: {
           assigned_at: string
+          assignment_reason: string | null
           id: string
           order_id: string
           team_member_id: string
         }
         Insert: {
-          assigned_at?: string
+          assigned_at?: string
+          assignment_reason?: string | null
+          id?: string
+          order_id: string
+          team_member_id: string
+        }
+        Update: {
+          assigned_at?: string
+          assignment_reason?: string | null
+          id?: string
+          order_id?: string
+          team_member_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_team_assignments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_team_assignments_team_member_id_fkey"
+            columns: ["team_member_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          additional_notes: string | null
+          completed_date: string | null
+          created_at: string
+          delayed_from: Database["public"]["Enums"]["order_status"] | null
+          description: string
+          estimated_completion: string | null
+          id: string
+          order_number: string
+          priority: Database["public"]["Enums"]["order_priority"]
+          progress: number | null
+          project_name: string
+          quantity: number
+          quote_approved: boolean | null
+          quote_approved_at: string | null
+          quoted_price: number | null
+          routing: Database["public"]["Enums"]["order_status"][]
+          routing_step: number | null
+          status: Database["public"]["Enums"]["order_status"]
+          submitted_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          additional_notes?: string | null
+          completed_date?: string | null
+          created_at?: string
+          delayed_from?: Database["public"]["Enums"]["order_status"] | null
+          description: string
+          estimated_completion?: string | null
+          id?: string
+          order_number: string
+          priority?: Database["public"]["Enums"]["order_priority"]
+          progress?: number | null
+          project_name: string
+          quantity: number
+          quote_approved?: boolean | null
+          quote_approved_at?: string | null
+          quoted_price?: number | null
+          routing?: Database["public"]["Enums"]["order_status"][]
+          routing_step?: number | null
+          status?: Database["public"]["Enums"]["order_status"]
+          submitted_date?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          additional_notes?: string | null
+          completed_date?: string | null
+          created_at?: string
+          delayed_from?: Database["public"]["Enums"]["order_status"] | null
+          description?: string
+          estimated_completion?: string | null
+          id?: string
+          order_number?: string
+          priority?: Database["public"]["Enums"]["order_priority"]
+          progress?: number | null
+          project_name?: string
+          quantity?: number
+          quote_approved?: boolean | null
+          quote_approved_at?: string | null
+          quoted_price?: number | null
+          routing?: Database["public"]["Enums"]["order_status"][]
+          routing_step?: number | null
+          status?: Database["public"]["Enums"]["order_status"]
+          submitted_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      oven_batch_orders: {
+        Row: {
+          batch_id: string
+          created_at: string
+          id: string
+          order_id: string
+          routing_step: number | null
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          id?: string
+          order_id: string
+          routing_step?: number | null
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          id?: string
+          order_id?: string
+          routing_step?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "oven_batch_orders_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "oven_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "oven_batch_orders_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      oven_batches: {
+        Row: {
+          batch_number: string
+          color: string
+          created_at: string
+          created_by: string | null
+          cure_minutes: number
+          cure_temperature: number
+          ended_at: string | null
+          finish: Database["public"]["Enums"]["finish_type"]
+          id: string
+          notes: string | null
+          oven: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["oven_batch_status"]
+          updated_at: string
+        }
+        Insert: {
+          batch_number: string
+          color: string
+          created_at?: string
+          created_by?: string | null
+          cure_minutes: number
+          cure_temperature: number
+          ended_at?: string | null
+          finish: Database["public"]["Enums"]["finish_type"]
+          id?: string
+          notes?: string | null
+          oven: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["oven_batch_status"]
+          updated_at?: string
+        }
+        Update: {
+          batch_number?: string
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          cure_minutes?: number
+          cure_temperature?: number
+          ended_at?: string | null
+          finish?: Database["public"]["Enums"]["finish_type"]
+          id?: string
+          notes?: string | null
+          oven?: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["oven_batch_status"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          notes: string | null
+          order_id: string
+          paid_at: string
+          payment_type: Database["public"]["Enums"]["payment_type"]
+          recorded_by: string | null
+          reference_number: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          method: Database["public"]["Enums"]["payment_method"]
+          notes?: string | null
+          order_id: string
+          paid_at?: string
+          payment_type: Database["public"]["Enums"]["payment_type"]
+          recorded_by?: string | null
+          reference_number?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          notes?: string | null
+          order_id?: string
+          paid_at?: string
+          payment_type?: Database["public"]["Enums"]["payment_type"]
+          recorded_by?: string | null
+          reference_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      powder_skus: {
+        Row: {
+          coverage_sqm_per_kg: number
+          created_at: string
+          finish: Database["public"]["Enums"]["finish_type"]
+          hex_code: string | null
+          id: string
+          is_active: boolean
+          kg_on_hand: number
+          name: string
+          ral_code: string | null
+          reorder_point_kg: number
+          sku: string
+          texture: Database["public"]["Enums"]["texture_type"]
+          updated_at: string
+        }
+        Insert: {
+          coverage_sqm_per_kg?: number
+          created_at?: string
+          finish: Database["public"]["Enums"]["finish_type"]
+          hex_code?: string | null
+          id?: string
+          is_active?: boolean
+          kg_on_hand?: number
+          name: string
+          ral_code?: string | null
+          reorder_point_kg?: number
+          sku: string
+          texture: Database["public"]["Enums"]["texture_type"]
+          updated_at?: string
+        }
+        Update: {
+          coverage_sqm_per_kg?: number
+          created_at?: string
+          finish?: Database["public"]["Enums"]["finish_type"]
+          hex_code?: string | null
+          id?: string
+          is_active?: boolean
+          kg_on_hand?: number
+          name?: string
+          ral_code?: string | null
+          reorder_point_kg?: number
+          sku?: string
+          texture?: Database["public"]["Enums"]["texture_type"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      powder_transactions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          order_id: string | null
+          powder_id: string
+          quantity_kg: number
+          transaction_type: Database["public"]["Enums"]["powder_transaction_type"]
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
           id?: string
-          order_id: string
-          team_member_id: string
+          notes?: string | null
+          order_id?: string | null
+          powder_id: string
+          quantity_kg: number
+          transaction_type: Database["public"]["Enums"]["powder_transaction_type"]
         }
         Update: {
-          assigned_at?: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          order_id?: string
-          team_member_id?: string
+          notes?: string | null
+          order_id?: string | null
+          powder_id?: string
+          quantity_kg?: number
+          transaction_type?: Database["public"]["Enums"]["powder_transaction_type"]
         }
         Relationships: [
           {
-            foreignKeyName: "order_team_assignments_order_id_fkey"
+            foreignKeyName: "powder_transactions_order_id_fkey"
             columns: ["order_id"]
             isOneToOne: false
             referencedRelation: "orders"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_team_assignments_team_member_id_fkey"
-            columns: ["team_member_id"]
+            foreignKeyName: "powder_transactions_powder_id_fkey"
+            columns: ["powder_id"]
             isOneToOne: false
-            referencedRelation: "team_members"
+            referencedRelation: "powder_skus"
             referencedColumns: ["id"]
           },
         ]
       }
-      orders: {
+      pricing_quantity_breaks: {
         Row: {
-          additional_notes: string | null
-          completed_date: string | null
           created_at: string
-          description: string
-          dimensions: string | null
-          estimated_completion: string | null
+          discount_percent: number
           id: string
-          order_number: string
-          priority: Database["public"]["Enums"]["order_priority"]
-          progress: number | null
-          project_name: string
-          quantity: number
-          quote_approved: boolean | null
-          quote_approved_at: string | null
-          quoted_price: number | null
-          status: Database["public"]["Enums"]["order_status"]
-          submitted_date: string
-          updated_at: string
-          user_id: string
+          min_quantity: number
         }
         Insert: {
-          additional_notes?: string | null
-          completed_date?: string | null
           created_at?: string
-          description: string
-          dimensions?: string | null
-          estimated_completion?: string | null
+          discount_percent: number
           id?: string
-          order_number: string
-          priority?: Database["public"]["Enums"]["order_priority"]
-          progress?: number | null
-          project_name: string
-          quantity: number
-          quote_approved?: boolean | null
-          quote_approved_at?: string | null
-          quoted_price?: number | null
-          status?: Database["public"]["Enums"]["order_status"]
-          submitted_date?: string
-          updated_at?: string
-          user_id: string
+          min_quantity: number
         }
         Update: {
-          additional_notes?: string | null
-          completed_date?: string | null
           created_at?: string
-          description?: string
-          dimensions?: string | null
-          estimated_completion?: string | null
+          discount_percent?: number
           id?: string
-          order_number?: string
-          priority?: Database["public"]["Enums"]["order_priority"]
-          progress?: number | null
-          project_name?: string
-          quantity?: number
-          quote_approved?: boolean | null
-          quote_approved_at?: string | null
-          quoted_price?: number | null
-          status?: Database["public"]["Enums"]["order_status"]
-          submitted_date?: string
+          min_quantity?: number
+        }
+        Relationships: []
+      }
+      pricing_rates: {
+        Row: {
+          custom_color_surcharge: number
+          id: boolean
+          minimum_charge: number
+          rate_per_piece: number
+          rate_per_sqm: number
+          sand_blasting_per_piece: number
+          sand_blasting_per_sqm: number
+          updated_at: string
+        }
+        Insert: {
+          custom_color_surcharge?: number
+          id?: boolean
+          minimum_charge?: number
+          rate_per_piece?: number
+          rate_per_sqm?: number
+          sand_blasting_per_piece?: number
+          sand_blasting_per_sqm?: number
+          updated_at?: string
+        }
+        Update: {
+          custom_color_surcharge?: number
+          id?: boolean
+          minimum_charge?: number
+          rate_per_piece?: number
+          rate_per_sqm?: number
+          sand_blasting_per_piece?: number
+          sand_blasting_per_sqm?: number
           updated_at?: string
-          user_id?: string
         }
         Relationships: []
       }
@@ -296,29 +1103,41 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          line_items: Json | null
           notes: string | null
           order_id: string
           quoted_by: string
           quoted_price: number
           status: string
+          terms: string | null
+          valid_until: string | null
+          version: number | null
         }
         Insert: {
           created_at?: string
           id?: string
+          line_items?: Json | null
           notes?: string | null
           order_id: string
           quoted_by: string
           quoted_price: number
           status?: string
+          terms?: string | null
+          valid_until?: string | null
+          version?: number | null
         }
         Update: {
           created_at?: string
           id?: string
+          line_items?: Json | null
           notes?: string | null
           order_id?: string
           quoted_by?: string
           quoted_price?: number
           status?: string
+          terms?: string | null
+          valid_until?: string | null
+          version?: number | null
         }
         Relationships: [
           {
@@ -330,6 +1149,135 @@ export type Database = {
           },
         ]
       }
+      quote_settings: {
+        Row: {
+          deposit_percent: number
+          id: boolean
+          terms: string
+          updated_at: string
+          validity_days: number
+        }
+        Insert: {
+          deposit_percent?: number
+          id?: boolean
+          terms?: string
+          updated_at?: string
+          validity_days?: number
+        }
+        Update: {
+          deposit_percent?: number
+          id?: boolean
+          terms?: string
+          updated_at?: string
+          validity_days?: number
+        }
+        Relationships: []
+      }
+      report_schedules: {
+        Row: {
+          categories: string[]
+          created_at: string
+          created_by: string | null
+          date_range: Database["public"]["Enums"]["report_date_range"]
+          day_of_month: number
+          day_of_week: number
+          enabled: boolean
+          format: Database["public"]["Enums"]["report_format"]
+          frequency: Database["public"]["Enums"]["report_frequency"]
+          id: string
+          last_error: string | null
+          last_sent_at: string | null
+          name: string
+          next_run_at: string | null
+          recipients: string[]
+          send_hour: number
+          updated_at: string
+        }
+        Insert: {
+          categories: string[]
+          created_at?: string
+          created_by?: string | null
+          date_range?: Database["public"]["Enums"]["report_date_range"]
+          day_of_month?: number
+          day_of_week?: number
+          enabled?: boolean
+          format?: Database["public"]["Enums"]["report_format"]
+          frequency?: Database["public"]["Enums"]["report_frequency"]
+          id?: string
+          last_error?: string | null
+          last_sent_at?: string | null
+          name: string
+          next_run_at?: string | null
+          recipients: string[]
+          send_hour?: number
+          updated_at?: string
+        }
+        Update: {
+          categories?: string[]
+          created_at?: string
+          created_by?: string | null
+          date_range?: Database["public"]["Enums"]["report_date_range"]
+          day_of_month?: number
+          day_of_week?: number
+          enabled?: boolean
+          format?: Database["public"]["Enums"]["report_format"]
+          frequency?: Database["public"]["Enums"]["report_frequency"]
+          id?: string
+          last_error?: string | null
+          last_sent_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          recipients?: string[]
+          send_hour?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      stage_work_logs: {
+        Row: {
+          created_at: string
+          event: Database["public"]["Enums"]["work_log_event"]
+          id: string
+          order_id: string
+          routing_step: number | null
+          stage: Database["public"]["Enums"]["order_status"]
+          team_member_id: string
+        }
+        Insert: {
+          created_at?: string
+          event: Database["public"]["Enums"]["work_log_event"]
+          id?: string
+          order_id: string
+          routing_step?: number | null
+          stage: Database["public"]["Enums"]["order_status"]
+          team_member_id: string
+        }
+        Update: {
+          created_at?: string
+          event?: Database["public"]["Enums"]["work_log_event"]
+          id?: string
+          order_id?: string
+          routing_step?: number | null
+          stage?: Database["public"]["Enums"]["order_status"]
+          team_member_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stage_work_logs_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stage_work_logs_team_member_id_fkey"
+            columns: ["team_member_id"]
+            isOneToOne: false
+            referencedRelation: "team_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_members: {
         Row: {
           availability: string | null
@@ -398,7 +1346,305 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_quote: {
+        Args: { _order_id: string; _version: number }
+        Returns: undefined
+      }
+      assign_order_for_current_stage: {
+        Args: { _order_id: string }
+        Returns: {
+          assigned_member_id: string
+          assigned_member_name: string
+          reason: string
+        }[]
+      }
+      auto_assign_order: {
+        Args: { _order_id: string }
+        Returns: {
+          assigned_member_id: string
+          assigned_member_name: string
+          reason: string
+        }[]
+      }
+      can_manage_oven_batches: { Args: { _user_id: string }; Returns: boolean }
+      can_access_order_thread: {
+        Args: { _order_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_resume_from_delay: {
+        Args: {
+          _delayed_from: Database["public"]["Enums"]["order_status"]
+          _routing: Database["public"]["Enums"]["order_status"][]
+          _routing_step: number
+          _to: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      claim_notification_deliveries: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          channel: Database["public"]["Enums"]["notification_channel"]
+          created_at: string
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string | null
+          order_id: string | null
+          payload: Json
+          provider_response: Json | null
+          recipient: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["notification_delivery_status"]
+          template: Database["public"]["Enums"]["email_template_key"] | null
+          updated_at: string
+          user_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "notification_deliveries"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      complete_oven_batch: {
+        Args: { _batch_id: string }
+        Returns: {
+          batch_number: string
+          color: string
+          created_at: string
+          created_by: string | null
+          cure_minutes: number
+          cure_temperature: number
+          ended_at: string | null
+          finish: Database["public"]["Enums"]["finish_type"]
+          id: string
+          notes: string | null
+          oven: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["oven_batch_status"]
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "oven_batches"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      create_oven_batch: {
+        Args: {
+          _color: string
+          _cure_minutes: number
+          _cure_temperature: number
+          _finish: Database["public"]["Enums"]["finish_type"]
+          _notes?: string
+          _order_ids: string[]
+          _oven: string
+        }
+        Returns: {
+          batch_number: string
+          color: string
+          created_at: string
+          created_by: string | null
+          cure_minutes: number
+          cure_temperature: number
+          ended_at: string | null
+          finish: Database["public"]["Enums"]["finish_type"]
+          id: string
+          notes: string | null
+          oven: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["oven_batch_status"]
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "oven_batches"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      estimate_items_price: {
+        Args: { _items: Json; _sand_blasting: boolean }
+        Returns: {
+          amount: number
+          item: string
+          item_index: number
+        }[]
+      }
+      estimate_order_price: {
+        Args: { _order_id: string }
+        Returns: {
+          amount: number
+          item: string
+          order_item_id: string
+        }[]
+      }
+      estimate_powder_kg: {
+        Args: {
+          _coverage_sqm_per_kg: number
+          _quantity: number
+          _surface_area_sqm: number
+        }
+        Returns: number
+      }
+      estimate_price: {
+        Args: {
+          _apply_minimum?: boolean
+          _color_id: string
+          _finish: Database["public"]["Enums"]["finish_type"]
+          _quantity: number
+          _sand_blasting: boolean
+          _surface_area_sqm: number
+          _texture: Database["public"]["Enums"]["texture_type"]
+        }
+        Returns: {
+          amount: number
+          item: string
+        }[]
+      }
+      expire_stale_quotes: { Args: never; Returns: number }
+      find_powder_for_item: { Args: { _order_item_id: string }; Returns: string }
+      finish_report_run: {
+        Args: { _error?: string; _schedule_id: string }
+        Returns: undefined
+      }
       generate_order_number: { Args: never; Returns: string }
+      get_client_statistics: {
+        Args: { _end_date: string; _start_date: string }
+        Returns: {
+          active_clients: number
+          new_clients: number
+          total_clients: number
+        }[]
+      }
+      get_coating_breakdown: {
+        Args: { _end_date: string; _start_date: string }
+        Returns: {
+          dimension: string
+          item_count: number
+          label: string
+          quantity: number
+        }[]
+      }
+      get_curing_queue: {
+        Args: never
+        Returns: {
+          batch_id: string
+          color: string
+          finish: Database["public"]["Enums"]["finish_type"]
+          order_id: string
+          order_number: string
+          priority: Database["public"]["Enums"]["order_priority"]
+          project_name: string
+          quantity: number
+          status: Database["public"]["Enums"]["order_status"]
+        }[]
+      }
+      get_financial_summary: {
+        Args: { _end_date: string; _start_date: string }
+        Returns: {
+          accepted_orders: number
+          aging_0_30: number
+          aging_31_60: number
+          aging_61_90: number
+          aging_over_90: number
+          average_quote: number
+          collected: number
+          invoices_issued: number
+          outstanding: number
+          quoted_orders: number
+          quotes_issued: number
+          revenue: number
+        }[]
+      }
+      get_next_report_run: {
+        Args: {
+          _after: string
+          _day_of_month: number
+          _day_of_week: number
+          _frequency: Database["public"]["Enums"]["report_frequency"]
+          _send_hour: number
+        }
+        Returns: string
+      }
+      get_order_balance: {
+        Args: { _order_id: string }
+        Returns: {
+          amount_paid: number
+          balance_due: number
+          deposit_required: number
+          total_due: number
+        }[]
+      }
+      get_order_priority_counts: {
+        Args: { _end_date: string; _start_date: string }
+        Returns: {
+          order_count: number
+          priority: Database["public"]["Enums"]["order_priority"]
+        }[]
+      }
+      get_order_status_counts: {
+        Args: { _end_date?: string; _start_date?: string }
+        Returns: {
+          order_count: number
+          status: Database["public"]["Enums"]["order_status"]
+        }[]
+      }
+      get_order_volume_by_day: {
+        Args: { _end_date: string; _start_date: string }
+        Returns: {
+          completed_orders: number
+          created_orders: number
+          day: string
+        }[]
+      }
+      get_required_department: {
+        Args: { _status: Database["public"]["Enums"]["order_status"] }
+        Returns: string
+      }
+      get_routing_progress: {
+        Args: {
+          _routing: Database["public"]["Enums"]["order_status"][]
+          _step: number
+        }
+        Returns: number
+      }
+      get_stage_cycle_times: {
+        Args: { _end_date: string; _start_date: string }
+        Returns: {
+          avg_elapsed_minutes: number
+          avg_worked_minutes: number
+          max_worked_minutes: number
+          min_worked_minutes: number
+          runs: number
+          stage: Database["public"]["Enums"]["order_status"]
+        }[]
+      }
+      get_team_workload: {
+        Args: never
+        Returns: {
+          assigned_orders: number
+          availability: string
+          name: string
+          status: string
+          team_member_id: string
+        }[]
+      }
+      get_thread_role: {
+        Args: { _user_id: string }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      get_top_clients: {
+        Args: { _end_date: string; _limit?: number; _start_date: string }
+        Returns: {
+          client_name: string
+          order_count: number
+        }[]
+      }
+      get_user_id_by_email: { Args: { _email: string }; Returns: string }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -406,12 +1652,54 @@ export type Database = {
         }
         Returns: boolean
       }
+      issue_invoice: {
+        Args: { _order_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          invoice_number: string
+          issued_at: string
+          issued_by: string | null
+          line_items: Json
+          order_id: string
+          paid_at: string | null
+          status: Database["public"]["Enums"]["invoice_status"]
+          subtotal: number
+          total_amount: number
+          updated_at: string
+          user_id: string
+          vat_amount: number
+          vat_rate: number
+        }
+        SetofOptions: {
+          from: "*"
+          to: "invoices"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       is_team_member_assigned_to_order: {
         Args: { _order_id: string; _user_id: string }
         Returns: boolean
       }
+      list_curing_queue: {
+        Args: never
+        Returns: {
+          batch_id: string
+          color: string
+          finish: Database["public"]["Enums"]["finish_type"]
+          order_id: string
+          order_number: string
+          priority: Database["public"]["Enums"]["order_priority"]
+          project_name: string
+          quantity: number
+          status: Database["public"]["Enums"]["order_status"]
+        }[]
+      }
+      normalize_phone: { Args: { _phone: string }; Returns: string }
       notify_admins: {
         Args: {
+          _event?: Database["public"]["Enums"]["notification_event"]
           _message: string
           _order_id: string
           _order_number: string
@@ -420,10 +1708,62 @@ export type Database = {
         }
         Returns: undefined
       }
+      request_new_quote: { Args: { _order_id: string }; Returns: undefined }
+      start_oven_batch: {
+        Args: { _batch_id: string }
+        Returns: {
+          batch_number: string
+          color: string
+          created_at: string
+          created_by: string | null
+          cure_minutes: number
+          cure_temperature: number
+          ended_at: string | null
+          finish: Database["public"]["Enums"]["finish_type"]
+          id: string
+          notes: string | null
+          oven: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["oven_batch_status"]
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "oven_batches"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      wants_notification: {
+        Args: {
+          _channel: Database["public"]["Enums"]["notification_channel"]
+          _event: Database["public"]["Enums"]["notification_event"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "client" | "team_member"
+      dimension_unit: "mm" | "cm" | "m" | "in"
+      email_template_key:
+        | "order_received"
+        | "quote_issued"
+        | "counter_offer"
+        | "status_change"
+        | "order_delayed"
+        | "ready_for_pickup"
       finish_type: "matte" | "glossy" | "satin"
+      invoice_status: "unpaid" | "paid"
+      notification_channel: "in_app" | "email" | "sms"
+      notification_delivery_status: "pending" | "sent" | "failed"
+      notification_event:
+        | "new_order"
+        | "order_status"
+        | "quote"
+        | "billing"
+        | "order_message"
+        | "inventory"
       order_priority: "low" | "medium" | "high" | "urgent"
       order_status:
         | "pending_quote"
@@ -434,7 +1774,22 @@ export type Database = {
         | "quality-check"
         | "completed"
         | "delayed"
+      oven_batch_status: "planned" | "curing" | "completed"
+      part_shape: "flat_sheet" | "tube" | "profile" | "custom"
+      payment_method: "cash" | "bank_transfer" | "gcash" | "check"
+      payment_type: "deposit" | "partial" | "final"
+      powder_transaction_type: "receipt" | "consumption" | "adjustment"
+      report_date_range:
+        | "previous_day"
+        | "last_7_days"
+        | "last_30_days"
+        | "previous_month"
+        | "this_quarter"
+        | "this_year"
+      report_format: "pdf" | "csv" | "both"
+      report_frequency: "daily" | "weekly" | "monthly"
       texture_type: "smooth" | "textured" | "hammered"
+      work_log_event: "start" | "pause" | "stop"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -563,7 +1918,27 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "client", "team_member"],
+      dimension_unit: ["mm", "cm", "m", "in"],
+      email_template_key: [
+        "order_received",
+        "quote_issued",
+        "counter_offer",
+        "status_change",
+        "order_delayed",
+        "ready_for_pickup",
+      ],
       finish_type: ["matte", "glossy", "satin"],
+      invoice_status: ["unpaid", "paid"],
+      notification_channel: ["in_app", "email", "sms"],
+      notification_delivery_status: ["pending", "sent", "failed"],
+      notification_event: [
+        "new_order",
+        "order_status",
+        "quote",
+        "billing",
+        "order_message",
+        "inventory",
+      ],
       order_priority: ["low", "medium", "high", "urgent"],
       order_status: [
         "pending_quote",
@@ -575,7 +1950,23 @@ export const Constants = {
         "completed",
         "delayed",
       ],
+      oven_batch_status: ["planned", "curing", "completed"],
+      part_shape: ["flat_sheet", "tube", "profile", "custom"],
+      payment_method: ["cash", "bank_transfer", "gcash", "check"],
+      payment_type: ["deposit", "partial", "final"],
+      powder_transaction_type: ["receipt", "consumption", "adjustment"],
+      report_date_range: [
+        "previous_day",
+        "last_7_days",
+        "last_30_days",
+        "previous_month",
+        "this_quarter",
+        "this_year",
+      ],
+      report_format: ["pdf", "csv", "both"],
+      report_frequency: ["daily", "weekly", "monthly"],
       texture_type: ["smooth", "textured", "hammered"],
+      work_log_event: ["start", "pause", "stop"],
     },
   },
 } as const
@@ -0,0 +1,54 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type FinishType = Database['public']['Enums']['finish_type'];
+export type TextureType = Database['public']['Enums']['texture_type'];
+export type CoatingFinish = Database['public']['Tables']['coating_finishes']['Row'];
+export type CoatingTexture = Database['public']['Tables']['coating_textures']['Row'];
+
+export type CatalogColor = Database['public']['Tables']['catalog_colors']['Row'] & {
+  catalog_color_options: { finish: FinishType; texture: TextureType }[];
+};
+
+export interface ColorCatalog {
+  finishes: CoatingFinish[];
+  textures: CoatingTexture[];
+  colors: CatalogColor[];
+}
+
+// Loads the whole catalog, including entries that are not currently
+// available. Callers filter on is_available where clients are concerned.
+export const fetchColorCatalog = async (): Promise<ColorCatalog> => {
+  const [finishes, textures, colors] = await Promise.all([
+    supabase.from('coating_finishes').select('*').order('sort_order'),
+    supabase.from('coating_textures').select('*').order('sort_order'),
+    supabase
+      .from('catalog_colors')
+      .select('*, catalog_color_options(finish, texture)')
+      .order('sort_order')
+      .order('name'),
+  ]);
+
+  const error = finishes.error || textures.error || colors.error;
+  if (error) throw error;
+
+  return {
+    finishes: finishes.data || [],
+    textures: textures.data || [],
+    colors: colors.data || [],
+  };
+};
+
+export const isComboOffered = (color: CatalogColor, finish: string, texture: string) =>
+  color.catalog_color_options.some((option) => option.finish === finish && option.texture === texture);
+
+// Display name for an order's color: the catalog name when it was picked from
+// the catalog, otherwise the stored value (a custom hex code)
+export const getColorLabel = (customization: {
+  color: string;
+  catalog_colors?: { name: string; ral_code: string | null } | null;
+}) => {
+  const catalogColor = customization.catalog_colors;
+  if (!catalogColor) return customization.color;
+  return catalogColor.ral_code ? `${catalogColor.name} (${catalogColor.ral_code})` : catalogColor.name;
+};
@@ -0,0 +1 @@
+export { formatPdfPeso, formatPeso } from '../../supabase/functions/_shared/currency';
@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_KEYS,
+  EmailTemplateContent,
+  EmailTemplateKey as SharedEmailTemplateKey,
+} from '../../supabase/functions/_shared/emailTemplates';
+
+export type {
+  EmailTemplateContent,
+  EmailTemplateValues,
+  EmailTemplateVariable,
+} from '../../supabase/functions/_shared/emailTemplates';
+
+export {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_KEYS,
+  EMAIL_TEMPLATE_LABELS,
+  EMAIL_TEMPLATE_VARIABLES,
+  SAMPLE_TEMPLATE_VALUES,
+  findUnknownVariables,
+  renderEmailTemplate,
+} from '../../supabase/functions/_shared/emailTemplates';
+
+export type EmailTemplateKey = Database['public']['Enums']['email_template_key'];
+
+// Fails to compile if the shared template keys drift from the database enum
+const _enumCheck: [EmailTemplateKey, SharedEmailTemplateKey] extends [SharedEmailTemplateKey, EmailTemplateKey]
+  ? true
+  : never = true;
+
+export interface EmailTemplateState {
+  content: EmailTemplateContent;
+  // False while the template still uses the built-in default
+  customized: boolean;
+  updated_at: string | null;
+}
+
+export const fetchEmailTemplates = async () => {
+  const { data, error } = await supabase.from('email_templates').select('*');
+  if (error) throw error;
+
+  const templates = {} as Record<EmailTemplateKey, EmailTemplateState>;
+  for (const key of EMAIL_TEMPLATE_KEYS) {
+    const saved = data?.find((row) => row.key === key);
+    templates[key] = saved
+      ? {
+          content: { subject: saved.subject, html_body: saved.html_body, text_body: saved.text_body },
+          customized: true,
+          updated_at: saved.updated_at,
+        }
+      : { content: DEFAULT_EMAIL_TEMPLATES[key], customized: false, updated_at: null };
+  }
+  return templates;
+};
+
+export const saveEmailTemplate = async (key: EmailTemplateKey, content: EmailTemplateContent, userId: string) => {
+  const { error } = await supabase
+    .from('email_templates')
+    .upsert({ key, ...content, updated_by: userId });
+  if (error) throw error;
+};
+
+// Removing the stored copy puts the built-in default back in use
+export const resetEmailTemplate = async (key: EmailTemplateKey) => {
+  const { error } = await supabase.from('email_templates').delete().eq('key', key);
+  if (error) throw error;
+};
+
+export const sendTestEmail = async (content: EmailTemplateContent, to?: string) => {
+  const { data, error } = await supabase.functions.invoke('send-test-email', {
+    body: { template: content, to: to || undefined },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data.to as string;
+};
+
+// Emails the client of an order. Failures are logged rather than thrown so a
+// missed email never fails the action that triggered it.
+export const sendOrderEmail = async (userId: string, orderId: string, template: EmailTemplateKey) => {
+  try {
+    const { error } = await supabase.functions.invoke('send-order-notification', {
+      body: { user_id: userId, order_id: orderId, template },
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error(`Error sending ${template} email:`, error);
+  }
+};
@@ -0,0 +1,112 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type PartShape = Database['public']['Enums']['part_shape'];
+export type DimensionUnit = Database['public']['Enums']['dimension_unit'];
+export type DimensionField = 'part_length' | 'part_width' | 'part_height' | 'part_diameter';
+
+export interface PartGeometry {
+  part_shape: PartShape | null;
+  dimension_unit: DimensionUnit;
+  part_length: number | null;
+  part_width: number | null;
+  part_height: number | null;
+  part_diameter: number | null;
+}
+
+interface ShapeDefinition {
+  label: string;
+  description: string;
+  // Dimensions the shape is measured by, in entry order
+  fields: { field: DimensionField; label: string }[];
+}
+
+export const PART_SHAPES: Record<PartShape, ShapeDefinition> = {
+  flat_sheet: {
+    label: 'Flat Sheet',
+    description: 'Panels and plates, coated on both faces',
+    fields: [
+      { field: 'part_length', label: 'Length' },
+      { field: 'part_width', label: 'Width' },
+      { field: 'part_height', label: 'Thickness' },
+    ],
+  },
+  tube: {
+    label: 'Tube',
+    description: 'Round tubes and pipes, coated outside',
+    fields: [
+      { field: 'part_length', label: 'Length' },
+      { field: 'part_diameter', label: 'Outer Diameter' },
+    ],
+  },
+  profile: {
+    label: 'Profile',
+    description: 'Box sections, bars and extrusions',
+    fields: [
+      { field: 'part_length', label: 'Length' },
+      { field: 'part_width', label: 'Section Width' },
+      { field: 'part_height', label: 'Section Height' },
+    ],
+  },
+  custom: {
+    label: 'Custom',
+    description: 'Anything else; describe it below',
+    fields: [],
+  },
+};
+
+export const DIMENSION_UNITS: Record<DimensionUnit, { label: string; toMeters: number }> = {
+  mm: { label: 'mm', toMeters: 0.001 },
+  cm: { label: 'cm', toMeters: 0.01 },
+  m: { label: 'm', toMeters: 1 },
+  in: { label: 'in', toMeters: 0.0254 },
+};
+
+// Smallest area surface_area_sqm can hold (NUMERIC(10, 3), must be above 0)
+export const MIN_SURFACE_AREA_SQM = 0.001;
+
+// Coated surface area of one piece in m², or null when the shape is custom or
+// a dimension is missing. Sheets include their edges; tubes and profiles
+// leave out their open ends. Tiny parts count as the smallest storable area
+// rather than rounding down to 0.
+export const calculateSurfaceArea = (geometry: PartGeometry) => {
+  const shape = geometry.part_shape;
+  if (!shape || PART_SHAPES[shape].fields.some(({ field }) => !geometry[field])) return null;
+
+  const scale = DIMENSION_UNITS[geometry.dimension_unit].toMeters;
+  const length = Number(geometry.part_length) * scale;
+  const width = Number(geometry.part_width) * scale;
+  const height = Number(geometry.part_height) * scale;
+  const diameter = Number(geometry.part_diameter) * scale;
+
+  let area: number;
+  switch (shape) {
+    case 'flat_sheet':
+      area = 2 * (length * width + length * height + width * height);
+      break;
+    case 'tube':
+      area = Math.PI * diameter * length;
+      break;
+    case 'profile':
+      area = 2 * (width + height) * length;
+      break;
+    default:
+      return null;
+  }
+
+  return Math.max(MIN_SURFACE_AREA_SQM, Math.round(area * 1000) / 1000);
+};
+
+// e.g. "Flat Sheet, 1200 × 600 × 3 mm"; null when no shape was entered
+export const formatGeometry = (geometry: PartGeometry) => {
+  const shape = geometry.part_shape;
+  if (!shape) return null;
+
+  const values = PART_SHAPES[shape].fields
+    .map(({ field }) => geometry[field])
+    .filter((value) => value !== null);
+  if (values.length === 0) return PART_SHAPES[shape].label;
+
+  return `${PART_SHAPES[shape].label}, ${values.join(' × ')} ${geometry.dimension_unit}`;
+};
+
+export const formatArea = (sqm: number) => `${Number(sqm).toLocaleString(undefined, { maximumFractionDigits: 3 })} m²`;
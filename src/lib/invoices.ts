@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+import { generateInvoicePDF, InvoicePdfData } from '@/lib/pdf';
+
+// Loads the invoice for an order together with the order and client details
+// and downloads it as a PDF. Returns false when no invoice has been issued yet.
+export const downloadInvoiceForOrder = async (orderId: string) => {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!invoice) return false;
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('order_number, project_name, completed_date')
+    .eq('id', orderId)
+    .single();
+
+  if (orderError) throw orderError;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('full_name, company, phone')
+    .eq('id', invoice.user_id)
+    .maybeSingle();
+
+  generateInvoicePDF({
+    ...invoice,
+    line_items: invoice.line_items as InvoicePdfData['line_items'],
+    order_number: order.order_number,
+    project_name: order.project_name,
+    completed_date: order.completed_date,
+    client: profile,
+  });
+
+  return true;
+};
@@ -0,0 +1,67 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type NotificationDelivery = Database['public']['Tables']['notification_deliveries']['Row'];
+
+export type DeliveryFilter = 'attention' | 'sent' | 'all';
+
+export type DeliveryState = 'sending' | 'sent' | 'retrying' | 'failed';
+
+export const DELIVERIES_PAGE_SIZE = 25;
+
+export const DELIVERY_STATE_LABELS: Record<DeliveryState, string> = {
+  sending: 'Sending',
+  sent: 'Sent',
+  retrying: 'Retrying',
+  failed: 'Failed',
+};
+
+export const DELIVERY_STATE_CLASSES: Record<DeliveryState, string> = {
+  sending: 'bg-blue-500 text-white',
+  sent: 'bg-green-500 text-white',
+  retrying: 'bg-yellow-500 text-white',
+  failed: 'bg-destructive text-destructive-foreground',
+};
+
+// Pending deliveries that were already tried are waiting on a retry
+export const getDeliveryState = (delivery: Pick<NotificationDelivery, 'status' | 'attempts'>): DeliveryState => {
+  if (delivery.status === 'sent') return 'sent';
+  if (delivery.status === 'failed') return 'failed';
+  return delivery.attempts > 0 ? 'retrying' : 'sending';
+};
+
+// Subject line of the message the delivery carries, or the text itself for SMS
+export const getDeliverySubject = (delivery: NotificationDelivery) => {
+  const payload = delivery.payload as { subject?: unknown; body?: unknown } | null;
+  const subject = delivery.channel === 'sms' ? payload?.body : payload?.subject;
+  return typeof subject === 'string' ? subject : '';
+};
+
+export const fetchDeliveries = async (filter: DeliveryFilter, page: number) => {
+  let request = supabase
+    .from('notification_deliveries')
+    .select('*, orders(order_number)', { count: 'exact' });
+
+  if (filter === 'attention') {
+    request = request.or('status.eq.failed,and(status.eq.pending,attempts.gt.0)');
+  } else if (filter === 'sent') {
+    request = request.eq('status', 'sent');
+  }
+
+  const from = page * DELIVERIES_PAGE_SIZE;
+  const { data, count, error } = await request
+    .order('created_at', { ascending: false })
+    .range(from, from + DELIVERIES_PAGE_SIZE - 1);
+  if (error) throw error;
+
+  return { deliveries: data || [], total: count || 0 };
+};
+
+// Sends the delivery again right away, whatever its retry schedule
+export const resendDelivery = async (deliveryId: string) => {
+  const { data, error } = await supabase.functions.invoke('retry-notification-deliveries', {
+    body: { delivery_id: deliveryId },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+};
@@ -0,0 +1,76 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type Notification = Database['public']['Tables']['messages']['Row'];
+export type NotificationEvent = Database['public']['Enums']['notification_event'];
+export type NotificationRole = Database['public']['Enums']['app_role'];
+
+export interface NotificationPreference {
+  in_app: boolean;
+  email: boolean;
+  sms: boolean;
+}
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+export const NOTIFICATION_PRIORITIES = ['high', 'medium', 'low'] as const;
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, { label: string; description: string }> = {
+  new_order: { label: 'New orders', description: 'A client submits an order' },
+  order_status: { label: 'Order updates', description: 'An order changes status, is delayed or is completed' },
+  quote: { label: 'Quotes', description: 'Quotes, counter-offers and quote approvals' },
+  billing: { label: 'Billing', description: 'Invoices and payments' },
+  order_message: { label: 'Order messages', description: 'Someone writes in an order message thread' },
+  inventory: { label: 'Inventory', description: 'Powder stock runs low or an order has no matching powder' },
+};
+
+// Events each role can receive, in the order they're listed in preferences
+export const NOTIFICATION_ROLE_EVENTS: Record<NotificationRole, NotificationEvent[]> = {
+  client: ['order_status', 'quote', 'billing', 'order_message'],
+  admin: ['new_order', 'order_status', 'quote', 'order_message', 'inventory'],
+  team_member: [],
+};
+
+// Events that also send each role an email
+export const NOTIFICATION_EMAIL_EVENTS: Record<NotificationRole, NotificationEvent[]> = {
+  client: ['order_status', 'quote'],
+  admin: [],
+  team_member: [],
+};
+
+// Events each role can opt in to get as a text message
+export const NOTIFICATION_SMS_EVENTS: Record<NotificationRole, NotificationEvent[]> = {
+  client: ['order_status'],
+  admin: [],
+  team_member: [],
+};
+
+// Missing rows mean the user never changed the defaults: in-app and email on, texts off
+export const fetchNotificationPreferences = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('event, in_app, email, sms')
+    .eq('user_id', userId);
+  if (error) throw error;
+
+  const preferences = {} as Record<NotificationEvent, NotificationPreference>;
+  for (const event of Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEvent[]) {
+    const saved = data?.find((row) => row.event === event);
+    preferences[event] = { in_app: saved?.in_app ?? true, email: saved?.email ?? true, sms: saved?.sms ?? false };
+  }
+  return preferences;
+};
+
+export const saveNotificationPreference = async (
+  userId: string,
+  event: NotificationEvent,
+  preference: NotificationPreference
+) => {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, event, ...preference });
+  if (error) throw error;
+};
+
+// PostgREST filter strings treat these characters as syntax
+export const toSearchPattern = (search: string) => `%${search.trim().replace(/[%_,()\\]/g, ' ')}%`;
@@ -0,0 +1,42 @@
+import { Database } from '@/integrations/supabase/types';
+import {
+  IMPORT_COLUMNS,
+  ImportFinish,
+  ImportPriority,
+  ImportTexture,
+} from '../../supabase/functions/_shared/orderImport';
+import { SpreadsheetFormat, downloadSpreadsheet } from '@/lib/spreadsheet';
+
+export type {
+  ImportColorOption,
+  ImportRowResult,
+  OrderImportRow,
+  RawImportRow,
+} from '../../supabase/functions/_shared/orderImport';
+
+export {
+  IMPORT_COLUMNS,
+  MAX_IMPORT_ROWS,
+  isBlankImportRow,
+  mapImportHeaders,
+  toRawImportRow,
+  validateImportRow,
+} from '../../supabase/functions/_shared/orderImport';
+
+type Enums = Database['public']['Enums'];
+
+// Fails to compile if the shared enum values drift from the database
+const _enumCheck: [
+  [Enums['order_priority'], ImportPriority] extends [ImportPriority, Enums['order_priority']] ? true : never,
+  [Enums['finish_type'], ImportFinish] extends [ImportFinish, Enums['finish_type']] ? true : never,
+  [Enums['texture_type'], ImportTexture] extends [ImportTexture, Enums['texture_type']] ? true : never,
+] = [true, true, true];
+
+export const downloadImportTemplate = (spreadsheetFormat: SpreadsheetFormat) =>
+  downloadSpreadsheet(
+    spreadsheetFormat,
+    'walk-in-orders-template',
+    IMPORT_COLUMNS.map((column) => column.header),
+    [IMPORT_COLUMNS.map((column) => column.example)],
+    'Orders'
+  );
@@ -0,0 +1,25 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+type OrderItemRow = Database['public']['Tables']['order_items']['Row'];
+type CustomizationRow = Database['public']['Tables']['order_customizations']['Row'];
+
+export type OrderItem = OrderItemRow & {
+  order_customizations: (CustomizationRow & { catalog_colors: { name: string; ral_code: string | null } | null }) | null;
+};
+
+// Line items of an order in entry order, each with its coating
+export const fetchOrderItems = async (orderId: string): Promise<OrderItem[]> => {
+  const { data, error } = await supabase
+    .from('order_items')
+    .select('*, order_customizations(*, catalog_colors(name, ral_code))')
+    .eq('order_id', orderId)
+    .order('position');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Total coated area of the items that have one, in m²
+export const getTotalSurfaceArea = (items: Pick<OrderItemRow, 'quantity' | 'surface_area_sqm'>[]) =>
+  items.reduce((sum, item) => sum + (item.surface_area_sqm ? Number(item.surface_area_sqm) * item.quantity : 0), 0);
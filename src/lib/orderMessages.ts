@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type ThreadRole = Database['public']['Enums']['app_role'];
+export type OrderMessageRead = Database['public']['Tables']['order_message_reads']['Row'];
+
+// A type rather than an interface so it can be stored in the attachments JSON column
+export type OrderMessageAttachment = {
+  file_name: string;
+  file_size: number;
+  // Path in the order-message-attachments bucket
+  path: string;
+};
+
+export type OrderMessage = Omit<Database['public']['Tables']['order_messages']['Row'], 'attachments'> & {
+  attachments: OrderMessageAttachment[];
+};
+
+export const ORDER_MESSAGE_BUCKET = 'order-message-attachments';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+export const THREAD_ROLE_LABELS: Record<ThreadRole, string> = {
+  admin: 'Admin',
+  team_member: 'Production Team',
+  client: 'Client',
+};
+
+// Admins and team members speak for the shop; read receipts only count the other side
+export const isShopRole = (role: ThreadRole) => role !== 'client';
+
+export const fetchOrderThread = async (orderId: string) => {
+  const [messages, reads] = await Promise.all([
+    supabase.from('order_messages').select('*').eq('order_id', orderId).order('created_at'),
+    supabase.from('order_message_reads').select('*').eq('order_id', orderId),
+  ]);
+
+  const error = messages.error || reads.error;
+  if (error) throw error;
+
+  return {
+    messages: (messages.data || []) as unknown as OrderMessage[],
+    reads: reads.data || [],
+  };
+};
+
+// Records that the current user has read the thread up to now; the database
+// stamps the time
+export const markThreadRead = async (orderId: string, userId: string) => {
+  const { error } = await supabase
+    .from('order_message_reads')
+    .upsert({ order_id: orderId, user_id: userId });
+  if (error) throw error;
+};
+
+export const uploadMessageAttachment = async (orderId: string, file: File): Promise<OrderMessageAttachment> => {
+  const fileExt = file.name.split('.').pop();
+  const path = `${orderId}/${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(ORDER_MESSAGE_BUCKET).upload(path, file);
+  if (error) throw error;
+
+  return { file_name: file.name, file_size: file.size, path };
+};
+
+// Attachments are private, so they open through a short-lived signed URL
+export const openMessageAttachment = async (attachment: OrderMessageAttachment) => {
+  const { data, error } = await supabase.storage.from(ORDER_MESSAGE_BUCKET).createSignedUrl(attachment.path, 60);
+  if (error) throw error;
+  window.open(data.signedUrl, '_blank');
+};
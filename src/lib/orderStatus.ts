@@ -0,0 +1,72 @@
+import { AlertTriangle, CheckCircle, Clock, DollarSign, LucideIcon, Package, Shield, Zap } from 'lucide-react';
+import { Constants, Database } from '@/integrations/supabase/types';
+import {
+  ORDER_STATUS_DEFINITIONS,
+  ORDER_STATUS_FLOW,
+  isOrderStatus,
+  OrderStatus as SharedOrderStatus,
+} from '../../supabase/functions/_shared/orderStatus';
+
+export type { RoutingPosition } from '../../supabase/functions/_shared/orderStatus';
+
+export {
+  ORDER_STATUS_DEFINITIONS,
+  ORDER_STATUS_FLOW,
+  PRODUCTION_STAGES,
+  DEFAULT_ROUTING,
+  isOrderStatus,
+  isProductionStage,
+  getStatusLabel,
+  getRoutingProgress,
+  getStatusProgress,
+  getRequiredDepartment,
+  getAllowedTransitions,
+  canTransition,
+  resolveRoutingStep,
+  canResumeFromDelay,
+  getNextStage,
+} from '../../supabase/functions/_shared/orderStatus';
+
+export type OrderStatus = Database['public']['Enums']['order_status'];
+
+export const ORDER_STATUSES = Constants.public.Enums.order_status;
+
+// Fails to compile if the shared definition drifts from the database enum
+const _enumCheck: [OrderStatus, SharedOrderStatus] extends [SharedOrderStatus, OrderStatus] ? true : never = true;
+
+interface OrderStatusStyle {
+  icon: LucideIcon;
+  // Solid background for timeline dots and stage icons
+  color: string;
+  // Background and text classes for status badges
+  badgeClass: string;
+}
+
+export const ORDER_STATUS_STYLES: Record<OrderStatus, OrderStatusStyle> = {
+  pending_quote: { icon: DollarSign, color: 'bg-yellow-500', badgeClass: 'bg-yellow-500 text-white' },
+  queued: { icon: Clock, color: 'bg-blue-500', badgeClass: 'bg-blue-500 text-white' },
+  'sand-blasting': { icon: Package, color: 'bg-orange-500', badgeClass: 'bg-orange-500 text-white' },
+  coating: { icon: Package, color: 'bg-primary', badgeClass: 'bg-primary text-primary-foreground' },
+  curing: { icon: Zap, color: 'bg-purple-500', badgeClass: 'bg-purple-500 text-white' },
+  'quality-check': { icon: Shield, color: 'bg-indigo-500', badgeClass: 'bg-indigo-500 text-white' },
+  completed: { icon: CheckCircle, color: 'bg-green-500', badgeClass: 'bg-green-500 text-white' },
+  delayed: { icon: AlertTriangle, color: 'bg-red-500', badgeClass: 'bg-red-500 text-white' },
+};
+
+export const getStatusBadgeClass = (status: string) => {
+  return isOrderStatus(status) ? ORDER_STATUS_STYLES[status].badgeClass : 'bg-muted text-muted-foreground';
+};
+
+// Stages with their display details, for status timelines
+const toStatusStep = (key: OrderStatus) => ({
+  key,
+  ...ORDER_STATUS_DEFINITIONS[key],
+  ...ORDER_STATUS_STYLES[key],
+});
+
+export const ORDER_STATUS_STEPS = ORDER_STATUS_FLOW.map(toStatusStep);
+
+// Timeline for a single order, following its routing
+export const getRoutingSteps = (routing: OrderStatus[]) => {
+  return (['pending_quote', 'queued', ...routing, 'completed'] as OrderStatus[]).map(toStatusStep);
+};
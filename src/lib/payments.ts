@@ -0,0 +1,45 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type Payment = Database['public']['Tables']['payments']['Row'];
+export type PaymentType = Database['public']['Enums']['payment_type'];
+export type PaymentMethod = Database['public']['Enums']['payment_method'];
+export type OrderBalance = Database['public']['Functions']['get_order_balance']['Returns'][number];
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  deposit: 'Deposit',
+  partial: 'Partial Payment',
+  final: 'Final Payment',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank Transfer',
+  gcash: 'GCash',
+  check: 'Check',
+};
+
+// SQLSTATE raised by check_deposit_before_completion when an order is
+// completed before its deposit is paid
+export const DEPOSIT_REQUIRED_ERROR_CODE = 'TP402';
+
+export const isDepositRequiredError = (error: { code?: string } | null | undefined) =>
+  error?.code === DEPOSIT_REQUIRED_ERROR_CODE;
+
+// Payments for an order, newest first, with its balance. The balance amounts
+// are null while the order has no quote.
+export const fetchOrderPayments = async (orderId: string) => {
+  const { data: payments, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('paid_at', { ascending: false });
+
+  if (error) throw error;
+
+  const { data: balance, error: balanceError } = await supabase.rpc('get_order_balance', { _order_id: orderId });
+
+  if (balanceError) throw balanceError;
+
+  return { payments: payments || [], balance: (balance?.[0] as OrderBalance | undefined) || null };
+};
@@ -0,0 +1,343 @@
+import jsPDF from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { getStatusLabel } from '@/lib/orderStatus';
+import { getColorLabel } from '@/lib/colorCatalog';
+import { formatGeometry } from '@/lib/geometry';
+import { OrderItem } from '@/lib/orderItems';
+import { formatPdfPeso } from '@/lib/currency';
+
+const PAGE_CENTER_X = 105;
+const MARGIN_X = 14;
+const PAGE_BREAK_Y = 250;
+
+// Starts a new document with the centered TOP Powder Coating header and
+// returns the y position where content should begin
+export const createPdfDocument = (title: string, subtitles: string[] = []) => {
+  const doc = new jsPDF();
+  let yPos = 20;
+
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, PAGE_CENTER_X, yPos, { align: 'center' });
+  yPos += 10;
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  [...subtitles, `Generated: ${format(new Date(), 'MMM dd, yyyy HH:mm')}`].forEach((line) => {
+    doc.text(line, PAGE_CENTER_X, yPos, { align: 'center' });
+    yPos += 5;
+  });
+
+  return { doc, yPos: yPos + 10 };
+};
+
+export const ensurePageSpace = (doc: jsPDF, yPos: number) => {
+  if (yPos > PAGE_BREAK_Y) {
+    doc.addPage();
+    return 20;
+  }
+  return yPos;
+};
+
+export const addSectionTitle = (doc: jsPDF, title: string, yPos: number) => {
+  yPos = ensurePageSpace(doc, yPos);
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, MARGIN_X, yPos);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  return yPos + 10;
+};
+
+export const getLastTableY = (doc: jsPDF) => {
+  return (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+};
+
+// Renders a grid table and returns the y position below it
+export const addTable = (doc: jsPDF, yPos: number, head: string[], body: RowInput[], spacing = 10) => {
+  autoTable(doc, {
+    startY: yPos,
+    head: [head],
+    body,
+    theme: 'grid',
+  });
+  return getLastTableY(doc) + spacing;
+};
+
+export const addPageNumbers = (doc: jsPDF) => {
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.text(`Page ${i} of ${pageCount}`, PAGE_CENTER_X, 290, { align: 'center' });
+  }
+};
+
+export interface OrderSummaryPdfData {
+  order_number: string;
+  status: string;
+  submitted_date: string;
+  estimated_completion: string | null;
+  project_name: string;
+  description: string;
+  quantity: number;
+  additional_notes: string | null;
+  quoted_price: number | null;
+  quote_approved: boolean | null;
+  items: OrderItem[];
+  profile?: {
+    full_name: string;
+    company: string | null;
+    phone: string | null;
+  };
+  user_email?: string;
+  negotiations: Array<{
+    quoted_by: string;
+    quoted_price: number;
+    notes: string | null;
+    status: string;
+    created_at: string;
+  }>;
+  statusHistory: Array<{
+    status: string;
+    notes: string | null;
+    changed_at: string;
+  }>;
+}
+
+export const generateOrderSummaryPDF = (order: OrderSummaryPdfData, clientId?: string) => {
+  const { doc, yPos: startY } = createPdfDocument('TOP Powder Coating Order Summary', [
+    `Order ${order.order_number}`,
+  ]);
+  let yPos = startY;
+
+  yPos = addSectionTitle(doc, 'Order Details', yPos);
+  yPos = addTable(doc, yPos, ['Field', 'Value'], [
+    ['Order Number', order.order_number],
+    ['Project', order.project_name],
+    ['Description', order.description],
+    ['Status', getStatusLabel(order.status)],
+    ['Submitted', format(new Date(order.submitted_date), 'MMM dd, yyyy')],
+    ['Est. Completion', order.estimated_completion ? format(new Date(order.estimated_completion), 'MMM dd, yyyy') : 'TBD'],
+    ['Quantity', `${order.quantity} pieces`],
+    ['Quoted Price', formatPdfPeso(order.quoted_price)],
+    ['Quote Status', order.quote_approved ? 'Approved' : order.quoted_price ? 'Awaiting approval' : 'Pending quote'],
+    ...(order.additional_notes ? [['Additional Notes', order.additional_notes]] : []),
+  ]);
+
+  if (order.profile || order.user_email) {
+    yPos = addSectionTitle(doc, 'Client', yPos);
+    yPos = addTable(doc, yPos, ['Field', 'Value'], [
+      ['Name', order.profile?.full_name || 'N/A'],
+      ['Company', order.profile?.company || 'N/A'],
+      ['Email', order.user_email || 'N/A'],
+      ['Phone', order.profile?.phone || 'N/A'],
+    ]);
+  }
+
+  yPos = addSectionTitle(doc, 'Items', yPos);
+  if (order.items.length > 0) {
+    yPos = addTable(doc, yPos, ['#', 'Description', 'Qty', 'Size', 'Coating', 'Quote'],
+      order.items.map((item) => {
+        const coating = item.order_customizations;
+        return [
+          item.position.toString(),
+          item.description,
+          item.quantity.toString(),
+          formatGeometry(item) || item.dimensions || '-',
+          coating
+            ? `${getColorLabel(coating)}, ${coating.finish} / ${coating.texture}${coating.custom_notes ? ` (${coating.custom_notes})` : ''}`
+            : '-',
+          formatPdfPeso(item.quoted_price),
+        ];
+      })
+    );
+  } else {
+    doc.text('No items recorded for this order.', MARGIN_X, yPos);
+    yPos += 10;
+  }
+
+  yPos = addSectionTitle(doc, 'Quote Negotiation History', yPos);
+  if (order.negotiations.length > 0) {
+    yPos = addTable(doc, yPos, ['Date', 'From', 'Amount', 'Status', 'Notes'],
+      [...order.negotiations]
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+        .map((negotiation) => [
+          format(new Date(negotiation.created_at), 'MMM dd, yyyy HH:mm'),
+          clientId && negotiation.quoted_by === clientId ? 'Client' : 'Admin',
+          formatPdfPeso(negotiation.quoted_price),
+          negotiation.status.toUpperCase(),
+          negotiation.notes || '-',
+        ])
+    );
+  } else {
+    doc.text('No quotes have been issued yet.', MARGIN_X, yPos);
+    yPos += 10;
+  }
+
+  yPos = addSectionTitle(doc, 'Status Timeline', yPos);
+  if (order.statusHistory.length > 0) {
+    addTable(doc, yPos, ['Date', 'Status', 'Notes'],
+      [...order.statusHistory]
+        .sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime())
+        .map((entry) => [
+          format(new Date(entry.changed_at), 'MMM dd, yyyy HH:mm'),
+          getStatusLabel(entry.status),
+          entry.notes || '-',
+        ])
+    );
+  } else {
+    doc.text('No status changes recorded yet.', MARGIN_X, yPos);
+  }
+
+  addPageNumbers(doc);
+  doc.save(`TOP_Order_${order.order_number}.pdf`);
+};
+
+export interface QuotePdfData {
+  version: number;
+  quoted_price: number;
+  created_at: string;
+  valid_until: string | null;
+  terms: string | null;
+  expired: boolean;
+  vat_rate: number;
+  line_items: Array<{
+    description: string;
+    quantity: number;
+    amount: number | null;
+  }>;
+  order_number: string;
+  project_name: string;
+  description: string;
+  client: {
+    full_name: string;
+    company: string | null;
+    phone: string | null;
+  } | null;
+}
+
+export const generateQuotePDF = (quote: QuotePdfData) => {
+  const quoteNumber = `${quote.order_number}-V${quote.version}`;
+  const { doc, yPos: startY } = createPdfDocument('TOP Powder Coating Quotation', [
+    `Quote ${quoteNumber}`,
+    `Issued: ${format(new Date(quote.created_at), 'MMM dd, yyyy')}`,
+  ]);
+  let yPos = startY;
+
+  yPos = addSectionTitle(doc, 'Prepared For', yPos);
+  yPos = addTable(doc, yPos, ['Field', 'Value'], [
+    ['Client', quote.client?.full_name || 'N/A'],
+    ['Company', quote.client?.company || 'N/A'],
+    ['Phone', quote.client?.phone || 'N/A'],
+    ['Order Number', quote.order_number],
+    ['Project', quote.project_name],
+    ['Description', quote.description],
+    ['Valid Until', quote.valid_until ? format(new Date(quote.valid_until), 'MMM dd, yyyy') : 'N/A'],
+  ]);
+
+  const vatAmount = Math.round(Number(quote.quoted_price) * quote.vat_rate * 100) / 100;
+  yPos = addSectionTitle(doc, 'Quotation', yPos);
+  yPos = addTable(doc, yPos, ['Description', 'Qty', 'Amount'], [
+    ...quote.line_items.map((item) => [
+      item.description,
+      item.quantity,
+      item.amount === null ? '-' : formatPdfPeso(item.amount),
+    ]),
+    ['', 'Subtotal', formatPdfPeso(quote.quoted_price)],
+    ['', `VAT (${Math.round(quote.vat_rate * 100)}%)`, formatPdfPeso(vatAmount)],
+    ['', 'TOTAL', formatPdfPeso(Number(quote.quoted_price) + vatAmount)],
+  ]);
+
+  if (quote.terms) {
+    yPos = addSectionTitle(doc, 'Terms and Conditions', yPos);
+    const lines = doc.splitTextToSize(quote.terms, 182);
+    lines.forEach((line: string) => {
+      yPos = ensurePageSpace(doc, yPos);
+      doc.text(line, MARGIN_X, yPos);
+      yPos += 5;
+    });
+    yPos += 5;
+  }
+
+  if (quote.expired) {
+    yPos = ensurePageSpace(doc, yPos);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('EXPIRED - Please request a new quote', MARGIN_X, yPos);
+  }
+
+  addPageNumbers(doc);
+  doc.save(`TOP_Quote_${quoteNumber}.pdf`);
+};
+
+export interface InvoicePdfData {
+  invoice_number: string;
+  issued_at: string;
+  status: string;
+  paid_at: string | null;
+  subtotal: number;
+  vat_rate: number;
+  vat_amount: number;
+  total_amount: number;
+  line_items: Array<{
+    description: string;
+    quantity: number;
+    unit_price: number;
+    amount: number;
+  }>;
+  order_number: string;
+  project_name: string;
+  completed_date: string | null;
+  client: {
+    full_name: string;
+    company: string | null;
+    phone: string | null;
+  } | null;
+}
+
+export const generateInvoicePDF = (invoice: InvoicePdfData) => {
+  const { doc, yPos: startY } = createPdfDocument('TOP Powder Coating Invoice', [
+    `Invoice ${invoice.invoice_number}`,
+    `Issued: ${format(new Date(invoice.issued_at), 'MMM dd, yyyy')}`,
+  ]);
+  let yPos = startY;
+
+  yPos = addSectionTitle(doc, 'Bill To', yPos);
+  yPos = addTable(doc, yPos, ['Field', 'Value'], [
+    ['Client', invoice.client?.full_name || 'N/A'],
+    ['Company', invoice.client?.company || 'N/A'],
+    ['Phone', invoice.client?.phone || 'N/A'],
+    ['Order Number', invoice.order_number],
+    ['Project', invoice.project_name],
+    ['Completed', invoice.completed_date ? format(new Date(invoice.completed_date), 'MMM dd, yyyy') : 'N/A'],
+  ]);
+
+  yPos = addSectionTitle(doc, 'Line Items', yPos);
+  yPos = addTable(doc, yPos, ['Description', 'Qty', 'Unit Price', 'Amount'], [
+    ...invoice.line_items.map((item) => [
+      item.description,
+      item.quantity,
+      formatPdfPeso(item.unit_price),
+      formatPdfPeso(item.amount),
+    ]),
+    ['', '', 'Subtotal', formatPdfPeso(invoice.subtotal)],
+    ['', '', `VAT (${Math.round(Number(invoice.vat_rate) * 100)}%)`, formatPdfPeso(invoice.vat_amount)],
+    ['', '', 'TOTAL', formatPdfPeso(invoice.total_amount)],
+  ]);
+
+  yPos = ensurePageSpace(doc, yPos);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(
+    invoice.status === 'paid'
+      ? `PAID${invoice.paid_at ? ` on ${format(new Date(invoice.paid_at), 'MMM dd, yyyy')}` : ''}`
+      : 'UNPAID - Balance due on pickup',
+    MARGIN_X,
+    yPos
+  );
+
+  addPageNumbers(doc);
+  doc.save(`TOP_Invoice_${invoice.invoice_number}.pdf`);
+};
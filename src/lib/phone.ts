@@ -0,0 +1,5 @@
+export {
+  DEFAULT_COUNTRY_CODE,
+  isValidPhoneNumber,
+  normalizePhoneNumber,
+} from '../../supabase/functions/_shared/phone';
@@ -0,0 +1,28 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type PricingRates = Database['public']['Tables']['pricing_rates']['Row'];
+export type QuantityBreak = Database['public']['Tables']['pricing_quantity_breaks']['Row'];
+
+// One line of an estimate from estimate_price / estimate_order_price.
+// Amounts exclude VAT, like quoted prices.
+export interface EstimateLine {
+  item: string;
+  amount: number;
+}
+
+// estimate_order_price lines also say which order item they belong to
+export type OrderEstimateLine = EstimateLine & { order_item_id: string | null };
+
+export const getEstimateTotal = (lines: EstimateLine[]) =>
+  Math.round(lines.reduce((sum, line) => sum + Number(line.amount), 0) * 100) / 100;
+
+// Estimated quote per order item from estimate_order_price. The minimum order
+// charge belongs to no item and is added to the first one.
+export const getItemEstimates = (lines: OrderEstimateLine[], itemIds: string[]) => {
+  const totals: Record<string, number> = Object.fromEntries(itemIds.map((itemId) => [itemId, 0]));
+  lines.forEach((line) => {
+    const itemId = line.order_item_id && line.order_item_id in totals ? line.order_item_id : itemIds[0];
+    if (itemId) totals[itemId] = Math.round((totals[itemId] + Number(line.amount)) * 100) / 100;
+  });
+  return totals;
+};
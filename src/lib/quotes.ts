@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { generateQuotePDF, QuotePdfData } from '@/lib/pdf';
+
+export type QuoteNegotiation = Database['public']['Tables']['quote_negotiations']['Row'];
+export type QuoteSettings = Database['public']['Tables']['quote_settings']['Row'];
+
+// Quoted prices exclude VAT; quote documents show it on top
+export const QUOTE_VAT_RATE = 0.12;
+
+// The shop's latest offer on an order, the one a client can approve
+export const getCurrentQuote = (negotiations: QuoteNegotiation[]) =>
+  negotiations
+    .filter((negotiation) => negotiation.version !== null)
+    .sort((a, b) => b.version - a.version)[0] || null;
+
+export const isQuoteExpired = (quote: Pick<QuoteNegotiation, 'status' | 'valid_until'>) =>
+  quote.status === 'expired' || (quote.valid_until !== null && new Date(quote.valid_until) < new Date());
+
+// Loads a quote version with its order, items and client and downloads it as
+// a PDF. Versions without a line breakdown list the order's items instead.
+export const downloadQuotePdf = async (quote: QuoteNegotiation) => {
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('order_number, project_name, description, user_id')
+    .eq('id', quote.order_id)
+    .single();
+
+  if (orderError) throw orderError;
+
+  const { data: items, error: itemsError } = await supabase
+    .from('order_items')
+    .select('description, quantity')
+    .eq('order_id', quote.order_id)
+    .order('position');
+
+  if (itemsError) throw itemsError;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('full_name, company, phone')
+    .eq('id', order.user_id)
+    .maybeSingle();
+
+  generateQuotePDF({
+    ...quote,
+    version: quote.version,
+    line_items:
+      (quote.line_items as QuotePdfData['line_items']) ||
+      (items || []).map((item) => ({ ...item, amount: null })),
+    vat_rate: QUOTE_VAT_RATE,
+    order_number: order.order_number,
+    project_name: order.project_name,
+    description: order.description,
+    expired: isQuoteExpired(quote),
+    client: profile,
+  });
+};
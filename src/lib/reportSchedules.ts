@@ -0,0 +1,56 @@
+import { Database } from '@/integrations/supabase/types';
+import { ReportDateRange as SharedReportDateRange } from '../../supabase/functions/_shared/reportSchedule';
+
+export type { ReportCategory } from '../../supabase/functions/_shared/reportSchedule';
+
+export {
+  REPORT_CATEGORIES,
+  REPORT_CATEGORY_LABELS,
+  REPORT_DATE_RANGE_LABELS,
+  isReportCategory,
+  resolveReportRange,
+} from '../../supabase/functions/_shared/reportSchedule';
+
+export type ReportSchedule = Database['public']['Tables']['report_schedules']['Row'];
+export type ReportFrequency = Database['public']['Enums']['report_frequency'];
+export type ReportFormat = Database['public']['Enums']['report_format'];
+export type ReportDateRange = Database['public']['Enums']['report_date_range'];
+
+// Fails to compile if the shared ranges drift from the database enum
+const _enumCheck: [ReportDateRange, SharedReportDateRange] extends [SharedReportDateRange, ReportDateRange]
+  ? true
+  : never = true;
+
+export const REPORT_FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  pdf: 'PDF',
+  csv: 'Excel (CSV)',
+  both: 'PDF and CSV',
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const formatSendHour = (hour: number) =>
+  `${hour % 12 === 0 ? 12 : hour % 12}:00 ${hour < 12 ? 'AM' : 'PM'}`;
+
+const getOrdinal = (day: number) => {
+  if (day % 10 === 1 && day !== 11) return `${day}st`;
+  if (day % 10 === 2 && day !== 12) return `${day}nd`;
+  if (day % 10 === 3 && day !== 13) return `${day}rd`;
+  return `${day}th`;
+};
+
+// "Every Monday at 7:00 AM", in the shop's time zone
+export const describeSchedule = (
+  schedule: Pick<ReportSchedule, 'frequency' | 'day_of_week' | 'day_of_month' | 'send_hour'>
+) => {
+  const time = formatSendHour(schedule.send_hour);
+  if (schedule.frequency === 'daily') return `Every day at ${time}`;
+  if (schedule.frequency === 'weekly') return `Every ${WEEKDAY_LABELS[schedule.day_of_week]} at ${time}`;
+  return `On the ${getOrdinal(schedule.day_of_month)} of every month at ${time}`;
+};
@@ -0,0 +1,142 @@
+export type SpreadsheetCell = string | number | null | undefined;
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const escapeCsvCell = (value: SpreadsheetCell) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: SpreadsheetCell[][]) =>
+  [header, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+// Splits CSV text into rows of cells, following RFC 4180 quoting
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  // Excel prefixes UTF-8 CSVs with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+export const downloadFile = (data: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([data], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+// exceljs is large, so it is only loaded once someone exports or imports a workbook
+const buildXlsx = async (sheetName: string, header: string[], rows: SpreadsheetCell[][]) => {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  sheet.addRow(header).font = { bold: true };
+  rows.forEach((row) => sheet.addRow(row.map((cell) => cell ?? '')));
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  sheet.columns.forEach((column, index) => {
+    const widest = Math.max(header[index].length, ...rows.map((row) => String(row[index] ?? '').length));
+    column.width = Math.min(Math.max(widest + 2, 10), 60);
+  });
+
+  return workbook.xlsx.writeBuffer();
+};
+
+// Downloads a single-sheet CSV or Excel file; `fileName` has no extension
+export const downloadSpreadsheet = async (
+  spreadsheetFormat: SpreadsheetFormat,
+  fileName: string,
+  header: string[],
+  rows: SpreadsheetCell[][],
+  sheetName = 'Sheet1'
+) => {
+  if (spreadsheetFormat === 'csv') {
+    // The byte order mark makes Excel read the file as UTF-8, keeping ₱ intact
+    downloadFile(`\uFEFF${toCsv(header, rows)}`, `${fileName}.csv`, 'text/csv;charset=utf-8');
+    return;
+  }
+
+  downloadFile(await buildXlsx(sheetName, header, rows), `${fileName}.xlsx`, XLSX_MIME_TYPE);
+};
+
+const cellToText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    // Formulas, hyperlinks and rich text keep their displayed value
+    if ('result' in value) return cellToText(value.result);
+    if ('text' in value) return cellToText(value.text);
+    if ('richText' in value && Array.isArray(value.richText)) {
+      return value.richText.map((part: { text: string }) => part.text).join('');
+    }
+  }
+  return String(value);
+};
+
+// Reads the first sheet of a .csv or .xlsx file as rows of text cells
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    return parseCsv(await file.text());
+  }
+
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellToText(row.getCell(column).value));
+    }
+    rows.push(cells);
+  });
+
+  return rows;
+};
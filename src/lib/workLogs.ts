@@ -0,0 +1,82 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type WorkLogEvent = Database['public']['Enums']['work_log_event'];
+
+type OrderStatus = Database['public']['Enums']['order_status'];
+
+export type WorkLogState = 'idle' | 'running' | 'paused';
+
+interface WorkLogEntry {
+  event: WorkLogEvent;
+  created_at: string;
+}
+
+const byCreatedAt = (a: WorkLogEntry, b: WorkLogEntry) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// State of a member's work on one stage, from its latest event
+export const getWorkLogState = (logs: WorkLogEntry[]): WorkLogState => {
+  const last = [...logs].sort(byCreatedAt).pop();
+  if (last?.event === 'start') return 'running';
+  if (last?.event === 'pause') return 'paused';
+  return 'idle';
+};
+
+// Sum of start -> pause/stop intervals in milliseconds; a running interval
+// counts up to now
+export const getWorkedMs = (logs: WorkLogEntry[], now = new Date()) => {
+  const sorted = [...logs].sort(byCreatedAt);
+  return sorted.reduce((total, log, index) => {
+    if (log.event !== 'start') return total;
+    const end = sorted[index + 1] ? new Date(sorted[index + 1].created_at) : now;
+    return total + (end.getTime() - new Date(log.created_at).getTime());
+  }, 0);
+};
+
+// The order's current stage, as work is logged against it
+interface StageOrder {
+  id: string;
+  status: string;
+  routing_step: number | null;
+}
+
+// A member's events on the order's current stage, oldest first
+export const fetchStageWorkLogs = (order: StageOrder, memberId: string) => {
+  let query = supabase
+    .from('stage_work_logs')
+    .select('id, event, created_at')
+    .eq('order_id', order.id)
+    .eq('team_member_id', memberId)
+    .eq('stage', order.status as OrderStatus);
+
+  query = order.routing_step === null ? query.is('routing_step', null) : query.eq('routing_step', order.routing_step);
+
+  return query.order('created_at');
+};
+
+// Clocks the member out of the order's current stage if they are on it. Call
+// it before advancing the order: once the order is reassigned the member can
+// no longer log against it, and cycle times only count stopped runs.
+export const stopStageWork = async (order: StageOrder, memberId: string) => {
+  const { data, error } = await fetchStageWorkLogs(order, memberId);
+  if (error) return error;
+  if (getWorkLogState(data || []) === 'idle') return null;
+
+  const { error: stopError } = await supabase.from('stage_work_logs').insert({
+    order_id: order.id,
+    team_member_id: memberId,
+    stage: order.status as OrderStatus,
+    routing_step: order.routing_step,
+    event: 'stop',
+  });
+  return stopError;
+};
+
+export const formatDuration = (minutes: number | null | undefined) => {
+  if (minutes === null || minutes === undefined) return 'N/A';
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return hours > 0 ? `${hours}h ${mins.toString().padStart(2, '0')}m` : `${mins}m`;
+};
@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Eye, EyeOff, User, Building, Phone, Mail, Lock, ArrowLeft, CheckCircle, Zap } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { isValidPhoneNumber, normalizePhoneNumber } from '@/lib/phone';
 
 export default function Signup() {
   const navigate = useNavigate();
@@ -40,6 +41,11 @@ export default function Signup() {
       return false;
     }
 
+    if (!isValidPhoneNumber(formData.phone)) {
+      setError('Please enter a valid phone number, like 0917 123 4567');
+      return false;
+    }
+
     if (formData.password.length < 8) {
       setError('Password must be at least 8 characters long');
       return false;
@@ -79,7 +85,7 @@ export default function Signup() {
           data: {
             full_name: formData.fullName,
             company: formData.company,
-            phone: formData.phone,
+            phone: normalizePhoneNumber(formData.phone),
           },
         },
       });
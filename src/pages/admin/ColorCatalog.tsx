@@ -0,0 +1,650 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Palette, Plus, Edit, Trash2, Loader2, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  fetchColorCatalog,
+  CatalogColor,
+  CoatingFinish,
+  CoatingTexture,
+  ColorCatalog as Catalog,
+  FinishType,
+  TextureType,
+} from '@/lib/colorCatalog';
+
+const comboKey = (finish: FinishType, texture: TextureType) => `${finish}|${texture}`;
+
+const emptyColorForm = {
+  name: '',
+  ral_code: '',
+  hex_code: '#000000',
+  swatch_url: '',
+  price_surcharge: '0',
+  sort_order: '0',
+  is_available: true,
+};
+
+type OptionEdit =
+  | { kind: 'finish'; row: CoatingFinish }
+  | { kind: 'texture'; row: CoatingTexture };
+
+export default function ColorCatalog() {
+  const [catalog, setCatalog] = useState<Catalog>({ finishes: [], textures: [], colors: [] });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  // Dialog states
+  const [colorDialogOpen, setColorDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [selectedColor, setSelectedColor] = useState<CatalogColor | null>(null);
+  const [optionEdit, setOptionEdit] = useState<OptionEdit | null>(null);
+
+  // Form states
+  const [colorForm, setColorForm] = useState(emptyColorForm);
+  const [selectedCombos, setSelectedCombos] = useState<string[]>([]);
+  const [optionForm, setOptionForm] = useState({ label: '', description: '', roughness: '', metalness: '', env_map_intensity: '', normal_scale: '' });
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    try {
+      setCatalog(await fetchColorCatalog());
+    } catch (error) {
+      console.error('Error fetching color catalog:', error);
+      toast.error('Failed to load color catalog');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const allCombos = catalog.finishes.flatMap((f) => catalog.textures.map((t) => comboKey(f.finish, t.texture)));
+
+  const openCreateDialog = () => {
+    setSelectedColor(null);
+    setColorForm(emptyColorForm);
+    setSelectedCombos(allCombos);
+    setColorDialogOpen(true);
+  };
+
+  const openEditDialog = (color: CatalogColor) => {
+    setSelectedColor(color);
+    setColorForm({
+      name: color.name,
+      ral_code: color.ral_code || '',
+      hex_code: color.hex_code,
+      swatch_url: color.swatch_url || '',
+      price_surcharge: color.price_surcharge.toString(),
+      sort_order: color.sort_order.toString(),
+      is_available: color.is_available,
+    });
+    setSelectedCombos(color.catalog_color_options.map((o) => comboKey(o.finish, o.texture)));
+    setColorDialogOpen(true);
+  };
+
+  const toggleCombo = (key: string) => {
+    setSelectedCombos((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const handleSwatchUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > 2 * 1024 * 1024) {
+      toast.error('Swatch images must be under 2MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const fileExt = file.name.split('.').pop();
+      const filePath = `${crypto.randomUUID()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage.from('color-swatches').upload(filePath, file);
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage.from('color-swatches').getPublicUrl(filePath);
+      setColorForm({ ...colorForm, swatch_url: publicUrl });
+    } catch (error) {
+      console.error('Error uploading swatch:', error);
+      toast.error('Failed to upload swatch image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSaveColor = async () => {
+    const hexCode = colorForm.hex_code.trim().toUpperCase();
+    if (!colorForm.name.trim() || !/^#[0-9A-F]{6}$/.test(hexCode)) {
+      toast.error('Enter a name and a hex code like #1A2B3C');
+      return;
+    }
+    if (selectedCombos.length === 0) {
+      toast.error('Offer the color in at least one finish and texture');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const colorData = {
+        name: colorForm.name.trim(),
+        ral_code: colorForm.ral_code.trim().toUpperCase() || null,
+        hex_code: hexCode,
+        swatch_url: colorForm.swatch_url || null,
+        price_surcharge: parseFloat(colorForm.price_surcharge) || 0,
+        sort_order: parseInt(colorForm.sort_order, 10) || 0,
+        is_available: colorForm.is_available,
+      };
+
+      let colorId = selectedColor?.id;
+      if (colorId) {
+        const { error } = await supabase.from('catalog_colors').update(colorData).eq('id', colorId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('catalog_colors').insert(colorData).select().single();
+        if (error) throw error;
+        colorId = data.id;
+      }
+
+      // Replace the offered combinations
+      const { error: deleteError } = await supabase.from('catalog_color_options').delete().eq('color_id', colorId);
+      if (deleteError) throw deleteError;
+
+      const { error: optionsError } = await supabase.from('catalog_color_options').insert(
+        selectedCombos.map((key) => {
+          const [finish, texture] = key.split('|') as [FinishType, TextureType];
+          return { color_id: colorId, finish, texture };
+        }),
+      );
+      if (optionsError) throw optionsError;
+
+      toast.success(selectedColor ? 'Color updated successfully' : 'Color added successfully');
+      setColorDialogOpen(false);
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error saving color:', error);
+      toast.error('Failed to save color');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteColor = async () => {
+    if (!selectedColor) return;
+
+    setSaving(true);
+    try {
+      // Existing orders keep the color's hex code
+      const { error } = await supabase.from('catalog_colors').delete().eq('id', selectedColor.id);
+      if (error) throw error;
+
+      toast.success('Color removed from the catalog');
+      setDeleteDialogOpen(false);
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error deleting color:', error);
+      toast.error('Failed to remove color');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleOptionAvailability = async (edit: OptionEdit, isAvailable: boolean) => {
+    const { error } =
+      edit.kind === 'finish'
+        ? await supabase.from('coating_finishes').update({ is_available: isAvailable }).eq('finish', edit.row.finish)
+        : await supabase.from('coating_textures').update({ is_available: isAvailable }).eq('texture', edit.row.texture);
+
+    if (error) {
+      console.error('Error updating availability:', error);
+      toast.error('Failed to update availability');
+      return;
+    }
+    fetchCatalog();
+  };
+
+  const openOptionDialog = (edit: OptionEdit) => {
+    setOptionEdit(edit);
+    setOptionForm({
+      label: edit.row.label,
+      description: edit.row.description || '',
+      roughness: edit.kind === 'finish' ? edit.row.roughness.toString() : '',
+      metalness: edit.kind === 'finish' ? edit.row.metalness.toString() : '',
+      env_map_intensity: edit.kind === 'finish' ? edit.row.env_map_intensity.toString() : '',
+      normal_scale: edit.kind === 'texture' ? edit.row.normal_scale.toString() : '',
+    });
+  };
+
+  const handleSaveOption = async () => {
+    if (!optionEdit || !optionForm.label.trim()) {
+      toast.error('Please enter a label');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const common = { label: optionForm.label.trim(), description: optionForm.description.trim() || null };
+      const { error } =
+        optionEdit.kind === 'finish'
+          ? await supabase
+              .from('coating_finishes')
+              .update({
+                ...common,
+                roughness: parseFloat(optionForm.roughness),
+                metalness: parseFloat(optionForm.metalness),
+                env_map_intensity: parseFloat(optionForm.env_map_intensity),
+              })
+              .eq('finish', optionEdit.row.finish)
+          : await supabase
+              .from('coating_textures')
+              .update({ ...common, normal_scale: parseFloat(optionForm.normal_scale) })
+              .eq('texture', optionEdit.row.texture);
+
+      if (error) throw error;
+
+      toast.success(`${common.label} updated successfully`);
+      setOptionEdit(null);
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error saving option:', error);
+      toast.error('Failed to save changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const optionRows: OptionEdit[] = [
+    ...catalog.finishes.map((row) => ({ kind: 'finish' as const, row })),
+    ...catalog.textures.map((row) => ({ kind: 'texture' as const, row })),
+  ];
+
+  return (
+    <ScrollArea className="h-screen">
+      <div className="min-h-screen bg-background pt-20">
+        <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                <Palette className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Color Catalog</h1>
+                <p className="text-muted-foreground">Colors, finishes and textures clients can order</p>
+              </div>
+            </div>
+            <Button onClick={openCreateDialog} size="lg">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Color
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              {/* Finishes & Textures */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Finishes & Textures</CardTitle>
+                  <CardDescription>Unavailable options are hidden from new orders</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {optionRows.map((edit) => (
+                    <div
+                      key={`${edit.kind}-${edit.kind === 'finish' ? edit.row.finish : edit.row.texture}`}
+                      className="flex items-center justify-between p-3 border rounded-lg"
+                    >
+                      <div className="flex items-center gap-3">
+                        <Badge variant="outline" className="capitalize w-16 justify-center">{edit.kind}</Badge>
+                        <div>
+                          <p className="font-medium">{edit.row.label}</p>
+                          <p className="text-sm text-muted-foreground">{edit.row.description}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Switch
+                          checked={edit.row.is_available}
+                          onCheckedChange={(checked) => toggleOptionAvailability(edit, checked)}
+                        />
+                        <Button variant="ghost" size="icon" onClick={() => openOptionDialog(edit)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              {/* Colors */}
+              {catalog.colors.length === 0 ? (
+                <Card>
+                  <CardContent className="py-12 text-center">
+                    <Palette className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">No colors in the catalog</h3>
+                    <p className="text-muted-foreground">Clients can still order custom colors</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {catalog.colors.map((color) => (
+                    <Card key={color.id} className={color.is_available ? '' : 'opacity-60'}>
+                      <CardContent className="pt-6 space-y-4">
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-center gap-3">
+                            <div
+                              className="h-12 w-12 rounded-lg border"
+                              style={{
+                                background: color.swatch_url
+                                  ? `center / cover no-repeat url(${color.swatch_url}), ${color.hex_code}`
+                                  : color.hex_code,
+                              }}
+                            />
+                            <div>
+                              <h3 className="font-semibold">{color.name}</h3>
+                              <p className="text-sm text-muted-foreground">
+                                {color.ral_code ? `${color.ral_code} • ` : ''}
+                                {color.hex_code}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" onClick={() => openEditDialog(color)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                setSelectedColor(color);
+                                setDeleteDialogOpen(true);
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-muted-foreground">
+                            {color.catalog_color_options.length} of {allCombos.length} combinations
+                          </span>
+                          <div className="flex gap-2">
+                            {color.price_surcharge > 0 && (
+                              <Badge variant="secondary">+₱{color.price_surcharge.toLocaleString()}</Badge>
+                            )}
+                            <Badge variant={color.is_available ? 'default' : 'outline'}>
+                              {color.is_available ? 'Available' : 'Unavailable'}
+                            </Badge>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Color Dialog */}
+      <Dialog open={colorDialogOpen} onOpenChange={setColorDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedColor ? 'Edit Color' : 'Add Color'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="color-name">Name *</Label>
+                <Input
+                  id="color-name"
+                  placeholder="Jet Black"
+                  value={colorForm.name}
+                  onChange={(e) => setColorForm({ ...colorForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="color-ral">RAL Code</Label>
+                <Input
+                  id="color-ral"
+                  placeholder="RAL 9005"
+                  value={colorForm.ral_code}
+                  onChange={(e) => setColorForm({ ...colorForm, ral_code: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="color-hex">Hex Code *</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="color"
+                    className="w-12 p-1"
+                    value={/^#[0-9A-Fa-f]{6}$/.test(colorForm.hex_code) ? colorForm.hex_code : '#000000'}
+                    onChange={(e) => setColorForm({ ...colorForm, hex_code: e.target.value.toUpperCase() })}
+                  />
+                  <Input
+                    id="color-hex"
+                    value={colorForm.hex_code}
+                    maxLength={7}
+                    onChange={(e) => setColorForm({ ...colorForm, hex_code: e.target.value.toUpperCase() })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="color-surcharge">Price Surcharge (₱)</Label>
+                <Input
+                  id="color-surcharge"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={colorForm.price_surcharge}
+                  onChange={(e) => setColorForm({ ...colorForm, price_surcharge: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Swatch Image</Label>
+              <div className="flex items-center gap-3">
+                {colorForm.swatch_url && (
+                  <img src={colorForm.swatch_url} alt="Swatch" className="h-10 w-10 rounded border object-cover" />
+                )}
+                <Button variant="outline" size="sm" asChild disabled={uploading}>
+                  <label className="cursor-pointer">
+                    {uploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                    Upload
+                    <input type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={handleSwatchUpload} />
+                  </label>
+                </Button>
+                {colorForm.swatch_url && (
+                  <Button variant="ghost" size="sm" onClick={() => setColorForm({ ...colorForm, swatch_url: '' })}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Offered In</Label>
+              <div className="border rounded-lg p-3">
+                <div
+                  className="grid gap-2 text-sm"
+                  style={{ gridTemplateColumns: `auto repeat(${catalog.textures.length}, minmax(0, 1fr))` }}
+                >
+                  <span />
+                  {catalog.textures.map((t) => (
+                    <span key={t.texture} className="text-center text-muted-foreground">{t.label}</span>
+                  ))}
+                  {catalog.finishes.map((f) => (
+                    <div key={f.finish} className="contents">
+                      <span className="text-muted-foreground">{f.label}</span>
+                      {catalog.textures.map((t) => (
+                        <div key={t.texture} className="flex justify-center">
+                          <Checkbox
+                            checked={selectedCombos.includes(comboKey(f.finish, t.texture))}
+                            onCheckedChange={() => toggleCombo(comboKey(f.finish, t.texture))}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="color-available">Available for new orders</Label>
+              <Switch
+                id="color-available"
+                checked={colorForm.is_available}
+                onCheckedChange={(checked) => setColorForm({ ...colorForm, is_available: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="color-sort">Sort Order</Label>
+              <Input
+                id="color-sort"
+                type="number"
+                value={colorForm.sort_order}
+                onChange={(e) => setColorForm({ ...colorForm, sort_order: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setColorDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveColor} disabled={saving || uploading}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {selectedColor ? 'Save Changes' : 'Add Color'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Finish / Texture Dialog */}
+      <Dialog open={!!optionEdit} onOpenChange={(open) => !open && setOptionEdit(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit {optionEdit?.kind === 'finish' ? 'Finish' : 'Texture'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="option-label">Label *</Label>
+              <Input
+                id="option-label"
+                value={optionForm.label}
+                onChange={(e) => setOptionForm({ ...optionForm, label: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="option-description">Description</Label>
+              <Input
+                id="option-description"
+                value={optionForm.description}
+                onChange={(e) => setOptionForm({ ...optionForm, description: e.target.value })}
+              />
+            </div>
+            {optionEdit?.kind === 'finish' ? (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="option-roughness">Roughness</Label>
+                  <Input
+                    id="option-roughness"
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={optionForm.roughness}
+                    onChange={(e) => setOptionForm({ ...optionForm, roughness: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="option-metalness">Metalness</Label>
+                  <Input
+                    id="option-metalness"
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={optionForm.metalness}
+                    onChange={(e) => setOptionForm({ ...optionForm, metalness: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="option-reflection">Reflection</Label>
+                  <Input
+                    id="option-reflection"
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={optionForm.env_map_intensity}
+                    onChange={(e) => setOptionForm({ ...optionForm, env_map_intensity: e.target.value })}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="option-normal-scale">Preview Relief</Label>
+                <Input
+                  id="option-normal-scale"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={optionForm.normal_scale}
+                  onChange={(e) => setOptionForm({ ...optionForm, normal_scale: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">0 renders a flat surface in the 3D preview</p>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOptionEdit(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveOption} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Dialog */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {selectedColor?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The color will no longer be offered. Existing orders keep their color code.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteColor} disabled={saving}>
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,386 @@
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle, Loader2, Mail, RotateCcw, Save, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import {
+  EMAIL_TEMPLATE_KEYS,
+  EMAIL_TEMPLATE_LABELS,
+  EMAIL_TEMPLATE_VARIABLES,
+  EmailTemplateContent,
+  EmailTemplateKey,
+  EmailTemplateState,
+  SAMPLE_TEMPLATE_VALUES,
+  fetchEmailTemplates,
+  findUnknownVariables,
+  renderEmailTemplate,
+  resetEmailTemplate,
+  saveEmailTemplate,
+  sendTestEmail,
+} from '@/lib/emailTemplates';
+
+type TemplateField = keyof EmailTemplateContent;
+
+const isSameContent = (a: EmailTemplateContent, b: EmailTemplateContent) =>
+  a.subject === b.subject && a.html_body === b.html_body && a.text_body === b.text_body;
+
+export default function EmailTemplates() {
+  const [loading, setLoading] = useState(true);
+  const [templates, setTemplates] = useState<Record<EmailTemplateKey, EmailTemplateState> | null>(null);
+  // Unsaved edits, kept per template so switching templates doesn't lose them
+  const [drafts, setDrafts] = useState<Partial<Record<EmailTemplateKey, EmailTemplateContent>>>({});
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey>('order_received');
+  const [saving, setSaving] = useState(false);
+  const [resetting, setResetting] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [testRecipient, setTestRecipient] = useState('');
+  const [sendingTest, setSendingTest] = useState(false);
+  const [activeField, setActiveField] = useState<TemplateField>('html_body');
+  const fieldRefs = useRef<Partial<Record<TemplateField, HTMLInputElement | HTMLTextAreaElement | null>>>({});
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        setTemplates(await fetchEmailTemplates());
+      } catch (error) {
+        console.error('Error fetching email templates:', error);
+        toast.error('Failed to load email templates');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, []);
+
+  if (loading || !templates) {
+    return (
+      <div className="min-h-screen bg-background pt-20 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const saved = templates[selectedKey];
+  const draft = drafts[selectedKey] || saved.content;
+  const isDirty = !isSameContent(draft, saved.content);
+  const unknownVariables = findUnknownVariables(draft);
+  const preview = renderEmailTemplate(draft, SAMPLE_TEMPLATE_VALUES);
+  const isComplete = !!(draft.subject.trim() && draft.html_body.trim() && draft.text_body.trim());
+
+  const updateDraft = (field: TemplateField, value: string) => {
+    setDrafts({ ...drafts, [selectedKey]: { ...draft, [field]: value } });
+  };
+
+  // Puts the variable at the cursor in the field that was last focused
+  const insertVariable = (variable: string) => {
+    const placeholder = `{{${variable}}}`;
+    const element = fieldRefs.current[activeField];
+    const value = draft[activeField];
+    const start = element?.selectionStart ?? value.length;
+    const end = element?.selectionEnd ?? value.length;
+
+    updateDraft(activeField, value.slice(0, start) + placeholder + value.slice(end));
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!isComplete) {
+      toast.error('Enter a subject, HTML body and plain-text body');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      await saveEmailTemplate(selectedKey, draft, user.id);
+      setTemplates(await fetchEmailTemplates());
+      setDrafts({ ...drafts, [selectedKey]: undefined });
+      toast.success('Email template saved');
+    } catch (error) {
+      console.error('Error saving email template:', error);
+      toast.error('Failed to save email template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setConfirmReset(false);
+    setResetting(true);
+    try {
+      await resetEmailTemplate(selectedKey);
+      setTemplates(await fetchEmailTemplates());
+      setDrafts({ ...drafts, [selectedKey]: undefined });
+      toast.success('Template reset to the default');
+    } catch (error) {
+      console.error('Error resetting email template:', error);
+      toast.error('Failed to reset email template');
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  const handleSendTest = async () => {
+    if (!isComplete) {
+      toast.error('Enter a subject, HTML body and plain-text body');
+      return;
+    }
+
+    setSendingTest(true);
+    try {
+      const recipient = await sendTestEmail(draft, testRecipient.trim());
+      toast.success(`Test email sent to ${recipient}`);
+    } catch (error) {
+      console.error('Error sending test email:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send test email');
+    } finally {
+      setSendingTest(false);
+    }
+  };
+
+  return (
+    <ScrollArea className="h-screen">
+      <div className="min-h-screen bg-background pt-20">
+        <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                <Mail className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Email Templates</h1>
+                <p className="text-muted-foreground">The emails clients receive about their orders</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+            {/* Template list */}
+            <div className="space-y-2">
+              {EMAIL_TEMPLATE_KEYS.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setSelectedKey(key)}
+                  className={cn(
+                    'w-full rounded-lg border p-3 text-left transition-colors hover:bg-muted/50',
+                    key === selectedKey && 'border-primary bg-primary/5'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">{EMAIL_TEMPLATE_LABELS[key].label}</span>
+                    {drafts[key] && !isSameContent(drafts[key]!, templates[key].content) ? (
+                      <Badge variant="outline" className="text-xs">Unsaved</Badge>
+                    ) : (
+                      templates[key].customized && <Badge variant="secondary" className="text-xs">Custom</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{EMAIL_TEMPLATE_LABELS[key].description}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-6">
+              {/* Editor */}
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>{EMAIL_TEMPLATE_LABELS[selectedKey].label}</CardTitle>
+                    <CardDescription>
+                      {saved.customized && saved.updated_at
+                        ? `Customized, last saved ${format(new Date(saved.updated_at), 'MMM d, yyyy h:mm a')}`
+                        : 'Using the default template'}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setConfirmReset(true)}
+                      disabled={resetting || (!saved.customized && !isDirty)}
+                    >
+                      {resetting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                      Reset
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving || !isDirty}>
+                      {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                      Save
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-subject">Subject</Label>
+                    <Input
+                      id="template-subject"
+                      ref={(element) => (fieldRefs.current.subject = element)}
+                      value={draft.subject}
+                      onChange={(e) => updateDraft('subject', e.target.value)}
+                      onFocus={() => setActiveField('subject')}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Variables</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {EMAIL_TEMPLATE_VARIABLES.map((variable) => (
+                        <Button
+                          key={variable.key}
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="font-mono text-xs"
+                          title={variable.description}
+                          onClick={() => insertVariable(variable.key)}
+                        >
+                          {`{{${variable.key}}}`}
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Click a variable to insert it where the cursor was. Values are filled in when the email is sent.
+                    </p>
+                  </div>
+
+                  {unknownVariables.length > 0 && (
+                    <div className="flex items-start gap-2 rounded-md border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+                      <AlertTriangle className="h-4 w-4 text-yellow-600 shrink-0 mt-0.5" />
+                      <span>
+                        Unknown variables will be sent as written:{' '}
+                        {unknownVariables.map((name) => `{{${name}}}`).join(', ')}
+                      </span>
+                    </div>
+                  )}
+
+                  <Tabs defaultValue="html">
+                    <TabsList>
+                      <TabsTrigger value="html">HTML</TabsTrigger>
+                      <TabsTrigger value="text">Plain text</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="html">
+                      <Textarea
+                        ref={(element) => (fieldRefs.current.html_body = element)}
+                        value={draft.html_body}
+                        onChange={(e) => updateDraft('html_body', e.target.value)}
+                        onFocus={() => setActiveField('html_body')}
+                        rows={16}
+                        className="font-mono text-xs"
+                      />
+                    </TabsContent>
+                    <TabsContent value="text">
+                      <Textarea
+                        ref={(element) => (fieldRefs.current.text_body = element)}
+                        value={draft.text_body}
+                        onChange={(e) => updateDraft('text_body', e.target.value)}
+                        onFocus={() => setActiveField('text_body')}
+                        rows={16}
+                        className="font-mono text-xs"
+                      />
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Shown by mail clients that don't display HTML.
+                      </p>
+                    </TabsContent>
+                  </Tabs>
+                </CardContent>
+              </Card>
+
+              {/* Preview and test send */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preview</CardTitle>
+                  <CardDescription>Filled in with sample values for order {SAMPLE_TEMPLATE_VALUES.order_number}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">Subject: </span>
+                    <span className="font-medium">{preview.subject}</span>
+                  </div>
+                  <Tabs defaultValue="html">
+                    <TabsList>
+                      <TabsTrigger value="html">HTML</TabsTrigger>
+                      <TabsTrigger value="text">Plain text</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="html">
+                      <iframe
+                        title="Email preview"
+                        srcDoc={preview.html}
+                        sandbox=""
+                        className="h-96 w-full rounded-md border bg-white"
+                      />
+                    </TabsContent>
+                    <TabsContent value="text">
+                      <pre className="h-96 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/30 p-4 text-sm">
+                        {preview.text}
+                      </pre>
+                    </TabsContent>
+                  </Tabs>
+
+                  <div className="flex flex-col gap-2 border-t pt-4 sm:flex-row sm:items-end">
+                    <div className="flex-1 space-y-2">
+                      <Label htmlFor="test-recipient">Send a test</Label>
+                      <Input
+                        id="test-recipient"
+                        type="email"
+                        placeholder="Leave blank to send to your own email"
+                        value={testRecipient}
+                        onChange={(e) => setTestRecipient(e.target.value)}
+                      />
+                    </div>
+                    <Button variant="outline" onClick={handleSendTest} disabled={sendingTest}>
+                      {sendingTest ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                      Send Test Email
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Test emails use the template as it is in the editor, including unsaved changes.
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset to the default template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your changes to the {EMAIL_TEMPLATE_LABELS[selectedKey].label.toLowerCase()} email will be discarded and
+              clients will receive the default email again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronLeft, ChevronRight, FileText, Loader2, RefreshCw, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { EMAIL_TEMPLATE_LABELS } from '@/lib/emailTemplates';
+import {
+  DELIVERIES_PAGE_SIZE,
+  DELIVERY_STATE_CLASSES,
+  DELIVERY_STATE_LABELS,
+  DeliveryFilter,
+  NotificationDelivery,
+  fetchDeliveries,
+  getDeliveryState,
+  getDeliverySubject,
+  resendDelivery,
+} from '@/lib/notificationDeliveries';
+
+type DeliveryWithOrder = NotificationDelivery & { orders: { order_number: string } | null };
+
+const CHANNEL_LABELS: Record<NotificationDelivery['channel'], string> = {
+  in_app: 'In-app',
+  email: 'Email',
+  sms: 'SMS',
+};
+
+export default function NotificationDeliveries() {
+  const [loading, setLoading] = useState(true);
+  const [deliveries, setDeliveries] = useState<DeliveryWithOrder[]>([]);
+  const [total, setTotal] = useState(0);
+  const [filter, setFilter] = useState<DeliveryFilter>('attention');
+  const [page, setPage] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<DeliveryWithOrder | null>(null);
+
+  const pageCount = Math.max(1, Math.ceil(total / DELIVERIES_PAGE_SIZE));
+
+  useEffect(() => {
+    const loadDeliveries = async () => {
+      setLoading(true);
+      try {
+        const result = await fetchDeliveries(filter, page);
+        setDeliveries(result.deliveries as DeliveryWithOrder[]);
+        setTotal(result.total);
+      } catch (error) {
+        console.error('Error fetching deliveries:', error);
+        toast.error('Failed to load deliveries');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDeliveries();
+  }, [filter, page, reloadKey]);
+
+  const handleResend = async (delivery: DeliveryWithOrder) => {
+    setResendingId(delivery.id);
+    try {
+      await resendDelivery(delivery.id);
+      toast.success(`Sent to ${delivery.recipient}`);
+    } catch (error) {
+      console.error('Error resending delivery:', error);
+      toast.error(`Could not send to ${delivery.recipient}. The attempt was logged.`);
+    } finally {
+      setResendingId(null);
+      setReloadKey((key) => key + 1);
+    }
+  };
+
+  return (
+    <ScrollArea className="h-screen">
+      <div className="min-h-screen bg-background pt-20">
+        <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                <Send className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Deliveries</h1>
+                <p className="text-muted-foreground">Emails and texts sent to clients, and the ones that didn't get through</p>
+              </div>
+            </div>
+            <Button variant="outline" onClick={() => setReloadKey((key) => key + 1)} disabled={loading}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Delivery Log</CardTitle>
+                <CardDescription>
+                  Failed sends are retried after 1, 5, 30 and 120 minutes before they are marked failed.
+                </CardDescription>
+              </div>
+              <Tabs
+                value={filter}
+                onValueChange={(value) => {
+                  setFilter(value as DeliveryFilter);
+                  setPage(0);
+                }}
+              >
+                <TabsList>
+                  <TabsTrigger value="attention">Needs attention</TabsTrigger>
+                  <TabsTrigger value="sent">Sent</TabsTrigger>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : deliveries.length === 0 ? (
+                <p className="text-center text-muted-foreground py-12">
+                  {filter === 'attention' ? 'Every delivery got through.' : 'No deliveries yet.'}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Message</TableHead>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map((delivery) => {
+                      const state = getDeliveryState(delivery);
+                      return (
+                        <TableRow key={delivery.id}>
+                          <TableCell className="whitespace-nowrap text-sm">
+                            {format(new Date(delivery.created_at), 'MMM d, h:mm a')}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            <div>{delivery.recipient}</div>
+                            <div className="text-xs text-muted-foreground">{CHANNEL_LABELS[delivery.channel]}</div>
+                          </TableCell>
+                          <TableCell className="max-w-xs text-sm">
+                            <div className="truncate">{getDeliverySubject(delivery)}</div>
+                            {delivery.template && (
+                              <div className="text-xs text-muted-foreground">
+                                {EMAIL_TEMPLATE_LABELS[delivery.template].label}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {delivery.order_id && delivery.orders ? (
+                              <Link to={`/admin/orders/${delivery.order_id}`} className="text-primary hover:underline">
+                                {delivery.orders.order_number}
+                              </Link>
+                            ) : (
+                              '—'
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-xs">
+                            <Badge className={DELIVERY_STATE_CLASSES[state]}>{DELIVERY_STATE_LABELS[state]}</Badge>
+                            {state !== 'sent' && delivery.last_error && (
+                              <p className="text-xs text-destructive mt-1 line-clamp-2">{delivery.last_error}</p>
+                            )}
+                            {state === 'retrying' && delivery.next_attempt_at && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                Next try {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {delivery.attempts} / {delivery.max_attempts}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <Button variant="ghost" size="sm" onClick={() => setViewing(delivery)}>
+                              <FileText className="h-4 w-4 mr-1" />
+                              Details
+                            </Button>
+                            {state !== 'sent' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="ml-2"
+                                onClick={() => handleResend(delivery)}
+                                disabled={resendingId === delivery.id}
+                              >
+                                {resendingId === delivery.id ? (
+                                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                ) : (
+                                  <Send className="h-4 w-4 mr-1" />
+                                )}
+                                Resend
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+
+              {total > DELIVERIES_PAGE_SIZE && (
+                <div className="flex items-center justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {page + 1} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Delivery Details</DialogTitle>
+            <DialogDescription>
+              {viewing && `${CHANNEL_LABELS[viewing.channel]} to ${viewing.recipient}`}
+              {viewing?.last_attempt_at &&
+                `, last tried ${format(new Date(viewing.last_attempt_at), 'MMM d, yyyy h:mm a')}`}
+            </DialogDescription>
+          </DialogHeader>
+          {viewing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Provider response</h4>
+                <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {viewing.provider_response ? JSON.stringify(viewing.provider_response, null, 2) : 'No response recorded'}
+                </pre>
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Payload</h4>
+                <pre className="max-h-72 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap break-all">
+                  {JSON.stringify(viewing.payload, null, 2)}
+                </pre>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,5 @@
+import { NotificationCenter } from '@/components/NotificationCenter';
+
+export default function AdminNotificationsPage() {
+  return <NotificationCenter role="admin" orderPath="/admin/orders" />;
+}
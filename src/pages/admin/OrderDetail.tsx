@@ -22,28 +22,44 @@ import {
   Building,
   Mail,
   Phone,
-  Clock,
-  Zap,
-  Shield,
-  CheckCircle,
   Users,
   History,
   Loader2,
   DollarSign,
   Eye,
+  Receipt,
+  Download,
+  ChevronUp,
+  ChevronDown,
+  X,
+  Lock,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { downloadInvoiceForOrder } from "@/lib/invoices";
+import { sendOrderEmail } from "@/lib/emailTemplates";
+import { formatArea } from "@/lib/geometry";
+import { OrderItem, fetchOrderItems, getTotalSurfaceArea } from "@/lib/orderItems";
+import { OrderEstimateLine, getItemEstimates } from "@/lib/pricing";
+import { QuoteNegotiation, downloadQuotePdf, getCurrentQuote, isQuoteExpired } from "@/lib/quotes";
+import { isDepositRequiredError } from "@/lib/payments";
+import {
+  OrderStatus,
+  PRODUCTION_STAGES,
+  canTransition,
+  getAllowedTransitions,
+  getRequiredDepartment,
+  getRoutingSteps,
+  getStatusBadgeClass,
+  getStatusLabel,
+  getStatusProgress,
+  resolveRoutingStep,
+} from "@/lib/orderStatus";
 import { toast } from "sonner";
 import { ImageViewerDialog } from "@/components/ImageViewerDialog";
-
-interface QuoteNegotiation {
-  id: string;
-  quoted_by: string;
-  quoted_price: number;
-  notes: string | null;
-  status: string;
-  created_at: string;
-}
+import { PriceEstimate } from "@/components/PriceEstimate";
+import { OrderItemsList } from "@/components/OrderItemsList";
+import { OrderPayments } from "@/components/OrderPayments";
+import { OrderMessages } from "@/components/OrderMessages";
 
 interface OrderData {
   id: string;
@@ -56,17 +72,15 @@ interface OrderData {
   project_name: string;
   description: string;
   quantity: number;
-  dimensions: string | null;
   additional_notes: string | null;
   progress: number;
+  routing: OrderStatus[];
+  routing_step: number | null;
+  // Status the order was delayed from, set while it is delayed
+  delayed_from: string | null;
   quoted_price: number | null;
   quote_approved: boolean | null;
-  customization?: {
-    finish: string;
-    texture: string;
-    color: string;
-    custom_notes: string | null;
-  };
+  items: OrderItem[];
   files?: Array<{
     file_name: string;
     file_size: number;
@@ -81,6 +95,17 @@ interface OrderData {
   user_id?: string;
 }
 
+interface Invoice {
+  id: string;
+  invoice_number: string;
+  subtotal: number;
+  vat_amount: number;
+  total_amount: number;
+  status: string;
+  issued_at: string;
+  paid_at: string | null;
+}
+
 interface TeamMember {
   id: string;
   name: string;
@@ -88,6 +113,17 @@ interface TeamMember {
   department: string;
 }
 
+interface PowderUsage {
+  id: string;
+  quantity_kg: number;
+  notes: string | null;
+  created_at: string;
+  powder_skus: {
+    sku: string;
+    name: string;
+  } | null;
+}
+
 interface StatusHistoryItem {
   id: string;
   status: string;
@@ -96,34 +132,11 @@ interface StatusHistoryItem {
   notes: string | null;
 }
 
-// Updated to match database enum values - includes pending_quote
-const statusSteps = [
-  {
-    key: "pending_quote",
-    label: "Pending Quote",
-    icon: DollarSign,
-    color: "bg-yellow-500",
-    description: "Awaiting price quote",
-  },
-  { key: "queued", label: "Queued", icon: Clock, color: "bg-blue-500", description: "Order queued for production" },
-  {
-    key: "sand-blasting",
-    label: "Sand Blasting",
-    icon: Package,
-    color: "bg-orange-500",
-    description: "Surface preparation",
-  },
-  { key: "coating", label: "Coating", icon: Package, color: "bg-orange-500", description: "Coating application" },
-  { key: "curing", label: "Curing", icon: Zap, color: "bg-purple-500", description: "Heat curing process" },
-  {
-    key: "quality-check",
-    label: "Quality Check",
-    icon: Shield,
-    color: "bg-indigo-500",
-    description: "Quality assurance",
-  },
-  { key: "completed", label: "Completed", icon: CheckCircle, color: "bg-green-500", description: "Ready for pickup" },
-];
+// A line quote as entered, or null when it's blank or not an amount of zero or more
+const parseLineQuote = (value: string) => {
+  const amount = Number(value);
+  return value !== "" && Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
 
 export default function AdminOrderDetail() {
   const { id } = useParams();
@@ -133,20 +146,29 @@ export default function AdminOrderDetail() {
   const [saving, setSaving] = useState(false);
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [assignedTeamMembers, setAssignedTeamMembers] = useState<string[]>([]);
+  // Saved assignments by member, with the auto-assignment reason if any
+  const [assignmentReasons, setAssignmentReasons] = useState<Record<string, string | null>>({});
   const [statusHistory, setStatusHistory] = useState<StatusHistoryItem[]>([]);
   const [viewingFile, setViewingFile] = useState<{ url: string; name: string } | null>(null);
   const [negotiations, setNegotiations] = useState<QuoteNegotiation[]>([]);
   const [showCounterOffer, setShowCounterOffer] = useState(false);
   const [counterPrice, setCounterPrice] = useState("");
   const [counterNotes, setCounterNotes] = useState("");
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [issuingInvoice, setIssuingInvoice] = useState(false);
+  const [powderUsage, setPowderUsage] = useState<PowderUsage[]>([]);
+  const [estimate, setEstimate] = useState<OrderEstimateLine[]>([]);
 
   // Editable fields
   const [status, setStatus] = useState("");
   const [priority, setPriority] = useState("");
   const [progress, setProgress] = useState(0);
+  const [routing, setRouting] = useState<OrderStatus[]>([]);
   const [estimatedCompletion, setEstimatedCompletion] = useState("");
   const [notes, setNotes] = useState("");
-  const [quotedPrice, setQuotedPrice] = useState("");
+  // Per item, keyed by order item id
+  const [lineQuotes, setLineQuotes] = useState<Record<string, string>>({});
+  const [itemAreas, setItemAreas] = useState<Record<string, string>>({});
 
   useEffect(() => {
     if (id) {
@@ -154,26 +176,33 @@ export default function AdminOrderDetail() {
       fetchTeamMembers();
       fetchStatusHistory();
       fetchNegotiations();
+      fetchInvoice();
     }
   }, [id]);
 
-  // Auto-update progress when status changes
+  // The order's quote is the sum of its line quotes, once every line has one
+  const lineQuoteValues = orderData ? orderData.items.map((item) => (lineQuotes[item.id] || "").trim()) : [];
+  const lineQuoteAmounts = lineQuoteValues.map(parseLineQuote);
+  const quotedPrice =
+    lineQuoteAmounts.length > 0 && lineQuoteAmounts.every((amount) => amount !== null)
+      ? (Math.round(lineQuoteAmounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100).toString()
+      : "";
+
+  // The shop's latest offer; it can't be approved once expired
+  const currentQuote = getCurrentQuote(negotiations);
+
+  // Where the selected status lands in the (possibly edited) routing, null if not allowed
+  const selectedPosition = orderData
+    ? resolveRoutingStep(orderData.status, status, routing, orderData.routing_step, orderData.delayed_from)
+    : null;
+  const selectedStep = selectedPosition?.step ?? null;
+
+  // Auto-update progress when status or routing changes; delayed keeps the current progress
   useEffect(() => {
-    const progressMap: Record<string, number> = {
-      pending_quote: 0,
-      queued: 10,
-      "sand-blasting": 25,
-      coating: 50,
-      curing: 70,
-      "quality-check": 85,
-      completed: 100,
-    };
-
-    if (status in progressMap) {
-      setProgress(progressMap[status]);
+    if (status) {
+      setProgress((current) => getStatusProgress(status, current, routing, selectedStep));
     }
-    // For 'delayed' or other statuses, keep current progress
-  }, [status]);
+  }, [status, routing, selectedStep]);
 
   const fetchOrderDetails = async () => {
     try {
@@ -181,12 +210,8 @@ export default function AdminOrderDetail() {
 
       if (orderError) throw orderError;
 
-      // Fetch customization
-      const { data: customization } = await supabase
-        .from("order_customizations")
-        .select("*")
-        .eq("order_id", id)
-        .single();
+      // Fetch line items with their customization
+      const items = await fetchOrderItems(id);
 
       // Fetch files
       const { data: files } = await supabase.from("order_files").select("*").eq("order_id", id);
@@ -201,12 +226,28 @@ export default function AdminOrderDetail() {
       // Fetch assigned team members
       const { data: assignments } = await supabase
         .from("order_team_assignments")
-        .select("team_member_id")
+        .select("team_member_id, assignment_reason")
         .eq("order_id", id);
 
+      // Fetch powder booked against the order
+      const { data: usage } = await supabase
+        .from("powder_transactions")
+        .select("id, quantity_kg, notes, created_at, powder_skus(sku, name)")
+        .eq("order_id", id)
+        .order("created_at");
+
+      // Fetch the price estimate used to prefill the quote
+      const { data: estimateLines, error: estimateError } = await supabase.rpc("estimate_order_price", {
+        _order_id: id,
+      });
+
+      if (estimateError) {
+        console.error("Error estimating price:", estimateError);
+      }
+
       setOrderData({
         ...order,
-        customization: customization || undefined,
+        items,
         files: files || [],
         profile: profile || undefined,
         user_id: order.user_id,
@@ -215,10 +256,36 @@ export default function AdminOrderDetail() {
       setStatus(order.status);
       setPriority(order.priority);
       setProgress(order.progress || 0);
+      setRouting(order.routing);
       setEstimatedCompletion(order.estimated_completion ? order.estimated_completion.split("T")[0] : "");
       setNotes(order.additional_notes || "");
-      setQuotedPrice(order.quoted_price ? order.quoted_price.toString() : "");
+      // Orders awaiting a quote start from the estimate; the admin adjusts it before saving
+      const itemEstimates = getItemEstimates(
+        estimateLines || [],
+        items.map((item) => item.id),
+      );
+      const prefillFromEstimate = !order.quoted_price && order.status === "pending_quote" && !!estimateLines?.length;
+      setLineQuotes(
+        Object.fromEntries(
+          items.map((item) => [
+            item.id,
+            item.quoted_price !== null && order.quoted_price
+              ? item.quoted_price.toString()
+              : prefillFromEstimate
+                ? itemEstimates[item.id].toString()
+                : "",
+          ]),
+        ),
+      );
+      setEstimate(estimateLines || []);
+      setItemAreas(
+        Object.fromEntries(items.map((item) => [item.id, item.surface_area_sqm ? item.surface_area_sqm.toString() : ""])),
+      );
+      setPowderUsage(usage || []);
       setAssignedTeamMembers(assignments?.map((a) => a.team_member_id) || []);
+      setAssignmentReasons(
+        Object.fromEntries((assignments || []).map((a) => [a.team_member_id, a.assignment_reason])),
+      );
     } catch (error) {
       console.error("Error:", error);
       toast.error("Failed to load order details");
@@ -268,9 +335,60 @@ export default function AdminOrderDetail() {
     }
   };
 
+  const fetchInvoice = async () => {
+    try {
+      const { data, error } = await supabase.from("invoices").select("*").eq("order_id", id).maybeSingle();
+
+      if (error) throw error;
+      setInvoice(data);
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+    }
+  };
+
+  const handleIssueInvoice = async () => {
+    setIssuingInvoice(true);
+    try {
+      const { data, error } = await supabase.rpc("issue_invoice", { _order_id: id });
+
+      if (error) throw error;
+      setInvoice(data);
+      toast.success(`Invoice ${data.invoice_number} issued`);
+    } catch (error) {
+      console.error("Error issuing invoice:", error);
+      toast.error("Failed to issue invoice");
+    } finally {
+      setIssuingInvoice(false);
+    }
+  };
+
+  const handleDownloadInvoice = async () => {
+    try {
+      await downloadInvoiceForOrder(id);
+    } catch (error) {
+      console.error("Error downloading invoice:", error);
+      toast.error("Failed to download invoice");
+    }
+  };
+
   const handleSave = async () => {
     if (!orderData) return;
 
+    if (!canTransition(orderData.status, status, routing, orderData.routing_step, orderData.delayed_from)) {
+      toast.error(`Cannot move order from ${getStatusLabel(orderData.status)} to ${getStatusLabel(status)}`);
+      return;
+    }
+
+    if (lineQuoteValues.some((value, index) => value && lineQuoteAmounts[index] === null)) {
+      toast.error("Line quotes must be zero or more");
+      return;
+    }
+
+    if (lineQuoteValues.some(Boolean) && !quotedPrice) {
+      toast.error("Enter a quote for every item, or leave them all blank");
+      return;
+    }
+
     setSaving(true);
     const previousStatus = orderData.status;
     const previousQuotedPrice = orderData.quoted_price;
@@ -283,19 +401,54 @@ export default function AdminOrderDetail() {
       const updateData: any = {
         status: status as any,
         priority: priority as any,
-        // progress is automatically set by the database trigger based on status
+        // progress is automatically set by the database trigger based on status and routing
         estimated_completion: estimatedCompletion || null,
         additional_notes: notes,
         updated_at: new Date().toISOString(),
       };
 
+      if (routing.join() !== orderData.routing.join()) {
+        updateData.routing = routing;
+      }
+
       // Add quoted_price if provided
       if (quotedPrice) {
         updateData.quoted_price = parseFloat(quotedPrice);
       }
 
-      // Check if we need to create a negotiation record
+      // Update the order first: if the database rejects the change (an unpaid
+      // deposit, a skipped stage) no quote version or client message is created
+      const { error: orderError } = await supabase.from("orders").update(updateData).eq("id", id);
+
+      if (orderError) {
+        // The database won't complete an order until its deposit is paid
+        if (isDepositRequiredError(orderError)) {
+          toast.error(orderError.message);
+          return;
+        }
+        throw orderError;
+      }
+
       const newQuotePrice = quotedPrice ? parseFloat(quotedPrice) : null;
+      // A new total was spread over the old line quotes by the database, so every line is rewritten
+      const totalChanged = newQuotePrice !== null && newQuotePrice !== previousQuotedPrice;
+
+      // Save item areas and line quotes before any new quote version, so it records its line amounts
+      for (const [index, item] of orderData.items.entries()) {
+        const area = itemAreas[item.id] ? parseFloat(itemAreas[item.id]) : null;
+        const lineQuote = quotedPrice ? lineQuoteAmounts[index] ?? item.quoted_price : item.quoted_price;
+        if (!totalChanged && area === item.surface_area_sqm && lineQuote === item.quoted_price) continue;
+
+        const { error: itemError } = await supabase
+          .from("order_items")
+          .update({ surface_area_sqm: area, quoted_price: lineQuote })
+          .eq("id", item.id);
+
+        if (itemError) throw itemError;
+      }
+
+      // Check if we need to create a negotiation record
+      let quoteIssued = false;
       if (newQuotePrice) {
         // Check if there are any existing negotiations for this order
         const { data: existingNegotiations } = await supabase
@@ -307,10 +460,13 @@ export default function AdminOrderDetail() {
         // Create negotiation record if:
         // 1. No negotiations exist yet (even if price hasn't changed)
         // 2. Price has changed from previous value
+        // 3. The current quote has expired and is being re-issued
+        const reissuingQuote = !!currentQuote && isQuoteExpired(currentQuote);
         const shouldCreateNegotiation = 
           !existingNegotiations || 
           existingNegotiations.length === 0 || 
-          newQuotePrice !== previousQuotedPrice;
+          newQuotePrice !== previousQuotedPrice ||
+          reissuingQuote;
 
         if (shouldCreateNegotiation) {
           const { error: negError } = await supabase
@@ -321,25 +477,26 @@ export default function AdminOrderDetail() {
               quoted_price: newQuotePrice,
               notes: previousQuotedPrice && newQuotePrice !== previousQuotedPrice
                 ? `Admin updated quote from ₱${previousQuotedPrice.toLocaleString()} to ₱${newQuotePrice.toLocaleString()}`
+                : reissuingQuote
+                ? 'Quote re-issued by admin'
                 : 'Initial quote from admin',
               status: 'pending',
             });
 
           if (negError) {
+            // The order is saved; don't tell the client about a quote that wasn't recorded
             console.error('Failed to create negotiation record:', negError);
-            toast.error('Failed to save quote negotiation record');
-            // Don't continue if negotiation record fails
-            setSaving(false);
-            return;
-          }
+            toast.error('Order saved, but the quote version could not be recorded');
+          } else if (newQuotePrice !== previousQuotedPrice || reissuingQuote) {
+            quoteIssued = true;
 
-          if (newQuotePrice && newQuotePrice !== previousQuotedPrice) {
             // Create message for client
             const { error: messageError } = await supabase
               .from("messages")
               .insert({
                 user_id: orderData.user_id,
                 subject: "Quote Received",
+                event: "quote",
                 message: `Your order ${orderData.order_number} has received a quote of ₱${newQuotePrice.toLocaleString()}`,
                 priority: "high",
                 order_id: id,
@@ -352,75 +509,45 @@ export default function AdminOrderDetail() {
         }
       }
 
-      // Update order
-      const { error: orderError } = await supabase.from("orders").update(updateData).eq("id", id);
-
-      if (orderError) throw orderError;
+      // Email the client once the new price is on the order
+      if (quoteIssued) {
+        await sendOrderEmail(orderData.user_id, id!, "quote_issued");
+      }
 
       // Auto-assign team member based on new status if status changed
       if (status !== previousStatus) {
-        // Map status to required department
-        const getRequiredDepartmentForStatus = (orderStatus: string): string | null => {
-          const departmentMapping: Record<string, string> = {
-            "sand-blasting": "Sand Blasting",
-            "coating": "Coating",
-            "curing": "Curing",
-            "quality-check": "Quality Control",
-          };
-          return departmentMapping[orderStatus] || null;
-        };
-
-        const requiredDepartment = getRequiredDepartmentForStatus(status);
-        
-        // Clear existing assignments
-        await supabase.from("order_team_assignments").delete().eq("order_id", id);
-
-        // If status requires a specific department, auto-assign
-        if (requiredDepartment) {
-          const { data: matchingMember } = await supabase
-            .from("team_members")
-            .select("id")
-            .eq("department", requiredDepartment)
-            .eq("availability", "available")
-            .limit(1)
-            .single();
-
-          if (matchingMember) {
-            await supabase
-              .from("order_team_assignments")
-              .insert({
-                order_id: id!,
-                team_member_id: matchingMember.id,
-              });
-          } else {
-            // Fallback: assign any member with the required department
-            const { data: fallbackMember } = await supabase
-              .from("team_members")
-              .select("id")
-              .eq("department", requiredDepartment)
-              .limit(1)
-              .single();
-
-            if (fallbackMember) {
-              await supabase
-                .from("order_team_assignments")
-                .insert({
-                  order_id: id!,
-                  team_member_id: fallbackMember.id,
-                });
-            }
+        const requiredDepartment = getRequiredDepartment(status);
+
+        // If status requires a specific department (or completes the order), let the database pick
+        if (requiredDepartment || status === "completed") {
+          const { data: assigned, error: assignError } = await supabase.rpc("auto_assign_order", {
+            _order_id: id,
+          });
+
+          if (assignError) {
+            console.error("Failed to auto-assign team member:", assignError);
+          } else if (requiredDepartment && !assigned?.length) {
+            toast.warning(`No ${requiredDepartment} team member could be assigned`);
+          }
+        } else {
+          // Clear existing assignments
+          await supabase.from("order_team_assignments").delete().eq("order_id", id);
+
+          if (assignedTeamMembers.length > 0) {
+            // If no specific role required and admin manually selected members
+            const assignments = assignedTeamMembers.map((memberId) => ({
+              order_id: id!,
+              team_member_id: memberId,
+            }));
+            await supabase.from("order_team_assignments").insert(assignments);
           }
-        } else if (assignedTeamMembers.length > 0) {
-          // If no specific role required and admin manually selected members
-          const assignments = assignedTeamMembers.map((memberId) => ({
-            order_id: id!,
-            team_member_id: memberId,
-          }));
-          await supabase.from("order_team_assignments").insert(assignments);
         }
       } else {
         // Status didn't change, use admin's manual assignment
-        if (assignedTeamMembers.length > 0) {
+        const assignmentsChanged =
+          assignedTeamMembers.length !== Object.keys(assignmentReasons).length ||
+          assignedTeamMembers.some((memberId) => !(memberId in assignmentReasons));
+        if (assignedTeamMembers.length > 0 && assignmentsChanged) {
           // Clear existing first
           await supabase.from("order_team_assignments").delete().eq("order_id", id);
           
@@ -432,30 +559,6 @@ export default function AdminOrderDetail() {
         }
       }
 
-      // Send email notification if status changed
-      if (status !== previousStatus && orderData.user_id) {
-        try {
-          const { error: notificationError } = await supabase.functions.invoke("send-order-notification", {
-            body: {
-              user_id: orderData.user_id,
-              order_id: id,
-              order_number: orderData.order_number,
-              new_status: status,
-              user_email: orderData.user_email,
-            },
-          });
-
-          if (notificationError) {
-            console.error("Failed to send email notification:", notificationError);
-          } else {
-            console.log("Email notification sent successfully");
-          }
-        } catch (emailError) {
-          console.error("Error sending email notification:", emailError);
-          // Don't fail the save if email fails
-        }
-      }
-
       toast.success("Order updated successfully");
       await fetchOrderDetails();
       await fetchStatusHistory();
@@ -505,11 +608,14 @@ export default function AdminOrderDetail() {
         .insert({
           user_id: orderData.user_id,
           subject: "Counter-Offer Received",
+          event: "quote",
           message: `Admin sent a counter-offer of ₱${price.toLocaleString()} for order ${orderData.order_number}`,
           priority: "high",
           order_id: id,
       });
 
+      await sendOrderEmail(orderData.user_id, id!, "counter_offer");
+
       toast.success('Counter-offer sent to client');
       setShowCounterOffer(false);
       setCounterPrice('');
@@ -522,6 +628,15 @@ export default function AdminOrderDetail() {
     }
   };
 
+  const handleDownloadQuote = async (quote: QuoteNegotiation) => {
+    try {
+      await downloadQuotePdf(quote);
+    } catch (error) {
+      console.error("Error generating quote PDF:", error);
+      toast.error("Failed to generate quote PDF");
+    }
+  };
+
   const handleAcceptClientOffer = async (negotiationId: string, price: number) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -563,35 +678,36 @@ export default function AdminOrderDetail() {
     );
   };
 
-  const getStatusIndex = (statusKey: string) => {
-    return statusSteps.findIndex((step) => step.key === statusKey);
+  const timelineSteps = getRoutingSteps(routing);
+
+  // Timeline index of the selected status: routing stages sit after pending quote and queued
+  const getCurrentStepIndex = () => {
+    if (selectedStep) return selectedStep + 1;
+    if (status === "completed") return timelineSteps.length - 1;
+    return ["pending_quote", "queued"].indexOf(status);
   };
 
   const isStatusActive = (stepIndex: number) => {
-    const currentIndex = getStatusIndex(status);
-    return stepIndex <= currentIndex;
+    return stepIndex <= getCurrentStepIndex();
   };
 
-  const getStatusBadgeColor = (statusKey: string) => {
-    switch (statusKey) {
-      case "completed":
-        return "bg-green-500 text-white";
-      case "quality-check":
-        return "bg-indigo-500 text-white";
-      case "curing":
-        return "bg-purple-500 text-white";
-      case "coating":
-      case "sand-blasting":
-        return "bg-orange-500 text-white";
-      case "queued":
-        return "bg-blue-500 text-white";
-      case "pending_quote":
-        return "bg-yellow-500 text-white";
-      case "delayed":
-        return "bg-red-500 text-white";
-      default:
-        return "bg-gray-500 text-white";
-    }
+  // Stages already done or in progress can't be rerouted
+  const lockedRoutingSteps = orderData?.status === "completed" ? routing.length : orderData?.routing_step ?? 0;
+
+  const moveRoutingStep = (index: number, offset: number) => {
+    setRouting((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeRoutingStep = (index: number) => {
+    setRouting((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addRoutingStep = (stage: OrderStatus) => {
+    setRouting((prev) => [...prev, stage]);
   };
 
   const getPriorityColor = (priorityKey: string) => {
@@ -685,7 +801,7 @@ export default function AdminOrderDetail() {
                           >
                             <div className="flex justify-between items-start mb-1">
                               <span className="text-sm font-medium">
-                                {isClient ? 'Client' : 'Admin'}
+                                {isClient ? 'Client' : `Admin · Quote v${neg.version}`}
                               </span>
                               <span className="text-xs text-muted-foreground">
                                 {new Date(neg.created_at).toLocaleDateString('en-US', {
@@ -708,7 +824,7 @@ export default function AdminOrderDetail() {
                                 className={`text-xs px-2 py-1 rounded ${
                                   neg.status === 'accepted'
                                     ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
-                                    : neg.status === 'rejected'
+                                    : neg.status === 'rejected' || neg.status === 'expired'
                                     ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300'
                                     : neg.status === 'countered'
                                     ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300'
@@ -717,6 +833,22 @@ export default function AdminOrderDetail() {
                               >
                                 {neg.status.charAt(0).toUpperCase() + neg.status.slice(1)}
                               </span>
+                              {neg.valid_until && neg.status !== 'expired' && (
+                                <span className="text-xs text-muted-foreground">
+                                  Valid until {new Date(neg.valid_until).toLocaleDateString()}
+                                </span>
+                              )}
+                              {neg.version !== null && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleDownloadQuote(neg)}
+                                  className="ml-auto"
+                                >
+                                  <Download className="h-4 w-4 mr-1" />
+                                  PDF
+                                </Button>
+                              )}
                               {/* Allow admin to accept client counter-offers */}
                               {isClient && neg.status === 'countered' && (
                                 <Button
@@ -781,23 +913,42 @@ export default function AdminOrderDetail() {
                   <>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="quotedPrice">Quoted Price (₱)</Label>
-                        <Input
-                          id="quotedPrice"
-                          type="number"
-                          min="0"
-                          step="0.01"
-                          placeholder="Enter quote amount"
-                          value={quotedPrice}
-                          onChange={(e) => setQuotedPrice(e.target.value)}
-                        />
+                        <Label>Line Quotes (₱)</Label>
+                        {orderData.items.map((item) => (
+                          <div key={item.id} className="flex items-center gap-2">
+                            <Label htmlFor={`lineQuote-${item.id}`} className="flex-1 truncate font-normal">
+                              {item.description} <span className="text-muted-foreground">× {item.quantity}</span>
+                            </Label>
+                            <Input
+                              id={`lineQuote-${item.id}`}
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="w-36"
+                              placeholder="Amount"
+                              value={lineQuotes[item.id] || ""}
+                              onChange={(e) => setLineQuotes({ ...lineQuotes, [item.id]: e.target.value })}
+                            />
+                          </div>
+                        ))}
+                        <div className="flex justify-between border-t pt-2 font-semibold">
+                          <span>Quoted Price</span>
+                          <span>{quotedPrice ? `₱${Number(quotedPrice).toLocaleString()}` : "—"}</span>
+                        </div>
+                        {!orderData.quoted_price && orderData.status === "pending_quote" && estimate.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Prefilled from the price estimate. Review it before saving.
+                          </p>
+                        )}
                       </div>
                       <div className="space-y-2">
                         <Label>Quote Status</Label>
                         <div className="flex items-center gap-2 pt-2">
                           {orderData.quote_approved ? (
                             <Badge className="bg-green-500 text-white">Approved by Client</Badge>
-                          ) : quotedPrice ? (
+                          ) : currentQuote && isQuoteExpired(currentQuote) ? (
+                            <Badge className="bg-red-500 text-white">Quote Expired</Badge>
+                          ) : orderData.quoted_price ? (
                             <Badge className="bg-yellow-500 text-white">Awaiting Client Response</Badge>
                           ) : (
                             <Badge className="bg-gray-500 text-white">No Quote Set</Badge>
@@ -805,6 +956,31 @@ export default function AdminOrderDetail() {
                         </div>
                       </div>
                     </div>
+                    {estimate.length > 0 && (
+                      <div className="p-3 bg-muted rounded-lg space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <h4 className="text-sm font-semibold">Price Estimate</h4>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              const itemEstimates = getItemEstimates(
+                                estimate,
+                                orderData.items.map((item) => item.id),
+                              );
+                              setLineQuotes(
+                                Object.fromEntries(
+                                  Object.entries(itemEstimates).map(([itemId, amount]) => [itemId, amount.toString()]),
+                                ),
+                              );
+                            }}
+                          >
+                            Use Estimate
+                          </Button>
+                        </div>
+                        <PriceEstimate lines={estimate} />
+                      </div>
+                    )}
                     <div className="flex gap-2">
                       <Button
                         variant="outline"
@@ -815,7 +991,8 @@ export default function AdminOrderDetail() {
                       </Button>
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      Enter a quote price and save to send it to the client. They can approve, decline, or send a counter-offer. The negotiation continues until both parties agree.
+                      Quote each item and save to send the total to the client. They can approve, decline, or send a counter-offer. The negotiation continues until both parties agree.
+                      Each quote is valid for a limited time; save again to re-issue an expired quote.
                     </p>
                   </>
                 )}
@@ -831,9 +1008,7 @@ export default function AdminOrderDetail() {
             <CardContent className="space-y-6">
               {/* Current Status & Priority */}
               <div className="flex items-center gap-4">
-                <Badge className={getStatusBadgeColor(status)}>
-                  {statusSteps.find((s) => s.key === status)?.label || status}
-                </Badge>
+                <Badge className={getStatusBadgeClass(status)}>{getStatusLabel(status)}</Badge>
                 <Badge className={getPriorityColor(priority)}>{priority.toUpperCase()} Priority</Badge>
                 {orderData.quoted_price && (
                   <Badge variant="outline">Quote: ₱{Number(orderData.quoted_price).toLocaleString()}</Badge>
@@ -851,13 +1026,13 @@ export default function AdminOrderDetail() {
 
               {/* Status Timeline */}
               <div className="flex items-center justify-between px-4 md:p-2 overflow-x-auto">
-                {statusSteps.map((step, index) => {
+                {timelineSteps.map((step, index) => {
                   const Icon = step.icon;
                   const isActive = isStatusActive(index);
-                  const isCurrent = status === step.key;
+                  const isCurrent = index === getCurrentStepIndex();
 
                   return (
-                    <div key={step.key} className="flex flex-col items-center min-w-[80px]">
+                    <div key={index} className="flex flex-col items-center min-w-[80px]">
                       <div
                         className={`h-12 w-12 rounded-full flex items-center justify-center transition-all ${
                           isActive ? step.color : "bg-muted"
@@ -884,12 +1059,11 @@ export default function AdminOrderDetail() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {statusSteps.map((step) => (
-                        <SelectItem key={step.key} value={step.key}>
-                          {step.label}
+                      {[orderData.status, ...getAllowedTransitions(orderData.status, routing, orderData.routing_step, orderData.delayed_from)].map((statusKey) => (
+                        <SelectItem key={statusKey} value={statusKey}>
+                          {getStatusLabel(statusKey)}
                         </SelectItem>
                       ))}
-                      <SelectItem value="delayed">Delayed</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -910,6 +1084,73 @@ export default function AdminOrderDetail() {
                 </div>
               </div>
 
+              {/* Production Routing */}
+              <div className="space-y-2">
+                <Label>Production Routing</Label>
+                <p className="text-xs text-muted-foreground">
+                  Stages this order goes through after it is queued. Completed and in-progress stages are locked.
+                </p>
+                <div className="space-y-2">
+                  {routing.map((stage, index) => {
+                    const isLocked = index < lockedRoutingSteps;
+
+                    return (
+                      <div key={index} className="flex items-center gap-2 p-2 rounded-lg border">
+                        <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                        <span className="flex-1 text-sm font-medium">{getStatusLabel(stage)}</span>
+                        {isLocked ? (
+                          <Lock className="h-4 w-4 text-muted-foreground" />
+                        ) : (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              disabled={index <= lockedRoutingSteps}
+                              onClick={() => moveRoutingStep(index, -1)}
+                            >
+                              <ChevronUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              disabled={index === routing.length - 1}
+                              onClick={() => moveRoutingStep(index, 1)}
+                            >
+                              <ChevronDown className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              disabled={routing.length === 1}
+                              onClick={() => removeRoutingStep(index)}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                {orderData.status !== "completed" && (
+                  <Select value="" onValueChange={(value) => addRoutingStep(value as OrderStatus)}>
+                    <SelectTrigger className="w-full md:w-64">
+                      <SelectValue placeholder="Add stage..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRODUCTION_STAGES.map((stage) => (
+                        <SelectItem key={stage} value={stage}>
+                          {getStatusLabel(stage)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
               {/* Estimated Completion */}
               <div className="space-y-2">
                 <Label htmlFor="estimated">Estimated Completion Date</Label>
@@ -920,6 +1161,28 @@ export default function AdminOrderDetail() {
                   onChange={(e) => setEstimatedCompletion(e.target.value)}
                 />
               </div>
+
+              {/* Surface Area */}
+              <div className="space-y-2">
+                <Label>Surface Area per Piece (m²)</Label>
+                {orderData.items.map((item) => (
+                  <div key={item.id} className="flex items-center gap-2">
+                    <Label htmlFor={`surfaceArea-${item.id}`} className="flex-1 truncate font-normal">
+                      {item.description}
+                    </Label>
+                    <Input
+                      id={`surfaceArea-${item.id}`}
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      className="w-36"
+                      placeholder="Used for powder"
+                      value={itemAreas[item.id] || ""}
+                      onChange={(e) => setItemAreas({ ...itemAreas, [item.id]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
             </CardContent>
           </Card>
 
@@ -989,7 +1252,10 @@ export default function AdminOrderDetail() {
 
                     <div>
                       <p className="text-sm text-muted-foreground">Quantity</p>
-                      <p className="font-medium">{orderData.quantity} items</p>
+                      <p className="font-medium">
+                        {orderData.quantity} pieces
+                        {orderData.items.length > 1 && ` in ${orderData.items.length} items`}
+                      </p>
                     </div>
 
                     <div>
@@ -998,65 +1264,56 @@ export default function AdminOrderDetail() {
                     </div>
 
                     <div>
-                      <p className="text-sm text-muted-foreground">Dimensions</p>
-                      <p className="font-medium">{orderData.dimensions || "Not specified"}</p>
+                      <p className="text-sm text-muted-foreground">Total Surface Area</p>
+                      <p className="font-medium">
+                        {getTotalSurfaceArea(orderData.items) > 0
+                          ? formatArea(getTotalSurfaceArea(orderData.items))
+                          : "Not calculated"}
+                      </p>
                     </div>
                   </div>
 
                   <Separator />
 
                   <div>
-                    <p className="text-sm text-muted-foreground mb-2">Description</p>
+                    <p className="text-sm text-muted-foreground mb-2">Project Description</p>
                     <p className="font-medium">{orderData.description}</p>
                   </div>
                 </CardContent>
               </Card>
 
-              {/* Customization Details */}
-              {orderData.customization && (
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Palette className="h-5 w-5" />
-                      Customization Specifications
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      <div>
-                        <p className="text-sm text-muted-foreground">Finish Type</p>
-                        <p className="font-medium capitalize">{orderData.customization.finish}</p>
-                      </div>
-
-                      <div>
-                        <p className="text-sm text-muted-foreground">Texture</p>
-                        <p className="font-medium capitalize">{orderData.customization.texture}</p>
-                      </div>
+              {/* Items */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Palette className="h-5 w-5" />
+                    Items
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OrderItemsList items={orderData.items} showQuotes />
 
-                      <div>
-                        <p className="text-sm text-muted-foreground">Color</p>
-                        <div className="flex items-center gap-2">
-                          <div
-                            className="h-6 w-6 rounded border"
-                            style={{ backgroundColor: orderData.customization.color }}
-                          />
-                          <p className="font-medium">{orderData.customization.color}</p>
-                        </div>
+                  {powderUsage.length > 0 && (
+                    <>
+                      <Separator className="my-4" />
+                      <div className="space-y-2">
+                        <p className="text-sm text-muted-foreground">Powder Used</p>
+                        {powderUsage.map((usage) => (
+                          <div key={usage.id} className="flex justify-between text-sm">
+                            <div>
+                              <p className="font-medium">
+                                {usage.powder_skus ? `${usage.powder_skus.name} (${usage.powder_skus.sku})` : "Powder"}
+                              </p>
+                              {usage.notes && <p className="text-xs text-muted-foreground">{usage.notes}</p>}
+                            </div>
+                            <span className="font-medium">{Math.abs(usage.quantity_kg)} kg</span>
+                          </div>
+                        ))}
                       </div>
-                    </div>
-
-                    {orderData.customization.custom_notes && (
-                      <>
-                        <Separator className="my-4" />
-                        <div>
-                          <p className="text-sm text-muted-foreground mb-2">Custom Notes</p>
-                          <p className="font-medium">{orderData.customization.custom_notes}</p>
-                        </div>
-                      </>
-                    )}
-                  </CardContent>
-                </Card>
-              )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
 
               {/* Files */}
               {orderData.files && orderData.files.length > 0 && (
@@ -1107,10 +1364,92 @@ export default function AdminOrderDetail() {
                   />
                 </CardContent>
               </Card>
+
+              {/* Messages */}
+              <OrderMessages orderId={orderData.id} viewer="shop" />
             </div>
 
             {/* Right Column - Team & History */}
             <div className="space-y-6">
+              {/* Payments */}
+              <OrderPayments
+                orderId={orderData.id}
+                quotedPrice={orderData.quoted_price}
+                canRecord
+                onPaymentsChange={fetchInvoice}
+              />
+
+              {/* Invoice */}
+              {orderData.status === "completed" && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Receipt className="h-5 w-5" />
+                      Invoice
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {invoice ? (
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <span className="font-semibold">{invoice.invoice_number}</span>
+                          <Badge className={invoice.status === "paid" ? "bg-green-500 text-white" : "bg-yellow-500 text-white"}>
+                            {invoice.status === "paid" ? "Paid" : "Unpaid"}
+                          </Badge>
+                        </div>
+                        <div className="text-sm space-y-1">
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Subtotal</span>
+                            <span>₱{Number(invoice.subtotal).toLocaleString()}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">VAT (12%)</span>
+                            <span>₱{Number(invoice.vat_amount).toLocaleString()}</span>
+                          </div>
+                          <Separator />
+                          <div className="flex justify-between font-semibold">
+                            <span>Total</span>
+                            <span>₱{Number(invoice.total_amount).toLocaleString()}</span>
+                          </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Issued {new Date(invoice.issued_at).toLocaleDateString()}
+                          {invoice.paid_at && ` • Paid ${new Date(invoice.paid_at).toLocaleDateString()}`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Marked paid once the payments recorded for this order cover the total.
+                        </p>
+                        <Button variant="outline" size="sm" className="w-full" onClick={handleDownloadInvoice}>
+                          <Download className="h-4 w-4 mr-2" />
+                          Download
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                          No invoice has been issued for this order yet.
+                        </p>
+                        <Button
+                          className="w-full"
+                          onClick={handleIssueInvoice}
+                          disabled={issuingInvoice || !orderData.quoted_price}
+                        >
+                          {issuingInvoice ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Receipt className="h-4 w-4 mr-2" />
+                          )}
+                          Issue Invoice
+                        </Button>
+                        {!orderData.quoted_price && (
+                          <p className="text-xs text-muted-foreground">A quoted price is required to issue an invoice.</p>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Team Assignment */}
               <Card>
                 <CardHeader>
@@ -1136,6 +1475,11 @@ export default function AdminOrderDetail() {
                             <p className="text-xs text-muted-foreground">
                               {member.role} • {member.department}
                             </p>
+                            {assignmentReasons[member.id] && (
+                              <p className="text-xs text-muted-foreground mt-1 italic">
+                                Auto-assigned: {assignmentReasons[member.id]}
+                              </p>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -6,10 +6,21 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Search, Eye, Package, Clock, CheckCircle2, AlertCircle, DollarSign } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { OrderImportDialog } from '@/components/OrderImportDialog';
+import { Search, Eye, Package, Clock, CheckCircle2, AlertCircle, DollarSign, X, Download, Upload } from 'lucide-react';
 import { toast } from 'sonner';
-import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { ORDER_STATUSES, getStatusBadgeClass, getStatusLabel } from '@/lib/orderStatus';
+import { getColorLabel } from '@/lib/colorCatalog';
+import { SpreadsheetFormat, downloadSpreadsheet } from '@/lib/spreadsheet';
 
 interface Order {
   id: string;
@@ -18,16 +29,39 @@ interface Order {
   priority: string;
   submitted_date: string;
   estimated_completion: string | null;
+  completed_date: string | null;
+  project_name: string;
   description: string;
-  profiles?: { full_name: string };
+  quantity: number;
+  quoted_price: number | null;
+  quote_approved: boolean | null;
+  created_at: string;
+  profiles?: { full_name: string; company: string | null; phone: string | null };
+  order_customizations: {
+    finish: string;
+    texture: string;
+    color: string;
+    catalog_colors: { name: string; ral_code: string | null } | null;
+  }[];
+  order_team_assignments: { team_member_id: string; team_members: { name: string } | null }[];
 }
 
 export default function OrderManagement() {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState(searchParams.get('status') || 'all');
+  const [importOpen, setImportOpen] = useState(false);
+
+  // Drill-down filters from the Reports charts
+  const priorityFilter = searchParams.get('priority');
+  const colorFilter = searchParams.get('color');
+  const teamMemberFilter = searchParams.get('team_member');
+  const fromFilter = searchParams.get('from');
+  const toFilter = searchParams.get('to');
+  const hasDrillDown = !!(priorityFilter || colorFilter || teamMemberFilter || fromFilter || toFilter);
 
   useEffect(() => {
     fetchOrders();
@@ -37,7 +71,9 @@ export default function OrderManagement() {
     try {
       const { data: ordersData, error: ordersError } = await supabase
         .from('orders')
-        .select('*')
+        .select(
+          '*, order_customizations(finish, texture, color, catalog_colors(name, ral_code)), order_team_assignments(team_member_id, team_members(name))'
+        )
         .order('submitted_date', { ascending: false });
 
       if (ordersError) throw ordersError;
@@ -45,14 +81,14 @@ export default function OrderManagement() {
       // Fetch profiles separately
       const { data: profilesData, error: profilesError } = await supabase
         .from('profiles')
-        .select('id, full_name');
+        .select('id, full_name, company, phone');
 
       if (profilesError) throw profilesError;
 
       // Map profiles to orders
       const ordersWithProfiles = (ordersData || []).map(order => ({
         ...order,
-        profiles: profilesData?.find(p => p.id === order.user_id) || { full_name: 'Unknown' }
+        profiles: profilesData?.find(p => p.id === order.user_id) || { full_name: 'Unknown', company: null, phone: null }
       }));
 
       setOrders(ordersWithProfiles);
@@ -68,33 +104,100 @@ export default function OrderManagement() {
     navigate(`/admin/orders/${orderId}`);
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      'pending_quote': 'bg-yellow-500 text-white',
-      'queued': 'bg-blue-500 text-white',
-      'sand-blasting': 'bg-orange-500 text-white',
-      'coating': 'bg-primary text-primary-foreground',
-      'curing': 'bg-purple-500 text-white',
-      'quality-check': 'bg-indigo-500 text-white',
-      'completed': 'bg-green-500 text-white',
-      'delayed': 'bg-red-500 text-white',
-    };
-    return colors[status] || 'bg-muted text-muted-foreground';
-  };
-
-  const formatStatus = (status: string) => {
-    return status.split('-').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ').replace('_', ' ');
-  };
-
   const filteredOrders = orders.filter(o => {
     const matchesSearch = o.order_number.toLowerCase().includes(searchQuery.toLowerCase()) || 
                          (o.profiles?.full_name || '').toLowerCase().includes(searchQuery.toLowerCase());
     const matchesStatus = statusFilter === 'all' || o.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    const createdOn = format(new Date(o.created_at), 'yyyy-MM-dd');
+    const matchesDrillDown =
+      (!priorityFilter || o.priority === priorityFilter) &&
+      (!colorFilter || o.order_customizations.some((c) => getColorLabel(c) === colorFilter)) &&
+      (!teamMemberFilter || o.order_team_assignments.some((a) => a.team_member_id === teamMemberFilter)) &&
+      (!fromFilter || createdOn >= fromFilter) &&
+      (!toFilter || createdOn <= toFilter);
+    return matchesSearch && matchesStatus && matchesDrillDown;
   });
 
+  const teamMemberName = teamMemberFilter
+    ? orders
+        .flatMap((o) => o.order_team_assignments)
+        .find((a) => a.team_member_id === teamMemberFilter)?.team_members?.name || 'Selected team member'
+    : null;
+
+  const drillDownLabels = [
+    priorityFilter && `Priority: ${priorityFilter}`,
+    colorFilter && `Color: ${colorFilter}`,
+    teamMemberName && `Assigned to: ${teamMemberName}`,
+    (fromFilter || toFilter) &&
+      `Created: ${fromFilter ? format(new Date(`${fromFilter}T00:00:00`), 'MMM d, yyyy') : 'any time'}${
+        toFilter && toFilter !== fromFilter ? ` - ${format(new Date(`${toFilter}T00:00:00`), 'MMM d, yyyy')}` : ''
+      }`,
+  ].filter(Boolean);
+
+  const handleClearDrillDown = () => {
+    setSearchParams({});
+    setStatusFilter('all');
+  };
+
+  const formatDate = (value: string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+
+  // One row per order in the current filter, with every item's coating joined
+  const handleExport = async (exportFormat: SpreadsheetFormat) => {
+    const unique = (values: string[]) => [...new Set(values)].join('; ');
+
+    try {
+      await downloadSpreadsheet(
+        exportFormat,
+        `orders-${format(new Date(), 'yyyy-MM-dd')}`,
+        [
+          'Order Number',
+          'Project',
+          'Description',
+          'Client',
+          'Company',
+          'Phone',
+          'Status',
+          'Priority',
+          'Quantity',
+          'Finish',
+          'Texture',
+          'Color',
+          'Assigned To',
+          'Quoted Price (PHP, ex. VAT)',
+          'Quote Approved',
+          'Submitted',
+          'Estimated Completion',
+          'Completed',
+        ],
+        filteredOrders.map((order) => [
+          order.order_number,
+          order.project_name,
+          order.description,
+          order.profiles?.full_name,
+          order.profiles?.company,
+          order.profiles?.phone,
+          getStatusLabel(order.status),
+          order.priority,
+          order.quantity,
+          unique(order.order_customizations.map((c) => c.finish)),
+          unique(order.order_customizations.map((c) => c.texture)),
+          unique(order.order_customizations.map((c) => getColorLabel(c))),
+          unique(order.order_team_assignments.map((a) => a.team_members?.name).filter(Boolean)),
+          order.quoted_price,
+          order.quote_approved ? 'Yes' : 'No',
+          formatDate(order.submitted_date),
+          formatDate(order.estimated_completion),
+          formatDate(order.completed_date),
+        ]),
+        'Orders'
+      );
+      toast.success(`Exported ${filteredOrders.length} order${filteredOrders.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error exporting orders:', error);
+      toast.error('Failed to export orders');
+    }
+  };
+
   const stats = {
     pendingQuote: orders.filter(o => o.status === 'pending_quote').length,
     queued: orders.filter(o => o.status === 'queued').length,
@@ -106,7 +209,27 @@ export default function OrderManagement() {
   return (
     <ScrollArea className="h-screen">
       <div className="container mx-auto p-6 max-w-7xl pt-24">
-      <h1 className="text-4xl font-bold mb-8">Order Management</h1>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <h1 className="text-4xl font-bold">Order Management</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={filteredOrders.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
       
       <div className="grid md:grid-cols-5 gap-4 mb-8">
         <Card>
@@ -157,17 +280,26 @@ export default function OrderManagement() {
               <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="pending_quote">Pending Quote</SelectItem>
-                <SelectItem value="queued">Queued</SelectItem>
-                <SelectItem value="sand-blasting">Sand Blasting</SelectItem>
-                <SelectItem value="coating">Coating</SelectItem>
-                <SelectItem value="curing">Curing</SelectItem>
-                <SelectItem value="quality-check">Quality Check</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
-                <SelectItem value="delayed">Delayed</SelectItem>
+                {ORDER_STATUSES.map((statusKey) => (
+                  <SelectItem key={statusKey} value={statusKey}>{getStatusLabel(statusKey)}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
+          {hasDrillDown && (
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <span className="text-sm text-muted-foreground">From reports:</span>
+              {drillDownLabels.map((label) => (
+                <Badge key={label} variant="secondary">
+                  {label}
+                </Badge>
+              ))}
+              <Button variant="ghost" size="sm" onClick={handleClearDrillDown}>
+                <X className="h-4 w-4 mr-1" />
+                Clear
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <Table>
@@ -187,8 +319,8 @@ export default function OrderManagement() {
                   <TableCell>{order.profiles?.full_name || 'N/A'}</TableCell>
                   <TableCell className="max-w-xs truncate">{order.description}</TableCell>
                   <TableCell>
-                    <Badge className={getStatusColor(order.status)}>
-                      {formatStatus(order.status)}
+                    <Badge className={getStatusBadgeClass(order.status)}>
+                      {getStatusLabel(order.status)}
                     </Badge>
                   </TableCell>
                   <TableCell>
@@ -204,6 +336,8 @@ export default function OrderManagement() {
         </CardContent>
       </Card>
     </div>
+
+      <OrderImportDialog open={importOpen} onOpenChange={setImportOpen} onImported={fetchOrders} />
     </ScrollArea>
   );
 }
@@ -0,0 +1,5 @@
+import { OvenBatches } from '@/components/OvenBatches';
+
+export default function AdminOvenBatchesPage() {
+  return <OvenBatches orderPath="/admin/orders" />;
+}
@@ -0,0 +1,602 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Boxes, Plus, Edit, PackagePlus, AlertTriangle, Loader2, Search } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Constants, Database } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+type PowderSku = Database['public']['Tables']['powder_skus']['Row'];
+type FinishType = Database['public']['Enums']['finish_type'];
+type TextureType = Database['public']['Enums']['texture_type'];
+type PowderTransactionType = Database['public']['Enums']['powder_transaction_type'];
+
+interface PowderTransaction {
+  id: string;
+  transaction_type: PowderTransactionType;
+  quantity_kg: number;
+  notes: string | null;
+  created_at: string;
+  powder_skus: { sku: string; name: string } | null;
+  orders: { order_number: string } | null;
+}
+
+const emptyForm = {
+  sku: '',
+  name: '',
+  ral_code: '',
+  hex_code: '',
+  finish: 'glossy' as FinishType,
+  texture: 'smooth' as TextureType,
+  reorder_point_kg: '',
+  coverage_sqm_per_kg: '8',
+  is_active: true,
+  initial_kg: '',
+};
+
+const isLowStock = (powder: PowderSku) => powder.is_active && powder.kg_on_hand < powder.reorder_point_kg;
+
+export default function PowderInventory() {
+  const [powders, setPowders] = useState<PowderSku[]>([]);
+  const [transactions, setTransactions] = useState<PowderTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Dialog states
+  const [skuDialogOpen, setSkuDialogOpen] = useState(false);
+  const [stockDialogOpen, setStockDialogOpen] = useState(false);
+  const [selectedPowder, setSelectedPowder] = useState<PowderSku | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Form states
+  const [formData, setFormData] = useState(emptyForm);
+  const [stockType, setStockType] = useState<PowderTransactionType>('receipt');
+  const [stockKg, setStockKg] = useState('');
+  const [stockNotes, setStockNotes] = useState('');
+
+  useEffect(() => {
+    fetchInventory();
+  }, []);
+
+  const fetchInventory = async () => {
+    try {
+      const { data: powderData, error: powderError } = await supabase
+        .from('powder_skus')
+        .select('*')
+        .order('name');
+
+      if (powderError) throw powderError;
+
+      const { data: transactionData, error: transactionError } = await supabase
+        .from('powder_transactions')
+        .select('id, transaction_type, quantity_kg, notes, created_at, powder_skus(sku, name), orders(order_number)')
+        .order('created_at', { ascending: false })
+        .limit(25);
+
+      if (transactionError) throw transactionError;
+
+      setPowders(powderData || []);
+      setTransactions(transactionData || []);
+    } catch (error) {
+      console.error('Error fetching powder inventory:', error);
+      toast.error('Failed to load powder inventory');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setSelectedPowder(null);
+    setFormData(emptyForm);
+    setSkuDialogOpen(true);
+  };
+
+  const openEditDialog = (powder: PowderSku) => {
+    setSelectedPowder(powder);
+    setFormData({
+      sku: powder.sku,
+      name: powder.name,
+      ral_code: powder.ral_code || '',
+      hex_code: powder.hex_code || '',
+      finish: powder.finish,
+      texture: powder.texture,
+      reorder_point_kg: powder.reorder_point_kg.toString(),
+      coverage_sqm_per_kg: powder.coverage_sqm_per_kg.toString(),
+      is_active: powder.is_active,
+      initial_kg: '',
+    });
+    setSkuDialogOpen(true);
+  };
+
+  const openStockDialog = (powder: PowderSku) => {
+    setSelectedPowder(powder);
+    setStockType('receipt');
+    setStockKg('');
+    setStockNotes('');
+    setStockDialogOpen(true);
+  };
+
+  const recordTransaction = async (powderId: string, type: PowderTransactionType, kg: number, transactionNotes: string | null) => {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await supabase.from('powder_transactions').insert({
+      powder_id: powderId,
+      transaction_type: type,
+      quantity_kg: kg,
+      notes: transactionNotes,
+      created_by: user?.id,
+    });
+
+    if (error) throw error;
+  };
+
+  const handleSaveSku = async () => {
+    if (!formData.sku.trim() || !formData.name.trim()) {
+      toast.error('Please fill in all required fields');
+      return;
+    }
+
+    const hexCode = formData.hex_code.trim().toUpperCase();
+    if (hexCode && !/^#[0-9A-F]{6}$/.test(hexCode)) {
+      toast.error('Hex code must look like #1A2B3C');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const skuData = {
+        sku: formData.sku.trim(),
+        name: formData.name.trim(),
+        ral_code: formData.ral_code.trim().toUpperCase() || null,
+        hex_code: hexCode || null,
+        finish: formData.finish,
+        texture: formData.texture,
+        reorder_point_kg: parseFloat(formData.reorder_point_kg) || 0,
+        coverage_sqm_per_kg: parseFloat(formData.coverage_sqm_per_kg) || 8,
+        is_active: formData.is_active,
+      };
+
+      if (selectedPowder) {
+        const { error } = await supabase.from('powder_skus').update(skuData).eq('id', selectedPowder.id);
+        if (error) throw error;
+        toast.success('Powder updated successfully');
+      } else {
+        const { data, error } = await supabase.from('powder_skus').insert(skuData).select().single();
+        if (error) throw error;
+
+        // Opening stock goes through the ledger like any other receipt
+        const initialKg = parseFloat(formData.initial_kg);
+        if (initialKg > 0) {
+          await recordTransaction(data.id, 'receipt', initialKg, 'Opening stock');
+        }
+        toast.success('Powder added successfully');
+      }
+
+      setSkuDialogOpen(false);
+      fetchInventory();
+    } catch (error) {
+      console.error('Error saving powder:', error);
+      toast.error('Failed to save powder');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecordStock = async () => {
+    if (!selectedPowder) return;
+
+    const kg = parseFloat(stockKg);
+    if (!kg || (stockType === 'receipt' && kg < 0)) {
+      toast.error(stockType === 'receipt' ? 'Enter the kg received' : 'Enter a non-zero adjustment');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await recordTransaction(selectedPowder.id, stockType, kg, stockNotes.trim() || null);
+      toast.success(`Stock updated for ${selectedPowder.name}`);
+      setStockDialogOpen(false);
+      fetchInventory();
+    } catch (error) {
+      console.error('Error recording stock:', error);
+      toast.error('Failed to record stock');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredPowders = powders.filter((powder) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      powder.name.toLowerCase().includes(query) ||
+      powder.sku.toLowerCase().includes(query) ||
+      (powder.ral_code || '').toLowerCase().includes(query)
+    );
+  });
+
+  const stats = {
+    total: powders.filter((powder) => powder.is_active).length,
+    lowStock: powders.filter(isLowStock).length,
+    totalKg: powders.reduce((sum, powder) => sum + Number(powder.kg_on_hand), 0),
+  };
+
+  return (
+    <ScrollArea className="h-screen">
+      <div className="min-h-screen bg-background pt-20">
+        <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                <Boxes className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Powder Inventory</h1>
+                <p className="text-muted-foreground">Track powder stock and usage by color</p>
+              </div>
+            </div>
+            <Button onClick={openCreateDialog} size="lg">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Powder
+            </Button>
+          </div>
+
+          {/* Stats Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Active Powders</p>
+                    <p className="text-2xl font-bold">{stats.total}</p>
+                  </div>
+                  <Boxes className="h-8 w-8 text-muted-foreground" />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Below Reorder Point</p>
+                    <p className="text-2xl font-bold text-red-600">{stats.lowStock}</p>
+                  </div>
+                  <AlertTriangle className="h-8 w-8 text-red-600" />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Total On Hand</p>
+                    <p className="text-2xl font-bold">{stats.totalKg.toFixed(1)} kg</p>
+                  </div>
+                  <PackagePlus className="h-8 w-8 text-muted-foreground" />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Powders */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <CardTitle>Powders</CardTitle>
+                <div className="relative md:w-72">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search by name, SKU or RAL..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                </div>
+              ) : filteredPowders.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  {powders.length === 0 ? 'Start by adding the powders you stock' : 'No powders match your search'}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Powder</TableHead>
+                      <TableHead>RAL</TableHead>
+                      <TableHead>Finish / Texture</TableHead>
+                      <TableHead className="text-right">On Hand</TableHead>
+                      <TableHead className="text-right">Reorder At</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredPowders.map((powder) => (
+                      <TableRow key={powder.id} className={powder.is_active ? '' : 'opacity-60'}>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            <div
+                              className="h-8 w-8 rounded border"
+                              style={{ backgroundColor: powder.hex_code || undefined }}
+                            />
+                            <div>
+                              <p className="font-medium">{powder.name}</p>
+                              <p className="text-xs text-muted-foreground">{powder.sku}</p>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>{powder.ral_code || '-'}</TableCell>
+                        <TableCell className="capitalize">
+                          {powder.finish} / {powder.texture}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            {isLowStock(powder) && <Badge variant="destructive">Low</Badge>}
+                            {!powder.is_active && <Badge variant="outline">Inactive</Badge>}
+                            <span className="font-medium">{powder.kg_on_hand} kg</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{powder.reorder_point_kg} kg</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="icon" onClick={() => openStockDialog(powder)}>
+                              <PackagePlus className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => openEditDialog(powder)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Recent Movements */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Stock Movements</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {transactions.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No stock movements yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {transactions.map((transaction) => (
+                    <div key={transaction.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">
+                          {transaction.powder_skus?.name || 'Powder'}
+                          {transaction.orders && (
+                            <span className="text-muted-foreground font-normal"> • {transaction.orders.order_number}</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(transaction.created_at), 'MMM dd, yyyy HH:mm')}
+                          {transaction.notes && ` • ${transaction.notes}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Badge variant="outline" className="capitalize">{transaction.transaction_type}</Badge>
+                        <span className={`font-medium ${transaction.quantity_kg < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {transaction.quantity_kg > 0 ? '+' : ''}{transaction.quantity_kg} kg
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Powder Dialog */}
+      <Dialog open={skuDialogOpen} onOpenChange={setSkuDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{selectedPowder ? 'Edit Powder' : 'Add Powder'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="powder-sku">SKU *</Label>
+                <Input
+                  id="powder-sku"
+                  value={formData.sku}
+                  onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="powder-name">Name *</Label>
+                <Input
+                  id="powder-name"
+                  placeholder="Black"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="powder-ral">RAL Code</Label>
+                <Input
+                  id="powder-ral"
+                  placeholder="RAL 9005"
+                  value={formData.ral_code}
+                  onChange={(e) => setFormData({ ...formData, ral_code: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="powder-hex">Hex Code</Label>
+                <Input
+                  id="powder-hex"
+                  placeholder="#0A0A0A"
+                  value={formData.hex_code}
+                  onChange={(e) => setFormData({ ...formData, hex_code: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="powder-finish">Finish</Label>
+                <Select value={formData.finish} onValueChange={(value) => setFormData({ ...formData, finish: value as FinishType })}>
+                  <SelectTrigger id="powder-finish" className="capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Constants.public.Enums.finish_type.map((finish) => (
+                      <SelectItem key={finish} value={finish} className="capitalize">{finish}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="powder-texture">Texture</Label>
+                <Select value={formData.texture} onValueChange={(value) => setFormData({ ...formData, texture: value as TextureType })}>
+                  <SelectTrigger id="powder-texture" className="capitalize">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Constants.public.Enums.texture_type.map((texture) => (
+                      <SelectItem key={texture} value={texture} className="capitalize">{texture}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="powder-reorder">Reorder Point (kg)</Label>
+                <Input
+                  id="powder-reorder"
+                  type="number"
+                  min="0"
+                  value={formData.reorder_point_kg}
+                  onChange={(e) => setFormData({ ...formData, reorder_point_kg: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="powder-coverage">Coverage (m²/kg)</Label>
+                <Input
+                  id="powder-coverage"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={formData.coverage_sqm_per_kg}
+                  onChange={(e) => setFormData({ ...formData, coverage_sqm_per_kg: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {!selectedPowder && (
+              <div className="space-y-2">
+                <Label htmlFor="powder-initial">Opening Stock (kg)</Label>
+                <Input
+                  id="powder-initial"
+                  type="number"
+                  min="0"
+                  value={formData.initial_kg}
+                  onChange={(e) => setFormData({ ...formData, initial_kg: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="powder-active">Active</Label>
+              <Switch
+                id="powder-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSkuDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSku} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {selectedPowder ? 'Save Changes' : 'Add Powder'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock Dialog */}
+      <Dialog open={stockDialogOpen} onOpenChange={setStockDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record Stock: {selectedPowder?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-muted-foreground">Currently {selectedPowder?.kg_on_hand} kg on hand</p>
+            <div className="space-y-2">
+              <Label htmlFor="stock-type">Type</Label>
+              <Select value={stockType} onValueChange={(value) => setStockType(value as PowderTransactionType)}>
+                <SelectTrigger id="stock-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="receipt">Receipt (boxes received)</SelectItem>
+                  <SelectItem value="adjustment">Adjustment (stock count correction)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-kg">Quantity (kg)</Label>
+              <Input
+                id="stock-kg"
+                type="number"
+                step="0.01"
+                placeholder={stockType === 'adjustment' ? 'Negative to remove stock' : undefined}
+                value={stockKg}
+                onChange={(e) => setStockKg(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-notes">Notes</Label>
+              <Input
+                id="stock-notes"
+                placeholder="Supplier invoice, count reference..."
+                value={stockNotes}
+                onChange={(e) => setStockNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStockDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRecordStock} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </ScrollArea>
+  );
+}
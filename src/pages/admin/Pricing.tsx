@@ -0,0 +1,545 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calculator, Plus, Trash2, Loader2, Save } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { PriceEstimate } from '@/components/PriceEstimate';
+import { fetchColorCatalog, ColorCatalog, FinishType, TextureType } from '@/lib/colorCatalog';
+import { EstimateLine, PricingRates, QuantityBreak } from '@/lib/pricing';
+import { toast } from 'sonner';
+
+type RateField = Exclude<keyof PricingRates, 'id' | 'updated_at'>;
+
+const RATE_FIELDS: { field: RateField; label: string; hint: string }[] = [
+  { field: 'rate_per_sqm', label: 'Coating per m² (₱)', hint: 'Used when the surface area is known' },
+  { field: 'rate_per_piece', label: 'Coating per piece (₱)', hint: 'Used when the surface area is unknown' },
+  { field: 'sand_blasting_per_sqm', label: 'Sand blasting per m² (₱)', hint: 'Added when routed through sand blasting' },
+  { field: 'sand_blasting_per_piece', label: 'Sand blasting per piece (₱)', hint: 'Per piece fallback' },
+  { field: 'custom_color_surcharge', label: 'Custom color surcharge (₱)', hint: 'Flat fee for colors outside the catalog' },
+  { field: 'minimum_charge', label: 'Minimum order charge (₱)', hint: 'Estimates are never lower than this' },
+];
+
+export default function Pricing() {
+  const [rates, setRates] = useState<Record<RateField, string> | null>(null);
+  const [catalog, setCatalog] = useState<ColorCatalog>({ finishes: [], textures: [], colors: [] });
+  const [finishSurcharges, setFinishSurcharges] = useState<Record<string, string>>({});
+  const [textureSurcharges, setTextureSurcharges] = useState<Record<string, string>>({});
+  const [quantityBreaks, setQuantityBreaks] = useState<QuantityBreak[]>([]);
+  const [validityDays, setValidityDays] = useState('');
+  const [quoteTerms, setQuoteTerms] = useState('');
+  const [depositPercent, setDepositPercent] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // New quantity break
+  const [breakQuantity, setBreakQuantity] = useState('');
+  const [breakDiscount, setBreakDiscount] = useState('');
+
+  // Estimate calculator
+  const [testQuantity, setTestQuantity] = useState('10');
+  const [testArea, setTestArea] = useState('');
+  const [testFinish, setTestFinish] = useState<FinishType>('matte');
+  const [testTexture, setTestTexture] = useState<TextureType>('smooth');
+  const [testColor, setTestColor] = useState('custom');
+  const [testSandBlasting, setTestSandBlasting] = useState(true);
+  const [testEstimate, setTestEstimate] = useState<EstimateLine[]>([]);
+
+  useEffect(() => {
+    fetchPricing();
+  }, []);
+
+  const fetchPricing = async () => {
+    try {
+      const { data: rateData, error: rateError } = await supabase.from('pricing_rates').select('*').single();
+      if (rateError) throw rateError;
+
+      const { data: breakData, error: breakError } = await supabase
+        .from('pricing_quantity_breaks')
+        .select('*')
+        .order('min_quantity');
+      if (breakError) throw breakError;
+
+      const { data: quoteData, error: quoteError } = await supabase.from('quote_settings').select('*').single();
+      if (quoteError) throw quoteError;
+
+      const loadedCatalog = await fetchColorCatalog();
+
+      setRates(
+        Object.fromEntries(RATE_FIELDS.map(({ field }) => [field, rateData[field].toString()])) as Record<
+          RateField,
+          string
+        >
+      );
+      setQuantityBreaks(breakData || []);
+      setValidityDays(quoteData.validity_days.toString());
+      setQuoteTerms(quoteData.terms);
+      setDepositPercent(quoteData.deposit_percent.toString());
+      setCatalog(loadedCatalog);
+      setFinishSurcharges(
+        Object.fromEntries(loadedCatalog.finishes.map((f) => [f.finish, f.surcharge_percent.toString()]))
+      );
+      setTextureSurcharges(
+        Object.fromEntries(loadedCatalog.textures.map((t) => [t.texture, t.surcharge_percent.toString()]))
+      );
+    } catch (error) {
+      console.error('Error fetching pricing:', error);
+      toast.error('Failed to load pricing');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveRates = async () => {
+    if (!rates) return;
+
+    const values = Object.values(rates).concat(Object.values(finishSurcharges), Object.values(textureSurcharges));
+    if (values.some((value) => value === '' || isNaN(parseFloat(value)) || parseFloat(value) < 0)) {
+      toast.error('Rates and surcharges must be zero or more');
+      return;
+    }
+
+    const validity = parseInt(validityDays);
+    if (isNaN(validity) || validity < 1) {
+      toast.error('Quotes must be valid for at least 1 day');
+      return;
+    }
+
+    const deposit = parseFloat(depositPercent);
+    if (isNaN(deposit) || deposit < 0 || deposit > 100) {
+      toast.error('Deposit must be between 0 and 100%');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('pricing_rates')
+        .update(Object.fromEntries(Object.entries(rates).map(([field, value]) => [field, parseFloat(value)])))
+        .eq('id', true);
+      if (error) throw error;
+
+      const results = await Promise.all([
+        ...catalog.finishes.map((f) =>
+          supabase
+            .from('coating_finishes')
+            .update({ surcharge_percent: parseFloat(finishSurcharges[f.finish]) })
+            .eq('finish', f.finish)
+        ),
+        ...catalog.textures.map((t) =>
+          supabase
+            .from('coating_textures')
+            .update({ surcharge_percent: parseFloat(textureSurcharges[t.texture]) })
+            .eq('texture', t.texture)
+        ),
+      ]);
+      const surchargeError = results.find((result) => result.error)?.error;
+      if (surchargeError) throw surchargeError;
+
+      // New quote versions pick up these terms; issued ones keep theirs
+      const { error: quoteError } = await supabase
+        .from('quote_settings')
+        .update({ validity_days: validity, terms: quoteTerms.trim(), deposit_percent: deposit })
+        .eq('id', true);
+      if (quoteError) throw quoteError;
+
+      toast.success('Pricing saved');
+    } catch (error) {
+      console.error('Error saving pricing:', error);
+      toast.error('Failed to save pricing');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddBreak = async () => {
+    const minQuantity = parseInt(breakQuantity);
+    const discount = parseFloat(breakDiscount);
+
+    if (isNaN(minQuantity) || minQuantity < 2) {
+      toast.error('Minimum quantity must be at least 2');
+      return;
+    }
+    if (isNaN(discount) || discount <= 0 || discount >= 100) {
+      toast.error('Discount must be between 0 and 100%');
+      return;
+    }
+    if (quantityBreaks.some((b) => b.min_quantity === minQuantity)) {
+      toast.error(`There is already a break at ${minQuantity} pieces`);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('pricing_quantity_breaks')
+        .insert({ min_quantity: minQuantity, discount_percent: discount })
+        .select()
+        .single();
+      if (error) throw error;
+
+      setQuantityBreaks([...quantityBreaks, data].sort((a, b) => a.min_quantity - b.min_quantity));
+      setBreakQuantity('');
+      setBreakDiscount('');
+    } catch (error) {
+      console.error('Error adding quantity break:', error);
+      toast.error('Failed to add quantity break');
+    }
+  };
+
+  const handleDeleteBreak = async (quantityBreak: QuantityBreak) => {
+    try {
+      const { error } = await supabase.from('pricing_quantity_breaks').delete().eq('id', quantityBreak.id);
+      if (error) throw error;
+
+      setQuantityBreaks(quantityBreaks.filter((b) => b.id !== quantityBreak.id));
+    } catch (error) {
+      console.error('Error deleting quantity break:', error);
+      toast.error('Failed to delete quantity break');
+    }
+  };
+
+  // Uses the saved rates, so save changes before trying them out
+  const handleTestEstimate = async () => {
+    const quantity = parseInt(testQuantity);
+    if (isNaN(quantity) || quantity < 1) {
+      toast.error('Enter a quantity of at least 1');
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('estimate_price', {
+      _quantity: quantity,
+      _surface_area_sqm: testArea ? parseFloat(testArea) : null,
+      _finish: testFinish,
+      _texture: testTexture,
+      _color_id: testColor === 'custom' ? null : testColor,
+      _sand_blasting: testSandBlasting,
+    });
+
+    if (error) {
+      console.error('Error estimating price:', error);
+      toast.error('Failed to calculate estimate');
+      return;
+    }
+    setTestEstimate(data || []);
+  };
+
+  if (loading || !rates) {
+    return (
+      <div className="min-h-screen bg-background pt-20 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-screen">
+      <div className="min-h-screen bg-background pt-20">
+        <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="h-12 w-12 rounded-lg bg-primary flex items-center justify-center">
+                <Calculator className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Pricing</h1>
+                <p className="text-muted-foreground">Rates used to estimate new orders before they are quoted</p>
+              </div>
+            </div>
+            <Button onClick={handleSaveRates} disabled={saving} size="lg">
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save Pricing
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Base Rates */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Base Rates</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {RATE_FIELDS.map(({ field, label, hint }) => (
+                      <div key={field} className="space-y-2">
+                        <Label htmlFor={field}>{label}</Label>
+                        <Input
+                          id={field}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={rates[field]}
+                          onChange={(e) => setRates({ ...rates, [field]: e.target.value })}
+                        />
+                        <p className="text-xs text-muted-foreground">{hint}</p>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Finish & Texture Surcharges */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Finish & Texture Surcharges</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">Percentage added on top of the coating price.</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-3">
+                      <h4 className="text-sm font-semibold">Finishes</h4>
+                      {catalog.finishes.map((f) => (
+                        <div key={f.finish} className="flex items-center justify-between gap-4">
+                          <Label htmlFor={`finish-${f.finish}`}>{f.label}</Label>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              id={`finish-${f.finish}`}
+                              type="number"
+                              min="0"
+                              step="0.5"
+                              className="w-24"
+                              value={finishSurcharges[f.finish] ?? ''}
+                              onChange={(e) => setFinishSurcharges({ ...finishSurcharges, [f.finish]: e.target.value })}
+                            />
+                            <span className="text-sm text-muted-foreground">%</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-3">
+                      <h4 className="text-sm font-semibold">Textures</h4>
+                      {catalog.textures.map((t) => (
+                        <div key={t.texture} className="flex items-center justify-between gap-4">
+                          <Label htmlFor={`texture-${t.texture}`}>{t.label}</Label>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              id={`texture-${t.texture}`}
+                              type="number"
+                              min="0"
+                              step="0.5"
+                              className="w-24"
+                              value={textureSurcharges[t.texture] ?? ''}
+                              onChange={(e) => setTextureSurcharges({ ...textureSurcharges, [t.texture]: e.target.value })}
+                            />
+                            <span className="text-sm text-muted-foreground">%</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Per-color surcharges are set on each color in the color catalog.
+                  </p>
+                </CardContent>
+              </Card>
+
+              {/* Quantity Breaks */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Quantity Breaks</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {quantityBreaks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No quantity discounts</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {quantityBreaks.map((quantityBreak) => (
+                        <div key={quantityBreak.id} className="flex items-center justify-between p-3 border rounded-lg">
+                          <span className="font-medium">{quantityBreak.min_quantity}+ pieces</span>
+                          <div className="flex items-center gap-3">
+                            <span className="text-green-600">{quantityBreak.discount_percent}% off</span>
+                            <Button variant="ghost" size="icon" onClick={() => handleDeleteBreak(quantityBreak)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex flex-col md:flex-row md:items-end gap-3">
+                    <div className="space-y-2 flex-1">
+                      <Label htmlFor="breakQuantity">From quantity</Label>
+                      <Input
+                        id="breakQuantity"
+                        type="number"
+                        min="2"
+                        value={breakQuantity}
+                        onChange={(e) => setBreakQuantity(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2 flex-1">
+                      <Label htmlFor="breakDiscount">Discount (%)</Label>
+                      <Input
+                        id="breakDiscount"
+                        type="number"
+                        min="0"
+                        max="99"
+                        step="0.5"
+                        value={breakDiscount}
+                        onChange={(e) => setBreakDiscount(e.target.value)}
+                      />
+                    </div>
+                    <Button variant="outline" onClick={handleAddBreak}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Break
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Quote & Payment Terms */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Quote &amp; Payment Terms</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="validityDays">Quotes valid for (days)</Label>
+                    <Input
+                      id="validityDays"
+                      type="number"
+                      min="1"
+                      className="w-32"
+                      value={validityDays}
+                      onChange={(e) => setValidityDays(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Quotes not approved in time expire and must be re-issued.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="quoteTerms">Terms and conditions</Label>
+                    <Textarea
+                      id="quoteTerms"
+                      rows={6}
+                      value={quoteTerms}
+                      onChange={(e) => setQuoteTerms(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Printed on quote documents. Changes apply to quotes issued from now on.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="depositPercent">Deposit required (%)</Label>
+                    <Input
+                      id="depositPercent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      className="w-32"
+                      value={depositPercent}
+                      onChange={(e) => setDepositPercent(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Share of the order total to collect before an order can be completed. Set to 0 to turn this off.
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Estimate Calculator */}
+            <div className="lg:sticky lg:top-24 lg:self-start">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Try an Estimate</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="testQuantity">Quantity</Label>
+                      <Input
+                        id="testQuantity"
+                        type="number"
+                        min="1"
+                        value={testQuantity}
+                        onChange={(e) => setTestQuantity(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="testArea">m² per piece</Label>
+                      <Input
+                        id="testArea"
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        placeholder="Unknown"
+                        value={testArea}
+                        onChange={(e) => setTestArea(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label>Finish</Label>
+                      <Select value={testFinish} onValueChange={(value) => setTestFinish(value as FinishType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {catalog.finishes.map((f) => (
+                            <SelectItem key={f.finish} value={f.finish}>
+                              {f.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Texture</Label>
+                      <Select value={testTexture} onValueChange={(value) => setTestTexture(value as TextureType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {catalog.textures.map((t) => (
+                            <SelectItem key={t.texture} value={t.texture}>
+                              {t.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Color</Label>
+                    <Select value={testColor} onValueChange={setTestColor}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="custom">Custom color</SelectItem>
+                        {catalog.colors.map((c) => (
+                          <SelectItem key={c.id} value={c.id}>
+                            {c.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="testSandBlasting">Sand blasting</Label>
+                    <Switch id="testSandBlasting" checked={testSandBlasting} onCheckedChange={setTestSandBlasting} />
+                  </div>
+                  <Button variant="outline" className="w-full" onClick={handleTestEstimate}>
+                    <Calculator className="mr-2 h-4 w-4" />
+                    Calculate
+                  </Button>
+                  {testEstimate.length > 0 && <PriceEstimate lines={testEstimate} />}
+                  <p className="text-xs text-muted-foreground">Uses the saved pricing.</p>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+    </ScrollArea>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -7,34 +8,83 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ReportAnalytics } from '@/components/ReportAnalytics';
+import { ReportSchedules } from '@/components/ReportSchedules';
 import { toast } from '@/hooks/use-toast';
 import { format, subDays, startOfQuarter, startOfYear } from 'date-fns';
 import { CalendarIcon, FileDown, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { addPageNumbers, createPdfDocument, getLastTableY } from '@/lib/pdf';
+import { formatPdfPeso, formatPeso } from '@/lib/currency';
+import { getStatusLabel } from '@/lib/orderStatus';
+import { formatDuration } from '@/lib/workLogs';
+import { ReportFormat } from '@/lib/reportSchedules';
+
+type StageCycleTime = Database['public']['Functions']['get_stage_cycle_times']['Returns'][number];
+type TeamWorkload = Database['public']['Functions']['get_team_workload']['Returns'][number];
+type FinancialSummary = Database['public']['Functions']['get_financial_summary']['Returns'][number];
 
 interface ReportData {
-  orderVolume?: any;
-  productionPipeline?: any;
-  teamAssignments?: any;
-  priorityBreakdown?: any;
-  clientStatistics?: any;
-  orderSpecifications?: any;
+  orderVolume?: { total: number; statusCounts: Record<string, number>; completed: number; newOrders: number };
+  productionPipeline?: {
+    currentPipeline: Record<string, number>;
+    completed: number;
+    delayed: number;
+    inProgress: number;
+  };
+  stageCycleTimes?: { stages: StageCycleTime[]; totalRuns: number };
+  teamAssignments?: {
+    allMembers: TeamWorkload[];
+    statusCounts: { active: number; busy: number; available: number; onLeave: number };
+    totalMembers: number;
+  };
+  priorityBreakdown?: { priorityCounts: Record<string, number>; urgentRatio: string };
+  clientStatistics?: {
+    totalClients: number;
+    activeClients: number;
+    inactiveClients: number;
+    newClients: number;
+    topClients: [string, number][];
+  };
+  orderSpecifications?: {
+    finishCounts: Record<string, number>;
+    textureCounts: Record<string, number>;
+    topColors: [string, number][];
+    totalQuantity: number;
+  };
+  financials?: FinancialSummary;
 }
 
+const toCounts = (entries: [string, number][]): Record<string, number> => Object.fromEntries(entries);
+
+// Unpaid invoice balances by days since the invoice was issued
+const getAgingBuckets = (summary: FinancialSummary): [string, number][] => [
+  ['0-30 days', summary.aging_0_30],
+  ['31-60 days', summary.aging_31_60],
+  ['61-90 days', summary.aging_61_90],
+  ['90+ days', summary.aging_over_90],
+];
+
+// Share of the orders quoted in the period whose quote was approved
+const getAcceptanceRate = (summary: FinancialSummary) =>
+  summary.quoted_orders > 0 ? ((summary.accepted_orders / summary.quoted_orders) * 100).toFixed(1) : '0';
+
 export default function Reports() {
-  const [startDate, setStartDate] = useState<Date>();
-  const [endDate, setEndDate] = useState<Date>();
+  const [startDate, setStartDate] = useState<Date | undefined>(() => subDays(new Date(), 30));
+  const [endDate, setEndDate] = useState<Date | undefined>(() => new Date());
   const [selectedCategories, setSelectedCategories] = useState({
     orderVolume: false,
     productionPipeline: false,
+    stageCycleTimes: false,
     teamAssignments: false,
     priorityBreakdown: false,
     clientStatistics: false,
     orderSpecifications: false,
+    financials: false,
   });
-  const [exportFormat, setExportFormat] = useState<'pdf' | 'csv' | 'both'>('pdf');
+  const [exportFormat, setExportFormat] = useState<ReportFormat>('pdf');
   const [loading, setLoading] = useState(false);
   const [reportData, setReportData] = useState<ReportData | null>(null);
 
@@ -83,24 +133,19 @@ export default function Reports() {
       const endDateStr = format(endDate, 'yyyy-MM-dd');
 
       if (selectedCategories.orderVolume) {
-        const { data: orders, error } = await supabase
-          .from('orders')
-          .select('status, created_at')
-          .gte('created_at', startDateStr)
-          .lte('created_at', endDateStr);
-
-        if (!error && orders) {
-          const statusCounts: Record<string, number> = {};
-          orders.forEach(order => {
-            statusCounts[order.status] = (statusCounts[order.status] || 0) + 1;
-          });
+        const { data: statusCounts, error } = await supabase.rpc('get_order_status_counts', {
+          _start_date: startDateStr,
+          _end_date: endDateStr,
+        });
 
-          const completed = statusCounts['completed'] || 0;
-          const total = orders.length;
+        if (!error && statusCounts) {
+          const counts = toCounts(statusCounts.map((row) => [row.status, row.order_count]));
+          const completed = counts['completed'] || 0;
+          const total = statusCounts.reduce((sum, row) => sum + row.order_count, 0);
 
           data.orderVolume = {
             total,
-            statusCounts,
+            statusCounts: counts,
             completed,
             newOrders: total - completed,
           };
@@ -108,229 +153,128 @@ export default function Reports() {
       }
 
       if (selectedCategories.productionPipeline) {
-        const { data: orders, error } = await supabase
-          .from('orders')
-          .select('status');
+        // Every order, whatever the date range: where work stands now
+        const { data: statusCounts, error } = await supabase.rpc('get_order_status_counts');
 
-        if (!error && orders) {
-          const pipeline: Record<string, number> = {};
-          orders.forEach(order => {
-            pipeline[order.status] = (pipeline[order.status] || 0) + 1;
-          });
+        if (!error && statusCounts) {
+          const pipeline = toCounts(statusCounts.map((row) => [row.status, row.order_count]));
+          const total = statusCounts.reduce((sum, row) => sum + row.order_count, 0);
 
           data.productionPipeline = {
             currentPipeline: pipeline,
             completed: pipeline['completed'] || 0,
             delayed: pipeline['delayed'] || 0,
-            inProgress: orders.length - (pipeline['completed'] || 0) - (pipeline['pending_quote'] || 0),
+            inProgress: total - (pipeline['completed'] || 0) - (pipeline['pending_quote'] || 0),
           };
         }
       }
 
-      if (selectedCategories.teamAssignments) {
-        const { data: assignments, error } = await supabase
-          .from('order_team_assignments')
-          .select('team_member_id, team_members(name, department, status)');
-
-        const { data: allTeamMembers } = await supabase
-          .from('team_members')
-          .select('id, name, status, availability');
-
-        if (!error && assignments && allTeamMembers) {
-          // Count assignments per team member
-          const memberAssignmentCounts: Record<string, number> = {};
-          assignments.forEach((a: any) => {
-            const memberId = a.team_member_id;
-            memberAssignmentCounts[memberId] = (memberAssignmentCounts[memberId] || 0) + 1;
-          });
-
-          // Build member list with assignment counts
-          const allMembersWithCounts = allTeamMembers.map(tm => ({
-            name: tm.name,
-            status: tm.status || 'unknown',
-            availability: tm.availability || 'unknown',
-            assignedOrders: memberAssignmentCounts[tm.id] || 0,
-          }));
-
-          // Status counts
-          const statusCounts = {
-            active: allTeamMembers.filter(m => m.status === 'active').length,
-            busy: allTeamMembers.filter(m => m.availability === 'busy').length,
-            available: allTeamMembers.filter(m => m.availability === 'available').length,
-            onLeave: allTeamMembers.filter(m => m.status === 'on_leave' || m.availability === 'on_leave').length,
+      if (selectedCategories.stageCycleTimes) {
+        const { data: cycleTimes, error } = await supabase.rpc('get_stage_cycle_times', {
+          _start_date: startDateStr,
+          _end_date: endDateStr,
+        });
+
+        if (!error && cycleTimes) {
+          data.stageCycleTimes = {
+            stages: cycleTimes,
+            totalRuns: cycleTimes.reduce((sum, stage) => sum + Number(stage.runs), 0),
           };
+        }
+      }
 
+      if (selectedCategories.teamAssignments) {
+        const { data: workload, error } = await supabase.rpc('get_team_workload');
+
+        if (!error && workload) {
           data.teamAssignments = {
-            allMembers: allMembersWithCounts,
-            statusCounts,
-            totalMembers: allTeamMembers.length,
+            allMembers: workload,
+            statusCounts: {
+              active: workload.filter(m => m.status === 'active').length,
+              busy: workload.filter(m => m.availability === 'busy').length,
+              available: workload.filter(m => m.availability === 'available').length,
+              onLeave: workload.filter(m => m.status === 'on_leave' || m.availability === 'on_leave').length,
+            },
+            totalMembers: workload.length,
           };
         }
       }
 
       if (selectedCategories.priorityBreakdown) {
-        const { data: orders, error } = await supabase
-          .from('orders')
-          .select('priority')
-          .gte('created_at', startDateStr)
-          .lte('created_at', endDateStr);
-
-        if (!error && orders) {
-          const priorityCounts: Record<string, number> = {};
-          orders.forEach(order => {
-            priorityCounts[order.priority] = (priorityCounts[order.priority] || 0) + 1;
-          });
+        const { data: priorityCounts, error } = await supabase.rpc('get_order_priority_counts', {
+          _start_date: startDateStr,
+          _end_date: endDateStr,
+        });
 
-          const urgent = priorityCounts['urgent'] || 0;
-          const total = orders.length;
+        if (!error && priorityCounts) {
+          const counts = toCounts(priorityCounts.map((row) => [row.priority, row.order_count]));
+          const urgent = counts['urgent'] || 0;
+          const total = priorityCounts.reduce((sum, row) => sum + row.order_count, 0);
 
           data.priorityBreakdown = {
-            priorityCounts,
+            priorityCounts: counts,
             urgentRatio: total > 0 ? ((urgent / total) * 100).toFixed(1) : '0',
           };
         }
       }
 
       if (selectedCategories.clientStatistics) {
-        // Get all profiles
-        const { data: allProfiles, error: profilesError } = await supabase
-          .from('profiles')
-          .select('id, full_name');
-
-        if (profilesError) {
-          console.error('Error fetching profiles:', profilesError);
-        }
-
-        // Get user roles to identify admins
-        const { data: userRoles, error: rolesError } = await supabase
-          .from('user_roles')
-          .select('user_id, role');
-
-        if (rolesError) {
-          console.error('Error fetching user roles:', rolesError);
-        }
-
-        // Get team members to exclude them
-        const { data: teamMembers, error: teamError } = await supabase
-          .from('team_members')
-          .select('user_id');
-
-        if (teamError) {
-          console.error('Error fetching team members:', teamError);
-        }
-
-        // Filter to only actual clients (exclude admins and team members)
-        const teamMemberIds = new Set((teamMembers || []).map(tm => tm.user_id).filter(Boolean));
-        const allClients = (allProfiles || []).filter(profile => {
-          // Exclude team members
-          if (teamMemberIds.has(profile.id)) return false;
-          
-          // Exclude admins
-          const isAdmin = (userRoles || []).some(
-            role => role.user_id === profile.id && role.role === 'admin'
-          );
-          if (isAdmin) return false;
-          
-          return true;
+        const { data: clientStats, error } = await supabase.rpc('get_client_statistics', {
+          _start_date: startDateStr,
+          _end_date: endDateStr,
         });
 
-        const clientIds = allClients.map(c => c.id);
-
-        // Get orders in date range
-        const { data: orders, error: ordersError } = await supabase
-          .from('orders')
-          .select('user_id, created_at')
-          .gte('created_at', startDateStr)
-          .lte('created_at', endDateStr);
-
-        if (ordersError) {
-          console.error('Error fetching orders for client stats:', ordersError);
-        }
+        const { data: topClients, error: topClientsError } = await supabase.rpc('get_top_clients', {
+          _start_date: startDateStr,
+          _end_date: endDateStr,
+        });
 
-        // Count new clients created in date range
-        const newClientsCount = allClients.filter(client => {
-          const createdAt = allProfiles?.find(p => p.id === client.id);
-          if (!createdAt) return false;
-          const created = new Date((createdAt as any).created_at || '');
-          return created >= new Date(startDateStr) && created <= new Date(endDateStr);
-        }).length;
-
-        if (orders && allClients) {
-          // Count orders per client and track active clients
-          const userOrderCounts: Record<string, number> = {};
-          const activeClientIds = new Set<string>();
-          
-          orders.forEach((order) => {
-            const userId = order.user_id;
-            // Only count if user is a client
-            if (clientIds.includes(userId)) {
-              userOrderCounts[userId] = (userOrderCounts[userId] || 0) + 1;
-              activeClientIds.add(userId);
-            }
-          });
-
-          // Get profile names for top clients
-          const topClientData = await Promise.all(
-            Object.entries(userOrderCounts)
-              .sort(([, a], [, b]) => b - a)
-              .slice(0, 10)
-              .map(async ([userId, count]) => {
-                const profile = allClients.find(c => c.id === userId);
-                return [profile?.full_name || 'Unknown', count] as [string, number];
-              })
-          );
-
-          const totalClients = allClients.length;
-          const activeCount = activeClientIds.size;
-          const inactiveCount = totalClients - activeCount;
+        if (!error && !topClientsError && clientStats?.[0] && topClients) {
+          const { total_clients, active_clients, new_clients } = clientStats[0];
 
           data.clientStatistics = {
-            totalClients,
-            activeClients: activeCount,
-            inactiveClients: inactiveCount,
-            newClients: newClientsCount,
-            topClients: topClientData,
+            totalClients: total_clients,
+            activeClients: active_clients,
+            inactiveClients: total_clients - active_clients,
+            newClients: new_clients,
+            topClients: topClients.map((client) => [client.client_name, client.order_count]),
           };
-
-          console.log('Client Statistics:', data.clientStatistics);
-        } else {
-          console.log('No orders or clients data available');
         }
       }
 
       if (selectedCategories.orderSpecifications) {
-        const { data: customizations, error } = await supabase
-          .from('order_customizations')
-          .select('finish, texture, color, order_id, orders!inner(created_at, quantity)')
-          .gte('orders.created_at', startDateStr)
-          .lte('orders.created_at', endDateStr);
-
-        if (!error && customizations) {
-          const finishCounts: Record<string, number> = {};
-          const textureCounts: Record<string, number> = {};
-          const colorCounts: Record<string, number> = {};
-          let totalQuantity = 0;
-
-          customizations.forEach((c: any) => {
-            finishCounts[c.finish] = (finishCounts[c.finish] || 0) + 1;
-            textureCounts[c.texture] = (textureCounts[c.texture] || 0) + 1;
-            colorCounts[c.color] = (colorCounts[c.color] || 0) + 1;
-            totalQuantity += c.orders?.quantity || 0;
-          });
-
-          const topColors = Object.entries(colorCounts)
-            .sort(([, a], [, b]) => b - a)
-            .slice(0, 5);
+        const { data: breakdown, error } = await supabase.rpc('get_coating_breakdown', {
+          _start_date: startDateStr,
+          _end_date: endDateStr,
+        });
+
+        if (!error && breakdown) {
+          const rowsFor = (dimension: string) => breakdown.filter((row) => row.dimension === dimension);
+          const finishes = rowsFor('finish');
 
           data.orderSpecifications = {
-            finishCounts,
-            textureCounts,
-            topColors,
-            totalQuantity,
+            finishCounts: toCounts(finishes.map((row) => [row.label, row.item_count])),
+            textureCounts: toCounts(rowsFor('texture').map((row) => [row.label, row.item_count])),
+            // Already sorted by how many items chose them
+            topColors: rowsFor('color')
+              .slice(0, 5)
+              .map((row) => [row.label, row.item_count]),
+            totalQuantity: finishes.reduce((sum, row) => sum + row.quantity, 0),
           };
         }
       }
 
+      if (selectedCategories.financials) {
+        const { data: summary, error } = await supabase.rpc('get_financial_summary', {
+          _start_date: startDateStr,
+          _end_date: endDateStr,
+        });
+
+        if (!error && summary?.[0]) {
+          data.financials = summary[0];
+        }
+      }
+
       setReportData(data);
       toast({
         title: 'Report Generated',
@@ -351,21 +295,10 @@ export default function Reports() {
   const generatePDF = () => {
     if (!reportData || !startDate || !endDate) return;
 
-    const doc = new jsPDF();
-    let yPos = 20;
-
-    // Header
-    doc.setFontSize(20);
-    doc.setFont('helvetica', 'bold');
-    doc.text('TOP Powder Coating Reports', 105, yPos, { align: 'center' });
-    yPos += 10;
-
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Report Period: ${format(startDate, 'MMM dd, yyyy')} - ${format(endDate, 'MMM dd, yyyy')}`, 105, yPos, { align: 'center' });
-    yPos += 5;
-    doc.text(`Generated: ${format(new Date(), 'MMM dd, yyyy HH:mm')}`, 105, yPos, { align: 'center' });
-    yPos += 15;
+    const { doc, yPos: startY } = createPdfDocument('TOP Powder Coating Reports', [
+      `Report Period: ${format(startDate, 'MMM dd, yyyy')} - ${format(endDate, 'MMM dd, yyyy')}`,
+    ]);
+    let yPos = startY;
 
     // Order Volume
     if (reportData.orderVolume) {
@@ -386,7 +319,7 @@ export default function Reports() {
         theme: 'grid',
       });
 
-      yPos = (doc as any).lastAutoTable.finalY + 10;
+      yPos = getLastTableY(doc) + 10;
     }
 
     // Stage Distribution
@@ -413,7 +346,43 @@ export default function Reports() {
         theme: 'grid',
       });
 
-      yPos = (doc as any).lastAutoTable.finalY + 10;
+      yPos = getLastTableY(doc) + 10;
+    }
+
+    // Stage Cycle Times
+    if (reportData.stageCycleTimes) {
+      if (yPos > 250) {
+        doc.addPage();
+        yPos = 20;
+      }
+
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Stage Cycle Times', 14, yPos);
+      yPos += 10;
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`Completed Stage Runs: ${reportData.stageCycleTimes.totalRuns}`, 14, yPos);
+      yPos += 7;
+
+      const cycleTimeData = reportData.stageCycleTimes.stages.map((stage) => [
+        getStatusLabel(stage.stage),
+        stage.runs,
+        formatDuration(stage.avg_worked_minutes),
+        formatDuration(stage.min_worked_minutes),
+        formatDuration(stage.max_worked_minutes),
+        formatDuration(stage.avg_elapsed_minutes),
+      ]);
+
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Stage', 'Runs', 'Avg Worked', 'Min Worked', 'Max Worked', 'Avg Elapsed']],
+        body: cycleTimeData,
+        theme: 'grid',
+      });
+
+      yPos = getLastTableY(doc) + 10;
     }
 
     // Team Assignments
@@ -441,11 +410,11 @@ export default function Reports() {
       );
       yPos += 7;
 
-      const memberData = reportData.teamAssignments.allMembers.map((m: any) => [
+      const memberData = reportData.teamAssignments.allMembers.map((m) => [
         m.name,
         m.status.toUpperCase(),
         m.availability.toUpperCase(),
-        m.assignedOrders
+        m.assigned_orders
       ]);
 
       autoTable(doc, {
@@ -455,7 +424,7 @@ export default function Reports() {
         theme: 'grid',
       });
 
-      yPos = (doc as any).lastAutoTable.finalY + 10;
+      yPos = getLastTableY(doc) + 10;
     }
 
     // Priority Breakdown
@@ -487,7 +456,7 @@ export default function Reports() {
         theme: 'grid',
       });
 
-      yPos = (doc as any).lastAutoTable.finalY + 10;
+      yPos = getLastTableY(doc) + 10;
     }
 
     // Client Statistics
@@ -521,7 +490,7 @@ export default function Reports() {
         theme: 'grid',
       });
 
-      yPos = (doc as any).lastAutoTable.finalY + 10;
+      yPos = getLastTableY(doc) + 10;
     }
 
     // Order Specifications
@@ -545,7 +514,7 @@ export default function Reports() {
         finish.toUpperCase(),
         count
       ]);
-      const finishTotal = finishData.reduce((sum, [, count]) => sum + (count as number), 0);
+      const finishTotal = finishData.reduce((sum, [, count]) => sum + Number(count), 0);
 
       autoTable(doc, {
         startY: yPos,
@@ -554,13 +523,13 @@ export default function Reports() {
         theme: 'grid',
       });
 
-      yPos = (doc as any).lastAutoTable.finalY + 5;
+      yPos = getLastTableY(doc) + 5;
 
       const textureData = Object.entries(reportData.orderSpecifications.textureCounts).map(([texture, count]) => [
         texture.toUpperCase(),
         count
       ]);
-      const textureTotal = textureData.reduce((sum, [, count]) => sum + (count as number), 0);
+      const textureTotal = textureData.reduce((sum, [, count]) => sum + Number(count), 0);
 
       autoTable(doc, {
         startY: yPos,
@@ -569,9 +538,9 @@ export default function Reports() {
         theme: 'grid',
       });
 
-      yPos = (doc as any).lastAutoTable.finalY + 5;
+      yPos = getLastTableY(doc) + 5;
 
-      const colorTotal = reportData.orderSpecifications.topColors.reduce((sum: number, [, count]: [string, number]) => sum + count, 0);
+      const colorTotal = reportData.orderSpecifications.topColors.reduce((sum, [, count]) => sum + count, 0);
 
       autoTable(doc, {
         startY: yPos,
@@ -579,16 +548,58 @@ export default function Reports() {
         body: [...reportData.orderSpecifications.topColors, ['TOTAL (Top 5)', colorTotal]],
         theme: 'grid',
       });
+
+      yPos = getLastTableY(doc) + 10;
     }
 
-    // Footer
-    const pageCount = doc.getNumberOfPages();
-    for (let i = 1; i <= pageCount; i++) {
-      doc.setPage(i);
-      doc.setFontSize(8);
-      doc.text(`Page ${i} of ${pageCount}`, 105, 290, { align: 'center' });
+    // Revenue & Receivables
+    if (reportData.financials) {
+      const financials = reportData.financials;
+
+      if (yPos > 220) {
+        doc.addPage();
+        yPos = 20;
+      }
+
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Revenue & Receivables', 14, yPos);
+      yPos += 10;
+
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Metric', 'Value']],
+        body: [
+          ['Revenue (invoiced)', formatPdfPeso(financials.revenue)],
+          ['Invoices Issued', financials.invoices_issued],
+          ['Collected', formatPdfPeso(financials.collected)],
+          ['Outstanding (as of period end)', formatPdfPeso(financials.outstanding)],
+          ['Quotes Issued', financials.quotes_issued],
+          ['Average Quote Value', formatPdfPeso(financials.average_quote)],
+          [
+            'Quote Acceptance Rate',
+            `${getAcceptanceRate(financials)}% (${financials.accepted_orders} of ${financials.quoted_orders} orders)`,
+          ],
+        ],
+        theme: 'grid',
+      });
+
+      yPos = getLastTableY(doc) + 5;
+
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Receivables Aging', 'Outstanding']],
+        body: [
+          ...getAgingBuckets(financials).map(([bucket, amount]) => [bucket, formatPdfPeso(amount)]),
+          ['TOTAL', formatPdfPeso(financials.outstanding)],
+        ],
+        theme: 'grid',
+      });
     }
 
+    // Footer
+    addPageNumbers(doc);
+
     doc.save(`TOP_Report_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
 
     toast({
@@ -622,12 +633,21 @@ export default function Reports() {
       csv += '\n';
     }
 
+    if (reportData.stageCycleTimes) {
+      csv += 'Stage Cycle Times (minutes)\n';
+      csv += 'Stage,Runs,Avg Worked,Min Worked,Max Worked,Avg Elapsed\n';
+      reportData.stageCycleTimes.stages.forEach((stage) => {
+        csv += `${stage.stage},${stage.runs},${stage.avg_worked_minutes},${stage.min_worked_minutes},${stage.max_worked_minutes},${stage.avg_elapsed_minutes}\n`;
+      });
+      csv += '\n';
+    }
+
     if (reportData.teamAssignments) {
       csv += 'Team Assignments\n';
       csv += `Status Summary: Active: ${reportData.teamAssignments.statusCounts.active}, On Leave: ${reportData.teamAssignments.statusCounts.onLeave}, Busy: ${reportData.teamAssignments.statusCounts.busy}, Available: ${reportData.teamAssignments.statusCounts.available}\n`;
       csv += 'Team Member,Status,Availability,Assigned Orders\n';
-      reportData.teamAssignments.allMembers.forEach((m: any) => {
-        csv += `${m.name},${m.status},${m.availability},${m.assignedOrders}\n`;
+      reportData.teamAssignments.allMembers.forEach((m) => {
+        csv += `${m.name},${m.status},${m.availability},${m.assigned_orders}\n`;
       });
       csv += '\n';
     }
@@ -649,7 +669,7 @@ export default function Reports() {
       csv += `Inactive Clients: ${reportData.clientStatistics.inactiveClients}\n`;
       csv += `New Clients: ${reportData.clientStatistics.newClients}\n\n`;
       csv += 'Top Clients (by Orders),Order Count\n';
-      reportData.clientStatistics.topClients.forEach(([name, count]: [string, number]) => {
+      reportData.clientStatistics.topClients.forEach(([name, count]) => {
         csv += `${name},${count}\n`;
       });
       csv += '\n';
@@ -672,12 +692,36 @@ export default function Reports() {
 
       csv += 'Order Specifications - Top Colors\n';
       csv += 'Color,Count\n';
-      reportData.orderSpecifications.topColors.forEach(([color, count]: [string, number]) => {
+      reportData.orderSpecifications.topColors.forEach(([color, count]) => {
         csv += `${color},${count}\n`;
       });
       csv += '\n';
     }
 
+    if (reportData.financials) {
+      const financials = reportData.financials;
+
+      csv += 'Revenue & Receivables\n';
+      csv += 'Metric,Value\n';
+      csv += `Revenue (invoiced),${financials.revenue}\n`;
+      csv += `Invoices Issued,${financials.invoices_issued}\n`;
+      csv += `Collected,${financials.collected}\n`;
+      csv += `Outstanding (as of period end),${financials.outstanding}\n`;
+      csv += `Quotes Issued,${financials.quotes_issued}\n`;
+      csv += `Average Quote Value,${financials.average_quote ?? ''}\n`;
+      csv += `Quote Acceptance Rate,${getAcceptanceRate(financials)}%\n`;
+      csv += `Quoted Orders,${financials.quoted_orders}\n`;
+      csv += `Accepted Orders,${financials.accepted_orders}\n`;
+      csv += '\n';
+
+      csv += 'Receivables Aging\n';
+      csv += 'Age,Outstanding\n';
+      getAgingBuckets(financials).forEach(([bucket, amount]) => {
+        csv += `${bucket},${amount}\n`;
+      });
+      csv += '\n';
+    }
+
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -708,378 +752,487 @@ export default function Reports() {
       <div className="container mx-auto max-w-5xl">
         {/* Header */}
         <div className="mb-8">
-          <h1 className="text-4xl font-bold text-foreground mb-2">Generate Reports</h1>
-          <p className="text-muted-foreground">Generate operational reports for order tracking and team performance</p>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Reports</h1>
+          <p className="text-muted-foreground">Explore order, production and team analytics, or export them as reports</p>
         </div>
 
-        {/* Configuration Card */}
+        {/* Date Range */}
         <Card className="mb-8">
           <CardHeader>
-            <CardTitle>Report Configuration</CardTitle>
-            <CardDescription>Select date range, categories, and format</CardDescription>
+            <CardTitle>Date Range</CardTitle>
+            <CardDescription>Applies to the charts and to exported reports</CardDescription>
           </CardHeader>
-          <CardContent className="space-y-6">
-            {/* Date Range */}
-            <div>
-              <Label className="text-base font-semibold mb-3 block">Date Range</Label>
-              <div className="flex flex-wrap gap-3 mb-4">
-                <Button variant="outline" size="sm" onClick={() => handleQuickSelect(7)}>
-                  Last 7 Days
-                </Button>
-                <Button variant="outline" size="sm" onClick={() => handleQuickSelect(30)}>
-                  Last 30 Days
-                </Button>
-                <Button variant="outline" size="sm" onClick={() => handleQuickSelect('quarter')}>
-                  This Quarter
-                </Button>
-                <Button variant="outline" size="sm" onClick={() => handleQuickSelect('year')}>
-                  This Year
-                </Button>
-              </div>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-3">
+              <Button variant="outline" size="sm" onClick={() => handleQuickSelect(7)}>
+                Last 7 Days
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleQuickSelect(30)}>
+                Last 30 Days
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleQuickSelect('quarter')}>
+                This Quarter
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleQuickSelect('year')}>
+                This Year
+              </Button>
+            </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div>
-                  <Label className="mb-2 block">Start Date</Label>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className={cn(
-                          'w-full justify-start text-left font-normal',
-                          !startDate && 'text-muted-foreground'
-                        )}
-                      >
-                        <CalendarIcon className="mr-2 h-4 w-4" />
-                        {startDate ? format(startDate, 'PPP') : 'Pick a date'}
-                      </Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0">
-                      <Calendar
-                        mode="single"
-                        selected={startDate}
-                        onSelect={setStartDate}
-                        initialFocus
-                        className="pointer-events-auto"
-                      />
-                    </PopoverContent>
-                  </Popover>
-                </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Start Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        'w-full justify-start text-left font-normal',
+                        !startDate && 'text-muted-foreground'
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {startDate ? format(startDate, 'PPP') : 'Pick a date'}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={startDate}
+                      onSelect={setStartDate}
+                      initialFocus
+                      className="pointer-events-auto"
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
 
-                <div>
-                  <Label className="mb-2 block">End Date</Label>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className={cn(
-                          'w-full justify-start text-left font-normal',
-                          !endDate && 'text-muted-foreground'
-                        )}
-                      >
-                        <CalendarIcon className="mr-2 h-4 w-4" />
-                        {endDate ? format(endDate, 'PPP') : 'Pick a date'}
-                      </Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0">
-                      <Calendar
-                        mode="single"
-                        selected={endDate}
-                        onSelect={setEndDate}
-                        initialFocus
-                        className="pointer-events-auto"
-                      />
-                    </PopoverContent>
-                  </Popover>
-                </div>
+              <div>
+                <Label className="mb-2 block">End Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        'w-full justify-start text-left font-normal',
+                        !endDate && 'text-muted-foreground'
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {endDate ? format(endDate, 'PPP') : 'Pick a date'}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={endDate}
+                      onSelect={setEndDate}
+                      initialFocus
+                      className="pointer-events-auto"
+                    />
+                  </PopoverContent>
+                </Popover>
               </div>
             </div>
+          </CardContent>
+        </Card>
 
-            {/* Report Categories */}
-            <div>
-              <Label className="text-base font-semibold mb-3 block">Report Categories</Label>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="orderVolume"
-                    checked={selectedCategories.orderVolume}
-                    onCheckedChange={() => toggleCategory('orderVolume')}
-                  />
-                  <Label htmlFor="orderVolume" className="cursor-pointer">
-                    Order Volume & Status
-                  </Label>
-                </div>
-
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="productionPipeline"
-                    checked={selectedCategories.productionPipeline}
-                    onCheckedChange={() => toggleCategory('productionPipeline')}
-                  />
-                  <Label htmlFor="productionPipeline" className="cursor-pointer">
-                    Stage Distribution
-                  </Label>
-                </div>
-
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="teamAssignments"
-                    checked={selectedCategories.teamAssignments}
-                    onCheckedChange={() => toggleCategory('teamAssignments')}
-                  />
-                  <Label htmlFor="teamAssignments" className="cursor-pointer">
-                    Team Assignments
-                  </Label>
-                </div>
+        <Tabs defaultValue="analytics" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="schedules">Schedules</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="analytics">
+            <ReportAnalytics startDate={startDate} endDate={endDate} />
+          </TabsContent>
+
+          <TabsContent value="export">
+            {/* Configuration Card */}
+            <Card className="mb-8">
+              <CardHeader>
+                <CardTitle>Report Configuration</CardTitle>
+                <CardDescription>Select categories and format</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {/* Report Categories */}
+                <div>
+                  <Label className="text-base font-semibold mb-3 block">Report Categories</Label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="orderVolume"
+                        checked={selectedCategories.orderVolume}
+                        onCheckedChange={() => toggleCategory('orderVolume')}
+                      />
+                      <Label htmlFor="orderVolume" className="cursor-pointer">
+                        Order Volume & Status
+                      </Label>
+                    </div>
 
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="priorityBreakdown"
-                    checked={selectedCategories.priorityBreakdown}
-                    onCheckedChange={() => toggleCategory('priorityBreakdown')}
-                  />
-                  <Label htmlFor="priorityBreakdown" className="cursor-pointer">
-                    Priority Breakdown
-                  </Label>
-                </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="productionPipeline"
+                        checked={selectedCategories.productionPipeline}
+                        onCheckedChange={() => toggleCategory('productionPipeline')}
+                      />
+                      <Label htmlFor="productionPipeline" className="cursor-pointer">
+                        Stage Distribution
+                      </Label>
+                    </div>
 
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="clientStatistics"
-                    checked={selectedCategories.clientStatistics}
-                    onCheckedChange={() => toggleCategory('clientStatistics')}
-                  />
-                  <Label htmlFor="clientStatistics" className="cursor-pointer">
-                    Client Statistics
-                  </Label>
-                </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="stageCycleTimes"
+                        checked={selectedCategories.stageCycleTimes}
+                        onCheckedChange={() => toggleCategory('stageCycleTimes')}
+                      />
+                      <Label htmlFor="stageCycleTimes" className="cursor-pointer">
+                        Stage Cycle Times
+                      </Label>
+                    </div>
 
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="orderSpecifications"
-                    checked={selectedCategories.orderSpecifications}
-                    onCheckedChange={() => toggleCategory('orderSpecifications')}
-                  />
-                  <Label htmlFor="orderSpecifications" className="cursor-pointer">
-                    Order Specifications
-                  </Label>
-                </div>
-              </div>
-            </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="teamAssignments"
+                        checked={selectedCategories.teamAssignments}
+                        onCheckedChange={() => toggleCategory('teamAssignments')}
+                      />
+                      <Label htmlFor="teamAssignments" className="cursor-pointer">
+                        Team Assignments
+                      </Label>
+                    </div>
 
-            {/* Format Options */}
-            <div>
-              <Label className="text-base font-semibold mb-3 block">Format</Label>
-              <RadioGroup value={exportFormat} onValueChange={(v) => setExportFormat(v as any)}>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="pdf" id="pdf" />
-                  <Label htmlFor="pdf" className="cursor-pointer">PDF</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="csv" id="csv" />
-                  <Label htmlFor="csv" className="cursor-pointer">Excel (CSV)</Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="both" id="both" />
-                  <Label htmlFor="both" className="cursor-pointer">Both</Label>
-                </div>
-              </RadioGroup>
-            </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="priorityBreakdown"
+                        checked={selectedCategories.priorityBreakdown}
+                        onCheckedChange={() => toggleCategory('priorityBreakdown')}
+                      />
+                      <Label htmlFor="priorityBreakdown" className="cursor-pointer">
+                        Priority Breakdown
+                      </Label>
+                    </div>
 
-            {/* Generate Button */}
-            <Button
-              onClick={fetchReportData}
-              disabled={loading}
-              className="w-full"
-              size="lg"
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Generating Report...
-                </>
-              ) : (
-                'Generate Report'
-              )}
-            </Button>
-          </CardContent>
-        </Card>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="clientStatistics"
+                        checked={selectedCategories.clientStatistics}
+                        onCheckedChange={() => toggleCategory('clientStatistics')}
+                      />
+                      <Label htmlFor="clientStatistics" className="cursor-pointer">
+                        Client Statistics
+                      </Label>
+                    </div>
 
-        {/* Report Preview */}
-        {reportData && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Report Preview</CardTitle>
-              <CardDescription>Review your report summary before downloading</CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              {reportData.orderVolume && (
-                <div>
-                  <h3 className="text-lg font-semibold mb-2">Order Volume & Status</h3>
-                  <p className="text-sm font-medium mb-2">Total Orders: {reportData.orderVolume.total}</p>
-                  <div className="grid grid-cols-2 gap-2">
-                    {Object.entries(reportData.orderVolume.statusCounts).map(([status, count]) => (
-                      <div key={status} className="flex justify-between p-2 border border-border rounded text-sm">
-                        <span className="capitalize">{status.replace('-', ' ').replace('_', ' ')}</span>
-                        <span className="font-medium">{count as number}</span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="orderSpecifications"
+                        checked={selectedCategories.orderSpecifications}
+                        onCheckedChange={() => toggleCategory('orderSpecifications')}
+                      />
+                      <Label htmlFor="orderSpecifications" className="cursor-pointer">
+                        Order Specifications
+                      </Label>
+                    </div>
 
-              {reportData.productionPipeline && (
-                <div>
-                  <h3 className="text-lg font-semibold mb-2">Stage Distribution</h3>
-                  <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground">
-                    {Object.entries(reportData.productionPipeline.currentPipeline).map(([stage, count]) => (
-                      <div key={stage} className="flex justify-between p-2 border border-border rounded">
-                        <span className="capitalize">{stage.replace('-', ' ').replace('_', ' ')}</span>
-                        <span className="font-medium">{count as number}</span>
-                      </div>
-                    ))}
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="financials"
+                        checked={selectedCategories.financials}
+                        onCheckedChange={() => toggleCategory('financials')}
+                      />
+                      <Label htmlFor="financials" className="cursor-pointer">
+                        Revenue & Receivables
+                      </Label>
+                    </div>
                   </div>
                 </div>
-              )}
 
-              {reportData.teamAssignments && (
+                {/* Format Options */}
                 <div>
-                  <h3 className="text-lg font-semibold mb-2">Team Assignments</h3>
-                  <div className="mb-3 p-3 bg-muted rounded-lg">
-                    <p className="text-sm font-medium mb-2">Status Summary:</p>
-                    <div className="grid grid-cols-2 gap-2 text-xs">
-                      <div>Active: <span className="font-semibold">{reportData.teamAssignments.statusCounts.active}</span></div>
-                      <div>On Leave: <span className="font-semibold">{reportData.teamAssignments.statusCounts.onLeave}</span></div>
-                      <div>Busy: <span className="font-semibold">{reportData.teamAssignments.statusCounts.busy}</span></div>
-                      <div>Available: <span className="font-semibold">{reportData.teamAssignments.statusCounts.available}</span></div>
+                  <Label className="text-base font-semibold mb-3 block">Format</Label>
+                  <RadioGroup value={exportFormat} onValueChange={(v) => setExportFormat(v as ReportFormat)}>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="pdf" id="pdf" />
+                      <Label htmlFor="pdf" className="cursor-pointer">PDF</Label>
                     </div>
-                  </div>
-                  <p className="text-sm text-muted-foreground mb-2">Total Members: {reportData.teamAssignments.totalMembers}</p>
-                  <div className="space-y-2 max-h-48 overflow-y-auto">
-                    {reportData.teamAssignments.allMembers.slice(0, 5).map((member: any, idx: number) => (
-                      <div key={idx} className="flex justify-between items-center p-2 border border-border rounded text-sm">
-                        <div className="flex-1">
-                          <div className="font-medium">{member.name}</div>
-                          <div className="text-xs text-muted-foreground">{member.status} • {member.availability}</div>
-                        </div>
-                        <span className="font-medium">{member.assignedOrders} orders</span>
-                      </div>
-                    ))}
-                    {reportData.teamAssignments.allMembers.length > 5 && (
-                      <p className="text-xs text-muted-foreground text-center py-1">
-                        + {reportData.teamAssignments.allMembers.length - 5} more members (see full report)
-                      </p>
-                    )}
-                  </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="csv" id="csv" />
+                      <Label htmlFor="csv" className="cursor-pointer">Excel (CSV)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="both" id="both" />
+                      <Label htmlFor="both" className="cursor-pointer">Both</Label>
+                    </div>
+                  </RadioGroup>
                 </div>
-              )}
 
-              {reportData.priorityBreakdown && (
-                <div>
-                  <h3 className="text-lg font-semibold mb-2">Priority Breakdown</h3>
-                  <p className="text-sm font-medium mb-2">Urgent Ratio: {reportData.priorityBreakdown.urgentRatio}%</p>
-                  <div className="grid grid-cols-2 gap-2">
-                    {Object.entries(reportData.priorityBreakdown.priorityCounts).map(([priority, count]) => (
-                      <div key={priority} className="flex justify-between p-2 border border-border rounded text-sm">
-                        <span className="capitalize">{priority}</span>
-                        <span className="font-medium">{count as number}</span>
+                {/* Generate Button */}
+                <Button
+                  onClick={fetchReportData}
+                  disabled={loading}
+                  className="w-full"
+                  size="lg"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Generating Report...
+                    </>
+                  ) : (
+                    'Generate Report'
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Report Preview */}
+            {reportData && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Report Preview</CardTitle>
+                  <CardDescription>Review your report summary before downloading</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {reportData.orderVolume && (
+                    <div>
+                      <h3 className="text-lg font-semibold mb-2">Order Volume & Status</h3>
+                      <p className="text-sm font-medium mb-2">Total Orders: {reportData.orderVolume.total}</p>
+                      <div className="grid grid-cols-2 gap-2">
+                        {Object.entries(reportData.orderVolume.statusCounts).map(([status, count]) => (
+                          <div key={status} className="flex justify-between p-2 border border-border rounded text-sm">
+                            <span className="capitalize">{status.replace('-', ' ').replace('_', ' ')}</span>
+                            <span className="font-medium">{count}</span>
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {reportData.clientStatistics && (
-                <div>
-                  <h3 className="text-lg font-semibold mb-2">Client Statistics</h3>
-                  <div className="grid grid-cols-2 gap-3 mb-3">
-                    <div className="p-3 bg-muted rounded-lg">
-                      <p className="text-xs text-muted-foreground">Total Clients</p>
-                      <p className="text-2xl font-bold">{reportData.clientStatistics.totalClients}</p>
-                    </div>
-                    <div className="p-3 bg-muted rounded-lg">
-                      <p className="text-xs text-muted-foreground">Active Clients</p>
-                      <p className="text-2xl font-bold text-green-600">{reportData.clientStatistics.activeClients}</p>
                     </div>
-                    <div className="p-3 bg-muted rounded-lg">
-                      <p className="text-xs text-muted-foreground">Inactive Clients</p>
-                      <p className="text-2xl font-bold text-orange-600">{reportData.clientStatistics.inactiveClients}</p>
-                    </div>
-                    <div className="p-3 bg-muted rounded-lg">
-                      <p className="text-xs text-muted-foreground">New Clients</p>
-                      <p className="text-2xl font-bold text-blue-600">{reportData.clientStatistics.newClients}</p>
+                  )}
+
+                  {reportData.productionPipeline && (
+                    <div>
+                      <h3 className="text-lg font-semibold mb-2">Stage Distribution</h3>
+                      <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground">
+                        {Object.entries(reportData.productionPipeline.currentPipeline).map(([stage, count]) => (
+                          <div key={stage} className="flex justify-between p-2 border border-border rounded">
+                            <span className="capitalize">{stage.replace('-', ' ').replace('_', ' ')}</span>
+                            <span className="font-medium">{count}</span>
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                  {reportData.clientStatistics.topClients && reportData.clientStatistics.topClients.length > 0 && (
-                    <div className="space-y-2">
-                      <p className="text-sm font-medium">Top Clients by Order Count:</p>
-                      {reportData.clientStatistics.topClients.slice(0, 5).map(([name, count]: [string, number], idx: number) => (
-                        <div key={idx} className="flex justify-between items-center p-2 border border-border rounded bg-card">
-                          <span className="text-sm">{name}</span>
-                          <span className="text-sm font-medium">{count} orders</span>
+                  )}
+
+                  {reportData.stageCycleTimes && (
+                    <div>
+                      <h3 className="text-lg font-semibold mb-2">Stage Cycle Times</h3>
+                      <p className="text-sm font-medium mb-2">Completed Stage Runs: {reportData.stageCycleTimes.totalRuns}</p>
+                      {reportData.stageCycleTimes.stages.length > 0 ? (
+                        <div className="space-y-2">
+                          {reportData.stageCycleTimes.stages.map((stage) => (
+                            <div key={stage.stage} className="flex justify-between items-center p-2 border border-border rounded text-sm">
+                              <div className="flex-1">
+                                <div className="font-medium">{getStatusLabel(stage.stage)}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {stage.runs} runs • {formatDuration(stage.min_worked_minutes)} - {formatDuration(stage.max_worked_minutes)} • {formatDuration(stage.avg_elapsed_minutes)} elapsed
+                                </div>
+                              </div>
+                              <span className="font-medium">{formatDuration(stage.avg_worked_minutes)} avg</span>
+                            </div>
+                          ))}
                         </div>
-                      ))}
-                      {reportData.clientStatistics.topClients.length > 5 && (
-                        <p className="text-xs text-muted-foreground text-center py-1">
-                          + {reportData.clientStatistics.topClients.length - 5} more clients (see full report)
-                        </p>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No stages were clocked out in this period</p>
                       )}
                     </div>
                   )}
-                </div>
-              )}
 
-              {reportData.orderSpecifications && (
-                <div>
-                  <h3 className="text-lg font-semibold mb-2">Order Specifications</h3>
-                  <p className="text-sm font-medium mb-3">Total Items Processed: {reportData.orderSpecifications.totalQuantity}</p>
-                  
-                  <div className="space-y-4">
+                  {reportData.teamAssignments && (
                     <div>
-                      <p className="text-sm font-medium mb-2">Finish Types:</p>
-                      <div className="grid grid-cols-2 gap-2">
-                        {Object.entries(reportData.orderSpecifications.finishCounts).map(([finish, count]) => (
-                          <div key={finish} className="flex justify-between p-2 border border-border rounded text-sm">
-                            <span className="capitalize">{finish}</span>
-                            <span className="font-medium">{count as number}</span>
+                      <h3 className="text-lg font-semibold mb-2">Team Assignments</h3>
+                      <div className="mb-3 p-3 bg-muted rounded-lg">
+                        <p className="text-sm font-medium mb-2">Status Summary:</p>
+                        <div className="grid grid-cols-2 gap-2 text-xs">
+                          <div>Active: <span className="font-semibold">{reportData.teamAssignments.statusCounts.active}</span></div>
+                          <div>On Leave: <span className="font-semibold">{reportData.teamAssignments.statusCounts.onLeave}</span></div>
+                          <div>Busy: <span className="font-semibold">{reportData.teamAssignments.statusCounts.busy}</span></div>
+                          <div>Available: <span className="font-semibold">{reportData.teamAssignments.statusCounts.available}</span></div>
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground mb-2">Total Members: {reportData.teamAssignments.totalMembers}</p>
+                      <div className="space-y-2 max-h-48 overflow-y-auto">
+                        {reportData.teamAssignments.allMembers.slice(0, 5).map((member) => (
+                          <div key={member.team_member_id} className="flex justify-between items-center p-2 border border-border rounded text-sm">
+                            <div className="flex-1">
+                              <div className="font-medium">{member.name}</div>
+                              <div className="text-xs text-muted-foreground">{member.status} • {member.availability}</div>
+                            </div>
+                            <span className="font-medium">{member.assigned_orders} orders</span>
                           </div>
                         ))}
+                        {reportData.teamAssignments.allMembers.length > 5 && (
+                          <p className="text-xs text-muted-foreground text-center py-1">
+                            + {reportData.teamAssignments.allMembers.length - 5} more members (see full report)
+                          </p>
+                        )}
                       </div>
                     </div>
+                  )}
 
+                  {reportData.priorityBreakdown && (
                     <div>
-                      <p className="text-sm font-medium mb-2">Texture Types:</p>
+                      <h3 className="text-lg font-semibold mb-2">Priority Breakdown</h3>
+                      <p className="text-sm font-medium mb-2">Urgent Ratio: {reportData.priorityBreakdown.urgentRatio}%</p>
                       <div className="grid grid-cols-2 gap-2">
-                        {Object.entries(reportData.orderSpecifications.textureCounts).map(([texture, count]) => (
-                          <div key={texture} className="flex justify-between p-2 border border-border rounded text-sm">
-                            <span className="capitalize">{texture}</span>
-                            <span className="font-medium">{count as number}</span>
+                        {Object.entries(reportData.priorityBreakdown.priorityCounts).map(([priority, count]) => (
+                          <div key={priority} className="flex justify-between p-2 border border-border rounded text-sm">
+                            <span className="capitalize">{priority}</span>
+                            <span className="font-medium">{count}</span>
                           </div>
                         ))}
                       </div>
                     </div>
+                  )}
 
+                  {reportData.clientStatistics && (
                     <div>
-                      <p className="text-sm font-medium mb-2">Top 5 Colors:</p>
-                      <div className="space-y-2">
-                        {reportData.orderSpecifications.topColors.map(([color, count]: [string, number], idx: number) => (
-                          <div key={idx} className="flex justify-between p-2 border border-border rounded text-sm">
-                            <span>{color}</span>
-                            <span className="font-medium">{count}</span>
+                      <h3 className="text-lg font-semibold mb-2">Client Statistics</h3>
+                      <div className="grid grid-cols-2 gap-3 mb-3">
+                        <div className="p-3 bg-muted rounded-lg">
+                          <p className="text-xs text-muted-foreground">Total Clients</p>
+                          <p className="text-2xl font-bold">{reportData.clientStatistics.totalClients}</p>
+                        </div>
+                        <div className="p-3 bg-muted rounded-lg">
+                          <p className="text-xs text-muted-foreground">Active Clients</p>
+                          <p className="text-2xl font-bold text-green-600">{reportData.clientStatistics.activeClients}</p>
+                        </div>
+                        <div className="p-3 bg-muted rounded-lg">
+                          <p className="text-xs text-muted-foreground">Inactive Clients</p>
+                          <p className="text-2xl font-bold text-orange-600">{reportData.clientStatistics.inactiveClients}</p>
+                        </div>
+                        <div className="p-3 bg-muted rounded-lg">
+                          <p className="text-xs text-muted-foreground">New Clients</p>
+                          <p className="text-2xl font-bold text-blue-600">{reportData.clientStatistics.newClients}</p>
+                        </div>
+                      </div>
+                      {reportData.clientStatistics.topClients && reportData.clientStatistics.topClients.length > 0 && (
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">Top Clients by Order Count:</p>
+                          {reportData.clientStatistics.topClients.slice(0, 5).map(([name, count], idx) => (
+                            <div key={idx} className="flex justify-between items-center p-2 border border-border rounded bg-card">
+                              <span className="text-sm">{name}</span>
+                              <span className="text-sm font-medium">{count} orders</span>
+                            </div>
+                          ))}
+                          {reportData.clientStatistics.topClients.length > 5 && (
+                            <p className="text-xs text-muted-foreground text-center py-1">
+                              + {reportData.clientStatistics.topClients.length - 5} more clients (see full report)
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {reportData.orderSpecifications && (
+                    <div>
+                      <h3 className="text-lg font-semibold mb-2">Order Specifications</h3>
+                      <p className="text-sm font-medium mb-3">Total Items Processed: {reportData.orderSpecifications.totalQuantity}</p>
+                  
+                      <div className="space-y-4">
+                        <div>
+                          <p className="text-sm font-medium mb-2">Finish Types:</p>
+                          <div className="grid grid-cols-2 gap-2">
+                            {Object.entries(reportData.orderSpecifications.finishCounts).map(([finish, count]) => (
+                              <div key={finish} className="flex justify-between p-2 border border-border rounded text-sm">
+                                <span className="capitalize">{finish}</span>
+                                <span className="font-medium">{count}</span>
+                              </div>
+                            ))}
                           </div>
-                        ))}
+                        </div>
+
+                        <div>
+                          <p className="text-sm font-medium mb-2">Texture Types:</p>
+                          <div className="grid grid-cols-2 gap-2">
+                            {Object.entries(reportData.orderSpecifications.textureCounts).map(([texture, count]) => (
+                              <div key={texture} className="flex justify-between p-2 border border-border rounded text-sm">
+                                <span className="capitalize">{texture}</span>
+                                <span className="font-medium">{count}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+
+                        <div>
+                          <p className="text-sm font-medium mb-2">Top 5 Colors:</p>
+                          <div className="space-y-2">
+                            {reportData.orderSpecifications.topColors.map(([color, count], idx) => (
+                              <div key={idx} className="flex justify-between p-2 border border-border rounded text-sm">
+                                <span>{color}</span>
+                                <span className="font-medium">{count}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                </div>
-              )}
+                  )}
 
-              <Button onClick={handleDownload} className="w-full" size="lg">
-                <FileDown className="mr-2 h-4 w-4" />
-                Download Report
-              </Button>
-            </CardContent>
-          </Card>
-        )}
+                  {reportData.financials && (
+                    <div>
+                      <h3 className="text-lg font-semibold mb-2">Revenue & Receivables</h3>
+                      <div className="grid grid-cols-2 gap-3 mb-3">
+                        <div className="p-3 bg-muted rounded-lg">
+                          <p className="text-xs text-muted-foreground">Revenue (invoiced)</p>
+                          <p className="text-2xl font-bold">{formatPeso(reportData.financials.revenue)}</p>
+                        </div>
+                        <div className="p-3 bg-muted rounded-lg">
+                          <p className="text-xs text-muted-foreground">Collected</p>
+                          <p className="text-2xl font-bold text-green-600">{formatPeso(reportData.financials.collected)}</p>
+                        </div>
+                        <div className="p-3 bg-muted rounded-lg">
+                          <p className="text-xs text-muted-foreground">Outstanding</p>
+                          <p className="text-2xl font-bold text-orange-600">{formatPeso(reportData.financials.outstanding)}</p>
+                        </div>
+                        <div className="p-3 bg-muted rounded-lg">
+                          <p className="text-xs text-muted-foreground">Quote Acceptance Rate</p>
+                          <p className="text-2xl font-bold text-blue-600">{getAcceptanceRate(reportData.financials)}%</p>
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground mb-3">
+                        {reportData.financials.invoices_issued} invoices issued • {reportData.financials.quotes_issued} quotes
+                        issued • Average quote{' '}
+                        {reportData.financials.average_quote !== null ? formatPeso(reportData.financials.average_quote) : 'N/A'}
+                      </p>
+                      <div>
+                        <p className="text-sm font-medium mb-2">Receivables Aging:</p>
+                        <div className="grid grid-cols-2 gap-2">
+                          {getAgingBuckets(reportData.financials).map(([bucket, amount]) => (
+                            <div key={bucket} className="flex justify-between p-2 border border-border rounded text-sm">
+                              <span>{bucket}</span>
+                              <span className="font-medium">{formatPeso(amount)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  <Button onClick={handleDownload} className="w-full" size="lg">
+                    <FileDown className="mr-2 h-4 w-4" />
+                    Download Report
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="schedules">
+            <ReportSchedules />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -1,5 +1,5 @@
-import { useState, useRef } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useRef, useEffect } from "react";
+import { useNavigate, useLocation } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,52 +7,351 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Upload, X, FileText, Image as ImageIcon, CheckCircle, Palette, Sparkles, Grid3x3 } from "lucide-react";
+import {
+  Upload,
+  X,
+  FileText,
+  Image as ImageIcon,
+  CheckCircle,
+  Palette,
+  Sparkles,
+  Grid3x3,
+  RotateCcw,
+  Ruler,
+  Plus,
+  Package,
+} from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { ColorPickerWheel } from "@/components/ui/color-picker-wheel";
 import CoatingPreview3D from "@/components/CoatingPreview3D";
+import { PriceEstimate } from "@/components/PriceEstimate";
+import { fetchColorCatalog, CatalogColor, ColorCatalog, FinishType, TextureType } from "@/lib/colorCatalog";
+import { EstimateLine } from "@/lib/pricing";
+import { OrderItem, fetchOrderItems } from "@/lib/orderItems";
+import { sendOrderEmail } from "@/lib/emailTemplates";
+import {
+  DIMENSION_UNITS,
+  DimensionField,
+  DimensionUnit,
+  PART_SHAPES,
+  PartShape,
+  calculateSurfaceArea,
+  formatArea,
+} from "@/lib/geometry";
 
-const finishOptions = [
-  { value: "matte", label: "Matte", description: "Non-reflective, smooth finish" },
-  { value: "glossy", label: "Glossy", description: "High-shine, reflective finish" },
-  { value: "satin", label: "Satin", description: "Semi-gloss, elegant finish" },
-];
-
-const textureOptions = [
-  { value: "smooth", label: "Smooth", description: "Flat, even surface" },
-  { value: "textured", label: "Textured", description: "Rough, grip-friendly surface" },
-  { value: "hammered", label: "Hammered", description: "Decorative dimpled pattern" },
-];
-
-const colorOptions = [
-  { value: "black", label: "Black", hex: "#000000" },
-  { value: "white", label: "White", hex: "#FFFFFF" },
-  { value: "gray", label: "Gray", hex: "#6B7280" },
-  { value: "blue", label: "Blue", hex: "#3B82F6" },
-  { value: "red", label: "Red", hex: "#EF4444" },
-  { value: "green", label: "Green", hex: "#10B981" },
-  { value: "custom", label: "Custom", hex: null },
-];
+// Finish/texture combinations a color can be ordered in right now. Custom
+// colors can use any available finish and texture.
+const getOfferedOptions = (catalog: ColorCatalog, color?: CatalogColor) => {
+  const finishes = catalog.finishes.filter((f) => f.is_available).map((f) => f.finish);
+  const textures = catalog.textures.filter((t) => t.is_available).map((t) => t.texture);
+  const options = color
+    ? color.catalog_color_options
+    : finishes.flatMap((finish) => textures.map((texture) => ({ finish, texture })));
+  return options.filter((option) => finishes.includes(option.finish) && textures.includes(option.texture));
+};
+
+const getAvailableColors = (catalog: ColorCatalog) =>
+  catalog.colors.filter((c) => c.is_available && getOfferedOptions(catalog, c).length > 0);
+
+// Closest combination to the requested one that the color is offered in
+const resolveCoating = (catalog: ColorCatalog, colorId: string, finish: FinishType, texture: TextureType) => {
+  const offered = getOfferedOptions(catalog, catalog.colors.find((c) => c.id === colorId));
+  return (
+    offered.find((o) => o.finish === finish && o.texture === texture) ||
+    offered.find((o) => o.finish === finish) ||
+    offered[0] || { finish, texture }
+  );
+};
+
+// An item already added to the order. The item being edited lives in the
+// form state until it is added or the order is submitted.
+interface DraftItem {
+  description: string;
+  quantity: number;
+  dimensions: string;
+  partShape: PartShape;
+  dimensionUnit: DimensionUnit;
+  partDimensions: Record<DimensionField, string>;
+  surfaceArea: number | null;
+  finish: FinishType;
+  texture: TextureType;
+  color: string;
+  customColor: string;
+  customNotes: string;
+}
+
+const EMPTY_PART_DIMENSIONS: Record<DimensionField, string> = {
+  part_length: "",
+  part_width: "",
+  part_height: "",
+  part_diameter: "",
+};
+
+// Swatch and name of an item's color
+const getDraftColor = (catalog: ColorCatalog, item: Pick<DraftItem, "color" | "customColor">) => {
+  const catalogColor = catalog.colors.find((c) => c.id === item.color);
+  return item.color === "custom" || !catalogColor
+    ? { hex: item.customColor || "#808080", label: item.customColor || "Custom" }
+    : { hex: catalogColor.hex_code, label: catalogColor.name };
+};
+
+// Turns an item of a previous order into a draft, carrying colors no longer
+// in the catalog over as custom hex codes
+const toDraftItem = (catalog: ColorCatalog, item: OrderItem): DraftItem => {
+  const customization = item.order_customizations;
+  const previousColor = !customization
+    ? getAvailableColors(catalog)[0]?.id || "custom"
+    : getAvailableColors(catalog).some((c) => c.id === customization.color_id)
+      ? customization.color_id
+      : "custom";
+  const previousOption = resolveCoating(
+    catalog,
+    previousColor,
+    customization?.finish || "matte",
+    customization?.texture || "smooth"
+  );
+
+  return {
+    description: item.description,
+    quantity: item.quantity,
+    dimensions: item.dimensions || "",
+    partShape: item.part_shape || "flat_sheet",
+    dimensionUnit: item.dimension_unit,
+    partDimensions: {
+      part_length: item.part_length?.toString() || "",
+      part_width: item.part_width?.toString() || "",
+      part_height: item.part_height?.toString() || "",
+      part_diameter: item.part_diameter?.toString() || "",
+    },
+    surfaceArea: item.surface_area_sqm,
+    finish: previousOption.finish,
+    texture: previousOption.texture,
+    color: previousColor,
+    customColor: previousColor === "custom" && customization ? customization.color.toUpperCase() : "",
+    customNotes: customization?.custom_notes || "",
+  };
+};
+
+// Line for estimate_items_price
+const toEstimateItem = (item: DraftItem) => ({
+  description: item.description,
+  quantity: item.quantity,
+  surface_area_sqm: item.surfaceArea,
+  finish: item.finish,
+  texture: item.texture,
+  color_id: item.color === "custom" ? null : item.color,
+});
+
+interface PreviousOrderFile {
+  file_name: string;
+  file_size: number;
+  file_url: string;
+  include: boolean;
+}
+
+// Extracts the storage object path from an order-files public URL
+const getStoragePathFromUrl = (fileUrl: string) => {
+  const marker = "/order-files/";
+  const index = fileUrl.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(fileUrl.slice(index + marker.length));
+};
 
 export default function CreateOrder() {
   const navigate = useNavigate();
+  const location = useLocation();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const reorderFromId = (location.state as { reorderFromId?: string } | null)?.reorderFromId;
 
   const [step, setStep] = useState<"customize" | "details">("customize");
-  const [finish, setFinish] = useState("matte");
-  const [texture, setTexture] = useState("smooth");
-  const [color, setColor] = useState("black");
+  const [catalog, setCatalog] = useState<ColorCatalog>({ finishes: [], textures: [], colors: [] });
+  const [catalogLoaded, setCatalogLoaded] = useState(false);
+  const [finish, setFinish] = useState<FinishType>("matte");
+  const [texture, setTexture] = useState<TextureType>("smooth");
+  // Catalog color id, or "custom" for a hex code entered by the client
+  const [color, setColor] = useState("");
   const [customColor, setCustomColor] = useState("");
   const [customNotes, setCustomNotes] = useState("");
 
   const [projectName, setProjectName] = useState("");
+  const [projectDescription, setProjectDescription] = useState("");
+  const [items, setItems] = useState<DraftItem[]>([]);
   const [itemDescription, setItemDescription] = useState("");
   const [quantity, setQuantity] = useState("");
   const [dimensions, setDimensions] = useState("");
+  const [partShape, setPartShape] = useState<PartShape>("flat_sheet");
+  const [dimensionUnit, setDimensionUnit] = useState<DimensionUnit>("mm");
+  const [partDimensions, setPartDimensions] = useState<Record<DimensionField, string>>(EMPTY_PART_DIMENSIONS);
+  // Area per piece entered by hand for custom shapes
+  const [customArea, setCustomArea] = useState("");
   const [additionalNotes, setAdditionalNotes] = useState("");
   const [uploadedFiles, setUploadedFiles] = useState<Array<{ name: string; size: number; file: File }>>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reorderNumber, setReorderNumber] = useState<string | null>(null);
+  const [previousFiles, setPreviousFiles] = useState<PreviousOrderFile[]>([]);
+  const [estimate, setEstimate] = useState<EstimateLine[]>([]);
+
+  // Surface area per piece in m², from the shape's dimensions or entered
+  // directly for custom shapes
+  const shapeFields = PART_SHAPES[partShape].fields;
+  const surfaceArea =
+    partShape === "custom"
+      ? parseFloat(customArea) > 0
+        ? parseFloat(customArea)
+        : null
+      : calculateSurfaceArea({
+          part_shape: partShape,
+          dimension_unit: dimensionUnit,
+          part_length: parseFloat(partDimensions.part_length) || null,
+          part_width: parseFloat(partDimensions.part_width) || null,
+          part_height: parseFloat(partDimensions.part_height) || null,
+          part_diameter: parseFloat(partDimensions.part_diameter) || null,
+        });
+  const quantityCount = parseInt(quantity) || 0;
+  const itemNumber = items.length + 1;
+  // Once other items are added, a blank item form is left out of the order
+  const currentItemBlank = items.length > 0 && !itemDescription.trim() && !quantity.trim();
+  const totalQuantity = items.reduce((sum, item) => sum + item.quantity, 0) + quantityCount;
+  const totalSurfaceArea =
+    items.reduce((sum, item) => sum + (item.surfaceArea || 0) * item.quantity, 0) +
+    (surfaceArea || 0) * quantityCount;
+  const anySurfaceArea = surfaceArea !== null || items.some((item) => item.surfaceArea !== null);
+
+  useEffect(() => {
+    loadCatalog();
+  }, []);
+
+  // Indicative price for the details step, refreshed as quantity and size are typed.
+  // New orders follow the default routing, which includes sand blasting.
+  useEffect(() => {
+    const quantityNum = parseInt(quantity);
+    const estimateItems = items.map(toEstimateItem);
+    if (!isNaN(quantityNum) && quantityNum > 0) {
+      estimateItems.push({
+        description: itemDescription.trim(),
+        quantity: quantityNum,
+        surface_area_sqm: surfaceArea,
+        finish,
+        texture,
+        color_id: color === "custom" ? null : color,
+      });
+    }
+
+    if (step !== "details" || estimateItems.length === 0) {
+      setEstimate([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("estimate_items_price", {
+        _items: estimateItems,
+        _sand_blasting: true,
+      });
+
+      if (error) {
+        console.error("Error estimating price:", error);
+        setEstimate([]);
+        return;
+      }
+      setEstimate(data || []);
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [step, items, itemDescription, quantity, surfaceArea, finish, texture, color]);
+
+  // The catalog decides whether the previous color can be carried over
+  useEffect(() => {
+    if (reorderFromId && catalogLoaded) {
+      loadReorderSource(reorderFromId, catalog);
+    }
+  }, [reorderFromId, catalog, catalogLoaded]);
+
+  const loadCatalog = async () => {
+    try {
+      const loadedCatalog = await fetchColorCatalog();
+      setCatalog(loadedCatalog);
+
+      const defaultColor = getAvailableColors(loadedCatalog)[0]?.id || "custom";
+      const defaultOption = resolveCoating(loadedCatalog, defaultColor, "matte", "smooth");
+      setColor(defaultColor);
+      setFinish(defaultOption.finish);
+      setTexture(defaultOption.texture);
+      setCatalogLoaded(true);
+    } catch (error) {
+      console.error("Error loading color catalog:", error);
+      toast.error("Failed to load available colors");
+    }
+  };
+
+  const selectCoating = (nextColor: string, nextFinish: FinishType, nextTexture: TextureType) => {
+    const option = resolveCoating(catalog, nextColor, nextFinish, nextTexture);
+    setColor(nextColor);
+    setFinish(option.finish);
+    setTexture(option.texture);
+  };
+
+  const loadReorderSource = async (orderId: string, loadedCatalog: ColorCatalog) => {
+    try {
+      const { data: order, error: orderError } = await supabase
+        .from("orders")
+        .select("*")
+        .eq("id", orderId)
+        .single();
+
+      if (orderError) throw orderError;
+
+      const previousItems = (await fetchOrderItems(orderId)).map((item) => toDraftItem(loadedCatalog, item));
+
+      const { data: files } = await supabase.from("order_files").select("*").eq("order_id", orderId);
+
+      setProjectName(order.project_name);
+      setProjectDescription(order.description);
+
+      // The last item is left in the form, the rest are listed as added
+      const lastItem = previousItems[previousItems.length - 1];
+      if (lastItem) {
+        setItems(previousItems.slice(0, -1));
+        setItemDescription(lastItem.description);
+        setQuantity(lastItem.quantity.toString());
+        setDimensions(lastItem.dimensions);
+        setPartShape(lastItem.partShape);
+        setDimensionUnit(lastItem.dimensionUnit);
+        setPartDimensions(lastItem.partDimensions);
+        setCustomArea(lastItem.partShape === "custom" ? lastItem.surfaceArea?.toString() || "" : "");
+        setColor(lastItem.color);
+        setFinish(lastItem.finish);
+        setTexture(lastItem.texture);
+        setCustomColor(lastItem.customColor);
+        setCustomNotes(lastItem.customNotes);
+      }
+
+      setPreviousFiles(
+        (files || []).map((file) => ({
+          file_name: file.file_name,
+          file_size: file.file_size,
+          file_url: file.file_url,
+          include: true,
+        }))
+      );
+      setReorderNumber(order.order_number);
+    } catch (error) {
+      console.error("Error loading order to reorder:", error);
+      toast.error("Failed to load the original order");
+    }
+  };
+
+  const availableColors = getAvailableColors(catalog);
+  const selectedColor = availableColors.find((c) => c.id === color);
+  const offeredOptions = getOfferedOptions(catalog, selectedColor);
+  const selectedFinish = catalog.finishes.find((f) => f.finish === finish);
+  const selectedTexture = catalog.textures.find((t) => t.texture === texture);
+  const colorLabel = color === "custom" ? customColor || "Custom" : selectedColor?.name;
+
+  const togglePreviousFile = (index: number) => {
+    setPreviousFiles(previousFiles.map((file, i) => (i === index ? { ...file, include: !file.include } : file)));
+  };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
@@ -92,35 +391,127 @@ export default function CreateOrder() {
     setUploadedFiles(uploadedFiles.filter((_, i) => i !== index));
   };
 
-  const handleSubmitOrder = async () => {
+  // Checks the item in the form, toasting the first problem found
+  const validateCurrentItem = () => {
     // Validate customization
     if (!finish || !texture || !color) {
       toast.error("Please complete all customization options");
-      return;
+      return false;
     }
 
     if (customNotes && customNotes.length > 500) {
       toast.error("Customization notes must be less than 500 characters");
-      return;
+      return false;
+    }
+
+    if (!offeredOptions.some((o) => o.finish === finish && o.texture === texture)) {
+      toast.error("This finish and texture combination is not available for the selected color");
+      return false;
     }
 
     // Validate custom color if selected
     if (color === "custom") {
       if (!customColor) {
         toast.error("Please enter a custom color code");
-        return;
+        return false;
       }
       if (!/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(customColor)) {
         toast.error("Invalid color code. Please use hex format (e.g., #FF5733)");
-        return;
+        return false;
       }
     }
 
-    // Validate order details
-    const trimmedProjectName = projectName.trim();
+    // Validate item details
     const trimmedDescription = itemDescription.trim();
     const trimmedQuantity = quantity.trim();
 
+    if (!trimmedDescription) {
+      toast.error("Item description is required");
+      return false;
+    }
+
+    if (trimmedDescription.length > 200) {
+      toast.error("Item description must be less than 200 characters");
+      return false;
+    }
+
+    if (!trimmedQuantity) {
+      toast.error("Quantity is required");
+      return false;
+    }
+
+    const quantityNum = parseInt(trimmedQuantity);
+    if (isNaN(quantityNum) || quantityNum < 1) {
+      toast.error("Quantity must be a valid number");
+      return false;
+    }
+
+    const enteredFields = shapeFields.filter(({ field }) => partDimensions[field].trim());
+    if (enteredFields.some(({ field }) => !(parseFloat(partDimensions[field]) > 0))) {
+      toast.error("Dimensions must be positive numbers");
+      return false;
+    }
+
+    if (enteredFields.length > 0 && enteredFields.length < shapeFields.length) {
+      toast.error(`Enter all ${PART_SHAPES[partShape].label.toLowerCase()} dimensions, or leave them blank`);
+      return false;
+    }
+
+    if (partShape === "custom" && customArea.trim() && !(parseFloat(customArea) > 0)) {
+      toast.error("Surface area must be a positive number");
+      return false;
+    }
+
+    if (dimensions && dimensions.trim().length > 100) {
+      toast.error("Dimensions must be less than 100 characters");
+      return false;
+    }
+
+    return true;
+  };
+
+  const getCurrentItem = (): DraftItem => ({
+    description: itemDescription.trim(),
+    quantity: parseInt(quantity),
+    dimensions: dimensions.trim(),
+    partShape,
+    dimensionUnit,
+    partDimensions,
+    surfaceArea,
+    finish,
+    texture,
+    color,
+    customColor,
+    customNotes: customNotes.trim(),
+  });
+
+  // Adds the item in the form to the order and starts the next one with the
+  // same coating and shape
+  const handleAddItem = () => {
+    if (!validateCurrentItem()) return;
+
+    setItems([...items, getCurrentItem()]);
+    setItemDescription("");
+    setQuantity("");
+    setDimensions("");
+    setPartDimensions(EMPTY_PART_DIMENSIONS);
+    setCustomArea("");
+    setCustomNotes("");
+    setStep("customize");
+    toast.success(`Item ${itemNumber} added`, {
+      description: "Choose the coating for the next item",
+    });
+  };
+
+  const removeItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index));
+  };
+
+  const handleSubmitOrder = async () => {
+    // Validate order details
+    const trimmedProjectName = projectName.trim();
+    const trimmedDescription = projectDescription.trim();
+
     if (!trimmedProjectName) {
       toast.error("Project name is required");
       return;
@@ -132,7 +523,7 @@ export default function CreateOrder() {
     }
 
     if (!trimmedDescription) {
-      toast.error("Item description is required");
+      toast.error("Project description is required");
       return;
     }
 
@@ -146,27 +537,15 @@ export default function CreateOrder() {
       return;
     }
 
-    if (!trimmedQuantity) {
-      toast.error("Quantity is required");
-      return;
-    }
-
-    const quantityNum = parseInt(trimmedQuantity);
-    if (isNaN(quantityNum) || quantityNum < 1) {
-      toast.error("Quantity must be a valid number");
-      return;
-    }
-
-    if (dimensions && dimensions.trim().length > 100) {
-      toast.error("Dimensions must be less than 100 characters");
-      return;
-    }
-
     if (additionalNotes && additionalNotes.trim().length > 1000) {
       toast.error("Additional notes must be less than 1000 characters");
       return;
     }
 
+    if (!currentItemBlank && !validateCurrentItem()) return;
+
+    const orderItems = currentItemBlank ? items : [...items, getCurrentItem()];
+
     setIsSubmitting(true);
 
     try {
@@ -192,8 +571,7 @@ export default function CreateOrder() {
           order_number: orderNumberData,
           project_name: trimmedProjectName,
           description: trimmedDescription,
-          quantity: quantityNum,
-          dimensions: dimensions.trim() || null,
+          quantity: orderItems.reduce((sum, item) => sum + item.quantity, 0),
           additional_notes: additionalNotes.trim() || null,
           status: "pending_quote" as any, // Start with pending_quote status
           // estimated_completion will be set by admin after quote approval
@@ -203,21 +581,86 @@ export default function CreateOrder() {
 
       if (orderError) throw orderError;
 
-      // Create customization
-      const { error: customizationError } = await supabase.from("order_customizations").insert({
-        order_id: orderData.id,
-        finish: finish as "matte" | "glossy" | "satin",
-        texture: texture as "smooth" | "textured" | "hammered",
-        color: color === "custom" ? customColor : color,
-        custom_notes: customNotes.trim() || null,
-      });
+      // Create the line items
+      const { data: itemsData, error: itemsError } = await supabase
+        .from("order_items")
+        .insert(
+          orderItems.map((item, index) => {
+            // Shape details are only kept when they produced a surface area
+            const hasGeometry = item.surfaceArea !== null;
+            const fields = PART_SHAPES[item.partShape].fields.map(({ field }) => field);
+            const getDimension = (field: DimensionField) =>
+              hasGeometry && fields.includes(field) ? parseFloat(item.partDimensions[field]) : null;
+
+            return {
+              order_id: orderData.id,
+              position: index + 1,
+              description: item.description,
+              quantity: item.quantity,
+              dimensions: item.dimensions || null,
+              part_shape: hasGeometry ? item.partShape : null,
+              dimension_unit: item.dimensionUnit,
+              part_length: getDimension("part_length"),
+              part_width: getDimension("part_width"),
+              part_height: getDimension("part_height"),
+              part_diameter: getDimension("part_diameter"),
+              surface_area_sqm: item.surfaceArea,
+            };
+          })
+        )
+        .select("id, position");
+
+      if (itemsError) throw itemsError;
+
+      // Create each item's customization
+      const { error: customizationError } = await supabase.from("order_customizations").insert(
+        orderItems.map((item, index) => ({
+          order_id: orderData.id,
+          order_item_id: itemsData.find((row) => row.position === index + 1)?.id,
+          finish: item.finish,
+          texture: item.texture,
+          color: getDraftColor(catalog, item).hex,
+          color_id: item.color === "custom" ? null : item.color,
+          custom_notes: item.customNotes || null,
+        }))
+      );
 
       if (customizationError) throw customizationError;
 
       // Upload files to storage and store references
-      if (uploadedFiles.length > 0) {
+      const includedPreviousFiles = previousFiles.filter((file) => file.include);
+      if (uploadedFiles.length > 0 || includedPreviousFiles.length > 0) {
         const fileInserts = [];
-        
+
+        // Copy re-attached files from the original order into this order's folder
+        for (const previousFile of includedPreviousFiles) {
+          const sourcePath = getStoragePathFromUrl(previousFile.file_url);
+          if (!sourcePath) continue;
+
+          const fileExt = previousFile.file_name.split('.').pop();
+          const fileName = `${user.id}/${orderData.id}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+          const { error: copyError } = await supabase.storage
+            .from('order-files')
+            .copy(sourcePath, fileName);
+
+          if (copyError) {
+            console.error('Error copying file:', copyError);
+            continue;
+          }
+
+          const { data: publicUrlData } = supabase.storage
+            .from('order-files')
+            .getPublicUrl(fileName);
+
+          fileInserts.push({
+            order_id: orderData.id,
+            file_name: previousFile.file_name,
+            file_size: previousFile.file_size,
+            file_url: publicUrlData.publicUrl,
+          });
+        }
+
         for (const uploadedFile of uploadedFiles) {
           const fileExt = uploadedFile.name.split('.').pop();
           const fileName = `${user.id}/${orderData.id}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
@@ -249,6 +692,8 @@ export default function CreateOrder() {
         }
       }
 
+      await sendOrderEmail(user.id, orderData.id, "order_received");
+
       toast.success("Order submitted successfully!", {
         description: `Order ${orderNumberData} has been created. You will receive a quote shortly.`,
       });
@@ -264,24 +709,29 @@ export default function CreateOrder() {
     }
   };
 
-  const getPreviewStyle = () => {
-    const selectedColor = colorOptions.find((c) => c.value === color);
-    return {
-      background: color === "custom" ? customColor : selectedColor?.hex,
-      filter: finish === "matte" ? "brightness(0.9)" : "none",
-      opacity: finish === "satin" ? 0.85 : 1,
-    };
-  };
-
   if (step === "customize") {
     return (
       <div className="min-h-screen bg-background pt-28">
         <div className="container mx-auto px-4 py-8 max-w-6xl">
           <div className="mb-8">
             <h1 className="text-4xl font-bold text-foreground mb-2">Customize Your Order</h1>
-            <p className="text-muted-foreground">Select your preferred finish, texture, and color</p>
+            <p className="text-muted-foreground">
+              {items.length > 0
+                ? `Select the finish, texture, and color for item ${itemNumber}`
+                : "Select your preferred finish, texture, and color"}
+            </p>
           </div>
 
+          {reorderNumber && (
+            <div className="mb-6 p-4 rounded-lg border border-primary/30 bg-primary/5 flex items-center gap-3">
+              <RotateCcw className="h-5 w-5 text-primary" />
+              <p className="text-sm">
+                Reordering <span className="font-semibold">{reorderNumber}</span>. The original customization and
+                project details have been filled in for you.
+              </p>
+            </div>
+          )}
+
           <div className="grid lg:grid-cols-2 gap-8">
             {/* Customization Options */}
             <div className="space-y-6">
@@ -294,14 +744,15 @@ export default function CreateOrder() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
-                  {finishOptions.map((option) => (
+                  {catalog.finishes.filter((f) => f.is_available).map((option) => (
                     <button
-                      key={option.value}
-                      onClick={() => setFinish(option.value)}
+                      key={option.finish}
+                      onClick={() => selectCoating(color, option.finish, texture)}
+                      disabled={!offeredOptions.some((o) => o.finish === option.finish)}
                       className={`
-                        w-full p-4 rounded-lg border-2 text-left transition-all
+                        w-full p-4 rounded-lg border-2 text-left transition-all disabled:opacity-50 disabled:cursor-not-allowed
                         ${
-                          finish === option.value
+                          finish === option.finish
                             ? "border-primary bg-primary/5"
                             : "border-border hover:border-primary/50"
                         }
@@ -312,7 +763,7 @@ export default function CreateOrder() {
                           <p className="font-medium">{option.label}</p>
                           <p className="text-sm text-muted-foreground">{option.description}</p>
                         </div>
-                        {finish === option.value && <CheckCircle className="h-5 w-5 text-primary" />}
+                        {finish === option.finish && <CheckCircle className="h-5 w-5 text-primary" />}
                       </div>
                     </button>
                   ))}
@@ -328,14 +779,15 @@ export default function CreateOrder() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
-                  {textureOptions.map((option) => (
+                  {catalog.textures.filter((t) => t.is_available).map((option) => (
                     <button
-                      key={option.value}
-                      onClick={() => setTexture(option.value)}
+                      key={option.texture}
+                      onClick={() => selectCoating(color, finish, option.texture)}
+                      disabled={!offeredOptions.some((o) => o.finish === finish && o.texture === option.texture)}
                       className={`
-                        w-full p-4 rounded-lg border-2 text-left transition-all
+                        w-full p-4 rounded-lg border-2 text-left transition-all disabled:opacity-50 disabled:cursor-not-allowed
                         ${
-                          texture === option.value
+                          texture === option.texture
                             ? "border-primary bg-primary/5"
                             : "border-border hover:border-primary/50"
                         }
@@ -346,7 +798,7 @@ export default function CreateOrder() {
                           <p className="font-medium">{option.label}</p>
                           <p className="text-sm text-muted-foreground">{option.description}</p>
                         </div>
-                        {texture === option.value && <CheckCircle className="h-5 w-5 text-primary" />}
+                        {texture === option.texture && <CheckCircle className="h-5 w-5 text-primary" />}
                       </div>
                     </button>
                   ))}
@@ -363,31 +815,66 @@ export default function CreateOrder() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="grid grid-cols-4 gap-3">
-                    {colorOptions.map((option) => (
+                    {availableColors.map((option) => (
                       <button
-                        key={option.value}
-                        onClick={() => setColor(option.value)}
+                        key={option.id}
+                        title={option.ral_code ? `${option.name} (${option.ral_code})` : option.name}
+                        onClick={() => selectCoating(option.id, finish, texture)}
                         className={`
                           aspect-square rounded-lg border-2 transition-all
                           ${
-                            color === option.value
+                            color === option.id
                               ? "border-primary ring-4 ring-primary/20"
                               : "border-border hover:border-primary/50"
                           }
                         `}
                         style={{
-                          background:
-                            option.hex ||
-                            "conic-gradient(from 0deg, #ff0000, #ff8000, #ffff00, #80ff00, #00ff00, #00ff80, #00ffff, #0080ff, #0000ff, #8000ff, #ff00ff, #ff0080, #ff0000)",
+                          background: option.swatch_url
+                            ? `center / cover no-repeat url(${option.swatch_url}), ${option.hex_code}`
+                            : option.hex_code,
                         }}
                       >
-                        {color === option.value && (
+                        {color === option.id && (
                           <CheckCircle className="h-6 w-6 mx-auto text-white drop-shadow-lg" />
                         )}
                       </button>
                     ))}
+                    <button
+                      title="Custom"
+                      onClick={() => selectCoating("custom", finish, texture)}
+                      className={`
+                        aspect-square rounded-lg border-2 transition-all
+                        ${
+                          color === "custom"
+                            ? "border-primary ring-4 ring-primary/20"
+                            : "border-border hover:border-primary/50"
+                        }
+                      `}
+                      style={{
+                        background:
+                          "conic-gradient(from 0deg, #ff0000, #ff8000, #ffff00, #80ff00, #00ff00, #00ff80, #00ffff, #0080ff, #0000ff, #8000ff, #ff00ff, #ff0080, #ff0000)",
+                      }}
+                    >
+                      {color === "custom" && <CheckCircle className="h-6 w-6 mx-auto text-white drop-shadow-lg" />}
+                    </button>
                   </div>
 
+                  {selectedColor && (
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">
+                        {selectedColor.name}
+                        {selectedColor.ral_code && (
+                          <span className="text-muted-foreground font-normal"> • {selectedColor.ral_code}</span>
+                        )}
+                      </span>
+                      {selectedColor.price_surcharge > 0 && (
+                        <span className="text-muted-foreground">
+                          +₱{selectedColor.price_surcharge.toLocaleString()} color surcharge
+                        </span>
+                      )}
+                    </div>
+                  )}
+
                   {color === "custom" && (
                     <div className="space-y-4 pt-2">
                       <Label>Pick Your Custom Color</Label>
@@ -428,28 +915,26 @@ export default function CreateOrder() {
                   <CardTitle>Preview</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-6">
-                  <CoatingPreview3D
-                    finish={finish as 'matte' | 'glossy' | 'satin'}
-                    texture={texture as 'smooth' | 'textured' | 'hammered'}
-                    color={color === 'custom' ? (customColor || '#808080') : (colorOptions.find(c => c.value === color)?.hex || '#808080')}
-                  />
+                  {selectedFinish && selectedTexture && (
+                    <CoatingPreview3D
+                      finish={selectedFinish}
+                      texture={selectedTexture}
+                      color={color === 'custom' ? (customColor || '#808080') : (selectedColor?.hex_code || '#808080')}
+                    />
+                  )}
 
                   <div className="space-y-3">
                     <div className="flex justify-between py-2 border-b">
                       <span className="text-muted-foreground">Finish</span>
-                      <Badge variant="secondary">{finishOptions.find((f) => f.value === finish)?.label}</Badge>
+                      <Badge variant="secondary">{selectedFinish?.label}</Badge>
                     </div>
                     <div className="flex justify-between py-2 border-b">
                       <span className="text-muted-foreground">Texture</span>
-                      <Badge variant="secondary">{textureOptions.find((t) => t.value === texture)?.label}</Badge>
+                      <Badge variant="secondary">{selectedTexture?.label}</Badge>
                     </div>
                     <div className="flex justify-between py-2">
                       <span className="text-muted-foreground">Color</span>
-                      <Badge variant="secondary">
-                        {color === "custom"
-                          ? customColor || "Custom"
-                          : colorOptions.find((c) => c.value === color)?.label}
-                      </Badge>
+                      <Badge variant="secondary">{colorLabel}</Badge>
                     </div>
                   </div>
 
@@ -496,54 +981,208 @@ export default function CreateOrder() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="itemDescription">Item Description *</Label>
+                  <Label htmlFor="projectDescription">Project Description *</Label>
                   <Textarea
-                    id="itemDescription"
-                    placeholder="Describe the items to be powder coated..."
-                    value={itemDescription}
-                    onChange={(e) => setItemDescription(e.target.value)}
+                    id="projectDescription"
+                    placeholder="Describe the project and the parts to be powder coated..."
+                    value={projectDescription}
+                    onChange={(e) => setProjectDescription(e.target.value)}
                     rows={4}
                     maxLength={1000}
                   />
-                  <p className="text-xs text-muted-foreground">{itemDescription.length}/1000 characters (minimum 10)</p>
+                  <p className="text-xs text-muted-foreground">
+                    {projectDescription.length}/1000 characters (minimum 10)
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="additionalNotes">Additional Notes (optional)</Label>
+                  <Textarea
+                    id="additionalNotes"
+                    placeholder="Any special instructions or requirements..."
+                    value={additionalNotes}
+                    onChange={(e) => setAdditionalNotes(e.target.value)}
+                    rows={3}
+                    maxLength={1000}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Added Items */}
+            {items.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Package className="h-5 w-5" />
+                    Items
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {items.map((item, index) => {
+                    const itemColor = getDraftColor(catalog, item);
+                    return (
+                      <div key={index} className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className="h-8 w-8 shrink-0 rounded border" style={{ backgroundColor: itemColor.hex }} />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">
+                              {index + 1}. {item.description}
+                            </p>
+                            <p className="text-xs text-muted-foreground capitalize">
+                              {item.quantity} pieces · {itemColor.label}, {item.finish} / {item.texture}
+                              {item.surfaceArea !== null && ` · ${formatArea(item.surfaceArea)} each`}
+                            </p>
+                          </div>
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => removeItem(index)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Current Item */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Ruler className="h-5 w-5" />
+                  {items.length > 0 ? `Item ${itemNumber}` : "Item"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="h-8 w-8 rounded border"
+                      style={{ backgroundColor: getDraftColor(catalog, { color, customColor }).hex }}
+                    />
+                    <p className="text-sm">
+                      <span className="font-medium">{colorLabel}</span>{" "}
+                      <span className="text-muted-foreground">
+                        {selectedFinish?.label} / {selectedTexture?.label}
+                      </span>
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setStep("customize")}>
+                    Change
+                  </Button>
                 </div>
 
-                <div className="grid md:grid-cols-2 gap-4">
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="itemDescription">Item Description *</Label>
+                    <Input
+                      id="itemDescription"
+                      placeholder="e.g., Chair base frames"
+                      value={itemDescription}
+                      onChange={(e) => setItemDescription(e.target.value)}
+                      maxLength={200}
+                    />
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="quantity">Quantity *</Label>
                     <Input
                       id="quantity"
                       type="number"
                       min="1"
-                      placeholder="Number of items"
+                      placeholder="Number of pieces"
                       value={quantity}
                       onChange={(e) => setQuantity(e.target.value)}
                     />
                   </div>
+                </div>
+
+                <Separator />
 
+                <p className="text-sm font-medium">Part Size (optional)</p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {(Object.keys(PART_SHAPES) as PartShape[]).map((shape) => (
+                    <button
+                      key={shape}
+                      onClick={() => setPartShape(shape)}
+                      className={`
+                        p-3 rounded-lg border-2 text-left transition-all
+                        ${partShape === shape ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"}
+                      `}
+                    >
+                      <p className="font-medium text-sm">{PART_SHAPES[shape].label}</p>
+                      <p className="text-xs text-muted-foreground">{PART_SHAPES[shape].description}</p>
+                    </button>
+                  ))}
+                </div>
+
+                {partShape === "custom" ? (
                   <div className="space-y-2">
-                    <Label htmlFor="dimensions">Dimensions (optional)</Label>
+                    <Label htmlFor="customArea">Surface Area per Piece (m², if known)</Label>
                     <Input
-                      id="dimensions"
-                      placeholder="e.g., 50cm x 30cm x 10cm"
-                      value={dimensions}
-                      onChange={(e) => setDimensions(e.target.value)}
-                      maxLength={100}
+                      id="customArea"
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={customArea}
+                      onChange={(e) => setCustomArea(e.target.value)}
                     />
                   </div>
-                </div>
+                ) : (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {shapeFields.map(({ field, label }) => (
+                      <div key={field} className="space-y-2">
+                        <Label htmlFor={field}>{label}</Label>
+                        <Input
+                          id={field}
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={partDimensions[field]}
+                          onChange={(e) => setPartDimensions({ ...partDimensions, [field]: e.target.value })}
+                        />
+                      </div>
+                    ))}
+                    <div className="space-y-2">
+                      <Label>Units</Label>
+                      <Select value={dimensionUnit} onValueChange={(value) => setDimensionUnit(value as DimensionUnit)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(DIMENSION_UNITS) as DimensionUnit[]).map((unit) => (
+                            <SelectItem key={unit} value={unit}>
+                              {DIMENSION_UNITS[unit].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                {surfaceArea !== null && (
+                  <div className="p-3 bg-muted rounded-lg text-sm">
+                    <span className="font-medium">Surface area:</span> {formatArea(surfaceArea)} per piece
+                    {quantityCount > 0 && <> · {formatArea(surfaceArea * quantityCount)} for {quantityCount} pieces</>}
+                  </div>
+                )}
 
                 <div className="space-y-2">
-                  <Label htmlFor="additionalNotes">Additional Notes (optional)</Label>
-                  <Textarea
-                    id="additionalNotes"
-                    placeholder="Any special instructions or requirements..."
-                    value={additionalNotes}
-                    onChange={(e) => setAdditionalNotes(e.target.value)}
-                    rows={3}
-                    maxLength={1000}
+                  <Label htmlFor="dimensions">Other Dimensions (optional)</Label>
+                  <Input
+                    id="dimensions"
+                    placeholder="e.g., 50cm x 30cm x 10cm, or anything the shapes above don't cover"
+                    value={dimensions}
+                    onChange={(e) => setDimensions(e.target.value)}
+                    maxLength={100}
                   />
                 </div>
+
+                <Button variant="outline" className="w-full" onClick={handleAddItem}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Another Item
+                </Button>
               </CardContent>
             </Card>
 
@@ -570,6 +1209,32 @@ export default function CreateOrder() {
                   />
                 </div>
 
+                {previousFiles.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Files from {reorderNumber}</Label>
+                    {previousFiles.map((file, index) => (
+                      <div key={file.file_url} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                        <div className="flex items-center gap-3">
+                          <Checkbox
+                            id={`previous-file-${index}`}
+                            checked={file.include}
+                            onCheckedChange={() => togglePreviousFile(index)}
+                          />
+                          {file.file_name.toLowerCase().endsWith(".pdf") ? (
+                            <FileText className="h-5 w-5 text-red-500" />
+                          ) : (
+                            <ImageIcon className="h-5 w-5 text-blue-500" />
+                          )}
+                          <label htmlFor={`previous-file-${index}`} className="cursor-pointer">
+                            <p className="text-sm font-medium">{file.file_name}</p>
+                            <p className="text-xs text-muted-foreground">{(file.file_size / 1024).toFixed(2)} KB</p>
+                          </label>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {uploadedFiles.length > 0 && (
                   <div className="space-y-2">
                     {uploadedFiles.map((file, index) => (
@@ -604,42 +1269,50 @@ export default function CreateOrder() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="space-y-3">
-                  <div className="flex justify-between py-2 border-b">
-                    <span className="text-muted-foreground">Finish</span>
-                    <Badge variant="secondary">{finishOptions.find((f) => f.value === finish)?.label}</Badge>
-                  </div>
-                  <div className="flex justify-between py-2 border-b">
-                    <span className="text-muted-foreground">Texture</span>
-                    <Badge variant="secondary">{textureOptions.find((t) => t.value === texture)?.label}</Badge>
-                  </div>
-                  <div className="flex justify-between py-2 border-b">
-                    <span className="text-muted-foreground">Color</span>
-                    <Badge variant="secondary">
-                      {color === "custom"
-                        ? customColor || "Custom"
-                        : colorOptions.find((c) => c.value === color)?.label}
-                    </Badge>
-                  </div>
                   {projectName && (
                     <div className="flex justify-between py-2 border-b">
                       <span className="text-muted-foreground">Project</span>
                       <span className="text-sm font-medium truncate max-w-[150px]">{projectName}</span>
                     </div>
                   )}
-                  {quantity && (
+                  <div className="flex justify-between py-2 border-b">
+                    <span className="text-muted-foreground">Items</span>
+                    <span className="text-sm font-medium">{currentItemBlank ? items.length : itemNumber}</span>
+                  </div>
+                  {totalQuantity > 0 && (
                     <div className="flex justify-between py-2 border-b">
                       <span className="text-muted-foreground">Quantity</span>
-                      <span className="text-sm font-medium">{quantity} items</span>
+                      <span className="text-sm font-medium">{totalQuantity} pieces</span>
+                    </div>
+                  )}
+                  {totalSurfaceArea > 0 && (
+                    <div className="flex justify-between py-2 border-b">
+                      <span className="text-muted-foreground">Surface Area</span>
+                      <span className="text-sm font-medium">{formatArea(totalSurfaceArea)}</span>
                     </div>
                   )}
                   <div className="flex justify-between py-2 border-b">
                     <span className="text-muted-foreground">Files</span>
-                    <span className="text-sm font-medium">{uploadedFiles.length} attached</span>
+                    <span className="text-sm font-medium">
+                      {uploadedFiles.length + previousFiles.filter((file) => file.include).length} attached
+                    </span>
                   </div>
                 </div>
 
                 <Separator />
 
+                {estimate.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Indicative Estimate</p>
+                    <PriceEstimate lines={estimate} />
+                    <p className="text-xs text-muted-foreground">
+                      {!anySurfaceArea
+                        ? "Based on typical part sizes. Add the part size for a closer estimate."
+                        : "Your final quote may differ once our team reviews the items."}
+                    </p>
+                  </div>
+                )}
+
                 <div className="p-3 bg-yellow-500/10 rounded-lg">
                   <p className="text-sm text-yellow-700 dark:text-yellow-400">
                     After submission, you will receive a quote from our team. Production will begin once you approve the
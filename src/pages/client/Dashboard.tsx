@@ -7,6 +7,7 @@ import { Progress } from "@/components/ui/progress";
 import { Calendar, Clock, Package, Plus, FileText, Loader2, DollarSign } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { getStatusBadgeClass, getStatusLabel, getStatusProgress } from "@/lib/orderStatus";
 
 interface Order {
   id: string;
@@ -18,19 +19,9 @@ interface Order {
   quantity: number;
   quoted_price: number | null;
   quote_approved: boolean | null;
+  progress: number | null;
 }
 
-// Must match database enum values exactly
-const statusSteps = [
-  { key: "pending_quote", label: "Pending Quote" },
-  { key: "queued", label: "Queued" },
-  { key: "sand-blasting", label: "Sand Blasting" },
-  { key: "coating", label: "Coating" },
-  { key: "curing", label: "Curing" },
-  { key: "quality-check", label: "Quality Check" },
-  { key: "completed", label: "Completed" },
-];
-
 export default function ClientDashboard() {
   const navigate = useNavigate();
   const [orders, setOrders] = useState<Order[]>([]);
@@ -84,55 +75,12 @@ export default function ClientDashboard() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      pending_quote: "bg-yellow-500 text-white",
-      queued: "bg-blue-500 text-white",
-      "sand-blasting": "bg-orange-500 text-white",
-      coating: "bg-primary text-primary-foreground",
-      curing: "bg-purple-500 text-white",
-      "quality-check": "bg-indigo-500 text-white",
-      completed: "bg-green-500 text-white",
-      delayed: "bg-red-500 text-white",
-    };
-    return colors[status] || "bg-muted";
-  };
-
-  const formatStatus = (status: string) => {
-    const step = statusSteps.find((s) => s.key === status);
-    if (step) return step.label;
-    if (status === "delayed") return "Delayed";
-    return status
-      .split("-")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(" ");
-  };
-
-  const calculateProgress = (status: string) => {
-    if (status === "delayed") return 0;
-    const index = statusSteps.findIndex((step) => step.key === status);
-    if (index === -1) return 0;
-    return ((index + 1) / statusSteps.length) * 100;
-  };
-
   const activeOrders = orders.filter((o) => !["completed", "delayed"].includes(o.status));
   const completedOrders = orders.filter((o) => o.status === "completed");
   const pendingQuoteOrders = orders.filter(
     (o) => o.status === "pending_quote" || (o.quoted_price && !o.quote_approved),
   );
 
-  const avgTurnaround =
-    completedOrders.length > 0
-      ? Math.round(
-          completedOrders.reduce((acc, order) => {
-            const start = new Date(order.submitted_date);
-            const end = order.estimated_completion ? new Date(order.estimated_completion) : new Date();
-            const days = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-            return acc + days;
-          }, 0) / completedOrders.length,
-        )
-      : 0;
-
   const stats = [
     { label: "Active Orders", value: activeOrders.length.toString(), icon: Package, color: "text-primary" },
     { label: "Completed", value: completedOrders.length.toString(), icon: FileText, color: "text-success" },
@@ -230,16 +178,16 @@ export default function ClientDashboard() {
                           </Badge>
                         )}
                       </div>
-                      <Badge variant="outline" className={getStatusColor(order.status)}>
-                        {formatStatus(order.status)}
+                      <Badge variant="outline" className={getStatusBadgeClass(order.status)}>
+                        {getStatusLabel(order.status)}
                       </Badge>
                     </div>
                     <div className="space-y-2">
                       <div className="flex items-center justify-between text-sm">
                         <span className="text-muted-foreground">Progress</span>
-                        <span className="font-medium">{calculateProgress(order.status).toFixed(0)}%</span>
+                        <span className="font-medium">{getStatusProgress(order.status, order.progress ?? 0)}%</span>
                       </div>
-                      <Progress value={calculateProgress(order.status)} className="h-2" />
+                      <Progress value={getStatusProgress(order.status, order.progress ?? 0)} className="h-2" />
                     </div>
                     <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
                       <div className="flex items-center gap-1">
@@ -0,0 +1,5 @@
+import { NotificationCenter } from '@/components/NotificationCenter';
+
+export default function ClientNotificationsPage() {
+  return <NotificationCenter role="client" orderPath="/client/orders" />;
+}
@@ -21,19 +21,26 @@ import {
   Phone,
   DollarSign,
   Check,
-  X
+  X,
+  Clock,
+  RotateCcw
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
-
-interface QuoteNegotiation {
+import { generateOrderSummaryPDF } from '@/lib/pdf';
+import { getStatusBadgeClass, getStatusLabel } from '@/lib/orderStatus';
+import { OrderItem, fetchOrderItems } from '@/lib/orderItems';
+import { OrderItemsList } from '@/components/OrderItemsList';
+import { OrderPayments } from '@/components/OrderPayments';
+import { OrderMessages } from '@/components/OrderMessages';
+import { QuoteNegotiation, downloadQuotePdf, getCurrentQuote, isQuoteExpired } from '@/lib/quotes';
+
+interface StatusHistoryEntry {
   id: string;
-  quoted_by: string;
-  quoted_price: number;
-  notes: string | null;
   status: string;
-  created_at: string;
+  notes: string | null;
+  changed_at: string;
 }
 
 interface OrderData {
@@ -45,17 +52,11 @@ interface OrderData {
   project_name: string;
   description: string;
   quantity: number;
-  dimensions: string | null;
   additional_notes: string | null;
   quoted_price: number | null;
   quote_approved: boolean | null;
   user_id: string;
-  customization?: {
-    finish: string;
-    texture: string;
-    color: string;
-    custom_notes: string | null;
-  };
+  items: OrderItem[];
   files?: Array<{
     file_name: string;
     file_size: number;
@@ -75,7 +76,9 @@ export default function OrderDetail() {
   const [orderData, setOrderData] = useState<OrderData | null>(null);
   const [loading, setLoading] = useState(true);
   const [approving, setApproving] = useState(false);
+  const [requestingQuote, setRequestingQuote] = useState(false);
   const [negotiations, setNegotiations] = useState<QuoteNegotiation[]>([]);
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
   const [showCounterOffer, setShowCounterOffer] = useState(false);
   const [counterPrice, setCounterPrice] = useState("");
   const [counterNotes, setCounterNotes] = useState("");
@@ -110,12 +113,8 @@ export default function OrderDetail() {
         return;
       }
 
-      // Fetch customization
-      const { data: customization } = await supabase
-        .from('order_customizations')
-        .select('*')
-        .eq('order_id', id)
-        .single();
+      // Fetch line items with their customization
+      const items = await fetchOrderItems(order.id);
 
       // Fetch files
       const { data: files } = await supabase
@@ -137,15 +136,23 @@ export default function OrderDetail() {
         .eq('order_id', id)
         .order('created_at', { ascending: false });
 
+      // Fetch status timeline
+      const { data: historyData } = await supabase
+        .from('order_status_history')
+        .select('id, status, notes, changed_at')
+        .eq('order_id', id)
+        .order('changed_at', { ascending: true });
+
       setOrderData({
         ...order,
-        customization: customization || undefined,
+        items,
         files: files || [],
         profile: profile || undefined,
         user_email: user.email,
         user_id: user.id
       });
       setNegotiations(negotiationsData || []);
+      setStatusHistory(historyData || []);
     } catch (error) {
       console.error('Error fetching order:', error);
       toast.error('Failed to load order details');
@@ -155,35 +162,21 @@ export default function OrderDetail() {
   };
 
   const handleApproveQuote = async () => {
-    if (!orderData || negotiations.length === 0) return;
+    const latestNegotiation = getCurrentQuote(negotiations);
+    if (!orderData || !latestNegotiation) return;
+
+    if (isQuoteExpired(latestNegotiation)) {
+      toast.error('This quote has expired. Please request a new quote.');
+      return;
+    }
     
     setApproving(true);
     try {
-      const latestNegotiation = negotiations[0];
-
-      // Insert acceptance record
-      const { error: negError } = await supabase
-        .from('quote_negotiations')
-        .insert({
-          order_id: id,
-          quoted_by: orderData.user_id,
-          quoted_price: latestNegotiation.quoted_price,
-          notes: 'Quote accepted by client',
-          status: 'accepted',
-        });
-
-      if (negError) throw negError;
-
-      // Update order
-      const { error } = await supabase
-        .from('orders')
-        .update({
-          quote_approved: true,
-          quote_approved_at: new Date().toISOString(),
-          status: 'queued' as any,
-          quoted_price: latestNegotiation.quoted_price,
-        })
-        .eq('id', id);
+      // Records the acceptance and queues the order at the accepted price
+      const { error } = await supabase.rpc('accept_quote', {
+        _order_id: orderData.id,
+        _version: latestNegotiation.version,
+      });
 
       if (error) throw error;
 
@@ -223,6 +216,34 @@ export default function OrderDetail() {
     }
   };
 
+  const handleRequestNewQuote = async () => {
+    if (!orderData) return;
+
+    setRequestingQuote(true);
+    try {
+      const { error } = await supabase.rpc('request_new_quote', { _order_id: orderData.id });
+
+      if (error) throw error;
+
+      toast.success('New quote requested. We will get back to you shortly.');
+    } catch (error) {
+      console.error('Error requesting new quote:', error);
+      toast.error('Failed to request a new quote');
+    } finally {
+      setRequestingQuote(false);
+    }
+  };
+
+  const handleDownloadQuote = async (quote: QuoteNegotiation) => {
+    try {
+      await downloadQuotePdf(quote);
+      toast.success('Quote downloaded');
+    } catch (error) {
+      console.error('Error generating quote PDF:', error);
+      toast.error('Failed to generate quote PDF');
+    }
+  };
+
   const handleSubmitCounterOffer = async () => {
     if (!orderData || !counterPrice) return;
     
@@ -257,27 +278,19 @@ export default function OrderDetail() {
   };
 
   const handleDownloadPDF = () => {
-    toast.info('PDF download feature coming soon');
-  };
+    if (!orderData) return;
 
-  const formatStatus = (status: string) => {
-    return status.split('-').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ').replace('_', ' ');
-  };
-
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      'pending_quote': 'bg-yellow-500 text-white',
-      'queued': 'bg-blue-500 text-white',
-      'sand-blasting': 'bg-orange-500 text-white',
-      'coating': 'bg-primary text-primary-foreground',
-      'curing': 'bg-purple-500 text-white',
-      'quality-check': 'bg-indigo-500 text-white',
-      'completed': 'bg-green-500 text-white',
-      'delayed': 'bg-red-500 text-white',
-    };
-    return colors[status] || 'bg-muted';
+    try {
+      generateOrderSummaryPDF({
+        ...orderData,
+        negotiations,
+        statusHistory,
+      }, orderData.user_id);
+      toast.success('Order summary downloaded');
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      toast.error('Failed to generate PDF');
+    }
   };
 
   if (loading) {
@@ -303,6 +316,8 @@ export default function OrderDetail() {
   }
 
   const showQuoteNegotiation = orderData.status === 'pending_quote' && !orderData.quote_approved && negotiations.length > 0;
+  const currentQuote = getCurrentQuote(negotiations);
+  const quoteExpired = currentQuote ? isQuoteExpired(currentQuote) : false;
 
   return (
     <div className="min-h-screen bg-background pt-28">
@@ -353,7 +368,7 @@ export default function OrderDetail() {
                       >
                         <div className="flex justify-between items-start mb-1">
                           <span className="text-sm font-medium">
-                            {neg.quoted_by === orderData.user_id ? 'You' : 'Admin'}
+                            {neg.quoted_by === orderData.user_id ? 'You' : `Admin · Quote v${neg.version}`}
                           </span>
                           <span className="text-xs text-muted-foreground">
                             {format(new Date(neg.created_at), 'MMM d, yyyy h:mm a')}
@@ -365,31 +380,56 @@ export default function OrderDetail() {
                         {neg.notes && (
                           <p className="text-sm text-muted-foreground mt-1">{neg.notes}</p>
                         )}
-                        <span
-                          className={`text-xs px-2 py-1 rounded inline-block mt-2 ${
-                            neg.status === 'accepted'
-                              ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
-                              : neg.status === 'rejected'
-                              ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300'
-                              : neg.status === 'countered'
-                              ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300'
-                              : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
-                          }`}
-                        >
-                          {neg.status.charAt(0).toUpperCase() + neg.status.slice(1)}
-                        </span>
+                        <div className="flex items-center gap-2 mt-2">
+                          <span
+                            className={`text-xs px-2 py-1 rounded ${
+                              neg.status === 'accepted'
+                                ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300'
+                                : neg.status === 'rejected' || neg.status === 'expired'
+                                ? 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300'
+                                : neg.status === 'countered'
+                                ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300'
+                                : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+                            }`}
+                          >
+                            {neg.status.charAt(0).toUpperCase() + neg.status.slice(1)}
+                          </span>
+                          {neg.valid_until && neg.status !== 'expired' && (
+                            <span className="text-xs text-muted-foreground">
+                              Valid until {format(new Date(neg.valid_until), 'MMM d, yyyy')}
+                            </span>
+                          )}
+                          {neg.version !== null && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDownloadQuote(neg)}
+                              className="ml-auto"
+                            >
+                              <Download className="h-4 w-4 mr-1" />
+                              PDF
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     ))}
                   </div>
                 </div>
 
                 {/* Current Quote */}
-                {negotiations.length > 0 && negotiations[0].quoted_by !== orderData.user_id && (
+                {currentQuote && (
                   <div className="p-4 bg-muted rounded-lg">
                     <p className="text-sm text-muted-foreground mb-1">Current Quote from Admin</p>
-                    <p className="text-3xl font-bold text-primary">
-                      ₱{parseFloat(negotiations[0].quoted_price.toString()).toLocaleString()}
+                    <p className={`text-3xl font-bold ${quoteExpired ? 'text-muted-foreground line-through' : 'text-primary'}`}>
+                      ₱{parseFloat(currentQuote.quoted_price.toString()).toLocaleString()}
                     </p>
+                    {currentQuote.valid_until && (
+                      <p className="text-sm text-muted-foreground mt-1 flex items-center gap-1">
+                        <Clock className="h-4 w-4" />
+                        {quoteExpired ? 'Expired' : 'Valid until'}{' '}
+                        {format(new Date(currentQuote.valid_until), 'MMMM d, yyyy')}
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -434,6 +474,17 @@ export default function OrderDetail() {
                       </Button>
                     </div>
                   </div>
+                ) : quoteExpired ? (
+                  <div className="space-y-3 p-4 border border-red-200 bg-red-50 dark:bg-red-950 dark:border-red-800 rounded-lg">
+                    <p className="text-sm text-red-700 dark:text-red-300">
+                      This quote has expired and can no longer be approved. Request a new quote to continue with
+                      your order.
+                    </p>
+                    <Button onClick={handleRequestNewQuote} disabled={requestingQuote} className="w-full">
+                      {requestingQuote ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                      Expired, Request a New Quote
+                    </Button>
+                  </div>
                 ) : (
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
                     <Button onClick={handleApproveQuote} disabled={approving} className="w-full" variant="default">
@@ -463,8 +514,8 @@ export default function OrderDetail() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>Order Status</CardTitle>
-                <Badge className={getStatusColor(orderData.status)}>
-                  {formatStatus(orderData.status)}
+                <Badge className={getStatusBadgeClass(orderData.status)}>
+                  {getStatusLabel(orderData.status)}
                 </Badge>
               </div>
             </CardHeader>
@@ -510,6 +561,16 @@ export default function OrderDetail() {
                           <Badge className="ml-2 bg-green-500 text-white">Approved</Badge>
                         )}
                       </p>
+                      {currentQuote && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          onClick={() => handleDownloadQuote(currentQuote)}
+                          className="h-auto p-0"
+                        >
+                          Download quote v{currentQuote.version}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 )}
@@ -571,17 +632,17 @@ export default function OrderDetail() {
               </div>
               <Separator />
               <div>
-                <p className="text-sm text-muted-foreground mb-1">Item Description</p>
+                <p className="text-sm text-muted-foreground mb-1">Project Description</p>
                 <p className="font-medium">{orderData.description}</p>
               </div>
               <div className="grid md:grid-cols-2 gap-4">
                 <div>
                   <p className="text-sm text-muted-foreground mb-1">Quantity</p>
-                  <p className="font-medium">{orderData.quantity}</p>
+                  <p className="font-medium">{orderData.quantity} pieces</p>
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground mb-1">Dimensions</p>
-                  <p className="font-medium">{orderData.dimensions || 'N/A'}</p>
+                  <p className="text-sm text-muted-foreground mb-1">Items</p>
+                  <p className="font-medium">{orderData.items.length}</p>
                 </div>
               </div>
               {orderData.additional_notes && (
@@ -596,47 +657,27 @@ export default function OrderDetail() {
             </CardContent>
           </Card>
 
-          {/* Customization Selection */}
+          {/* Items */}
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Palette className="h-5 w-5" />
-                Customization Selection
+                Items
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-4">
-              {orderData.customization ? (
-                <>
-                  <div className="grid md:grid-cols-3 gap-4">
-                    <div className="p-4 bg-muted rounded-lg">
-                      <p className="text-sm text-muted-foreground mb-2">Finish</p>
-                      <p className="font-semibold text-lg capitalize">{orderData.customization.finish}</p>
-                    </div>
-                    <div className="p-4 bg-muted rounded-lg">
-                      <p className="text-sm text-muted-foreground mb-2">Texture</p>
-                      <p className="font-semibold text-lg capitalize">{orderData.customization.texture}</p>
-                    </div>
-                    <div className="p-4 bg-muted rounded-lg">
-                      <p className="text-sm text-muted-foreground mb-2">Color</p>
-                      <p className="font-semibold text-lg">{orderData.customization.color}</p>
-                    </div>
-                  </div>
-                  {orderData.customization.custom_notes && (
-                    <>
-                      <Separator />
-                      <div>
-                        <p className="text-sm text-muted-foreground mb-1">Customization Notes</p>
-                        <p className="font-medium">{orderData.customization.custom_notes}</p>
-                      </div>
-                    </>
-                  )}
-                </>
-              ) : (
-                <p className="text-muted-foreground">No customization details available</p>
-              )}
+            <CardContent>
+              <OrderItemsList items={orderData.items} showQuotes={orderData.quoted_price !== null} />
             </CardContent>
           </Card>
 
+          {/* Payments */}
+          {orderData.quote_approved && (
+            <OrderPayments orderId={orderData.id} quotedPrice={orderData.quoted_price} />
+          )}
+
+          {/* Messages */}
+          <OrderMessages orderId={orderData.id} viewer="client" />
+
           {/* Uploaded Files */}
           {orderData.files && orderData.files.length > 0 && (
             <Card>
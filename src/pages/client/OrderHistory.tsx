@@ -30,6 +30,7 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { downloadInvoiceForOrder } from '@/lib/invoices';
 
 interface HistoryOrder {
   id: string;
@@ -113,13 +114,23 @@ export default function OrderHistory() {
     toast.success('Redirecting to order creation...', {
       description: `Create a new order based on ${order.order_number}`
     });
-    navigate('/client/create-order');
+    navigate('/client/create-order', { state: { reorderFromId: order.id } });
   };
 
-  const handleDownloadInvoice = (order: HistoryOrder) => {
-    toast.info('Invoice download coming soon', {
-      description: `Invoice for ${order.order_number}`
-    });
+  const handleDownloadInvoice = async (order: HistoryOrder) => {
+    try {
+      const downloaded = await downloadInvoiceForOrder(order.id);
+      if (!downloaded) {
+        toast.info('Invoice not yet available', {
+          description: `An invoice for ${order.order_number} has not been issued yet`
+        });
+        return;
+      }
+      toast.success('Invoice downloaded');
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      toast.error('Failed to download invoice');
+    }
   };
 
   const getStatusBadgeVariant = (status: string) => {
@@ -4,9 +4,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Clock, Package, Zap, Shield, CheckCircle, Eye, FileText } from 'lucide-react';
+import { Package, CheckCircle, FileText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { ORDER_STATUS_STEPS, getStatusBadgeClass, getStatusLabel, getStatusProgress } from '@/lib/orderStatus';
 
 interface Order {
   id: string;
@@ -19,13 +20,8 @@ interface Order {
   progress: number;
 }
 
-const statusSteps = [
-  { key: 'queued', label: 'Queued', icon: Clock, color: 'bg-blue-500', description: 'Order submitted and queued for processing' },
-  { key: 'sand-blasting', label: 'In Process', icon: Package, color: 'bg-orange-500', description: 'Surface preparation and coating application' },
-  { key: 'curing', label: 'Curing', icon: Zap, color: 'bg-purple-500', description: 'Heat curing for durability and finish quality' },
-  { key: 'quality-check', label: 'Quality Check', icon: Shield, color: 'bg-indigo-500', description: 'Final inspection and quality assurance' },
-  { key: 'completed', label: 'Ready for Pickup', icon: CheckCircle, color: 'bg-green-500', description: 'Order complete and ready for collection' }
-];
+// Production stages shown to clients once a quote is approved
+const statusSteps = ORDER_STATUS_STEPS.filter(step => step.key !== 'pending_quote');
 
 export default function OrderStatus() {
   const navigate = useNavigate();
@@ -78,17 +74,7 @@ export default function OrderStatus() {
   };
 
   const getStatusCount = (status: string) => {
-    return orders.filter(o => {
-      if (status === 'sand-blasting') {
-        return o.status === 'sand-blasting' || o.status === 'coating';
-      }
-      return o.status === status;
-    }).length;
-  };
-
-  const calculateProgress = (status: string) => {
-    const index = statusSteps.findIndex(step => step.key === status);
-    return index >= 0 ? ((index + 1) / statusSteps.length) * 100 : 0;
+    return orders.filter(o => o.status === status).length;
   };
 
   const getStatusIndex = (status: string) => {
@@ -100,25 +86,6 @@ export default function OrderStatus() {
     return stepIndex <= currentIndex;
   };
 
-  const getStatusBadgeColor = (status: string) => {
-    switch (status) {
-      case 'completed': return 'bg-green-500 text-white';
-      case 'quality-check': return 'bg-indigo-500 text-white';
-      case 'curing': return 'bg-purple-500 text-white';
-      case 'coating':
-      case 'sand-blasting': return 'bg-orange-500 text-white';
-      case 'queued': return 'bg-blue-500 text-white';
-      default: return 'bg-gray-500 text-white';
-    }
-  };
-
-  const getStatusLabel = (status: string) => {
-    if (status === 'sand-blasting' || status === 'coating') return 'In Process';
-    if (status === 'completed') return 'Ready for Pickup';
-    const step = statusSteps.find(s => s.key === status);
-    return step ? step.label : status;
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto p-6 max-w-7xl pt-28">
@@ -135,7 +102,7 @@ export default function OrderStatus() {
           </div>
 
           {/* Status Overview Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
             {statusSteps.map((step, index) => {
               const Icon = step.icon;
               const count = getStatusCount(step.key);
@@ -182,7 +149,7 @@ export default function OrderStatus() {
               </Card>
             ) : (
               orders.map((order) => {
-                const progress = order.progress || calculateProgress(order.status);
+                const progress = order.progress || getStatusProgress(order.status);
                 const currentStatusIndex = getStatusIndex(order.status);
                 const isReadyForPickup = order.status === 'completed';
 
@@ -199,7 +166,7 @@ export default function OrderStatus() {
                             </p>
                           </div>
                           <div className="flex items-center gap-2">
-                            <Badge className={getStatusBadgeColor(order.status)}>
+                            <Badge className={getStatusBadgeClass(order.status)}>
                               {getStatusLabel(order.status)}
                             </Badge>
                             <Button variant="outline" size="sm" onClick={() => navigate(`/client/orders/${order.id}`)}>
@@ -5,9 +5,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Package, Clock, Zap, Eye, CheckCircle, Loader2, Droplets, Shield } from 'lucide-react';
+import { Package, Eye, CheckCircle, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { getStatusBadgeClass, getStatusLabel, getStatusProgress } from '@/lib/orderStatus';
 
 interface Order {
   id: string;
@@ -16,19 +17,9 @@ interface Order {
   status: string;
   estimated_completion: string | null;
   submitted_date: string;
+  progress: number | null;
 }
 
-// Must match database enum values exactly
-const statusSteps = [
-  { key: 'pending_quote', label: 'Pending Quote', icon: Clock },
-  { key: 'queued', label: 'Queued', icon: Clock },
-  { key: 'sand-blasting', label: 'Sand Blasting', icon: Zap },
-  { key: 'coating', label: 'Coating', icon: Droplets },
-  { key: 'curing', label: 'Curing', icon: Zap },
-  { key: 'quality-check', label: 'Quality Check', icon: Shield },
-  { key: 'completed', label: 'Completed', icon: CheckCircle }
-];
-
 export default function Orders() {
   const [activeTab, setActiveTab] = useState('in-progress');
   const [orders, setOrders] = useState<Order[]>([]);
@@ -79,29 +70,8 @@ export default function Orders() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      'received': 'bg-muted text-muted-foreground',
-      'in_preparation': 'bg-accent text-accent-foreground',
-      'coating_in_progress': 'bg-primary text-primary-foreground',
-      'quality_check': 'bg-secondary text-secondary-foreground',
-      'ready_for_pickup': 'bg-primary text-primary-foreground',
-      'completed': 'bg-primary text-primary-foreground'
-    };
-    return colors[status] || 'bg-muted';
-  };
-
-  const getStatusIndex = (status: string) => {
-    return statusSteps.findIndex(step => step.key === status);
-  };
-
-  const calculateProgress = (status: string) => {
-    const index = getStatusIndex(status);
-    return ((index + 1) / statusSteps.length) * 100;
-  };
-
-  const inProgressOrders = orders.filter(o => o.status !== 'completed' && o.status !== 'cancelled');
-  const completedOrders = orders.filter(o => o.status === 'completed' || o.status === 'cancelled');
+  const inProgressOrders = orders.filter(o => o.status !== 'completed');
+  const completedOrders = orders.filter(o => o.status === 'completed');
 
   if (loading) {
     return (
@@ -155,8 +125,8 @@ export default function Orders() {
                         <CardTitle className="text-xl mb-2">{order.order_number}</CardTitle>
                         <p className="text-sm text-muted-foreground">{order.description}</p>
                       </div>
-                      <Badge className={getStatusColor(order.status)}>
-                        {statusSteps[getStatusIndex(order.status)]?.label || order.status}
+                      <Badge className={getStatusBadgeClass(order.status)}>
+                        {getStatusLabel(order.status)}
                       </Badge>
                     </div>
                   </CardHeader>
@@ -165,9 +135,9 @@ export default function Orders() {
                       <div>
                         <div className="flex justify-between mb-2">
                           <span className="text-sm font-medium">Progress</span>
-                          <span className="text-sm text-muted-foreground">{calculateProgress(order.status).toFixed(0)}%</span>
+                          <span className="text-sm text-muted-foreground">{getStatusProgress(order.status, order.progress ?? 0)}%</span>
                         </div>
-                        <Progress value={calculateProgress(order.status)} className="h-2" />
+                        <Progress value={getStatusProgress(order.status, order.progress ?? 0)} className="h-2" />
                       </div>
                       <div className="grid grid-cols-2 gap-4 pt-4 border-t">
                         <div>
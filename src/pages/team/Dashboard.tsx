@@ -6,6 +6,15 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CheckCircle2, Clock, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import {
+  OrderStatus,
+  getNextStage,
+  getRequiredDepartment,
+  getStatusBadgeClass,
+  getStatusLabel,
+} from "@/lib/orderStatus";
+import { isDepositRequiredError } from "@/lib/payments";
+import { stopStageWork } from "@/lib/workLogs";
 
 interface AssignedOrder {
   id: string;
@@ -15,6 +24,8 @@ interface AssignedOrder {
   priority: string;
   description: string;
   estimated_completion: string | null;
+  routing: OrderStatus[];
+  routing_step: number | null;
 }
 
 interface TeamMemberProfile {
@@ -67,7 +78,9 @@ export default function TeamDashboard() {
             status,
             priority,
             description,
-            estimated_completion
+            estimated_completion,
+            routing,
+            routing_step
           )
         `,
         )
@@ -75,24 +88,13 @@ export default function TeamDashboard() {
 
       if (ordersError) throw ordersError;
 
-      // Map order status to required department
-      const getRequiredDepartmentForStatus = (status: string): string | null => {
-        const departmentMapping: Record<string, string> = {
-          "sand-blasting": "Sand Blasting",
-          "coating": "Coating",
-          "curing": "Curing",
-          "quality-check": "Quality Control",
-        };
-        return departmentMapping[status] || null;
-      };
-
       // Filter orders to only show those matching member's department
       const orders = ordersData
         .map((assignment: any) => assignment.orders)
         .filter((order: any) => {
           if (!order || order.status === "completed") return false;
           
-          const requiredDepartment = getRequiredDepartmentForStatus(order.status);
+          const requiredDepartment = getRequiredDepartment(order.status);
           // Show if no specific department required (queued, pending_quote) or if department matches
           return !requiredDepartment || requiredDepartment === memberData.department;
         });
@@ -136,75 +138,14 @@ export default function TeamDashboard() {
     }
   };
 
-  const getNextStatus = (currentStatus: string): { status: string; progress: number; isCompleted: boolean } => {
-    const statusFlow: Record<string, { next: string; progress: number }> = {
-      "pending_quote": { next: "queued", progress: 10 },
-      "queued": { next: "sand-blasting", progress: 25 },
-      "sand-blasting": { next: "coating", progress: 50 },
-      "coating": { next: "curing", progress: 70 },
-      "curing": { next: "quality-check", progress: 85 },
-      "quality-check": { next: "completed", progress: 100 },
-    };
-
-    const nextStep = statusFlow[currentStatus];
-    if (!nextStep) {
-      return { status: currentStatus, progress: 100, isCompleted: false };
-    }
-
-    return {
-      status: nextStep.next,
-      progress: nextStep.progress,
-      isCompleted: nextStep.next === "completed",
-    };
-  };
-
   const handleCompleteOrder = async (orderId: string, orderNumber: string) => {
     try {
       // Find the current order to get its status
       const currentOrder = assignedOrders.find(o => o.id === orderId);
       if (!currentOrder || !profile) return;
 
-      // Map status to required department
-      const getRequiredDepartmentForStatus = (status: string): string | null => {
-        const departmentMapping: Record<string, string> = {
-          "sand-blasting": "Sand Blasting",
-          "coating": "Coating",
-          "curing": "Curing",
-          "quality-check": "Quality Control",
-        };
-        return departmentMapping[status] || null;
-      };
-
-      // Find team member with matching department for next stage
-      const findTeamMemberForStage = async (status: string): Promise<string | null> => {
-        const requiredDepartment = getRequiredDepartmentForStatus(status);
-        if (!requiredDepartment) return null;
-
-        const { data, error } = await supabase
-          .from("team_members")
-          .select("id")
-          .eq("department", requiredDepartment)
-          .eq("availability", "available")
-          .limit(1)
-          .single();
-
-        if (error || !data) {
-          // Fallback: try to find any member with this department
-          const { data: fallbackData } = await supabase
-            .from("team_members")
-            .select("id")
-            .eq("department", requiredDepartment)
-            .limit(1)
-            .single();
-          
-          return fallbackData?.id || null;
-        }
-
-        return data.id;
-      };
-
       // Check authorization
-      const requiredDepartment = getRequiredDepartmentForStatus(currentOrder.status);
+      const requiredDepartment = getRequiredDepartment(currentOrder.status);
       if (requiredDepartment && profile.department !== requiredDepartment) {
         toast({
           title: "Unauthorized",
@@ -214,11 +155,27 @@ export default function TeamDashboard() {
         return;
       }
 
-      const { status: nextStatus, progress, isCompleted } = getNextStatus(currentOrder.status);
+      const nextStage = getNextStage(currentOrder.status, currentOrder.routing, currentOrder.routing_step);
+      if (!nextStage) {
+        toast({
+          title: "Cannot Advance Order",
+          description: `Orders that are ${getStatusLabel(currentOrder.status)} can't be moved to the next stage`,
+          variant: "destructive",
+        });
+        return;
+      }
 
-      const updateData: any = {
+      // Clock out of the stage before handing it on
+      const stopError = await stopStageWork(currentOrder, profile.id);
+      if (stopError) {
+        console.error("Failed to stop work log:", stopError);
+      }
+
+      const nextStatus = nextStage.status;
+      const isCompleted = nextStatus === "completed";
+      // progress and routing_step are set by the database trigger from the order's routing
+      const updateData: { status: OrderStatus; completed_date?: string } = {
         status: nextStatus,
-        progress: progress,
       };
 
       if (isCompleted) {
@@ -231,41 +188,35 @@ export default function TeamDashboard() {
         .update(updateData)
         .eq("id", orderId);
 
-      if (error) throw error;
-
-      // Handle team assignments
-      if (!isCompleted) {
-        const nextMemberId = await findTeamMemberForStage(nextStatus);
-        
-        if (nextMemberId) {
-          // Remove current assignment
-          await supabase
-            .from("order_team_assignments")
-            .delete()
-            .eq("order_id", orderId)
-            .eq("team_member_id", profile.id);
-
-          // Add new assignment for next stage
-          await supabase
-            .from("order_team_assignments")
-            .insert({
-              order_id: orderId,
-              team_member_id: nextMemberId,
-            });
+      if (error) {
+        // The database won't complete an order until its deposit is paid
+        if (isDepositRequiredError(error)) {
+          toast({
+            title: "Deposit Required",
+            description: error.message,
+            variant: "destructive",
+          });
+          return;
         }
-      } else {
-        // Order completed, remove all assignments
-        await supabase
-          .from("order_team_assignments")
-          .delete()
-          .eq("order_id", orderId);
+        throw error;
+      }
+
+      // Hand the order to the next stage's department, or clear assignments once completed
+      const { data: assigned, error: assignError } = await supabase.rpc("auto_assign_order", {
+        _order_id: orderId,
+      });
+
+      if (assignError) {
+        console.error("Failed to assign next team member:", assignError);
       }
 
       toast({
         title: isCompleted ? "Order Completed! 🎉" : "Task Completed!",
         description: isCompleted 
           ? `Order ${orderNumber} has been marked as completed`
-          : `Order ${orderNumber} moved to ${nextStatus.replace("-", " ")} and reassigned`,
+          : assigned?.[0]
+            ? `Order ${orderNumber} moved to ${getStatusLabel(nextStatus)} and assigned to ${assigned[0].assigned_member_name}`
+            : `Order ${orderNumber} moved to ${getStatusLabel(nextStatus)}`,
       });
 
       // Refresh the orders list
@@ -280,20 +231,6 @@ export default function TeamDashboard() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      pending_quote: "bg-yellow-500",
-      queued: "bg-blue-500",
-      "sand-blasting": "bg-orange-500",
-      coating: "bg-purple-500",
-      curing: "bg-pink-500",
-      "quality-check": "bg-teal-500",
-      completed: "bg-green-500",
-      delayed: "bg-red-500",
-    };
-    return colors[status] || "bg-gray-500";
-  };
-
   const getPriorityColor = (priority: string) => {
     const colors: Record<string, string> = {
       low: "bg-green-100 text-green-800",
@@ -389,7 +326,7 @@ export default function TeamDashboard() {
                         <div className="space-y-2 flex-1">
                           <div className="flex items-center gap-2">
                             <h3 className="font-semibold text-lg">{order.order_number}</h3>
-                            <Badge className={getStatusColor(order.status)}>{order.status.replace("-", " ")}</Badge>
+                            <Badge className={getStatusBadgeClass(order.status)}>{getStatusLabel(order.status)}</Badge>
                             <Badge className={getPriorityColor(order.priority)}>{order.priority}</Badge>
                           </div>
                           <p className="text-sm font-medium text-foreground">{order.project_name}</p>
@@ -0,0 +1,5 @@
+import { NotificationCenter } from '@/components/NotificationCenter';
+
+export default function TeamNotificationsPage() {
+  return <NotificationCenter role="team_member" orderPath="/team/orders" />;
+}
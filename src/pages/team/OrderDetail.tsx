@@ -6,8 +6,21 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Calendar, Package, FileText, CheckCircle2, Loader2 } from "lucide-react";
+import { ArrowLeft, Calendar, Package, FileText, CheckCircle2, Loader2, Play, Pause, Square, Timer, Ruler } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import {
+  OrderStatus,
+  getNextStage,
+  getRequiredDepartment,
+  getStatusBadgeClass,
+  getStatusLabel,
+} from "@/lib/orderStatus";
+import { WorkLogEvent, fetchStageWorkLogs, getWorkLogState, getWorkedMs, stopStageWork } from "@/lib/workLogs";
+import { formatArea } from "@/lib/geometry";
+import { OrderItem, fetchOrderItems, getTotalSurfaceArea } from "@/lib/orderItems";
+import { isDepositRequiredError } from "@/lib/payments";
+import { OrderItemsList } from "@/components/OrderItemsList";
+import { OrderMessages } from "@/components/OrderMessages";
 
 interface OrderDetails {
   id: string;
@@ -17,9 +30,10 @@ interface OrderDetails {
   status: string;
   priority: string;
   quantity: number;
-  dimensions: string | null;
   additional_notes: string | null;
   progress: number | null;
+  routing: OrderStatus[];
+  routing_step: number | null;
   submitted_date: string;
   estimated_completion: string | null;
   completed_date: string | null;
@@ -32,11 +46,10 @@ interface OrderFile {
   file_size: number;
 }
 
-interface Customization {
-  color: string;
-  finish: string;
-  texture: string;
-  custom_notes: string | null;
+interface WorkLog {
+  id: string;
+  event: WorkLogEvent;
+  created_at: string;
 }
 
 export default function TeamOrderDetail() {
@@ -45,13 +58,26 @@ export default function TeamOrderDetail() {
   const [loading, setLoading] = useState(true);
   const [order, setOrder] = useState<OrderDetails | null>(null);
   const [files, setFiles] = useState<OrderFile[]>([]);
-  const [customization, setCustomization] = useState<Customization | null>(null);
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [teamMemberId, setTeamMemberId] = useState<string | null>(null);
+  const [workLogs, setWorkLogs] = useState<WorkLog[]>([]);
+  const [loggingWork, setLoggingWork] = useState(false);
+  const [now, setNow] = useState(new Date());
   const { toast } = useToast();
 
+  const workState = getWorkLogState(workLogs);
+
   useEffect(() => {
     fetchOrderDetails();
   }, [id]);
 
+  // Tick the timer while the stage is being worked
+  useEffect(() => {
+    if (workState !== "running") return;
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [workState]);
+
   const fetchOrderDetails = async () => {
     try {
       // Fetch order details
@@ -60,22 +86,29 @@ export default function TeamOrderDetail() {
       if (orderError) throw orderError;
       setOrder(orderData);
 
+      // Fetch this member's time log for the current stage
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const { data: memberData } = await supabase
+          .from("team_members")
+          .select("id")
+          .eq("user_id", user.id)
+          .single();
+
+        if (memberData) {
+          setTeamMemberId(memberData.id);
+          await fetchWorkLogs(orderData, memberData.id);
+        }
+      }
+
       // Fetch order files
       const { data: filesData, error: filesError } = await supabase.from("order_files").select("*").eq("order_id", id);
 
       if (filesError) throw filesError;
       setFiles(filesData || []);
 
-      // Fetch customizations
-      const { data: customData, error: customError } = await supabase
-        .from("order_customizations")
-        .select("*")
-        .eq("order_id", id)
-        .single();
-
-      if (!customError && customData) {
-        setCustomization(customData);
-      }
+      // Fetch line items with their coating
+      setItems(await fetchOrderItems(id));
     } catch (error) {
       console.error("Error fetching order details:", error);
       toast({
@@ -88,65 +121,54 @@ export default function TeamOrderDetail() {
     }
   };
 
-  const getNextStatus = (currentStatus: string): { status: string; progress: number; isCompleted: boolean } => {
-    const statusFlow: Record<string, { next: string; progress: number }> = {
-      "pending_quote": { next: "queued", progress: 10 },
-      "queued": { next: "sand-blasting", progress: 25 },
-      "sand-blasting": { next: "coating", progress: 50 },
-      "coating": { next: "curing", progress: 70 },
-      "curing": { next: "quality-check", progress: 85 },
-      "quality-check": { next: "completed", progress: 100 },
-    };
+  const fetchWorkLogs = async (currentOrder: OrderDetails, memberId: string) => {
+    const { data, error } = await fetchStageWorkLogs(currentOrder, memberId);
 
-    const nextStep = statusFlow[currentStatus];
-    if (!nextStep) {
-      return { status: currentStatus, progress: 100, isCompleted: false };
+    if (error) {
+      console.error("Error fetching work logs:", error);
+      return;
     }
-
-    return {
-      status: nextStep.next,
-      progress: nextStep.progress,
-      isCompleted: nextStep.next === "completed",
-    };
+    setWorkLogs(data || []);
   };
 
-  // Map order status to required team member department
-  const getRequiredDepartmentForStatus = (status: string): string | null => {
-    const departmentMapping: Record<string, string> = {
-      "sand-blasting": "Sand Blasting",
-      "coating": "Coating",
-      "curing": "Curing",
-      "quality-check": "Quality Control",
-    };
-    return departmentMapping[status] || null;
+  const logWorkEvent = (event: WorkLogEvent, memberId: string) => {
+    return supabase.from("stage_work_logs").insert({
+      order_id: order!.id,
+      team_member_id: memberId,
+      stage: order!.status as OrderStatus,
+      routing_step: order!.routing_step,
+      event,
+    });
   };
 
-  // Find team member with matching department for next stage
-  const findTeamMemberForStage = async (status: string): Promise<string | null> => {
-    const requiredDepartment = getRequiredDepartmentForStatus(status);
-    if (!requiredDepartment) return null;
-
-    const { data, error } = await supabase
-      .from("team_members")
-      .select("id")
-      .eq("department", requiredDepartment)
-      .eq("availability", "available")
-      .limit(1)
-      .single();
-
-    if (error || !data) {
-      // Fallback: try to find any member with this department
-      const { data: fallbackData } = await supabase
-        .from("team_members")
-        .select("id")
-        .eq("department", requiredDepartment)
-        .limit(1)
-        .single();
-      
-      return fallbackData?.id || null;
+  const handleWorkEvent = async (event: WorkLogEvent) => {
+    if (!order || !teamMemberId) return;
+
+    setLoggingWork(true);
+    try {
+      const { error } = await logWorkEvent(event, teamMemberId);
+      if (error) throw error;
+
+      setNow(new Date());
+      await fetchWorkLogs(order, teamMemberId);
+    } catch (error) {
+      console.error("Error logging work:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update time log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoggingWork(false);
     }
+  };
 
-    return data.id;
+  const formatElapsed = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
   };
 
   const handleCompleteOrder = async () => {
@@ -173,7 +195,7 @@ export default function TeamOrderDetail() {
       }
 
       // Check if current user's department matches the required department for current order status
-      const requiredDepartment = getRequiredDepartmentForStatus(order.status);
+      const requiredDepartment = getRequiredDepartment(order.status);
       if (requiredDepartment && currentMember.department !== requiredDepartment) {
         toast({
           title: "Unauthorized",
@@ -183,11 +205,27 @@ export default function TeamOrderDetail() {
         return;
       }
 
-      const { status: nextStatus, progress, isCompleted } = getNextStatus(order.status);
+      const nextStage = getNextStage(order.status, order.routing, order.routing_step);
+      if (!nextStage) {
+        toast({
+          title: "Cannot Advance Order",
+          description: `Orders that are ${getStatusLabel(order.status)} can't be moved to the next stage`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Clock out of the stage before handing it on
+      const stopError = await stopStageWork(order, currentMember.id);
+      if (stopError) {
+        console.error("Failed to stop work log:", stopError);
+      }
 
-      const updateData: any = {
+      const nextStatus = nextStage.status;
+      const isCompleted = nextStatus === "completed";
+      // progress and routing_step are set by the database trigger from the order's routing
+      const updateData: { status: OrderStatus; completed_date?: string } = {
         status: nextStatus,
-        progress: progress,
       };
 
       if (isCompleted) {
@@ -200,45 +238,35 @@ export default function TeamOrderDetail() {
         .update(updateData)
         .eq("id", order.id);
 
-      if (orderError) throw orderError;
-
-      // If not completed, find and assign next team member
-      if (!isCompleted) {
-        const nextMemberId = await findTeamMemberForStage(nextStatus);
-        
-        if (nextMemberId) {
-          // Remove current assignment
-          await supabase
-            .from("order_team_assignments")
-            .delete()
-            .eq("order_id", order.id)
-            .eq("team_member_id", currentMember.id);
-
-          // Add new assignment for next stage
-          const { error: assignError } = await supabase
-            .from("order_team_assignments")
-            .insert({
-              order_id: order.id,
-              team_member_id: nextMemberId,
-            });
-
-          if (assignError) {
-            console.error("Failed to assign next team member:", assignError);
-          }
+      if (orderError) {
+        // The database won't complete an order until its deposit is paid
+        if (isDepositRequiredError(orderError)) {
+          toast({
+            title: "Deposit Required",
+            description: orderError.message,
+            variant: "destructive",
+          });
+          return;
         }
-      } else {
-        // Order completed, remove all assignments
-        await supabase
-          .from("order_team_assignments")
-          .delete()
-          .eq("order_id", order.id);
+        throw orderError;
+      }
+
+      // Hand the order to the next stage's department, or clear assignments once completed
+      const { data: assigned, error: assignError } = await supabase.rpc("auto_assign_order", {
+        _order_id: order.id,
+      });
+
+      if (assignError) {
+        console.error("Failed to assign next team member:", assignError);
       }
 
       toast({
         title: isCompleted ? "Order Completed! 🎉" : "Task Completed!",
         description: isCompleted 
           ? `Order ${order.order_number} has been marked as completed`
-          : `Order ${order.order_number} moved to ${nextStatus.replace("-", " ")} and reassigned`,
+          : assigned?.[0]
+            ? `Order ${order.order_number} moved to ${getStatusLabel(nextStatus)} and assigned to ${assigned[0].assigned_member_name}`
+            : `Order ${order.order_number} moved to ${getStatusLabel(nextStatus)}`,
       });
 
       navigate("/team/dashboard");
@@ -252,20 +280,6 @@ export default function TeamOrderDetail() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    const colors: Record<string, string> = {
-      pending_quote: "bg-yellow-500",
-      queued: "bg-blue-500",
-      "sand-blasting": "bg-orange-500",
-      coating: "bg-purple-500",
-      curing: "bg-pink-500",
-      "quality-check": "bg-teal-500",
-      completed: "bg-green-500",
-      delayed: "bg-red-500",
-    };
-    return colors[status] || "bg-gray-500";
-  };
-
   const getPriorityColor = (priority: string) => {
     const colors: Record<string, string> = {
       low: "bg-green-100 text-green-800",
@@ -333,7 +347,7 @@ export default function TeamOrderDetail() {
             <div className="flex items-center justify-between">
               <CardTitle>Order Status</CardTitle>
               <div className="flex gap-2">
-                <Badge className={getStatusColor(order.status)}>{order.status.replace("-", " ")}</Badge>
+                <Badge className={getStatusBadgeClass(order.status)}>{getStatusLabel(order.status)}</Badge>
                 <Badge className={getPriorityColor(order.priority)}>{order.priority}</Badge>
               </div>
             </div>
@@ -346,9 +360,60 @@ export default function TeamOrderDetail() {
               </div>
               <Progress value={order.progress || 0} className="h-2" />
             </div>
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <span className="text-sm text-muted-foreground">Routing:</span>
+              {order.routing.map((stage, index) => (
+                <Badge
+                  key={index}
+                  variant={order.routing_step === index + 1 ? "default" : "outline"}
+                >
+                  {index + 1}. {getStatusLabel(stage)}
+                </Badge>
+              ))}
+            </div>
           </CardContent>
         </Card>
 
+        {/* Time Tracking */}
+        {getRequiredDepartment(order.status) && teamMemberId && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Timer className="h-5 w-5" />
+                  Time Tracking
+                </CardTitle>
+                <Badge variant={workState === "running" ? "default" : "outline"} className="capitalize">
+                  {workState === "idle" ? (workLogs.length > 0 ? "Stopped" : "Not started") : workState}
+                </Badge>
+              </div>
+              <CardDescription>Time you have worked on the {getStatusLabel(order.status)} stage</CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center justify-between">
+              <span className="text-3xl font-mono font-bold">{formatElapsed(getWorkedMs(workLogs, now))}</span>
+              <div className="flex gap-2">
+                {workState === "running" ? (
+                  <Button variant="outline" onClick={() => handleWorkEvent("pause")} disabled={loggingWork}>
+                    <Pause className="h-4 w-4 mr-2" />
+                    Pause
+                  </Button>
+                ) : (
+                  <Button onClick={() => handleWorkEvent("start")} disabled={loggingWork}>
+                    <Play className="h-4 w-4 mr-2" />
+                    {workState === "paused" ? "Resume" : "Start"}
+                  </Button>
+                )}
+                {workState !== "idle" && (
+                  <Button variant="outline" onClick={() => handleWorkEvent("stop")} disabled={loggingWork}>
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Order Details */}
         <Card>
           <CardHeader>
@@ -360,16 +425,19 @@ export default function TeamOrderDetail() {
                 <Package className="h-5 w-5 text-muted-foreground mt-0.5" />
                 <div>
                   <p className="text-sm text-muted-foreground">Quantity</p>
-                  <p className="font-medium">{order.quantity} units</p>
+                  <p className="font-medium">
+                    {order.quantity} units
+                    {items.length > 1 && ` in ${items.length} items`}
+                  </p>
                 </div>
               </div>
 
-              {order.dimensions && (
+              {getTotalSurfaceArea(items) > 0 && (
                 <div className="flex items-start gap-3">
-                  <FileText className="h-5 w-5 text-muted-foreground mt-0.5" />
+                  <Ruler className="h-5 w-5 text-muted-foreground mt-0.5" />
                   <div>
-                    <p className="text-sm text-muted-foreground">Dimensions</p>
-                    <p className="font-medium">{order.dimensions}</p>
+                    <p className="text-sm text-muted-foreground">Total Surface Area</p>
+                    <p className="font-medium">{formatArea(getTotalSurfaceArea(items))}</p>
                   </div>
                 </div>
               )}
@@ -412,46 +480,19 @@ export default function TeamOrderDetail() {
           </CardContent>
         </Card>
 
-        {/* Customization Details */}
-        {customization && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Customization</CardTitle>
-              <CardDescription>Coating specifications for this order</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <p className="text-sm text-muted-foreground mb-1">Color</p>
-                  <div className="flex items-center gap-2">
-                    <div
-                      className="w-6 h-6 rounded border border-border"
-                      style={{ backgroundColor: customization.color }}
-                    />
-                    <p className="font-medium">{customization.color}</p>
-                  </div>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground mb-1">Finish</p>
-                  <p className="font-medium capitalize">{customization.finish}</p>
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground mb-1">Texture</p>
-                  <p className="font-medium capitalize">{customization.texture}</p>
-                </div>
-              </div>
-              {customization.custom_notes && (
-                <>
-                  <Separator className="my-4" />
-                  <div>
-                    <p className="text-sm text-muted-foreground mb-2">Custom Notes</p>
-                    <p className="text-foreground">{customization.custom_notes}</p>
-                  </div>
-                </>
-              )}
-            </CardContent>
-          </Card>
-        )}
+        {/* Items */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+            <CardDescription>Sizes and coating specifications for each item</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OrderItemsList items={items} />
+          </CardContent>
+        </Card>
+
+        {/* Messages */}
+        <OrderMessages orderId={order.id} viewer="shop" />
 
         {/* Attached Files */}
         {files.length > 0 && (
@@ -0,0 +1,5 @@
+import { OvenBatches } from '@/components/OvenBatches';
+
+export default function TeamOvenBatchesPage() {
+  return <OvenBatches orderPath="/team/orders" />;
+}
@@ -0,0 +1,13 @@
+// Peso formatting shared by the web app (via src/lib/currency.ts) and the Deno
+// edge functions.
+
+const formatAmount = (amount: number) =>
+  Number(amount).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Amounts shown on screen and in emails, e.g. ₱1,250.00
+export const formatPeso = (amount: number | null | undefined, empty = "N/A") =>
+  amount === null || amount === undefined ? empty : `₱${formatAmount(amount)}`;
+
+// jsPDF's built-in fonts have no ₱ sign, so PDFs spell the currency out
+export const formatPdfPeso = (amount: number | null | undefined, empty = "N/A") =>
+  amount === null || amount === undefined ? empty : `PHP ${formatAmount(amount)}`;
@@ -0,0 +1,62 @@
+// Sends email through Resend. RESEND_API_URL points the functions at another
+// endpoint, such as supabase/scripts/mock-mail-server.ts when testing locally.
+
+const DEFAULT_RESEND_API_URL = "https://api.resend.com/emails";
+
+export const EMAIL_FROM = "Top Powdercoating <notifications@updates.dlsu.edu.ph>";
+
+export interface EmailAttachment {
+  filename: string;
+  // Base64 encoded file contents
+  content: string;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  // Plain-text alternative for mail clients that don't show HTML
+  text?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailResult {
+  ok: boolean;
+  body: unknown;
+}
+
+export const isEmailConfigured = () => !!Deno.env.get("RESEND_API_KEY");
+
+// Addresses on the reserved .invalid domain, like the ones walk-in customers
+// get, can never receive mail
+export const isDeliverableEmail = (address: string) => !/\.invalid$/i.test(address.trim());
+
+export const sendEmail = async (message: EmailMessage): Promise<EmailResult> => {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  if (!resendApiKey) {
+    throw new Error("RESEND_API_KEY not configured");
+  }
+
+  const to = message.to.filter(isDeliverableEmail);
+  if (to.length === 0) {
+    throw new Error("No deliverable recipients");
+  }
+
+  const response = await fetch(Deno.env.get("RESEND_API_URL") || DEFAULT_RESEND_API_URL, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${resendApiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ from: EMAIL_FROM, ...message, to }),
+  });
+
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Gateway and proxy errors come back as plain text or HTML
+  }
+  return { ok: response.ok, body };
+};
@@ -0,0 +1,214 @@
+// Client email templates. Admins can override any template from the Email
+// Templates page; the defaults here are used until they do. Shared by the
+// web app's editor and preview (via src/lib/emailTemplates.ts) and the edge
+// functions that send the emails.
+
+// Must match the email_template_key enum
+export const EMAIL_TEMPLATE_KEYS = [
+  "order_received",
+  "quote_issued",
+  "counter_offer",
+  "status_change",
+  "order_delayed",
+  "ready_for_pickup",
+] as const;
+
+export type EmailTemplateKey = (typeof EMAIL_TEMPLATE_KEYS)[number];
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateKey, { label: string; description: string }> = {
+  order_received: { label: "Order received", description: "Sent when a client submits an order" },
+  quote_issued: { label: "Quote issued", description: "Sent when an admin quotes or re-quotes an order" },
+  counter_offer: { label: "Counter-offer", description: "Sent when an admin answers with a counter-offer" },
+  status_change: { label: "Status change", description: "Sent when an order moves to a new stage" },
+  order_delayed: { label: "Delayed", description: "Sent when an order is marked delayed" },
+  ready_for_pickup: { label: "Ready for pickup", description: "Sent when an order is completed" },
+};
+
+export const EMAIL_TEMPLATE_VARIABLES = [
+  { key: "order_number", description: "Order number, e.g. ORD-20251201-0001" },
+  { key: "client_name", description: "Client's full name" },
+  { key: "project_name", description: "Project name on the order" },
+  { key: "status", description: "Current order status" },
+  { key: "quoted_price", description: "Quoted price in pesos" },
+  { key: "estimated_completion", description: "Estimated completion date" },
+] as const;
+
+export type EmailTemplateVariable = (typeof EMAIL_TEMPLATE_VARIABLES)[number]["key"];
+
+export type EmailTemplateValues = Record<EmailTemplateVariable, string>;
+
+export interface EmailTemplateContent {
+  subject: string;
+  html_body: string;
+  text_body: string;
+}
+
+// Values used by the preview and by test sends
+export const SAMPLE_TEMPLATE_VALUES: EmailTemplateValues = {
+  order_number: "ORD-20251201-0001",
+  client_name: "Juan Dela Cruz",
+  project_name: "Gate railings",
+  status: "Coating",
+  quoted_price: "₱12,500.00",
+  estimated_completion: "December 20, 2025",
+};
+
+interface LayoutOptions {
+  color: string;
+  background: string;
+  textColor: string;
+  heading: string;
+  body: string;
+  callout: string;
+  footer: string;
+}
+
+// The shared look of every default email: a heading, a paragraph, a colored
+// callout and a footer line
+const layout = ({ color, background, textColor, heading, body, callout, footer }: LayoutOptions) => `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1 style="color: ${color};">${heading}</h1>
+  <p style="font-size: 16px; color: #333;">
+    ${body}
+  </p>
+  <div style="background: ${background}; border-left: 4px solid ${color}; padding: 15px; margin: 20px 0;">
+    <p style="margin: 0; color: ${textColor};">${callout}</p>
+  </div>
+  <p style="color: #666; font-size: 14px;">
+    ${footer}
+  </p>
+</div>`;
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateContent> = {
+  order_received: {
+    subject: "📥 Order {{order_number}} Received",
+    html_body: layout({
+      color: "#3b82f6",
+      background: "#eff6ff",
+      textColor: "#1e40af",
+      heading: "We Received Your Order",
+      body: "Hi {{client_name}}, thank you for your order <strong>{{order_number}}</strong> ({{project_name}}).",
+      callout: "Our team is reviewing it and will send you a quote shortly.",
+      footer: "You can log in to your account to follow your order.",
+    }),
+    text_body:
+      "Hi {{client_name}},\n\nThank you for your order {{order_number}} ({{project_name}}). Our team is reviewing it and will send you a quote shortly.\n\nYou can log in to your account to follow your order.",
+  },
+  quote_issued: {
+    subject: "💬 Quote Ready for Order {{order_number}}",
+    html_body: layout({
+      color: "#3b82f6",
+      background: "#eff6ff",
+      textColor: "#1e40af",
+      heading: "Your Quote is Ready",
+      body: "Hi {{client_name}}, we have prepared a quote for your order <strong>{{order_number}}</strong>.",
+      callout: "<strong>Quoted Price:</strong> {{quoted_price}}",
+      footer: "Log in to your account to approve the quote or send us a counter-offer.",
+    }),
+    text_body:
+      "Hi {{client_name}},\n\nWe have prepared a quote for your order {{order_number}}.\n\nQuoted price: {{quoted_price}}\n\nLog in to your account to approve the quote or send us a counter-offer.",
+  },
+  counter_offer: {
+    subject: "💬 Counter-Offer for Order {{order_number}}",
+    html_body: layout({
+      color: "#f59e0b",
+      background: "#fffbeb",
+      textColor: "#92400e",
+      heading: "We Sent You a Counter-Offer",
+      body: "Hi {{client_name}}, we have responded to your offer on order <strong>{{order_number}}</strong>.",
+      callout: "<strong>Our Offer:</strong> {{quoted_price}}",
+      footer: "Log in to your account to review and respond to the offer.",
+    }),
+    text_body:
+      "Hi {{client_name}},\n\nWe have responded to your offer on order {{order_number}}.\n\nOur offer: {{quoted_price}}\n\nLog in to your account to review and respond to the offer.",
+  },
+  status_change: {
+    subject: "📦 Order {{order_number}} Status Update",
+    html_body: layout({
+      color: "#3b82f6",
+      background: "#eff6ff",
+      textColor: "#1e40af",
+      heading: "Order Status Update",
+      body: "Your order <strong>{{order_number}}</strong> status has been updated.",
+      callout: "<strong>New Status:</strong> {{status}}",
+      footer: "You can log in to your account to view more details about your order.",
+    }),
+    text_body:
+      "Hi {{client_name}},\n\nYour order {{order_number}} status has been updated.\n\nNew status: {{status}}\n\nYou can log in to your account to view more details about your order.",
+  },
+  order_delayed: {
+    subject: "⚠️ Order {{order_number}} Delayed",
+    html_body: layout({
+      color: "#ef4444",
+      background: "#fef2f2",
+      textColor: "#991b1b",
+      heading: "Order Update: Delay Notice",
+      body: "We apologize, but your order <strong>{{order_number}}</strong> has been delayed.",
+      callout: "We will update you as soon as possible with more information.",
+      footer: "We sincerely apologize for any inconvenience this may cause.",
+    }),
+    text_body:
+      "Hi {{client_name}},\n\nWe apologize, but your order {{order_number}} has been delayed. We will update you as soon as possible with more information.\n\nWe sincerely apologize for any inconvenience this may cause.",
+  },
+  ready_for_pickup: {
+    subject: "🎉 Order {{order_number}} Completed!",
+    html_body: layout({
+      color: "#22c55e",
+      background: "#f0fdf4",
+      textColor: "#166534",
+      heading: "Great News! Your Order is Complete",
+      body: "Your order <strong>{{order_number}}</strong> has been completed and is ready for pickup/delivery.",
+      callout: "Thank you for choosing our services!",
+      footer: "If you have any questions, please don't hesitate to contact us.",
+    }),
+    text_body:
+      "Hi {{client_name}},\n\nGreat news! Your order {{order_number}} has been completed and is ready for pickup/delivery.\n\nThank you for choosing our services! If you have any questions, please don't hesitate to contact us.",
+  },
+};
+
+// Status emails use the template for the status the order moved to
+export const getStatusTemplateKey = (status: string): EmailTemplateKey => {
+  if (status === "completed") return "ready_for_pickup";
+  if (status === "delayed") return "order_delayed";
+  return "status_change";
+};
+
+export const isEmailTemplateKey = (value: string): value is EmailTemplateKey =>
+  (EMAIL_TEMPLATE_KEYS as readonly string[]).includes(value);
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const isTemplateVariable = (name: string): name is EmailTemplateVariable =>
+  EMAIL_TEMPLATE_VARIABLES.some((variable) => variable.key === name);
+
+// Placeholders that aren't variables are left in place so they stand out in
+// the preview
+const fill = (template: string, values: EmailTemplateValues, escape: boolean) =>
+  template.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if (!isTemplateVariable(name)) return match;
+    return escape ? escapeHtml(values[name]) : values[name];
+  });
+
+export const renderEmailTemplate = (template: EmailTemplateContent, values: EmailTemplateValues) => ({
+  subject: fill(template.subject, values, false),
+  html: fill(template.html_body, values, true),
+  text: fill(template.text_body, values, false),
+});
+
+// Placeholders in a template that don't name a variable, usually typos
+export const findUnknownVariables = (template: EmailTemplateContent) => {
+  const unknown = new Set<string>();
+  for (const part of [template.subject, template.html_body, template.text_body]) {
+    for (const match of part.matchAll(VARIABLE_PATTERN)) {
+      if (!isTemplateVariable(match[1])) unknown.add(match[1]);
+    }
+  }
+  return Array.from(unknown);
+};
@@ -0,0 +1,138 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { EmailMessage, sendEmail } from "./email.ts";
+import { SmsMessage, sendSms } from "./sms.ts";
+
+// Records outbound notifications in notification_deliveries and sends them.
+// A failed attempt is retried with backoff by the retry-notification-deliveries
+// function until the delivery runs out of attempts; admins can also resend
+// one from the Deliveries page.
+
+// Minutes to wait after each failed attempt before the next one
+export const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+// How long a delivery being sent right now is hidden from the retry worker
+const IN_FLIGHT_MINUTES = 10;
+
+export interface NotificationDelivery {
+  id: string;
+  channel: "in_app" | "email" | "sms";
+  recipient: string;
+  payload: unknown;
+  status: "pending" | "sent" | "failed";
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface NewEmailDelivery {
+  user_id: string | null;
+  order_id: string | null;
+  template: string | null;
+  message: EmailMessage;
+}
+
+export interface NewSmsDelivery {
+  user_id: string | null;
+  order_id: string | null;
+  message: SmsMessage;
+}
+
+const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+export const getRetryDelayMinutes = (attempts: number) =>
+  RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+
+const describeProviderError = (body: unknown) => {
+  if (body && typeof body === "object" && "message" in body) {
+    return String((body as { message: unknown }).message);
+  }
+  if (typeof body === "string" && body) return body;
+  return "The provider rejected the message";
+};
+
+const sendPayload = async (delivery: NotificationDelivery) => {
+  switch (delivery.channel) {
+    case "email":
+      return sendEmail(delivery.payload as EmailMessage);
+    case "sms":
+      return sendSms(delivery.payload as SmsMessage);
+    default:
+      throw new Error(`Cannot send ${delivery.channel} deliveries`);
+  }
+};
+
+// Makes one attempt and records it. Failures are scheduled for a retry while
+// attempts remain and marked failed after that.
+export const attemptDelivery = async (
+  supabase: SupabaseClient,
+  delivery: NotificationDelivery
+): Promise<NotificationDelivery & { last_error: string | null }> => {
+  let ok = false;
+  let response: unknown = null;
+  let error: string | null = null;
+
+  try {
+    const result = await sendPayload(delivery);
+    ok = result.ok;
+    response = result.body;
+    if (!ok) error = describeProviderError(result.body);
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : String(sendError);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const retry = !ok && attempts < delivery.max_attempts;
+  const now = new Date().toISOString();
+
+  const { data, error: updateError } = await supabase
+    .from("notification_deliveries")
+    .update({
+      status: ok ? "sent" : retry ? "pending" : "failed",
+      attempts,
+      provider_response: response,
+      last_error: error,
+      last_attempt_at: now,
+      next_attempt_at: retry ? minutesFromNow(getRetryDelayMinutes(attempts)) : null,
+      sent_at: ok ? now : null,
+    })
+    .eq("id", delivery.id)
+    .select()
+    .single();
+
+  if (updateError) throw updateError;
+  return data;
+};
+
+// Logs a delivery and makes the first attempt straight away
+const deliver = async (supabase: SupabaseClient, row: Record<string, unknown>) => {
+  const { data, error } = await supabase
+    .from("notification_deliveries")
+    .insert({
+      ...row,
+      // Kept away from the retry worker until this first attempt is recorded
+      next_attempt_at: minutesFromNow(IN_FLIGHT_MINUTES),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return attemptDelivery(supabase, data);
+};
+
+export const deliverEmail = (supabase: SupabaseClient, delivery: NewEmailDelivery) =>
+  deliver(supabase, {
+    user_id: delivery.user_id,
+    order_id: delivery.order_id,
+    template: delivery.template,
+    channel: "email",
+    recipient: delivery.message.to.join(", "),
+    payload: delivery.message,
+  });
+
+export const deliverSms = (supabase: SupabaseClient, delivery: NewSmsDelivery) =>
+  deliver(supabase, {
+    user_id: delivery.user_id,
+    order_id: delivery.order_id,
+    channel: "sms",
+    recipient: delivery.message.to,
+    payload: delivery.message,
+  });
@@ -0,0 +1,238 @@
+// Spreadsheet columns and row validation for the walk-in order import. The
+// admin's browser validates a file before uploading it and the
+// import-walk-in-orders edge function validates every row again before
+// creating anything.
+
+// Must match the order_priority, finish_type and texture_type enums
+export const ORDER_PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+export const FINISH_TYPES = ["matte", "glossy", "satin"] as const;
+export const TEXTURE_TYPES = ["smooth", "textured", "hammered"] as const;
+
+export type ImportPriority = (typeof ORDER_PRIORITIES)[number];
+export type ImportFinish = (typeof FINISH_TYPES)[number];
+export type ImportTexture = (typeof TEXTURE_TYPES)[number];
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Customers without an email get an address on a reserved domain (RFC 2606)
+// so their account can be found again on the next import. Mail is never sent
+// there, see isDeliverableEmail in email.ts.
+export const WALK_IN_EMAIL_DOMAIN = "walk-in.invalid";
+
+// Account email for a walk-in customer, keyed by their E.164 phone number
+export const getWalkInEmail = (phone: string) => `walk-in.${phone.replace(/\D/g, "")}@${WALK_IN_EMAIL_DOMAIN}`;
+
+export const IMPORT_COLUMNS = [
+  { key: "customer_name", header: "Customer Name", required: true, example: "Juan Dela Cruz" },
+  { key: "customer_email", header: "Customer Email", required: false, example: "juan@example.com" },
+  { key: "customer_phone", header: "Customer Phone", required: false, example: "0917 123 4567" },
+  { key: "company", header: "Company", required: false, example: "" },
+  { key: "project_name", header: "Project Name", required: true, example: "Gate railings" },
+  { key: "description", header: "Description", required: true, example: "Six wrought iron railing panels" },
+  { key: "quantity", header: "Quantity", required: true, example: "6" },
+  { key: "finish", header: "Finish", required: true, example: "matte" },
+  { key: "texture", header: "Texture", required: true, example: "smooth" },
+  { key: "color", header: "Color", required: true, example: "RAL 9005" },
+  { key: "priority", header: "Priority", required: false, example: "medium" },
+  { key: "dimensions", header: "Dimensions", required: false, example: "1.2m x 0.9m" },
+  { key: "notes", header: "Notes", required: false, example: "" },
+] as const;
+
+export type ImportColumnKey = (typeof IMPORT_COLUMNS)[number]["key"];
+
+export type RawImportRow = Partial<Record<ImportColumnKey, string>>;
+
+// Catalog colors an imported row can name, by name, RAL code or hex code
+export interface ImportColorOption {
+  id: string;
+  name: string;
+  ral_code: string | null;
+  hex_code: string;
+  catalog_color_options: { finish: string; texture: string }[];
+}
+
+export interface OrderImportRow {
+  customer_name: string;
+  customer_email: string | null;
+  customer_phone: string | null;
+  company: string | null;
+  project_name: string;
+  description: string;
+  quantity: number;
+  finish: ImportFinish;
+  texture: ImportTexture;
+  // Hex code stored on the customization, and the catalog entry when matched
+  color: string;
+  color_id: string | null;
+  priority: ImportPriority;
+  dimensions: string | null;
+  notes: string | null;
+}
+
+// Outcome of one spreadsheet row: the created order, or the errors that stopped it
+export interface ImportRowResult {
+  row: number;
+  success: boolean;
+  order_number?: string;
+  customer?: string;
+  errors?: string[];
+}
+
+export type ImportValidation = { row: OrderImportRow; errors?: never } | { row?: never; errors: string[] };
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const HEX_PATTERN = /^#?[0-9a-f]{6}$/i;
+
+const isOneOf = <T extends string>(values: readonly T[], value: string): value is T =>
+  (values as readonly string[]).includes(value);
+
+// Maps each spreadsheet column to an import field, matching headers like
+// "Customer Name", "customer_name" or "CUSTOMER NAME". Unknown columns are ignored.
+export const mapImportHeaders = (headers: string[]) => {
+  const mapping: (ImportColumnKey | null)[] = headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const column = IMPORT_COLUMNS.find(
+      (col) => normalizeHeader(col.header) === normalized || normalizeHeader(col.key) === normalized
+    );
+    return column ? column.key : null;
+  });
+
+  const missing = IMPORT_COLUMNS.filter((col) => col.required && !mapping.includes(col.key)).map((col) => col.header);
+
+  return { mapping, missing };
+};
+
+export const toRawImportRow = (cells: string[], mapping: (ImportColumnKey | null)[]): RawImportRow => {
+  const row: RawImportRow = {};
+  mapping.forEach((key, index) => {
+    if (key) row[key] = (cells[index] ?? "").trim();
+  });
+  return row;
+};
+
+export const isBlankImportRow = (row: RawImportRow) => Object.values(row).every((value) => !value);
+
+const resolveColor = (value: string, finish: string, texture: string, colors: ImportColorOption[]) => {
+  const search = value.trim().toLowerCase();
+  const catalogColor = colors.find(
+    (color) =>
+      color.name.toLowerCase() === search ||
+      color.ral_code?.toLowerCase() === search ||
+      color.hex_code.toLowerCase() === (search.startsWith("#") ? search : `#${search}`)
+  );
+
+  if (catalogColor) {
+    const offered = catalogColor.catalog_color_options.some(
+      (option) => option.finish === finish && option.texture === texture
+    );
+    if (!offered) {
+      return { error: `${catalogColor.name} is not offered in a ${finish} ${texture} finish` };
+    }
+    return { color: catalogColor.hex_code.toUpperCase(), color_id: catalogColor.id };
+  }
+
+  // Anything else has to be a custom hex code
+  if (HEX_PATTERN.test(search)) {
+    return { color: `#${search.replace("#", "").toUpperCase()}`, color_id: null };
+  }
+
+  return { error: `Color "${value}" is not in the catalog and is not a hex code like #1A2B3C` };
+};
+
+// Checks one spreadsheet row and returns either the order to create or
+// every problem found, so the error report lists them all at once
+// normalizePhone is normalizePhoneNumber from phone.ts, passed in to keep this
+// file free of imports
+export const validateImportRow = (
+  raw: RawImportRow,
+  colors: ImportColorOption[],
+  normalizePhone: (phone: string) => string | null
+): ImportValidation => {
+  const errors: string[] = [];
+  const text = (key: ImportColumnKey) => raw[key]?.trim() || "";
+
+  for (const column of IMPORT_COLUMNS) {
+    if (column.required && !text(column.key)) errors.push(`${column.header} is required`);
+  }
+
+  const customerEmail = text("customer_email").toLowerCase();
+  const customerPhone = text("customer_phone");
+  const normalizedPhone = customerPhone ? normalizePhone(customerPhone) : null;
+  if (!customerEmail && !customerPhone) {
+    errors.push("Enter a customer email or phone number");
+  }
+  if (customerEmail && !EMAIL_PATTERN.test(customerEmail)) {
+    errors.push(`Customer Email "${customerEmail}" is not a valid email address`);
+  }
+  if (customerPhone && !normalizedPhone) {
+    errors.push(`Customer Phone "${customerPhone}" is not a valid phone number`);
+  }
+
+  const projectName = text("project_name");
+  if (projectName.length > 100) errors.push("Project Name must be less than 100 characters");
+
+  const description = text("description");
+  if (description && description.length < 10) errors.push("Description must be at least 10 characters");
+  if (description.length > 1000) errors.push("Description must be less than 1000 characters");
+
+  const notes = text("notes");
+  if (notes.length > 1000) errors.push("Notes must be less than 1000 characters");
+
+  const quantityText = text("quantity");
+  const quantity = Number(quantityText);
+  if (quantityText && (!Number.isInteger(quantity) || quantity < 1)) {
+    errors.push(`Quantity "${quantityText}" must be a whole number of at least 1`);
+  }
+
+  const finish = text("finish").toLowerCase();
+  if (finish && !isOneOf(FINISH_TYPES, finish)) {
+    errors.push(`Finish "${text("finish")}" must be one of ${FINISH_TYPES.join(", ")}`);
+  }
+
+  const texture = text("texture").toLowerCase();
+  if (texture && !isOneOf(TEXTURE_TYPES, texture)) {
+    errors.push(`Texture "${text("texture")}" must be one of ${TEXTURE_TYPES.join(", ")}`);
+  }
+
+  const priority = text("priority").toLowerCase() || "medium";
+  if (!isOneOf(ORDER_PRIORITIES, priority)) {
+    errors.push(`Priority "${text("priority")}" must be one of ${ORDER_PRIORITIES.join(", ")}`);
+  }
+
+  let color: { color?: string; color_id?: string | null; error?: string } = {};
+  if (text("color") && isOneOf(FINISH_TYPES, finish) && isOneOf(TEXTURE_TYPES, texture)) {
+    color = resolveColor(text("color"), finish, texture, colors);
+    if (color.error) errors.push(color.error);
+  }
+
+  if (
+    errors.length > 0 ||
+    !isOneOf(FINISH_TYPES, finish) ||
+    !isOneOf(TEXTURE_TYPES, texture) ||
+    !isOneOf(ORDER_PRIORITIES, priority) ||
+    !color.color
+  ) {
+    return { errors };
+  }
+
+  return {
+    row: {
+      customer_name: text("customer_name"),
+      customer_email: customerEmail || null,
+      customer_phone: normalizedPhone,
+      company: text("company") || null,
+      project_name: projectName,
+      description,
+      quantity,
+      finish,
+      texture,
+      color: color.color,
+      color_id: color.color_id ?? null,
+      priority,
+      dimensions: text("dimensions") || null,
+      notes: notes || null,
+    },
+  };
+};
@@ -0,0 +1,213 @@
+// Canonical definition of the order_status enum's workflow, shared by the web
+// app (via src/lib/orderStatus.ts) and the Deno edge functions. The routing
+// rules in resolveRoutingStep must stay in sync with
+// public.validate_order_status_transition in the database.
+
+export type OrderStatus =
+  | "pending_quote"
+  | "queued"
+  | "sand-blasting"
+  | "coating"
+  | "curing"
+  | "quality-check"
+  | "completed"
+  | "delayed";
+
+export interface OrderStatusDefinition {
+  label: string;
+  description: string;
+  // null means progress comes from the order (its routing step, or where it
+  // was when delayed)
+  progress: number | null;
+  // Team department responsible for working the stage
+  department: string | null;
+}
+
+export const ORDER_STATUS_DEFINITIONS: Record<OrderStatus, OrderStatusDefinition> = {
+  pending_quote: {
+    label: "Pending Quote",
+    description: "Awaiting price quote",
+    progress: 0,
+    department: null,
+  },
+  queued: {
+    label: "Queued",
+    description: "Order queued for production",
+    progress: 10,
+    department: null,
+  },
+  "sand-blasting": {
+    label: "Sand Blasting",
+    description: "Surface preparation",
+    progress: null,
+    department: "Sand Blasting",
+  },
+  coating: {
+    label: "Coating",
+    description: "Coating application",
+    progress: null,
+    department: "Coating",
+  },
+  curing: {
+    label: "Curing",
+    description: "Heat curing process",
+    progress: null,
+    department: "Curing",
+  },
+  "quality-check": {
+    label: "Quality Check",
+    description: "Quality assurance",
+    progress: null,
+    department: "Quality Control",
+  },
+  completed: {
+    label: "Completed",
+    description: "Ready for pickup",
+    progress: 100,
+    department: null,
+  },
+  delayed: {
+    label: "Delayed",
+    description: "On hold, needs attention",
+    progress: null,
+    department: null,
+  },
+};
+
+// Stages an order can be routed through between queued and completed
+export const PRODUCTION_STAGES: OrderStatus[] = ["sand-blasting", "coating", "curing", "quality-check"];
+
+// Routing given to new orders unless the admin changes it
+export const DEFAULT_ROUTING: OrderStatus[] = [...PRODUCTION_STAGES];
+
+// Default happy-path order of stages, used for overview timelines
+export const ORDER_STATUS_FLOW: OrderStatus[] = ["pending_quote", "queued", ...DEFAULT_ROUTING, "completed"];
+
+export const isOrderStatus = (status: string): status is OrderStatus => {
+  return status in ORDER_STATUS_DEFINITIONS;
+};
+
+export const isProductionStage = (status: string): boolean => {
+  return PRODUCTION_STAGES.some((stage) => stage === status);
+};
+
+export const getStatusLabel = (status: string): string => {
+  return isOrderStatus(status) ? ORDER_STATUS_DEFINITIONS[status].label : status;
+};
+
+// Stages are spread evenly between queued (10%) and completed (100%).
+// Mirrors public.get_routing_progress
+export const getRoutingProgress = (routing: OrderStatus[], step: number): number => {
+  return 10 + Math.round((step * 90) / (routing.length + 1));
+};
+
+export const getStatusProgress = (
+  status: string,
+  currentProgress = 0,
+  routing?: OrderStatus[] | null,
+  routingStep?: number | null,
+): number => {
+  if (!isOrderStatus(status)) return currentProgress;
+  if (routing && routingStep && routing[routingStep - 1] === status) {
+    return getRoutingProgress(routing, routingStep);
+  }
+  return ORDER_STATUS_DEFINITIONS[status].progress ?? currentProgress;
+};
+
+export const getRequiredDepartment = (status: string): string | null => {
+  return isOrderStatus(status) ? ORDER_STATUS_DEFINITIONS[status].department : null;
+};
+
+export interface RoutingPosition {
+  status: OrderStatus;
+  // 1-based position in the routing, null outside production
+  step: number | null;
+}
+
+// Whether a delayed order may move to the given status. Orders in production
+// resume at the stage they stopped at; orders delayed before production go back
+// to the status they had, or back to quoting. Mirrors public.can_resume_from_delay
+export const canResumeFromDelay = (
+  delayedFrom: string | null,
+  routing: OrderStatus[],
+  step: number | null,
+  to: string,
+): boolean => {
+  if (step) return routing[step - 1] === to;
+  return to === "pending_quote" || (to === "queued" && delayedFrom === "queued");
+};
+
+// Resolves where a status change lands in the order's routing, or null when the
+// change isn't allowed. delayedFrom is the status a delayed order was delayed
+// from. Mirrors public.validate_order_status_transition
+export const resolveRoutingStep = (
+  from: string,
+  to: string,
+  routing: OrderStatus[],
+  step: number | null,
+  delayedFrom: string | null = null,
+): RoutingPosition | null => {
+  if (!isOrderStatus(from) || !isOrderStatus(to)) return null;
+  if (from === to) return { status: to, step };
+  if (from === "completed") return null;
+
+  if (to === "delayed") return { status: to, step };
+  if (from === "delayed" && !canResumeFromDelay(delayedFrom, routing, step, to)) return null;
+  if (to === "pending_quote") return from === "queued" || from === "delayed" ? { status: to, step: null } : null;
+  if (to === "queued") return from === "pending_quote" || from === "delayed" ? { status: to, step: null } : null;
+
+  let nextStep: number;
+  if (from === "queued") {
+    nextStep = 1;
+  } else if (from === "delayed") {
+    nextStep = step ?? 0;
+  } else if (from === "quality-check" && to === "coating") {
+    // Failed inspections go back to the first coating step for rework
+    nextStep = routing.indexOf("coating") + 1;
+  } else if (routing.includes(from)) {
+    nextStep = (step ?? routing.indexOf(from) + 1) + 1;
+  } else {
+    return null;
+  }
+
+  if (nextStep === 0) return null;
+  if (nextStep > routing.length) return to === "completed" ? { status: to, step: null } : null;
+  return routing[nextStep - 1] === to ? { status: to, step: nextStep } : null;
+};
+
+export const getAllowedTransitions = (
+  status: string,
+  routing: OrderStatus[],
+  step: number | null,
+  delayedFrom: string | null = null,
+): OrderStatus[] => {
+  return (Object.keys(ORDER_STATUS_DEFINITIONS) as OrderStatus[]).filter(
+    (next) => next !== status && resolveRoutingStep(status, next, routing, step, delayedFrom) !== null,
+  );
+};
+
+export const canTransition = (
+  from: string,
+  to: string,
+  routing: OrderStatus[],
+  step: number | null,
+  delayedFrom: string | null = null,
+): boolean => {
+  return resolveRoutingStep(from, to, routing, step, delayedFrom) !== null;
+};
+
+// Next stage in the order's routing (completed after the last one), or null
+// when the order can't simply advance
+export const getNextStage = (
+  status: string,
+  routing: OrderStatus[],
+  step: number | null,
+): RoutingPosition | null => {
+  if (!isOrderStatus(status)) return null;
+  if (status === "queued") return { status: routing[0], step: 1 };
+  if (!routing.includes(status)) return null;
+
+  const nextStep = (step ?? routing.indexOf(status) + 1) + 1;
+  if (nextStep > routing.length) return { status: "completed", step: null };
+  return { status: routing[nextStep - 1], step: nextStep };
+};
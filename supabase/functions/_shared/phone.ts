@@ -0,0 +1,30 @@
+// Phone number normalization to E.164 (+<country code><number>), shared by the
+// web app (via src/lib/phone.ts) and the Deno edge functions. The rules must
+// stay in sync with public.normalize_phone in the database, which normalizes
+// profiles.phone on save.
+
+// Numbers written without a country code are Philippine numbers
+export const DEFAULT_COUNTRY_CODE = "63";
+
+// Returns null when the input can't be read as a phone number
+export const normalizePhoneNumber = (input: string | null | undefined): string | null => {
+  const value = (input || "").trim();
+  let digits = value.replace(/\D/g, "");
+
+  if (value.startsWith("+") || digits.startsWith("00")) {
+    // Already international; 00 is the international dialing prefix
+    if (!value.startsWith("+")) digits = digits.slice(2);
+  } else if (/^0\d{9,10}$/.test(digits)) {
+    // Local format with the trunk prefix, like 0917 123 4567 or 02 8123 4567
+    digits = DEFAULT_COUNTRY_CODE + digits.slice(1);
+  } else if (/^9\d{9}$/.test(digits)) {
+    // Mobile number without the leading 0
+    digits = DEFAULT_COUNTRY_CODE + digits;
+  } else if (!new RegExp(`^${DEFAULT_COUNTRY_CODE}\\d{9,10}$`).test(digits)) {
+    return null;
+  }
+
+  return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+};
+
+export const isValidPhoneNumber = (input: string | null | undefined) => normalizePhoneNumber(input) !== null;
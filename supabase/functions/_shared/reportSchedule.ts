@@ -0,0 +1,81 @@
+// Report categories and relative date ranges shared by the Reports page and
+// the send-scheduled-reports edge function.
+
+export type ReportCategory =
+  | "orderVolume"
+  | "productionPipeline"
+  | "stageCycleTimes"
+  | "teamAssignments"
+  | "priorityBreakdown"
+  | "clientStatistics"
+  | "orderSpecifications"
+  | "financials";
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  orderVolume: "Order Volume & Status",
+  productionPipeline: "Stage Distribution",
+  stageCycleTimes: "Stage Cycle Times",
+  teamAssignments: "Team Assignments",
+  priorityBreakdown: "Priority Breakdown",
+  clientStatistics: "Client Statistics",
+  orderSpecifications: "Order Specifications",
+  financials: "Revenue & Receivables",
+};
+
+export const REPORT_CATEGORIES = Object.keys(REPORT_CATEGORY_LABELS) as ReportCategory[];
+
+export const isReportCategory = (value: string): value is ReportCategory => value in REPORT_CATEGORY_LABELS;
+
+// Must match the report_date_range enum in the database
+export type ReportDateRange =
+  | "previous_day"
+  | "last_7_days"
+  | "last_30_days"
+  | "previous_month"
+  | "this_quarter"
+  | "this_year";
+
+export const REPORT_DATE_RANGE_LABELS: Record<ReportDateRange, string> = {
+  previous_day: "Previous day",
+  last_7_days: "Last 7 days",
+  last_30_days: "Last 30 days",
+  previous_month: "Previous calendar month",
+  this_quarter: "Quarter to date",
+  this_year: "Year to date",
+};
+
+export const REPORT_TIME_ZONE = "Asia/Manila";
+// The Philippines has no daylight saving time
+const REPORT_UTC_OFFSET_HOURS = 8;
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+// First and last day (yyyy-MM-dd) a report sent at `now` covers, counted in
+// the shop's time zone whatever zone the caller runs in
+export const resolveReportRange = (range: ReportDateRange, now: Date = new Date()) => {
+  const shifted = new Date(now.getTime() + REPORT_UTC_OFFSET_HOURS * 60 * 60 * 1000);
+  const today = new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate()));
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+
+  switch (range) {
+    case "previous_day":
+      return { start: toDateString(addDays(today, -1)), end: toDateString(addDays(today, -1)) };
+    // Both ends are inclusive, so the last 7 days start 6 days before today
+    case "last_7_days":
+      return { start: toDateString(addDays(today, -6)), end: toDateString(today) };
+    case "last_30_days":
+      return { start: toDateString(addDays(today, -29)), end: toDateString(today) };
+    case "previous_month":
+      return {
+        start: toDateString(new Date(Date.UTC(year, month - 1, 1))),
+        end: toDateString(new Date(Date.UTC(year, month, 0))),
+      };
+    case "this_quarter":
+      return { start: toDateString(new Date(Date.UTC(year, month - (month % 3), 1))), end: toDateString(today) };
+    case "this_year":
+      return { start: toDateString(new Date(Date.UTC(year, 0, 1))), end: toDateString(today) };
+  }
+};
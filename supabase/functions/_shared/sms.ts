@@ -0,0 +1,102 @@
+// Sends text messages through the provider named by SMS_PROVIDER: "semaphore"
+// (the default, for Philippine numbers) or "twilio". SMS_API_URL points the
+// functions at another endpoint, such as supabase/scripts/mock-sms-server.ts
+// when testing locally. Add a provider by implementing SmsProvider and listing
+// it in SMS_PROVIDERS.
+
+export interface SmsMessage {
+  // E.164 phone number, see normalizePhoneNumber
+  to: string;
+  body: string;
+}
+
+export interface SmsResult {
+  ok: boolean;
+  body: unknown;
+}
+
+export interface SmsProvider {
+  // Environment variables the provider needs before it can send
+  requiredEnv: string[];
+  send: (message: SmsMessage, apiUrl: string | undefined) => Promise<SmsResult>;
+}
+
+const readResponse = async (response: Response): Promise<SmsResult> => {
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Some provider errors are plain text
+  }
+  return { ok: response.ok, body };
+};
+
+const semaphore: SmsProvider = {
+  requiredEnv: ["SEMAPHORE_API_KEY"],
+  send: async (message, apiUrl) => {
+    const form = new URLSearchParams({
+      apikey: Deno.env.get("SEMAPHORE_API_KEY")!,
+      // Semaphore takes the number without the leading +
+      number: message.to.replace(/^\+/, ""),
+      message: message.body,
+    });
+    const senderName = Deno.env.get("SMS_SENDER_NAME");
+    if (senderName) form.set("sendername", senderName);
+
+    const response = await fetch(apiUrl || "https://api.semaphore.co/api/v4/messages", {
+      method: "POST",
+      body: form,
+    });
+    return readResponse(response);
+  },
+};
+
+const twilio: SmsProvider = {
+  requiredEnv: ["TWILIO_ACCOUNT_SID", "TWILIO_AUTH_TOKEN", "TWILIO_FROM_NUMBER"],
+  send: async (message, apiUrl) => {
+    const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID")!;
+    const response = await fetch(
+      apiUrl || `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          "Authorization": `Basic ${btoa(`${accountSid}:${Deno.env.get("TWILIO_AUTH_TOKEN")}`)}`,
+        },
+        body: new URLSearchParams({
+          To: message.to,
+          From: Deno.env.get("TWILIO_FROM_NUMBER")!,
+          Body: message.body,
+        }),
+      }
+    );
+    return readResponse(response);
+  },
+};
+
+export const SMS_PROVIDERS: Record<string, SmsProvider> = { semaphore, twilio };
+
+const getProviderName = () => (Deno.env.get("SMS_PROVIDER") || "semaphore").toLowerCase();
+
+const getProvider = () => {
+  const provider = SMS_PROVIDERS[getProviderName()];
+  if (!provider) {
+    throw new Error(`Unknown SMS_PROVIDER "${getProviderName()}"`);
+  }
+  return provider;
+};
+
+export const isSmsConfigured = () => {
+  const provider = SMS_PROVIDERS[getProviderName()];
+  return !!provider && provider.requiredEnv.every((name) => !!Deno.env.get(name));
+};
+
+export const sendSms = async (message: SmsMessage): Promise<SmsResult> => {
+  const provider = getProvider();
+  const missing = provider.requiredEnv.filter((name) => !Deno.env.get(name));
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(", ")} not configured`);
+  }
+
+  return provider.send(message, Deno.env.get("SMS_API_URL"));
+};
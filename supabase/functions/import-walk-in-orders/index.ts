@@ -0,0 +1,194 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  ImportColorOption,
+  ImportRowResult,
+  MAX_IMPORT_ROWS,
+  OrderImportRow,
+  RawImportRow,
+  getWalkInEmail,
+  validateImportRow,
+} from "../_shared/orderImport.ts";
+import { normalizePhoneNumber } from "../_shared/phone.ts";
+
+// Creates orders for walk-in customers from spreadsheet rows uploaded by an
+// admin. Each customer gets a client account, found by email (or by phone
+// number when there is no email) so repeat customers keep one order history.
+// Rows are validated again here and reported back one by one.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ImportRequestRow {
+  // Spreadsheet row number, echoed back in the results
+  row: number;
+  values: RawImportRow;
+}
+
+const getAdminUserId = async (supabase: SupabaseClient, token: string) => {
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return null;
+
+  const { data: role } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .eq("role", "admin")
+    .maybeSingle();
+  return role ? user.id : null;
+};
+
+// Validated rows have an email or a normalized phone number
+const getCustomerEmail = (row: OrderImportRow) => row.customer_email || getWalkInEmail(row.customer_phone!);
+
+const findOrCreateCustomer = async (supabase: SupabaseClient, row: OrderImportRow) => {
+  const email = getCustomerEmail(row);
+
+  const { data: existingId, error: lookupError } = await supabase.rpc("get_user_id_by_email", { _email: email });
+  if (lookupError) throw lookupError;
+  if (existingId) return existingId as string;
+
+  // The signup triggers create the profile and give the account the client role
+  const { data, error } = await supabase.auth.admin.createUser({
+    email,
+    email_confirm: true,
+    user_metadata: {
+      full_name: row.customer_name,
+      company: row.company,
+      phone: row.customer_phone,
+    },
+  });
+  if (error) throw error;
+
+  return data.user.id;
+};
+
+const createOrder = async (supabase: SupabaseClient, row: OrderImportRow, userId: string) => {
+  const { data: orderNumber, error: orderNumberError } = await supabase.rpc("generate_order_number");
+  if (orderNumberError) throw orderNumberError;
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .insert({
+      user_id: userId,
+      order_number: orderNumber,
+      project_name: row.project_name,
+      description: row.description,
+      quantity: row.quantity,
+      priority: row.priority,
+      additional_notes: row.notes,
+      status: "pending_quote",
+    })
+    .select("id, order_number")
+    .single();
+  if (orderError) throw orderError;
+
+  try {
+    const { data: item, error: itemError } = await supabase
+      .from("order_items")
+      .insert({
+        order_id: order.id,
+        position: 1,
+        description: row.description,
+        quantity: row.quantity,
+        dimensions: row.dimensions,
+      })
+      .select("id")
+      .single();
+    if (itemError) throw itemError;
+
+    const { error: customizationError } = await supabase.from("order_customizations").insert({
+      order_id: order.id,
+      order_item_id: item.id,
+      finish: row.finish,
+      texture: row.texture,
+      color: row.color,
+      color_id: row.color_id,
+    });
+    if (customizationError) throw customizationError;
+  } catch (error) {
+    // Don't leave an order without its item behind
+    await supabase.from("orders").delete().eq("id", order.id);
+    throw error;
+  }
+
+  return order.order_number as string;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    if (!(await getAdminUserId(supabase, token))) {
+      return json({ error: "Admin access required" }, 403);
+    }
+
+    const { rows }: { rows?: ImportRequestRow[] } = await req.json().catch(() => ({}));
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return json({ error: "No rows to import" }, 400);
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return json({ error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` }, 400);
+    }
+
+    const { data: colors, error: colorsError } = await supabase
+      .from("catalog_colors")
+      .select("id, name, ral_code, hex_code, catalog_color_options(finish, texture)");
+    if (colorsError) throw colorsError;
+
+    // Rows for the same customer share one account
+    const customerIds = new Map<string, string>();
+    const results: ImportRowResult[] = [];
+
+    for (const { row: rowNumber, values } of rows) {
+      const validation = validateImportRow(values || {}, (colors || []) as ImportColorOption[], normalizePhoneNumber);
+      if (validation.errors) {
+        results.push({ row: rowNumber, success: false, errors: validation.errors });
+        continue;
+      }
+
+      const row = validation.row;
+      try {
+        const customerKey = getCustomerEmail(row);
+        let userId = customerIds.get(customerKey);
+        if (!userId) {
+          userId = await findOrCreateCustomer(supabase, row);
+          customerIds.set(customerKey, userId);
+        }
+
+        const orderNumber = await createOrder(supabase, row, userId);
+        results.push({ row: rowNumber, success: true, order_number: orderNumber, customer: row.customer_name });
+      } catch (error) {
+        console.error(`Error importing row ${rowNumber}:`, error);
+        results.push({
+          row: rowNumber,
+          success: false,
+          // Database errors are plain objects rather than Error instances
+          errors: [(error as { message?: string })?.message || "Failed to create the order"],
+        });
+      }
+    }
+
+    const created = results.filter((result) => result.success).length;
+    console.log(`Imported ${created} of ${rows.length} walk-in orders`);
+
+    return json({ created, failed: rows.length - created, results });
+  } catch (error) {
+    console.error("Error in import-walk-in-orders:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { NotificationDelivery, attemptDelivery } from "../_shared/notificationDeliveries.ts";
+
+// Resends notifications whose last attempt failed. Called by pg_cron with the
+// service role key to retry every delivery that is due, or by an admin with a
+// delivery_id to resend one right away.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 50;
+
+const isAdminRequest = async (supabase: SupabaseClient, token: string) => {
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+
+  const { data: role } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .eq("role", "admin")
+    .maybeSingle();
+  return !!role;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { delivery_id }: { delivery_id?: string } = await req.json().catch(() => ({}));
+
+    // Resending one delivery is for admins; retrying everything due is for the scheduler
+    const authorized = delivery_id ? await isAdminRequest(supabase, token) : token === serviceKey;
+    if (!authorized) {
+      return json({ error: "Not authorized" }, 403);
+    }
+
+    let deliveries: NotificationDelivery[];
+    if (delivery_id) {
+      const { data, error } = await supabase.from("notification_deliveries").select("*").eq("id", delivery_id);
+      if (error) throw error;
+      if (!data?.length) return json({ error: "Delivery not found" }, 404);
+      deliveries = data;
+    } else {
+      const { data, error } = await supabase.rpc("claim_notification_deliveries", { _limit: BATCH_SIZE });
+      if (error) throw error;
+      deliveries = data || [];
+    }
+
+    const results = [];
+    for (const delivery of deliveries) {
+      const attempt = await attemptDelivery(supabase, delivery);
+      console.log(`Delivery ${attempt.id} to ${attempt.recipient}: ${attempt.status} after ${attempt.attempts} attempt(s)`);
+      results.push({ delivery_id: attempt.id, status: attempt.status, error: attempt.last_error });
+    }
+
+    if (delivery_id && results[0]?.status !== "sent") {
+      return json({ error: results[0]?.error || "Failed to send" }, 502);
+    }
+
+    return json({ success: true, results });
+  } catch (error) {
+    console.error("Error in retry-notification-deliveries:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
@@ -1,5 +1,25 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { getStatusLabel } from "../_shared/orderStatus.ts";
+import { formatPeso } from "../_shared/currency.ts";
+import { isDeliverableEmail, isEmailConfigured } from "../_shared/email.ts";
+import { isSmsConfigured } from "../_shared/sms.ts";
+import { normalizePhoneNumber } from "../_shared/phone.ts";
+import { deliverEmail, deliverSms } from "../_shared/notificationDeliveries.ts";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EmailTemplateContent,
+  EmailTemplateKey,
+  getStatusTemplateKey,
+  isEmailTemplateKey,
+  renderEmailTemplate,
+} from "../_shared/emailTemplates.ts";
+
+// Emails a client about their order using the template for the event,
+// filled in with the order's details. Admins edit the templates on the Email
+// Templates page. Clients who opted in to texts are also sent an SMS when
+// their order is completed or delayed. Callers are the database (with the
+// service role key), admins, and the client who owns the order; see canSend.
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,89 +29,124 @@ const corsHeaders = {
 interface NotificationRequest {
   user_id: string;
   order_id: string;
+  order_number?: string;
+  // Status emails pick their template from the new status
+  new_status?: string;
+  template?: EmailTemplateKey;
+}
+
+const formatCompletion = (date: string | null) =>
+  date
+    ? new Date(date).toLocaleDateString("en-US", {
+        month: "long",
+        day: "numeric",
+        year: "numeric",
+        timeZone: "Asia/Manila",
+      })
+    : "To be confirmed";
+
+interface SmsOrder {
   order_number: string;
-  new_status: string;
-  user_email?: string;
+  estimated_completion: string | null;
 }
 
-const getStatusLabel = (status: string): string => {
-  const statusMap: Record<string, string> = {
-    'pending_quote': 'Pending Quote',
-    'queued': 'Queued',
-    'sand-blasting': 'Sand Blasting',
-    'coating': 'Coating',
-    'curing': 'Curing',
-    'quality-check': 'Quality Check',
-    'completed': 'Completed',
-    'delayed': 'Delayed',
-  };
-  return statusMap[status] || status;
+// Statuses clients can be texted about, kept short enough for a single SMS
+const SMS_STATUS_MESSAGES: Record<string, (order: SmsOrder) => string> = {
+  completed: (order) =>
+    `Top Powdercoating: Your order ${order.order_number} is ready for pickup. Thank you!`,
+  delayed: (order) =>
+    `Top Powdercoating: Your order ${order.order_number} is delayed. ` +
+    `New estimated completion: ${formatCompletion(order.estimated_completion)}. Sorry for the wait.`,
 };
 
-const getEmailContent = (orderNumber: string, status: string): { subject: string; html: string } => {
-  const statusLabel = getStatusLabel(status);
-  
-  if (status === 'completed') {
-    return {
-      subject: `🎉 Order ${orderNumber} Completed!`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h1 style="color: #22c55e;">Great News! Your Order is Complete</h1>
-          <p style="font-size: 16px; color: #333;">
-            Your order <strong>${orderNumber}</strong> has been completed and is ready for pickup/delivery.
-          </p>
-          <div style="background: #f0fdf4; border-left: 4px solid #22c55e; padding: 15px; margin: 20px 0;">
-            <p style="margin: 0; color: #166534;">Thank you for choosing our services!</p>
-          </div>
-          <p style="color: #666; font-size: 14px;">
-            If you have any questions, please don't hesitate to contact us.
-          </p>
-        </div>
-      `
-    };
-  }
-  
-  if (status === 'delayed') {
-    return {
-      subject: `⚠️ Order ${orderNumber} Delayed`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h1 style="color: #ef4444;">Order Update: Delay Notice</h1>
-          <p style="font-size: 16px; color: #333;">
-            We apologize, but your order <strong>${orderNumber}</strong> has been delayed.
-          </p>
-          <div style="background: #fef2f2; border-left: 4px solid #ef4444; padding: 15px; margin: 20px 0;">
-            <p style="margin: 0; color: #991b1b;">We will update you as soon as possible with more information.</p>
-          </div>
-          <p style="color: #666; font-size: 14px;">
-            We sincerely apologize for any inconvenience this may cause.
-          </p>
-        </div>
-      `
-    };
+// Texts the client about the new status when they opted in and have a phone
+// number we can send to. Never throws, so a failed text doesn't stop the email.
+const sendStatusSms = async (supabase: SupabaseClient, user_id: string, order_id: string, status: string) => {
+  const compose = SMS_STATUS_MESSAGES[status];
+  if (!compose) return null;
+
+  try {
+    if (!isSmsConfigured()) {
+      return { skipped: "SMS service not configured" };
+    }
+
+    const { data: wantsSms, error: preferenceError } = await supabase.rpc("wants_notification", {
+      _user_id: user_id,
+      _event: "order_status",
+      _channel: "sms",
+    });
+    if (preferenceError) throw preferenceError;
+    if (!wantsSms) {
+      return { skipped: "User hasn't opted in to texts" };
+    }
+
+    const [{ data: order, error: orderError }, { data: profile }] = await Promise.all([
+      supabase.from("orders").select("order_number, estimated_completion").eq("id", order_id).maybeSingle(),
+      supabase.from("profiles").select("phone").eq("id", user_id).maybeSingle(),
+    ]);
+    if (orderError) throw orderError;
+    if (!order) {
+      return { skipped: "Order not found" };
+    }
+
+    const phone = normalizePhoneNumber(profile?.phone);
+    if (!phone) {
+      return { skipped: "No valid phone number" };
+    }
+
+    console.log("Sending SMS to:", phone);
+    const delivery = await deliverSms(supabase, {
+      user_id,
+      order_id,
+      message: { to: phone, body: compose(order) },
+    });
+    if (delivery.status !== "sent") {
+      console.error("SMS delivery failed:", delivery.last_error);
+    }
+    return { delivery_id: delivery.id, status: delivery.status, error: delivery.last_error };
+  } catch (error) {
+    console.error("Error sending SMS notification:", error);
+    return { error: error instanceof Error ? error.message : String(error) };
   }
-  
-  return {
-    subject: `📦 Order ${orderNumber} Status Update`,
-    html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #3b82f6;">Order Status Update</h1>
-        <p style="font-size: 16px; color: #333;">
-          Your order <strong>${orderNumber}</strong> status has been updated.
-        </p>
-        <div style="background: #eff6ff; border-left: 4px solid #3b82f6; padding: 15px; margin: 20px 0;">
-          <p style="margin: 0; color: #1e40af;">
-            <strong>New Status:</strong> ${statusLabel}
-          </p>
-        </div>
-        <p style="color: #666; font-size: 14px;">
-          You can log in to your account to view more details about your order.
-        </p>
-      </div>
-    `
-  };
 };
 
+type Caller = "service" | "admin" | "client";
+
+const getCaller = async (supabase: SupabaseClient, token: string, orderUserId: string): Promise<Caller | null> => {
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) return "service";
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return null;
+
+  const { data: role } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .eq("role", "admin")
+    .maybeSingle();
+  if (role) return "admin";
+
+  return user.id === orderUserId ? "client" : null;
+};
+
+// Status emails and texts are sent by the orders trigger with the service
+// role, from the status the order actually moved to. Signed-in callers name a
+// template: admins the quote emails, clients the confirmation of their order.
+const CALLER_TEMPLATES: Record<Exclude<Caller, "service">, EmailTemplateKey[]> = {
+  admin: ["order_received", "quote_issued", "counter_offer"],
+  client: ["order_received"],
+};
+
+const canSend = (caller: Caller | null, template: string | undefined, newStatus: string | undefined) => {
+  if (caller === "service") return true;
+  if (!caller || newStatus || !template) return false;
+  return (CALLER_TEMPLATES[caller] as string[]).includes(template);
+};
+
+// Quote emails follow the client's quote preference; everything else is an order update
+const getNotificationEvent = (template: EmailTemplateKey) =>
+  template === "quote_issued" || template === "counter_offer" ? "quote" : "order_status";
+
 const handler = async (req: Request): Promise<Response> => {
   console.log("send-order-notification function called");
   
@@ -100,81 +155,149 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { user_id, order_id, order_number, new_status, user_email }: NotificationRequest = await req.json();
+    const { user_id, order_id, order_number, new_status, template }: NotificationRequest = await req.json();
     
-    console.log("Notification request:", { user_id, order_id, order_number, new_status, user_email });
+    console.log("Notification request:", { user_id, order_id, order_number, new_status, template });
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const resendApiKey = Deno.env.get("RESEND_API_KEY");
-    if (!resendApiKey) {
+    // Notifications only go to the client who placed the order
+    const { data: orderOwner } = await supabase.from("orders").select("user_id").eq("id", order_id).maybeSingle();
+    if (!orderOwner || orderOwner.user_id !== user_id) {
+      return new Response(
+        JSON.stringify({ error: "Order not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    if (!canSend(await getCaller(supabase, token, orderOwner.user_id), template, new_status)) {
+      return new Response(
+        JSON.stringify({ error: "Not authorized" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let templateKey: EmailTemplateKey | null = null;
+    if (template) {
+      templateKey = isEmailTemplateKey(template) ? template : null;
+    } else if (new_status) {
+      templateKey = getStatusTemplateKey(new_status);
+    }
+
+    if (!templateKey) {
+      return new Response(
+        JSON.stringify({ error: "Unknown email template" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const sms = new_status ? await sendStatusSms(supabase, user_id, order_id, new_status) : null;
+
+    if (!isEmailConfigured()) {
       console.error("RESEND_API_KEY not configured");
       return new Response(
-        JSON.stringify({ error: "Email service not configured" }),
+        JSON.stringify({ error: "Email service not configured", sms }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    let emailToSend = user_email;
-
-    // If no email provided, get it from auth.users using admin client
-    if (!emailToSend) {
-      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabase = createClient(supabaseUrl, supabaseKey);
+    // Respect the client's notification preferences
+    const { data: wantsEmail, error: preferenceError } = await supabase.rpc("wants_notification", {
+      _user_id: user_id,
+      _event: getNotificationEvent(templateKey),
+      _channel: "email",
+    });
 
-      const { data: userData, error: userError } = await supabase.auth.admin.getUserById(user_id);
+    if (preferenceError) {
+      console.error("Error checking notification preferences:", preferenceError);
+    } else if (!wantsEmail) {
+      console.log(`User turned off ${getNotificationEvent(templateKey)} emails, skipping email notification`);
+      return new Response(
+        JSON.stringify({ success: true, message: "User turned off these emails", sms }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-      if (userError) {
-        console.error("Error fetching user:", userError);
-        return new Response(
-          JSON.stringify({ error: "Could not find user email", details: userError }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
+    const { data: userData, error: userError } = await supabase.auth.admin.getUserById(user_id);
 
-      emailToSend = userData?.user?.email;
+    if (userError) {
+      console.error("Error fetching user:", userError);
+      return new Response(
+        JSON.stringify({ error: "Could not find user email", details: userError, sms }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    if (!emailToSend) {
+    const emailToSend = userData?.user?.email;
+
+    // Walk-in customers without an email have a placeholder address
+    if (!emailToSend || !isDeliverableEmail(emailToSend)) {
       console.log("No email found for user, skipping email notification");
       return new Response(
-        JSON.stringify({ success: true, message: "No email to send to" }),
+        JSON.stringify({ success: true, message: "No email to send to", sms }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const { subject, html } = getEmailContent(order_number, new_status);
+    const [{ data: order, error: orderError }, { data: profile }, { data: storedTemplate }] = await Promise.all([
+      supabase
+        .from("orders")
+        .select("order_number, project_name, status, quoted_price, estimated_completion")
+        .eq("id", order_id)
+        .maybeSingle(),
+      supabase.from("profiles").select("full_name").eq("id", user_id).maybeSingle(),
+      supabase.from("email_templates").select("subject, html_body, text_body").eq("key", templateKey).maybeSingle(),
+    ]);
 
-    console.log("Sending email to:", emailToSend);
+    if (orderError || !order) {
+      console.error("Error fetching order:", orderError);
+      return new Response(
+        JSON.stringify({ error: "Order not found", sms }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    // Use Resend API directly via fetch
-    const emailResponse = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${resendApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        from: "Top Powdercoating <notifications@updates.dlsu.edu.ph>",
-        to: [emailToSend],
-        subject,
-        html,
-      }),
+    const emailTemplate: EmailTemplateContent = storedTemplate || DEFAULT_EMAIL_TEMPLATES[templateKey];
+    const { subject, html, text } = renderEmailTemplate(emailTemplate, {
+      order_number: order.order_number,
+      client_name: profile?.full_name || "Valued Customer",
+      project_name: order.project_name,
+      status: getStatusLabel(new_status || order.status),
+      quoted_price: formatPeso(order.quoted_price, "To be quoted"),
+      estimated_completion: formatCompletion(order.estimated_completion),
     });
 
-    const emailResult = await emailResponse.json();
+    console.log("Sending email to:", emailToSend);
+
+    // Logged in notification_deliveries so a failed send is retried later
+    const delivery = await deliverEmail(supabase, {
+      user_id,
+      order_id,
+      template: templateKey,
+      message: { to: [emailToSend], subject, html, text },
+    });
     
-    if (!emailResponse.ok) {
-      console.error("Resend API error:", emailResult);
+    if (delivery.status !== "sent") {
+      console.error("Email delivery failed:", delivery.last_error);
       return new Response(
-        JSON.stringify({ error: "Failed to send email", details: emailResult }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({
+          error: "Failed to send email",
+          details: delivery.last_error,
+          delivery_id: delivery.id,
+          will_retry: delivery.status === "pending",
+          sms,
+        }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log("Email sent successfully:", emailResult);
+    console.log("Email sent successfully:", delivery.id);
 
     return new Response(
-      JSON.stringify({ success: true, emailResponse: emailResult }),
+      JSON.stringify({ success: true, delivery_id: delivery.id, sms }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error: any) {
@@ -0,0 +1,432 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { jsPDF } from "https://esm.sh/jspdf@3.0.4";
+import autoTable from "https://esm.sh/jspdf-autotable@5.0.2";
+import { getStatusLabel } from "../_shared/orderStatus.ts";
+import { formatPdfPeso } from "../_shared/currency.ts";
+import { EmailAttachment, sendEmail } from "../_shared/email.ts";
+import {
+  REPORT_CATEGORY_LABELS,
+  REPORT_DATE_RANGE_LABELS,
+  ReportCategory,
+  ReportDateRange,
+  isReportCategory,
+  resolveReportRange,
+} from "../_shared/reportSchedule.ts";
+
+// Renders saved report definitions and emails them to their recipients.
+// Called by pg_cron with the service role key to send every report that is
+// due, or by an admin with a schedule_id to send one report now.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReportSchedule {
+  id: string;
+  name: string;
+  categories: string[];
+  date_range: ReportDateRange;
+  format: "pdf" | "csv" | "both";
+  recipients: string[];
+}
+
+interface ReportTable {
+  head: string[];
+  body: (string | number)[][];
+}
+
+interface ReportSection {
+  title: string;
+  lines: string[];
+  tables: ReportTable[];
+}
+
+interface DateRange {
+  start: string;
+  end: string;
+}
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return "N/A";
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+const rpc = async <T>(supabase: SupabaseClient, fn: string, args?: Record<string, unknown>): Promise<T[]> => {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) throw new Error(`${fn}: ${error.message}`);
+  return (data || []) as T[];
+};
+
+// Same figures as the Reports page, from the same database functions
+const buildSection = async (
+  supabase: SupabaseClient,
+  category: ReportCategory,
+  { start, end }: DateRange
+): Promise<ReportSection> => {
+  const range = { _start_date: start, _end_date: end };
+  const title = REPORT_CATEGORY_LABELS[category];
+
+  switch (category) {
+    case "orderVolume": {
+      const rows = await rpc<{ status: string; order_count: number }>(supabase, "get_order_status_counts", range);
+      const total = rows.reduce((sum, row) => sum + row.order_count, 0);
+      return {
+        title,
+        lines: [`Total Orders: ${total}`],
+        tables: [{ head: ["Status", "Count"], body: rows.map((row) => [getStatusLabel(row.status), row.order_count]) }],
+      };
+    }
+    case "productionPipeline": {
+      const rows = await rpc<{ status: string; order_count: number }>(supabase, "get_order_status_counts");
+      return {
+        title,
+        lines: ["All orders, as of today"],
+        tables: [{ head: ["Stage", "Count"], body: rows.map((row) => [getStatusLabel(row.status), row.order_count]) }],
+      };
+    }
+    case "stageCycleTimes": {
+      const rows = await rpc<{
+        stage: string;
+        runs: number;
+        avg_worked_minutes: number;
+        min_worked_minutes: number;
+        max_worked_minutes: number;
+        avg_elapsed_minutes: number;
+      }>(supabase, "get_stage_cycle_times", range);
+      return {
+        title,
+        lines: [`Completed Stage Runs: ${rows.reduce((sum, row) => sum + Number(row.runs), 0)}`],
+        tables: [
+          {
+            head: ["Stage", "Runs", "Avg Worked", "Min Worked", "Max Worked", "Avg Elapsed"],
+            body: rows.map((row) => [
+              getStatusLabel(row.stage),
+              row.runs,
+              formatMinutes(row.avg_worked_minutes),
+              formatMinutes(row.min_worked_minutes),
+              formatMinutes(row.max_worked_minutes),
+              formatMinutes(row.avg_elapsed_minutes),
+            ]),
+          },
+        ],
+      };
+    }
+    case "teamAssignments": {
+      const rows = await rpc<{ name: string; status: string; availability: string; assigned_orders: number }>(
+        supabase,
+        "get_team_workload"
+      );
+      return {
+        title,
+        lines: [`Total Members: ${rows.length}`],
+        tables: [
+          {
+            head: ["Team Member", "Status", "Availability", "Assigned Orders"],
+            body: rows.map((row) => [row.name, row.status, row.availability, row.assigned_orders]),
+          },
+        ],
+      };
+    }
+    case "priorityBreakdown": {
+      const rows = await rpc<{ priority: string; order_count: number }>(supabase, "get_order_priority_counts", range);
+      const total = rows.reduce((sum, row) => sum + row.order_count, 0);
+      const urgent = rows.find((row) => row.priority === "urgent")?.order_count || 0;
+      return {
+        title,
+        lines: [`Urgent Ratio: ${total > 0 ? ((urgent / total) * 100).toFixed(1) : "0"}%`],
+        tables: [{ head: ["Priority", "Count"], body: rows.map((row) => [row.priority.toUpperCase(), row.order_count]) }],
+      };
+    }
+    case "clientStatistics": {
+      const [stats] = await rpc<{ total_clients: number; active_clients: number; new_clients: number }>(
+        supabase,
+        "get_client_statistics",
+        range
+      );
+      const topClients = await rpc<{ client_name: string; order_count: number }>(supabase, "get_top_clients", range);
+      return {
+        title,
+        lines: [
+          `Total Clients: ${stats.total_clients} | Active: ${stats.active_clients} | ` +
+            `Inactive: ${stats.total_clients - stats.active_clients} | New: ${stats.new_clients}`,
+        ],
+        tables: [
+          {
+            head: ["Top Clients (by Orders)", "Order Count"],
+            body: topClients.map((client) => [client.client_name, client.order_count]),
+          },
+        ],
+      };
+    }
+    case "orderSpecifications": {
+      const rows = await rpc<{ dimension: string; label: string; item_count: number; quantity: number }>(
+        supabase,
+        "get_coating_breakdown",
+        range
+      );
+      const rowsFor = (dimension: string) => rows.filter((row) => row.dimension === dimension);
+      return {
+        title,
+        lines: [`Total Items Processed: ${rowsFor("finish").reduce((sum, row) => sum + row.quantity, 0)}`],
+        tables: [
+          { head: ["Finish Type", "Count"], body: rowsFor("finish").map((row) => [row.label.toUpperCase(), row.item_count]) },
+          { head: ["Texture Type", "Count"], body: rowsFor("texture").map((row) => [row.label.toUpperCase(), row.item_count]) },
+          { head: ["Top Colors", "Count"], body: rowsFor("color").slice(0, 5).map((row) => [row.label, row.item_count]) },
+        ],
+      };
+    }
+    case "financials": {
+      const [summary] = await rpc<{
+        revenue: number;
+        invoices_issued: number;
+        collected: number;
+        outstanding: number;
+        aging_0_30: number;
+        aging_31_60: number;
+        aging_61_90: number;
+        aging_over_90: number;
+        quotes_issued: number;
+        average_quote: number | null;
+        quoted_orders: number;
+        accepted_orders: number;
+      }>(supabase, "get_financial_summary", range);
+      const acceptanceRate =
+        summary.quoted_orders > 0 ? ((summary.accepted_orders / summary.quoted_orders) * 100).toFixed(1) : "0";
+      return {
+        title,
+        lines: [],
+        tables: [
+          {
+            head: ["Metric", "Value"],
+            body: [
+              ["Revenue (invoiced)", formatPdfPeso(summary.revenue)],
+              ["Invoices Issued", summary.invoices_issued],
+              ["Collected", formatPdfPeso(summary.collected)],
+              ["Outstanding (as of period end)", formatPdfPeso(summary.outstanding)],
+              ["Quotes Issued", summary.quotes_issued],
+              ["Average Quote Value", formatPdfPeso(summary.average_quote)],
+              [
+                "Quote Acceptance Rate",
+                `${acceptanceRate}% (${summary.accepted_orders} of ${summary.quoted_orders} orders)`,
+              ],
+            ],
+          },
+          {
+            head: ["Receivables Aging", "Outstanding"],
+            body: [
+              ["0-30 days", formatPdfPeso(summary.aging_0_30)],
+              ["31-60 days", formatPdfPeso(summary.aging_31_60)],
+              ["61-90 days", formatPdfPeso(summary.aging_61_90)],
+              ["90+ days", formatPdfPeso(summary.aging_over_90)],
+            ],
+          },
+        ],
+      };
+    }
+  }
+};
+
+const renderPdf = (schedule: ReportSchedule, range: DateRange, sections: ReportSection[]) => {
+  const doc = new jsPDF();
+  const lastTableY = () => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  let yPos = 20;
+
+  doc.setFontSize(20);
+  doc.setFont("helvetica", "bold");
+  doc.text("TOP Powder Coating Reports", 105, yPos, { align: "center" });
+  yPos += 10;
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  [schedule.name, `Report Period: ${formatDate(range.start)} - ${formatDate(range.end)}`].forEach((line) => {
+    doc.text(line, 105, yPos, { align: "center" });
+    yPos += 5;
+  });
+  yPos += 10;
+
+  sections.forEach((section) => {
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = 20;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont("helvetica", "bold");
+    doc.text(section.title, 14, yPos);
+    yPos += 10;
+
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    section.lines.forEach((line) => {
+      doc.text(line, 14, yPos);
+      yPos += 7;
+    });
+
+    section.tables.forEach((table) => {
+      autoTable(doc, { startY: yPos, head: [table.head], body: table.body, theme: "grid" });
+      yPos = lastTableY() + 5;
+    });
+    yPos += 5;
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.text(`Page ${i} of ${pageCount}`, 105, 290, { align: "center" });
+  }
+
+  return encodeBase64(doc.output("arraybuffer"));
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const renderCsv = (schedule: ReportSchedule, range: DateRange, sections: ReportSection[]) => {
+  const lines = [
+    "TOP Powder Coating Reports",
+    csvCell(schedule.name),
+    `Report Period: ${csvCell(`${formatDate(range.start)} - ${formatDate(range.end)}`)}`,
+    "",
+  ];
+
+  sections.forEach((section) => {
+    lines.push(csvCell(section.title), ...section.lines.map(csvCell));
+    section.tables.forEach((table) => {
+      lines.push(table.head.map(csvCell).join(","), ...table.body.map((row) => row.map(csvCell).join(",")));
+    });
+    lines.push("");
+  });
+
+  return encodeBase64(lines.join("\n"));
+};
+
+const sendReport = async (supabase: SupabaseClient, schedule: ReportSchedule) => {
+  const range = resolveReportRange(schedule.date_range);
+  const categories = schedule.categories.filter(isReportCategory);
+  const sections: ReportSection[] = [];
+  for (const category of categories) {
+    sections.push(await buildSection(supabase, category, range));
+  }
+
+  const fileName = `TOP_Report_${schedule.name.replace(/[^A-Za-z0-9]+/g, "_")}_${range.end}`;
+  const attachments: EmailAttachment[] = [];
+  if (schedule.format !== "csv") {
+    attachments.push({ filename: `${fileName}.pdf`, content: renderPdf(schedule, range, sections) });
+  }
+  if (schedule.format !== "pdf") {
+    attachments.push({ filename: `${fileName}.csv`, content: renderCsv(schedule, range, sections) });
+  }
+
+  const { ok, body } = await sendEmail({
+    to: schedule.recipients,
+    subject: `${schedule.name}: ${formatDate(range.start)} - ${formatDate(range.end)}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <h1 style="color: #3b82f6;">${schedule.name}</h1>
+        <p style="font-size: 16px; color: #333;">
+          Your scheduled report for <strong>${formatDate(range.start)} - ${formatDate(range.end)}</strong>
+          (${REPORT_DATE_RANGE_LABELS[schedule.date_range].toLowerCase()}) is attached.
+        </p>
+        <div style="background: #eff6ff; border-left: 4px solid #3b82f6; padding: 15px; margin: 20px 0;">
+          <p style="margin: 0; color: #1e40af;">
+            <strong>Includes:</strong> ${categories.map((category) => REPORT_CATEGORY_LABELS[category]).join(", ")}
+          </p>
+        </div>
+        <p style="color: #666; font-size: 14px;">
+          You can change or stop this report from the Reports page.
+        </p>
+      </div>
+    `,
+    attachments,
+  });
+
+  if (!ok) {
+    throw new Error(`Email could not be sent: ${JSON.stringify(body)}`);
+  }
+};
+
+const isAdminRequest = async (supabase: SupabaseClient, token: string) => {
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return false;
+
+  const { data: role } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .eq("role", "admin")
+    .maybeSingle();
+  return !!role;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceKey);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { schedule_id }: { schedule_id?: string } = await req.json().catch(() => ({}));
+
+    // One report on demand is for admins; sending everything due is for the scheduler
+    const authorized = schedule_id ? await isAdminRequest(supabase, token) : token === serviceKey;
+    if (!authorized) {
+      return json({ error: "Not authorized" }, 403);
+    }
+
+    let query = supabase.from("report_schedules").select("*");
+    query = schedule_id
+      ? query.eq("id", schedule_id)
+      : query.eq("enabled", true).lte("next_run_at", new Date().toISOString());
+
+    const { data: schedules, error } = await query;
+    if (error) throw error;
+
+    const results = [];
+    for (const schedule of (schedules || []) as ReportSchedule[]) {
+      let runError: string | null = null;
+      try {
+        await sendReport(supabase, schedule);
+        console.log(`Sent report "${schedule.name}" to ${schedule.recipients.join(", ")}`);
+      } catch (sendError) {
+        runError = sendError instanceof Error ? sendError.message : String(sendError);
+        console.error(`Error sending report "${schedule.name}":`, runError);
+      }
+
+      await supabase.rpc("finish_report_run", { _schedule_id: schedule.id, _error: runError });
+      results.push({ schedule_id: schedule.id, sent: runError === null, error: runError });
+    }
+
+    if (schedule_id && results[0]?.error) {
+      return json({ error: results[0].error }, 500);
+    }
+
+    return json({ success: true, results });
+  } catch (error) {
+    console.error("Error in send-scheduled-reports:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
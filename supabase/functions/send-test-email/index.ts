@@ -0,0 +1,77 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { isEmailConfigured, sendEmail } from "../_shared/email.ts";
+import { EmailTemplateContent, SAMPLE_TEMPLATE_VALUES, renderEmailTemplate } from "../_shared/emailTemplates.ts";
+
+// Sends a draft email template, filled in with sample values, so an admin can
+// check how it looks in a real inbox before saving it
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface TestEmailRequest {
+  template: EmailTemplateContent;
+  // Defaults to the admin's own address
+  to?: string;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") || "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: "Not authorized" }, 403);
+    }
+
+    const { data: role } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "admin")
+      .maybeSingle();
+    if (!role) {
+      return json({ error: "Only admins can send test emails" }, 403);
+    }
+
+    if (!isEmailConfigured()) {
+      return json({ error: "Email service not configured" }, 500);
+    }
+
+    const { template, to }: TestEmailRequest = await req.json();
+    if (!template?.subject?.trim() || !template.html_body?.trim() || !template.text_body?.trim()) {
+      return json({ error: "The template needs a subject, HTML body and plain-text body" }, 400);
+    }
+
+    const recipient = to?.trim() || user.email;
+    if (!recipient || !EMAIL_PATTERN.test(recipient)) {
+      return json({ error: "Enter a valid email address" }, 400);
+    }
+
+    const { subject, html, text } = renderEmailTemplate(template, SAMPLE_TEMPLATE_VALUES);
+    const { ok, body } = await sendEmail({ to: [recipient], subject: `[Test] ${subject}`, html, text });
+    if (!ok) {
+      console.error("Resend API error:", body);
+      return json({ error: "Failed to send email", details: body }, 500);
+    }
+
+    return json({ success: true, to: recipient });
+  } catch (error) {
+    console.error("Error in send-test-email:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
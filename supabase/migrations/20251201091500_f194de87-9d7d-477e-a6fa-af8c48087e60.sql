@@ -0,0 +1,149 @@
+-- Invoice status enum
+CREATE TYPE public.invoice_status AS ENUM ('unpaid', 'paid');
+
+-- Per-year invoice counters. Numbers are allocated inside the same transaction
+-- that inserts the invoice, so a failed insert rolls the counter back and the
+-- sequence stays gap-free (unlike a Postgres SEQUENCE).
+CREATE TABLE public.invoice_counters (
+  year INTEGER PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.invoice_counters ENABLE ROW LEVEL SECURITY;
+
+-- Create invoices table
+CREATE TABLE public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number TEXT NOT NULL UNIQUE,
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal NUMERIC(12, 2) NOT NULL,
+  vat_rate NUMERIC(5, 4) NOT NULL DEFAULT 0.12,
+  vat_amount NUMERIC(12, 2) NOT NULL,
+  total_amount NUMERIC(12, 2) NOT NULL,
+  status public.invoice_status NOT NULL DEFAULT 'unpaid',
+  issued_by UUID REFERENCES auth.users(id),
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_invoices_user_id ON public.invoices(user_id);
+
+-- RLS Policies for invoices
+CREATE POLICY "Users can view their own invoices"
+  ON public.invoices FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all invoices"
+  ON public.invoices FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update invoices"
+  ON public.invoices FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Issue an invoice for a completed order. Invoices are only created through
+-- this function so numbering cannot be bypassed from the client.
+CREATE OR REPLACE FUNCTION public.issue_invoice(_order_id UUID)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _invoice public.invoices;
+  _year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  _next_number INTEGER;
+  _unit_price NUMERIC(12, 2);
+  _subtotal NUMERIC(12, 2);
+  _vat_rate NUMERIC(5, 4) := 0.12;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue invoices';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Invoices can only be issued for completed orders';
+  END IF;
+
+  IF _order.quoted_price IS NULL THEN
+    RAISE EXCEPTION 'Order % has no quoted price', _order.order_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'An invoice has already been issued for order %', _order.order_number;
+  END IF;
+
+  -- Lock the counter row for this year and take the next number
+  INSERT INTO public.invoice_counters (year, last_number)
+  VALUES (_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = invoice_counters.last_number + 1
+  RETURNING last_number INTO _next_number;
+
+  _subtotal := ROUND(_order.quoted_price, 2);
+  _unit_price := ROUND(_order.quoted_price / GREATEST(_order.quantity, 1), 2);
+
+  INSERT INTO public.invoices (
+    invoice_number,
+    order_id,
+    user_id,
+    line_items,
+    subtotal,
+    vat_rate,
+    vat_amount,
+    total_amount,
+    issued_by
+  )
+  VALUES (
+    'INV-' || _year || '-' || LPAD(_next_number::TEXT, 5, '0'),
+    _order.id,
+    _order.user_id,
+    jsonb_build_array(
+      jsonb_build_object(
+        'description', _order.project_name || ' - ' || _order.description,
+        'quantity', _order.quantity,
+        'unit_price', _unit_price,
+        'amount', _subtotal
+      )
+    ),
+    _subtotal,
+    _vat_rate,
+    ROUND(_subtotal * _vat_rate, 2),
+    _subtotal + ROUND(_subtotal * _vat_rate, 2),
+    auth.uid()
+  )
+  RETURNING * INTO _invoice;
+
+  -- Let the client know their invoice is ready
+  INSERT INTO public.messages (user_id, order_id, subject, message, priority)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    'Invoice ' || _invoice.invoice_number || ' Issued',
+    'An invoice for order ' || _order.order_number || ' has been issued. You can download it from your order history.',
+    'medium'
+  );
+
+  RETURN _invoice;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Allowed order status transitions. Must stay in sync with
+-- supabase/functions/_shared/orderStatus.ts
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(_from public.order_status, _to public.order_status)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _from = _to OR CASE _from
+    WHEN 'pending_quote' THEN _to IN ('queued', 'delayed')
+    WHEN 'queued' THEN _to IN ('sand-blasting', 'pending_quote', 'delayed')
+    WHEN 'sand-blasting' THEN _to IN ('coating', 'delayed')
+    WHEN 'coating' THEN _to IN ('curing', 'delayed')
+    WHEN 'curing' THEN _to IN ('quality-check', 'delayed')
+    WHEN 'quality-check' THEN _to IN ('completed', 'coating', 'delayed')
+    WHEN 'delayed' THEN _to IN ('queued', 'sand-blasting', 'coating', 'curing', 'quality-check')
+    ELSE FALSE
+  END;
+$$;
+
+-- Reject status updates that skip stages, e.g. queued -> completed
+CREATE OR REPLACE FUNCTION public.validate_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status
+     AND NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE trigger so invalid changes are rejected before they are logged
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON public.orders;
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_order_status_transition();
@@ -0,0 +1,140 @@
+-- Per-order production routing: the ordered list of stages an order passes
+-- through between queued and completed. routing_step is the 1-based position
+-- of the current stage, so repeated stages (coating -> curing -> coating ->
+-- curing) can be told apart.
+ALTER TABLE public.orders
+ADD COLUMN routing public.order_status[] NOT NULL DEFAULT ARRAY['sand-blasting', 'coating', 'curing', 'quality-check']::public.order_status[],
+ADD COLUMN routing_step INTEGER;
+
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_routing_stages_check CHECK (
+  cardinality(routing) >= 1
+  AND routing <@ ARRAY['sand-blasting', 'coating', 'curing', 'quality-check']::public.order_status[]
+);
+
+-- Point orders already in production at their current stage
+UPDATE public.orders
+SET routing_step = array_position(routing, status)
+WHERE array_position(routing, status) IS NOT NULL;
+
+-- Progress for a routing step: stages are spread evenly between queued (10%)
+-- and completed (100%)
+CREATE OR REPLACE FUNCTION public.get_routing_progress(_routing public.order_status[], _step INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 10 + ROUND(_step * 90.0 / (cardinality(_routing) + 1))::INTEGER;
+$$;
+
+-- Transitions are now driven by each order's routing
+DROP FUNCTION IF EXISTS public.is_valid_order_status_transition(public.order_status, public.order_status);
+
+-- Validates status changes against the order's routing, keeps routing_step in
+-- step with the status and sets progress. Mirrors resolveRoutingStep in
+-- supabase/functions/_shared/orderStatus.ts
+CREATE OR REPLACE FUNCTION public.validate_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _next_step INTEGER;
+BEGIN
+  -- Stages that are done or in progress can't be rerouted
+  IF OLD.routing IS DISTINCT FROM NEW.routing AND OLD.routing_step IS NOT NULL
+     AND OLD.routing[1:OLD.routing_step] IS DISTINCT FROM NEW.routing[1:OLD.routing_step] THEN
+    RAISE EXCEPTION 'Routing steps up to the current stage of order % cannot be changed', OLD.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    -- Adding or removing later stages changes how far along the order is
+    IF NEW.routing_step IS NOT NULL AND NEW.status <> 'delayed' THEN
+      NEW.progress := public.get_routing_progress(NEW.routing, NEW.routing_step);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'completed' THEN
+    RAISE EXCEPTION 'Order % is already completed', OLD.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  CASE NEW.status
+    WHEN 'delayed' THEN
+      -- routing_step is kept so the order resumes where it stopped
+      RETURN NEW;
+
+    WHEN 'pending_quote' THEN
+      IF OLD.status NOT IN ('queued', 'delayed') THEN
+        RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+          USING ERRCODE = 'check_violation';
+      END IF;
+      NEW.routing_step := NULL;
+      NEW.progress := 0;
+      RETURN NEW;
+
+    WHEN 'queued' THEN
+      IF OLD.status NOT IN ('pending_quote', 'delayed') THEN
+        RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+          USING ERRCODE = 'check_violation';
+      END IF;
+      NEW.routing_step := NULL;
+      NEW.progress := 10;
+      RETURN NEW;
+
+    ELSE
+      NULL;
+  END CASE;
+
+  -- Remaining targets are routing stages or completed
+  IF OLD.status = 'queued' THEN
+    _next_step := 1;
+  ELSIF OLD.status = 'delayed' AND NEW.status <> 'completed' THEN
+    IF OLD.routing_step IS NOT NULL AND NEW.routing[OLD.routing_step] = NEW.status THEN
+      _next_step := OLD.routing_step;
+    ELSE
+      _next_step := array_position(NEW.routing, NEW.status);
+    END IF;
+  ELSIF OLD.status = 'quality-check' AND NEW.status = 'coating' THEN
+    -- Failed inspections go back to the first coating step for rework
+    _next_step := array_position(NEW.routing, 'coating');
+  ELSIF OLD.status = ANY (OLD.routing) THEN
+    _next_step := COALESCE(OLD.routing_step, array_position(OLD.routing, OLD.status)) + 1;
+  ELSE
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _next_step IS NULL THEN
+    RAISE EXCEPTION '% is not part of the routing for order %', NEW.status, OLD.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _next_step > cardinality(NEW.routing) THEN
+    IF NEW.status <> 'completed' THEN
+      RAISE EXCEPTION 'Order % has finished its routing and can only be completed', OLD.order_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.routing_step := NULL;
+    NEW.progress := 100;
+  ELSIF NEW.routing[_next_step] <> NEW.status THEN
+    RAISE EXCEPTION 'Next stage for order % is %, not %', OLD.order_number, NEW.routing[_next_step], NEW.status
+      USING ERRCODE = 'check_violation';
+  ELSE
+    NEW.routing_step := _next_step;
+    NEW.progress := public.get_routing_progress(NEW.routing, _next_step);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fire on routing edits as well as status changes
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON public.orders;
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status, routing ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_order_status_transition();
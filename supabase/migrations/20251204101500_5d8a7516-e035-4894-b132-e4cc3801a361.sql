@@ -0,0 +1,122 @@
+-- Why a member was picked, shown to admins. NULL for manual assignments
+ALTER TABLE public.order_team_assignments
+ADD COLUMN assignment_reason TEXT;
+
+-- Department that works each stage. Mirrors ORDER_STATUS_DEFINITIONS in
+-- supabase/functions/_shared/orderStatus.ts
+CREATE OR REPLACE FUNCTION public.get_required_department(_status public.order_status)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _status
+    WHEN 'sand-blasting' THEN 'Sand Blasting'
+    WHEN 'coating' THEN 'Coating'
+    WHEN 'curing' THEN 'Curing'
+    WHEN 'quality-check' THEN 'Quality Control'
+    ELSE NULL
+  END;
+$$;
+
+-- Assigns the order to a member of the department that works its current
+-- stage, replacing existing assignments. Members on leave are skipped. Urgent
+-- and high priority orders go to available members first, then the member with
+-- the fewest open orders; other orders go to the fewest open orders first.
+-- Completed orders have their assignments cleared. Returns no rows when
+-- nobody was assigned.
+CREATE OR REPLACE FUNCTION public.auto_assign_order(_order_id UUID)
+RETURNS TABLE (assigned_member_id UUID, assigned_member_name TEXT, reason TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order RECORD;
+  _department TEXT;
+  _prefer_available BOOLEAN;
+  _member RECORD;
+  _eligible_count INTEGER;
+  _on_leave_count INTEGER;
+  _reason TEXT;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin')
+          OR public.is_team_member_assigned_to_order(auth.uid(), _order_id)) THEN
+    RAISE EXCEPTION 'Not authorized to assign this order';
+  END IF;
+
+  SELECT id, status, priority INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status = 'completed' THEN
+    DELETE FROM public.order_team_assignments WHERE order_id = _order_id;
+    RETURN;
+  END IF;
+
+  _department := public.get_required_department(_order.status);
+  IF _department IS NULL THEN
+    RETURN;
+  END IF;
+
+  _prefer_available := _order.priority IN ('urgent', 'high');
+
+  SELECT
+    COUNT(*) FILTER (WHERE COALESCE(status, '') <> 'on_leave'),
+    COUNT(*) FILTER (WHERE status = 'on_leave')
+  INTO _eligible_count, _on_leave_count
+  FROM public.team_members
+  WHERE department = _department;
+
+  SELECT tm.id, tm.name, tm.availability, COALESCE(workload.open_orders, 0) AS open_orders
+  INTO _member
+  FROM public.team_members tm
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS open_orders, MAX(ota.assigned_at) AS last_assigned_at
+    FROM public.order_team_assignments ota
+    JOIN public.orders o ON o.id = ota.order_id
+    WHERE ota.team_member_id = tm.id
+      AND ota.order_id <> _order_id
+      AND o.status <> 'completed'
+  ) workload ON TRUE
+  WHERE tm.department = _department
+    AND COALESCE(tm.status, '') <> 'on_leave'
+  ORDER BY
+    CASE WHEN _prefer_available THEN (tm.availability = 'available') END DESC NULLS LAST,
+    COALESCE(workload.open_orders, 0),
+    CASE tm.availability WHEN 'available' THEN 0 WHEN 'off_duty' THEN 2 ELSE 1 END,
+    -- Spread ties round-robin: whoever was assigned least recently
+    workload.last_assigned_at NULLS FIRST,
+    tm.name
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _reason := format(
+    '%s open orders, %s. Picked from %s eligible %s members (%s on leave); %s priority ranks by %s.',
+    _member.open_orders,
+    COALESCE(_member.availability, 'availability unknown'),
+    _eligible_count,
+    _department,
+    _on_leave_count,
+    initcap(_order.priority::TEXT),
+    CASE WHEN _prefer_available
+      THEN 'availability, then fewest open orders'
+      ELSE 'fewest open orders, then availability'
+    END
+  );
+
+  DELETE FROM public.order_team_assignments WHERE order_id = _order_id;
+
+  INSERT INTO public.order_team_assignments (order_id, team_member_id, assignment_reason)
+  VALUES (_order_id, _member.id, _reason);
+
+  RETURN QUERY SELECT _member.id, _member.name, _reason;
+END;
+$$;
@@ -0,0 +1,137 @@
+-- Clock in / clock out events for a team member working an order stage
+CREATE TYPE public.work_log_event AS ENUM ('start', 'pause', 'stop');
+
+CREATE TABLE public.stage_work_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  team_member_id UUID NOT NULL REFERENCES public.team_members(id) ON DELETE CASCADE,
+  stage public.order_status NOT NULL,
+  -- Position in the order's routing, so repeated stages are timed separately
+  routing_step INTEGER,
+  event public.work_log_event NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stage_work_logs_order_id ON public.stage_work_logs(order_id);
+CREATE INDEX idx_stage_work_logs_created_at ON public.stage_work_logs(created_at);
+
+ALTER TABLE public.stage_work_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all work logs"
+  ON public.stage_work_logs FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Team members can view their own work logs"
+  ON public.stage_work_logs FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.id = stage_work_logs.team_member_id
+      AND team_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Team members can log work on assigned orders"
+  ON public.stage_work_logs FOR INSERT
+  WITH CHECK (
+    public.is_team_member_assigned_to_order(auth.uid(), order_id)
+    AND EXISTS (
+      SELECT 1 FROM public.team_members
+      WHERE team_members.id = stage_work_logs.team_member_id
+      AND team_members.user_id = auth.uid()
+    )
+  );
+
+-- Events must follow start -> pause -> start ... -> stop for each member and
+-- stage, and can only be logged against the order's current stage
+CREATE OR REPLACE FUNCTION public.validate_stage_work_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _last_event public.work_log_event;
+BEGIN
+  IF NEW.event <> 'stop' AND NOT EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = NEW.order_id AND status = NEW.stage
+  ) THEN
+    RAISE EXCEPTION 'Work can only be logged against the order''s current stage'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT event INTO _last_event
+  FROM public.stage_work_logs
+  WHERE order_id = NEW.order_id
+    AND team_member_id = NEW.team_member_id
+    AND stage = NEW.stage
+    AND routing_step IS NOT DISTINCT FROM NEW.routing_step
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF (NEW.event = 'start' AND _last_event = 'start')
+     OR (NEW.event = 'pause' AND _last_event IS DISTINCT FROM 'start')
+     OR (NEW.event = 'stop' AND (_last_event IS NULL OR _last_event = 'stop')) THEN
+    RAISE EXCEPTION 'Cannot log % after %', NEW.event, COALESCE(_last_event::TEXT, 'no previous event')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_stage_work_log
+  BEFORE INSERT ON public.stage_work_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_stage_work_log();
+
+-- Cycle times per stage for stage runs that were stopped in the date range.
+-- Worked time sums the start -> pause/stop intervals of everyone on the run,
+-- elapsed time runs from the first start to the last stop.
+CREATE OR REPLACE FUNCTION public.get_stage_cycle_times(_start_date DATE, _end_date DATE)
+RETURNS TABLE (
+  stage public.order_status,
+  runs BIGINT,
+  avg_worked_minutes NUMERIC,
+  min_worked_minutes NUMERIC,
+  max_worked_minutes NUMERIC,
+  avg_elapsed_minutes NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH events AS (
+    SELECT
+      order_id,
+      stage,
+      routing_step,
+      event,
+      created_at,
+      LEAD(created_at) OVER (
+        PARTITION BY order_id, team_member_id, stage, routing_step
+        ORDER BY created_at
+      ) AS next_at
+    FROM public.stage_work_logs
+  ),
+  stage_runs AS (
+    SELECT
+      stage,
+      SUM(EXTRACT(EPOCH FROM next_at - created_at)) FILTER (WHERE event = 'start') / 60 AS worked_minutes,
+      EXTRACT(EPOCH FROM MAX(created_at) - MIN(created_at)) / 60 AS elapsed_minutes,
+      MAX(created_at) FILTER (WHERE event = 'stop') AS stopped_at
+    FROM events
+    GROUP BY order_id, stage, routing_step
+  )
+  SELECT
+    stage,
+    COUNT(*),
+    ROUND(AVG(worked_minutes), 1),
+    ROUND(MIN(worked_minutes), 1),
+    ROUND(MAX(worked_minutes), 1),
+    ROUND(AVG(elapsed_minutes), 1)
+  FROM stage_runs
+  WHERE stopped_at::DATE BETWEEN _start_date AND _end_date
+  GROUP BY stage
+  ORDER BY stage;
+$$;
@@ -0,0 +1,388 @@
+-- Oven batches: orders with the same powder color and finish cured together
+CREATE TYPE public.oven_batch_status AS ENUM ('planned', 'curing', 'completed');
+
+CREATE TABLE public.oven_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_number TEXT NOT NULL UNIQUE,
+  oven TEXT NOT NULL,
+  color TEXT NOT NULL,
+  finish public.finish_type NOT NULL,
+  cure_temperature NUMERIC(5, 1) NOT NULL CHECK (cure_temperature > 0),
+  cure_minutes INTEGER NOT NULL CHECK (cure_minutes > 0),
+  status public.oven_batch_status NOT NULL DEFAULT 'planned',
+  notes TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.oven_batch_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES public.oven_batches(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (batch_id, order_id)
+);
+
+CREATE INDEX idx_oven_batch_orders_order_id ON public.oven_batch_orders(order_id);
+
+CREATE TRIGGER update_oven_batches_updated_at
+  BEFORE UPDATE ON public.oven_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Admins and the Curing department plan and run oven batches
+CREATE OR REPLACE FUNCTION public.can_manage_oven_batches(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE user_id = _user_id
+    AND department = public.get_required_department('curing')
+  );
+$$;
+
+ALTER TABLE public.oven_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.oven_batch_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Batch managers can view oven batches"
+  ON public.oven_batches FOR SELECT
+  USING (public.can_manage_oven_batches(auth.uid()));
+
+CREATE POLICY "Batch managers can delete planned oven batches"
+  ON public.oven_batches FOR DELETE
+  USING (public.can_manage_oven_batches(auth.uid()) AND status = 'planned');
+
+CREATE POLICY "Batch managers can view oven batch orders"
+  ON public.oven_batch_orders FOR SELECT
+  USING (public.can_manage_oven_batches(auth.uid()));
+
+-- Assignment without the caller check, for functions that have already
+-- authorized the change. Replaces the body of auto_assign_order.
+CREATE OR REPLACE FUNCTION public.assign_order_for_current_stage(_order_id UUID)
+RETURNS TABLE (assigned_member_id UUID, assigned_member_name TEXT, reason TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order RECORD;
+  _department TEXT;
+  _prefer_available BOOLEAN;
+  _member RECORD;
+  _eligible_count INTEGER;
+  _on_leave_count INTEGER;
+  _reason TEXT;
+BEGIN
+  SELECT id, status, priority INTO _order
+  FROM public.orders
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status = 'completed' THEN
+    DELETE FROM public.order_team_assignments WHERE order_id = _order_id;
+    RETURN;
+  END IF;
+
+  _department := public.get_required_department(_order.status);
+  IF _department IS NULL THEN
+    RETURN;
+  END IF;
+
+  _prefer_available := _order.priority IN ('urgent', 'high');
+
+  SELECT
+    COUNT(*) FILTER (WHERE COALESCE(status, '') <> 'on_leave'),
+    COUNT(*) FILTER (WHERE status = 'on_leave')
+  INTO _eligible_count, _on_leave_count
+  FROM public.team_members
+  WHERE department = _department;
+
+  SELECT tm.id, tm.name, tm.availability, COALESCE(workload.open_orders, 0) AS open_orders
+  INTO _member
+  FROM public.team_members tm
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS open_orders, MAX(ota.assigned_at) AS last_assigned_at
+    FROM public.order_team_assignments ota
+    JOIN public.orders o ON o.id = ota.order_id
+    WHERE ota.team_member_id = tm.id
+      AND ota.order_id <> _order_id
+      AND o.status <> 'completed'
+  ) workload ON TRUE
+  WHERE tm.department = _department
+    AND COALESCE(tm.status, '') <> 'on_leave'
+  ORDER BY
+    CASE WHEN _prefer_available THEN (tm.availability = 'available') END DESC NULLS LAST,
+    COALESCE(workload.open_orders, 0),
+    CASE tm.availability WHEN 'available' THEN 0 WHEN 'off_duty' THEN 2 ELSE 1 END,
+    -- Spread ties round-robin: whoever was assigned least recently
+    workload.last_assigned_at NULLS FIRST,
+    tm.name
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _reason := format(
+    '%s open orders, %s. Picked from %s eligible %s members (%s on leave); %s priority ranks by %s.',
+    _member.open_orders,
+    COALESCE(_member.availability, 'availability unknown'),
+    _eligible_count,
+    _department,
+    _on_leave_count,
+    initcap(_order.priority::TEXT),
+    CASE WHEN _prefer_available
+      THEN 'availability, then fewest open orders'
+      ELSE 'fewest open orders, then availability'
+    END
+  );
+
+  DELETE FROM public.order_team_assignments WHERE order_id = _order_id;
+
+  INSERT INTO public.order_team_assignments (order_id, team_member_id, assignment_reason)
+  VALUES (_order_id, _member.id, _reason);
+
+  RETURN QUERY SELECT _member.id, _member.name, _reason;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_order_for_current_stage(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.auto_assign_order(_order_id UUID)
+RETURNS TABLE (assigned_member_id UUID, assigned_member_name TEXT, reason TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin')
+          OR public.is_team_member_assigned_to_order(auth.uid(), _order_id)) THEN
+    RAISE EXCEPTION 'Not authorized to assign this order';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.assign_order_for_current_stage(_order_id);
+END;
+$$;
+
+-- Orders curing now or going to curing next, with their powder and any open
+-- batch they are already in
+CREATE OR REPLACE FUNCTION public.get_curing_queue()
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  project_name TEXT,
+  status public.order_status,
+  priority public.order_priority,
+  quantity INTEGER,
+  color TEXT,
+  finish public.finish_type,
+  batch_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_oven_batches(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to manage oven batches';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.project_name,
+    o.status,
+    o.priority,
+    o.quantity,
+    oc.color,
+    oc.finish,
+    open_batch.id
+  FROM public.orders o
+  LEFT JOIN public.order_customizations oc ON oc.order_id = o.id
+  LEFT JOIN LATERAL (
+    SELECT ob.id
+    FROM public.oven_batch_orders obo
+    JOIN public.oven_batches ob ON ob.id = obo.batch_id
+    WHERE obo.order_id = o.id AND ob.status <> 'completed'
+    LIMIT 1
+  ) open_batch ON TRUE
+  WHERE o.status = 'curing'
+    OR (o.status = 'coating' AND o.routing[o.routing_step + 1] = 'curing')
+  ORDER BY oc.color, o.priority DESC, o.submitted_date;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_oven_batch(
+  _oven TEXT,
+  _cure_temperature NUMERIC,
+  _cure_minutes INTEGER,
+  _order_ids UUID[],
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.oven_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _color TEXT;
+  _finish public.finish_type;
+  _batch_number TEXT;
+  _batch public.oven_batches;
+BEGIN
+  IF NOT public.can_manage_oven_batches(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to manage oven batches';
+  END IF;
+
+  IF COALESCE(cardinality(_order_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'An oven batch needs at least one order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(_order_ids) AS ids(id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.get_curing_queue() q
+      WHERE q.order_id = ids.id AND q.batch_id IS NULL AND q.color IS NOT NULL
+    )
+  ) THEN
+    RAISE EXCEPTION 'Orders must be curing or about to cure, have a color and not already be in a batch';
+  END IF;
+
+  IF (
+    SELECT COUNT(DISTINCT (upper(oc.color), oc.finish))
+    FROM public.order_customizations oc
+    WHERE oc.order_id = ANY (_order_ids)
+  ) > 1 THEN
+    RAISE EXCEPTION 'All orders in an oven batch must share the same color and finish';
+  END IF;
+
+  SELECT oc.color, oc.finish INTO _color, _finish
+  FROM public.order_customizations oc
+  WHERE oc.order_id = _order_ids[1];
+
+  LOOP
+    _batch_number := 'OVN-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(FLOOR(RANDOM() * 1000)::TEXT, 3, '0');
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.oven_batches WHERE batch_number = _batch_number);
+  END LOOP;
+
+  INSERT INTO public.oven_batches (batch_number, oven, color, finish, cure_temperature, cure_minutes, notes, created_by)
+  VALUES (_batch_number, _oven, _color, _finish, _cure_temperature, _cure_minutes, _notes, auth.uid())
+  RETURNING * INTO _batch;
+
+  INSERT INTO public.oven_batch_orders (batch_id, order_id)
+  SELECT DISTINCT _batch.id, unnest(_order_ids);
+
+  RETURN _batch;
+END;
+$$;
+
+-- Loads the oven. Every order has to have reached curing first.
+CREATE OR REPLACE FUNCTION public.start_oven_batch(_batch_id UUID)
+RETURNS public.oven_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _batch public.oven_batches;
+  _waiting TEXT;
+BEGIN
+  IF NOT public.can_manage_oven_batches(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to manage oven batches';
+  END IF;
+
+  SELECT * INTO _batch FROM public.oven_batches WHERE id = _batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Oven batch not found';
+  END IF;
+
+  IF _batch.status <> 'planned' THEN
+    RAISE EXCEPTION 'Oven batch % has already been started', _batch.batch_number;
+  END IF;
+
+  SELECT string_agg(o.order_number, ', ') INTO _waiting
+  FROM public.oven_batch_orders obo
+  JOIN public.orders o ON o.id = obo.order_id
+  WHERE obo.batch_id = _batch_id AND o.status <> 'curing';
+
+  IF _waiting IS NOT NULL THEN
+    RAISE EXCEPTION 'Orders not in curing yet: %', _waiting;
+  END IF;
+
+  UPDATE public.oven_batches
+  SET status = 'curing', started_at = now()
+  WHERE id = _batch_id
+  RETURNING * INTO _batch;
+
+  RETURN _batch;
+END;
+$$;
+
+-- Unloads the oven and moves every order in the batch on to the next stage of
+-- its routing together
+CREATE OR REPLACE FUNCTION public.complete_oven_batch(_batch_id UUID)
+RETURNS public.oven_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _batch public.oven_batches;
+  _order_id UUID;
+BEGIN
+  IF NOT public.can_manage_oven_batches(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to manage oven batches';
+  END IF;
+
+  SELECT * INTO _batch FROM public.oven_batches WHERE id = _batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Oven batch not found';
+  END IF;
+
+  IF _batch.status <> 'curing' THEN
+    RAISE EXCEPTION 'Oven batch % is not in the oven', _batch.batch_number;
+  END IF;
+
+  UPDATE public.oven_batches
+  SET status = 'completed', ended_at = now()
+  WHERE id = _batch_id
+  RETURNING * INTO _batch;
+
+  FOR _order_id IN
+    SELECT obo.order_id
+    FROM public.oven_batch_orders obo
+    JOIN public.orders o ON o.id = obo.order_id
+    WHERE obo.batch_id = _batch_id AND o.status = 'curing'
+  LOOP
+    UPDATE public.orders
+    SET
+      status = CASE
+        WHEN COALESCE(routing_step, array_position(routing, 'curing')) >= cardinality(routing) THEN 'completed'
+        ELSE routing[COALESCE(routing_step, array_position(routing, 'curing')) + 1]
+      END,
+      completed_date = CASE
+        WHEN COALESCE(routing_step, array_position(routing, 'curing')) >= cardinality(routing) THEN now()
+        ELSE completed_date
+      END
+    WHERE id = _order_id;
+
+    PERFORM public.assign_order_for_current_stage(_order_id);
+  END LOOP;
+
+  RETURN _batch;
+END;
+$$;
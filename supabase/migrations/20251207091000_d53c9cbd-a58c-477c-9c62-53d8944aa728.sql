@@ -0,0 +1,224 @@
+-- Powder inventory: one row per powder we stock, with stock kept in kg
+CREATE TABLE public.powder_skus (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sku TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  ral_code TEXT,
+  hex_code TEXT CHECK (hex_code ~ '^#[0-9A-Fa-f]{6}$'),
+  finish public.finish_type NOT NULL,
+  texture public.texture_type NOT NULL,
+  kg_on_hand NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  reorder_point_kg NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (reorder_point_kg >= 0),
+  -- Coated area one kg covers, after overspray losses
+  coverage_sqm_per_kg NUMERIC(6, 2) NOT NULL DEFAULT 8 CHECK (coverage_sqm_per_kg > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_powder_skus_updated_at
+  BEFORE UPDATE ON public.powder_skus
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Stock ledger. kg_on_hand is the running sum of these movements
+CREATE TYPE public.powder_transaction_type AS ENUM ('receipt', 'consumption', 'adjustment');
+
+CREATE TABLE public.powder_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  powder_id UUID NOT NULL REFERENCES public.powder_skus(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  transaction_type public.powder_transaction_type NOT NULL,
+  -- Positive for stock in, negative for stock out
+  quantity_kg NUMERIC(10, 2) NOT NULL CHECK (quantity_kg <> 0),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_powder_transactions_powder_id ON public.powder_transactions(powder_id);
+CREATE INDEX idx_powder_transactions_order_id ON public.powder_transactions(order_id);
+
+-- Coated surface area of one piece, used to estimate powder usage
+ALTER TABLE public.orders
+ADD COLUMN surface_area_sqm NUMERIC(10, 3) CHECK (surface_area_sqm > 0);
+
+ALTER TABLE public.powder_skus ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.powder_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage powder skus"
+  ON public.powder_skus FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Team members can view powder skus"
+  ON public.powder_skus FOR SELECT
+  USING (public.has_role(auth.uid(), 'team_member'));
+
+CREATE POLICY "Admins can view powder transactions"
+  ON public.powder_transactions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can record powder transactions"
+  ON public.powder_transactions FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND created_by = auth.uid());
+
+CREATE POLICY "Team members can view powder used on assigned orders"
+  ON public.powder_transactions FOR SELECT
+  USING (public.is_team_member_assigned_to_order(auth.uid(), order_id));
+
+-- Keep kg_on_hand in step with the ledger
+CREATE OR REPLACE FUNCTION public.apply_powder_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.powder_skus
+  SET kg_on_hand = kg_on_hand + NEW.quantity_kg
+  WHERE id = NEW.powder_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_powder_transaction
+  AFTER INSERT ON public.powder_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_powder_transaction();
+
+-- Notify admins when a powder drops below its reorder point. Only fires on
+-- the crossing, not on every movement while already low.
+CREATE OR REPLACE FUNCTION public.notify_admins_on_low_powder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_active
+     AND NEW.kg_on_hand < NEW.reorder_point_kg
+     AND NOT (OLD.kg_on_hand < OLD.reorder_point_kg) THEN
+    PERFORM public.notify_admins(
+      NULL,
+      NULL,
+      'Low Powder Stock: ' || NEW.name,
+      format(
+        'Powder %s (%s) is down to %s kg, below its reorder point of %s kg.',
+        NEW.sku,
+        NEW.name,
+        NEW.kg_on_hand,
+        NEW.reorder_point_kg
+      ),
+      'high'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_low_powder_notify_admins
+  AFTER UPDATE OF kg_on_hand, reorder_point_kg ON public.powder_skus
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_admins_on_low_powder();
+
+-- Powder an order's customization should be coated with. Order colors are
+-- either a preset name or a custom hex, so match on name, RAL code or hex and
+-- prefer an exact finish and texture match, then the fullest stock.
+CREATE OR REPLACE FUNCTION public.find_powder_for_order(_order_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ps.id
+  FROM public.order_customizations oc
+  JOIN public.powder_skus ps
+    ON ps.is_active
+    AND (
+      lower(ps.name) = lower(oc.color)
+      OR upper(ps.ral_code) = upper(oc.color)
+      OR upper(ps.hex_code) = upper(oc.color)
+    )
+  WHERE oc.order_id = _order_id
+  ORDER BY
+    (ps.finish = oc.finish) DESC,
+    (ps.texture = oc.texture) DESC,
+    ps.kg_on_hand DESC
+  LIMIT 1;
+$$;
+
+-- Estimated kg for a run of an order. Orders without a surface area are
+-- estimated at 1 m² per piece until one is entered.
+CREATE OR REPLACE FUNCTION public.estimate_powder_kg(
+  _quantity INTEGER,
+  _surface_area_sqm NUMERIC,
+  _coverage_sqm_per_kg NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT ROUND(_quantity * COALESCE(_surface_area_sqm, 1) / _coverage_sqm_per_kg, 2);
+$$;
+
+-- Book the estimated powder for an order as it enters coating. Rework runs
+-- through coating again and consume again. Admins are told when no stocked
+-- powder matches the order's color.
+CREATE OR REPLACE FUNCTION public.consume_powder_on_coating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _powder RECORD;
+  _kg NUMERIC;
+BEGIN
+  IF NEW.status <> 'coating' OR OLD.status = 'coating' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, coverage_sqm_per_kg INTO _powder
+  FROM public.powder_skus
+  WHERE id = public.find_powder_for_order(NEW.id);
+
+  IF NOT FOUND THEN
+    PERFORM public.notify_admins(
+      NEW.id,
+      NEW.order_number,
+      'No Powder Match: ' || NEW.order_number,
+      'Order ' || NEW.order_number || ' entered coating but no stocked powder matches its color, so no usage was recorded.',
+      'medium'
+    );
+    RETURN NEW;
+  END IF;
+
+  _kg := public.estimate_powder_kg(NEW.quantity, NEW.surface_area_sqm, _powder.coverage_sqm_per_kg);
+
+  IF _kg > 0 THEN
+    INSERT INTO public.powder_transactions (powder_id, order_id, transaction_type, quantity_kg, notes, created_by)
+    VALUES (
+      _powder.id,
+      NEW.id,
+      'consumption',
+      -_kg,
+      CASE WHEN NEW.surface_area_sqm IS NULL
+        THEN 'Estimated at 1 m² per piece; no surface area on the order'
+      END,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER consume_powder_on_coating
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.consume_powder_on_coating();
@@ -0,0 +1,233 @@
+-- Coating catalog maintained by admins: finishes, textures and colors offered
+-- on new orders. Finishes and textures stay keyed by their enums; the tables
+-- hold the labels, availability and how the 3D preview renders them.
+CREATE TABLE public.coating_finishes (
+  finish public.finish_type NOT NULL PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  roughness NUMERIC(3, 2) NOT NULL CHECK (roughness BETWEEN 0 AND 1),
+  metalness NUMERIC(3, 2) NOT NULL CHECK (metalness BETWEEN 0 AND 1),
+  env_map_intensity NUMERIC(3, 2) NOT NULL DEFAULT 1,
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE public.coating_textures (
+  texture public.texture_type NOT NULL PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  -- Strength of the preview's bump pattern; 0 renders a flat surface
+  normal_scale NUMERIC(3, 1) NOT NULL DEFAULT 1 CHECK (normal_scale >= 0),
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE public.catalog_colors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  ral_code TEXT,
+  hex_code TEXT NOT NULL CHECK (hex_code ~ '^#[0-9A-Fa-f]{6}$'),
+  swatch_url TEXT,
+  price_surcharge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (price_surcharge >= 0),
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_catalog_colors_updated_at
+  BEFORE UPDATE ON public.catalog_colors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Finish and texture combinations each color is offered in
+CREATE TABLE public.catalog_color_options (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  color_id UUID NOT NULL REFERENCES public.catalog_colors(id) ON DELETE CASCADE,
+  finish public.finish_type NOT NULL REFERENCES public.coating_finishes(finish),
+  texture public.texture_type NOT NULL REFERENCES public.coating_textures(texture),
+  UNIQUE (color_id, finish, texture)
+);
+
+ALTER TABLE public.coating_finishes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coating_textures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.catalog_colors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.catalog_color_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view coating finishes"
+  ON public.coating_finishes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage coating finishes"
+  ON public.coating_finishes FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view coating textures"
+  ON public.coating_textures FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage coating textures"
+  ON public.coating_textures FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view catalog colors"
+  ON public.catalog_colors FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage catalog colors"
+  ON public.catalog_colors FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view catalog color options"
+  ON public.catalog_color_options FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage catalog color options"
+  ON public.catalog_color_options FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Seed with the options CreateOrder used to hard-code
+INSERT INTO public.coating_finishes (finish, label, description, roughness, metalness, env_map_intensity, sort_order) VALUES
+  ('matte', 'Matte', 'Non-reflective, smooth finish', 0.9, 0.05, 1, 1),
+  ('glossy', 'Glossy', 'High-shine, reflective finish', 0.1, 0.4, 1.5, 2),
+  ('satin', 'Satin', 'Semi-gloss, elegant finish', 0.4, 0.2, 0.8, 3);
+
+INSERT INTO public.coating_textures (texture, label, description, normal_scale, sort_order) VALUES
+  ('smooth', 'Smooth', 'Flat, even surface', 0, 1),
+  ('textured', 'Textured', 'Rough, grip-friendly surface', 0.8, 2),
+  ('hammered', 'Hammered', 'Decorative dimpled pattern', 2, 3);
+
+INSERT INTO public.catalog_colors (name, hex_code, sort_order) VALUES
+  ('Black', '#000000', 1),
+  ('White', '#FFFFFF', 2),
+  ('Gray', '#6B7280', 3),
+  ('Blue', '#3B82F6', 4),
+  ('Red', '#EF4444', 5),
+  ('Green', '#10B981', 6);
+
+INSERT INTO public.catalog_color_options (color_id, finish, texture)
+SELECT c.id, f.finish, t.texture
+FROM public.catalog_colors c
+CROSS JOIN public.coating_finishes f
+CROSS JOIN public.coating_textures t;
+
+-- Orders keep the color's hex code so the coating spec survives catalog
+-- edits, plus a link to the catalog entry it was picked from. Custom colors
+-- have no catalog entry.
+ALTER TABLE public.order_customizations
+ADD COLUMN color_id UUID REFERENCES public.catalog_colors(id) ON DELETE SET NULL;
+
+UPDATE public.order_customizations oc
+SET color_id = c.id, color = c.hex_code
+FROM public.catalog_colors c
+WHERE lower(oc.color) = lower(c.name);
+
+-- New orders can only use what the catalog currently offers. Catalog colors
+-- take their stored color from the catalog's hex code.
+CREATE OR REPLACE FUNCTION public.validate_order_customization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.color_id IS NOT NULL THEN
+    SELECT hex_code INTO NEW.color
+    FROM public.catalog_colors c
+    JOIN public.catalog_color_options o ON o.color_id = c.id
+    JOIN public.coating_finishes f ON f.finish = o.finish
+    JOIN public.coating_textures t ON t.texture = o.texture
+    WHERE c.id = NEW.color_id
+      AND o.finish = NEW.finish
+      AND o.texture = NEW.texture
+      AND c.is_available AND f.is_available AND t.is_available;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This color is not offered in % % finish', NEW.texture, NEW.finish
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.coating_finishes WHERE finish = NEW.finish AND is_available
+  ) OR NOT EXISTS (
+    SELECT 1 FROM public.coating_textures WHERE texture = NEW.texture AND is_available
+  ) THEN
+    RAISE EXCEPTION 'The % % finish is not currently offered', NEW.texture, NEW.finish
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_order_customization
+  BEFORE INSERT ON public.order_customizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_order_customization();
+
+-- Match powder through the catalog color's name and RAL code too
+CREATE OR REPLACE FUNCTION public.find_powder_for_order(_order_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ps.id
+  FROM public.order_customizations oc
+  LEFT JOIN public.catalog_colors cc ON cc.id = oc.color_id
+  JOIN public.powder_skus ps
+    ON ps.is_active
+    AND (
+      upper(ps.hex_code) = upper(oc.color)
+      OR upper(ps.ral_code) = upper(COALESCE(cc.ral_code, oc.color))
+      OR lower(ps.name) = lower(COALESCE(cc.name, oc.color))
+    )
+  WHERE oc.order_id = _order_id
+  ORDER BY
+    (ps.finish = oc.finish) DESC,
+    (ps.texture = oc.texture) DESC,
+    ps.kg_on_hand DESC
+  LIMIT 1;
+$$;
+
+-- Swatch images for catalog colors
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'color-swatches',
+  'color-swatches',
+  true,
+  2097152, -- 2MB limit
+  ARRAY['image/jpeg', 'image/jpg', 'image/png', 'image/webp']
+);
+
+CREATE POLICY "Admins can upload color swatches"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'color-swatches'
+  AND public.has_role(auth.uid(), 'admin')
+);
+
+CREATE POLICY "Admins can update color swatches"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'color-swatches'
+  AND public.has_role(auth.uid(), 'admin')
+);
+
+CREATE POLICY "Admins can delete color swatches"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'color-swatches'
+  AND public.has_role(auth.uid(), 'admin')
+);
+
+CREATE POLICY "Public read access for color swatches"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'color-swatches');
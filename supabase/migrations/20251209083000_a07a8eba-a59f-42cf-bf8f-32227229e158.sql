@@ -0,0 +1,216 @@
+-- Pricing engine: admin-editable rates used to estimate orders before an
+-- admin quotes them. Estimates exclude VAT, like quoted_price.
+CREATE TABLE public.pricing_rates (
+  -- Single row of shop-wide rates
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  rate_per_sqm NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (rate_per_sqm >= 0),
+  rate_per_piece NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (rate_per_piece >= 0),
+  sand_blasting_per_sqm NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (sand_blasting_per_sqm >= 0),
+  sand_blasting_per_piece NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (sand_blasting_per_piece >= 0),
+  custom_color_surcharge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (custom_color_surcharge >= 0),
+  minimum_charge NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (minimum_charge >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_pricing_rates_updated_at
+  BEFORE UPDATE ON public.pricing_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+INSERT INTO public.pricing_rates (rate_per_sqm, rate_per_piece, sand_blasting_per_sqm, sand_blasting_per_piece, custom_color_surcharge, minimum_charge)
+VALUES (450, 150, 250, 80, 1500, 1000);
+
+-- Discount applied from a quantity upwards; the largest matching break wins
+CREATE TABLE public.pricing_quantity_breaks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  min_quantity INTEGER NOT NULL UNIQUE CHECK (min_quantity > 1),
+  discount_percent NUMERIC(5, 2) NOT NULL CHECK (discount_percent > 0 AND discount_percent < 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.pricing_quantity_breaks (min_quantity, discount_percent) VALUES
+  (50, 5),
+  (200, 10),
+  (500, 15);
+
+-- Finish and texture surcharges, as a percentage of the coating price
+ALTER TABLE public.coating_finishes
+ADD COLUMN surcharge_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (surcharge_percent >= 0);
+
+ALTER TABLE public.coating_textures
+ADD COLUMN surcharge_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (surcharge_percent >= 0);
+
+UPDATE public.coating_finishes SET surcharge_percent = 10 WHERE finish = 'glossy';
+UPDATE public.coating_finishes SET surcharge_percent = 5 WHERE finish = 'satin';
+UPDATE public.coating_textures SET surcharge_percent = 10 WHERE texture = 'textured';
+UPDATE public.coating_textures SET surcharge_percent = 20 WHERE texture = 'hammered';
+
+ALTER TABLE public.pricing_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pricing_quantity_breaks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing rates"
+  ON public.pricing_rates FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update pricing rates"
+  ON public.pricing_rates FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view quantity breaks"
+  ON public.pricing_quantity_breaks FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage quantity breaks"
+  ON public.pricing_quantity_breaks FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Itemized estimate; the lines sum to the estimated price. Coating and
+-- sand-blasting are priced by area when the surface area per piece is known,
+-- otherwise per piece. A NULL color means a custom color.
+CREATE OR REPLACE FUNCTION public.estimate_price(
+  _quantity INTEGER,
+  _surface_area_sqm NUMERIC,
+  _finish public.finish_type,
+  _texture public.texture_type,
+  _color_id UUID,
+  _sand_blasting BOOLEAN
+)
+RETURNS TABLE (item TEXT, amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _rates public.pricing_rates;
+  _finish_row public.coating_finishes;
+  _texture_row public.coating_textures;
+  _color public.catalog_colors;
+  _coating NUMERIC;
+  _total NUMERIC := 0;
+  _discount NUMERIC;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _rates FROM public.pricing_rates;
+  SELECT * INTO _finish_row FROM public.coating_finishes WHERE finish = _finish;
+  SELECT * INTO _texture_row FROM public.coating_textures WHERE texture = _texture;
+
+  IF _surface_area_sqm IS NOT NULL THEN
+    _coating := ROUND(_quantity * _surface_area_sqm * _rates.rate_per_sqm, 2);
+    item := format('Coating: %s pcs × %s m² at ₱%s/m²', _quantity, _surface_area_sqm, _rates.rate_per_sqm);
+  ELSE
+    _coating := ROUND(_quantity * _rates.rate_per_piece, 2);
+    item := format('Coating: %s pcs at ₱%s/pc', _quantity, _rates.rate_per_piece);
+  END IF;
+  amount := _coating;
+  _total := _total + amount;
+  RETURN NEXT;
+
+  IF _finish_row.surcharge_percent > 0 THEN
+    item := format('%s finish (+%s%%)', _finish_row.label, _finish_row.surcharge_percent);
+    amount := ROUND(_coating * _finish_row.surcharge_percent / 100, 2);
+    _total := _total + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF _texture_row.surcharge_percent > 0 THEN
+    item := format('%s texture (+%s%%)', _texture_row.label, _texture_row.surcharge_percent);
+    amount := ROUND(_coating * _texture_row.surcharge_percent / 100, 2);
+    _total := _total + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF _sand_blasting THEN
+    item := 'Sand blasting';
+    amount := ROUND(
+      CASE WHEN _surface_area_sqm IS NOT NULL
+        THEN _quantity * _surface_area_sqm * _rates.sand_blasting_per_sqm
+        ELSE _quantity * _rates.sand_blasting_per_piece
+      END, 2);
+    IF amount > 0 THEN
+      _total := _total + amount;
+      RETURN NEXT;
+    END IF;
+  END IF;
+
+  IF _color_id IS NULL THEN
+    IF _rates.custom_color_surcharge > 0 THEN
+      item := 'Custom color matching';
+      amount := _rates.custom_color_surcharge;
+      _total := _total + amount;
+      RETURN NEXT;
+    END IF;
+  ELSE
+    SELECT * INTO _color FROM public.catalog_colors WHERE id = _color_id;
+    IF _color.price_surcharge > 0 THEN
+      item := format('%s color surcharge', _color.name);
+      amount := _color.price_surcharge;
+      _total := _total + amount;
+      RETURN NEXT;
+    END IF;
+  END IF;
+
+  SELECT discount_percent INTO _discount
+  FROM public.pricing_quantity_breaks
+  WHERE min_quantity <= _quantity
+  ORDER BY min_quantity DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    item := format('Quantity discount (%s%%)', _discount);
+    amount := -ROUND(_total * _discount / 100, 2);
+    _total := _total + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF _total < _rates.minimum_charge THEN
+    item := 'Minimum order charge';
+    amount := _rates.minimum_charge - _total;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+-- Estimate for an existing order, from its quantity, surface area,
+-- customization and routing. For admins and the client who placed it.
+CREATE OR REPLACE FUNCTION public.estimate_order_price(_order_id UUID)
+RETURNS TABLE (item TEXT, amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _customization public.order_customizations;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT (public.has_role(auth.uid(), 'admin') OR _order.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to view this estimate';
+  END IF;
+
+  SELECT * INTO _customization FROM public.order_customizations WHERE order_id = _order_id LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.estimate_price(
+    _order.quantity,
+    _order.surface_area_sqm,
+    _customization.finish,
+    _customization.texture,
+    _customization.color_id,
+    'sand-blasting'::public.order_status = ANY(_order.routing)
+  );
+END;
+$$;
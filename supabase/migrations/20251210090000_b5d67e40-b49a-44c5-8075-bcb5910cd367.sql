@@ -0,0 +1,15 @@
+-- Structured part geometry so surface area can be calculated instead of read
+-- from the free-text dimensions, which stay as a fallback. surface_area_sqm
+-- (per piece) holds the calculated area and can still be corrected by admins.
+CREATE TYPE public.part_shape AS ENUM ('flat_sheet', 'tube', 'profile', 'custom');
+CREATE TYPE public.dimension_unit AS ENUM ('mm', 'cm', 'm', 'in');
+
+ALTER TABLE public.orders
+ADD COLUMN part_shape public.part_shape,
+ADD COLUMN dimension_unit public.dimension_unit NOT NULL DEFAULT 'mm',
+-- Flat sheets use height as the thickness, tubes use length and diameter,
+-- profiles use the width and height of their cross-section
+ADD COLUMN part_length NUMERIC(10, 2) CHECK (part_length > 0),
+ADD COLUMN part_width NUMERIC(10, 2) CHECK (part_width > 0),
+ADD COLUMN part_height NUMERIC(10, 2) CHECK (part_height > 0),
+ADD COLUMN part_diameter NUMERIC(10, 2) CHECK (part_diameter > 0);
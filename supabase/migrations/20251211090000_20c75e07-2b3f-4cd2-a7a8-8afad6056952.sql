@@ -0,0 +1,645 @@
+-- Multi-item orders: each line item has its own description, quantity, part
+-- geometry, coating and quote. orders.description becomes the project
+-- description, orders.quantity the total pieces and orders.quoted_price the
+-- sum of the line quotes.
+CREATE TABLE public.order_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position > 0),
+  description TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  dimensions TEXT,
+  part_shape public.part_shape,
+  dimension_unit public.dimension_unit NOT NULL DEFAULT 'mm',
+  part_length NUMERIC(10, 2) CHECK (part_length > 0),
+  part_width NUMERIC(10, 2) CHECK (part_width > 0),
+  part_height NUMERIC(10, 2) CHECK (part_height > 0),
+  part_diameter NUMERIC(10, 2) CHECK (part_diameter > 0),
+  surface_area_sqm NUMERIC(10, 3) CHECK (surface_area_sqm > 0),
+  quoted_price NUMERIC(10, 2) CHECK (quoted_price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (order_id, position)
+);
+
+CREATE TRIGGER update_order_items_updated_at
+  BEFORE UPDATE ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Each item is coated as described by its own customization
+ALTER TABLE public.order_customizations
+ADD COLUMN order_item_id UUID UNIQUE REFERENCES public.order_items(id) ON DELETE CASCADE;
+
+-- Existing orders become single-item orders
+INSERT INTO public.order_items (
+  order_id, position, description, quantity, dimensions, part_shape, dimension_unit,
+  part_length, part_width, part_height, part_diameter, surface_area_sqm, quoted_price
+)
+SELECT
+  id, 1, description, quantity, dimensions, part_shape, dimension_unit,
+  part_length, part_width, part_height, part_diameter, surface_area_sqm, quoted_price
+FROM public.orders;
+
+UPDATE public.order_customizations oc
+SET order_item_id = oi.id
+FROM public.order_items oi
+WHERE oi.order_id = oc.order_id
+  AND oc.id = (
+    SELECT first.id FROM public.order_customizations first
+    WHERE first.order_id = oc.order_id
+    ORDER BY first.created_at
+    LIMIT 1
+  );
+
+ALTER TABLE public.orders
+DROP COLUMN dimensions,
+DROP COLUMN part_shape,
+DROP COLUMN dimension_unit,
+DROP COLUMN part_length,
+DROP COLUMN part_width,
+DROP COLUMN part_height,
+DROP COLUMN part_diameter,
+DROP COLUMN surface_area_sqm;
+
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view items of their orders"
+  ON public.order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_items.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add items to their orders"
+  ON public.order_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = order_items.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage order items"
+  ON public.order_items FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Team members can view items of assigned orders"
+  ON public.order_items FOR SELECT
+  TO authenticated
+  USING (public.is_team_member_assigned_to_order(auth.uid(), order_id));
+
+CREATE POLICY "Team members can view customizations for assigned orders"
+  ON public.order_customizations FOR SELECT
+  TO authenticated
+  USING (public.is_team_member_assigned_to_order(auth.uid(), order_id));
+
+-- Keep the order's total piece count in step with its items
+CREATE OR REPLACE FUNCTION public.sync_order_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID := COALESCE(NEW.order_id, OLD.order_id);
+BEGIN
+  UPDATE public.orders
+  SET quantity = items.total
+  FROM (
+    SELECT SUM(quantity)::INTEGER AS total FROM public.order_items WHERE order_id = _order_id
+  ) items
+  WHERE id = _order_id AND items.total IS NOT NULL AND quantity <> items.total;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_order_quantity
+  AFTER INSERT OR DELETE OR UPDATE OF quantity ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_order_quantity();
+
+-- Admins quote line by line and save the sum as the order's quote. A total
+-- agreed some other way (an accepted counter-offer) is spread across the
+-- lines in proportion to their quotes, or to quantity before any line was
+-- quoted, so the lines always add up to the order total.
+CREATE OR REPLACE FUNCTION public.distribute_order_quote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lines_total NUMERIC;
+  _quantity_total NUMERIC;
+  _last_item_id UUID;
+BEGIN
+  IF NEW.quoted_price IS NULL OR NEW.quoted_price IS NOT DISTINCT FROM OLD.quoted_price THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT SUM(COALESCE(quoted_price, 0)), SUM(quantity)
+  INTO _lines_total, _quantity_total
+  FROM public.order_items
+  WHERE order_id = NEW.id;
+
+  IF _quantity_total IS NULL OR _lines_total = NEW.quoted_price THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.order_items
+  SET quoted_price = ROUND(
+    NEW.quoted_price * CASE WHEN _lines_total > 0 THEN COALESCE(quoted_price, 0) / _lines_total
+                            ELSE quantity / _quantity_total END,
+    2)
+  WHERE order_id = NEW.id;
+
+  -- Rounding differences go on the last line
+  SELECT id INTO _last_item_id
+  FROM public.order_items
+  WHERE order_id = NEW.id
+  ORDER BY position DESC
+  LIMIT 1;
+
+  UPDATE public.order_items
+  SET quoted_price = quoted_price + NEW.quoted_price - (
+    SELECT SUM(quoted_price) FROM public.order_items WHERE order_id = NEW.id
+  )
+  WHERE id = _last_item_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER distribute_order_quote
+  AFTER UPDATE OF quoted_price ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.distribute_order_quote();
+
+-- Estimates are per item; the minimum order charge only applies once per
+-- order, so item estimates can leave it out
+DROP FUNCTION public.estimate_order_price(UUID);
+DROP FUNCTION public.estimate_price(INTEGER, NUMERIC, public.finish_type, public.texture_type, UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.estimate_price(
+  _quantity INTEGER,
+  _surface_area_sqm NUMERIC,
+  _finish public.finish_type,
+  _texture public.texture_type,
+  _color_id UUID,
+  _sand_blasting BOOLEAN,
+  _apply_minimum BOOLEAN DEFAULT true
+)
+RETURNS TABLE (item TEXT, amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _rates public.pricing_rates;
+  _finish_row public.coating_finishes;
+  _texture_row public.coating_textures;
+  _color public.catalog_colors;
+  _coating NUMERIC;
+  _total NUMERIC := 0;
+  _discount NUMERIC;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO _rates FROM public.pricing_rates;
+  SELECT * INTO _finish_row FROM public.coating_finishes WHERE finish = _finish;
+  SELECT * INTO _texture_row FROM public.coating_textures WHERE texture = _texture;
+
+  IF _surface_area_sqm IS NOT NULL THEN
+    _coating := ROUND(_quantity * _surface_area_sqm * _rates.rate_per_sqm, 2);
+    item := format('Coating: %s pcs × %s m² at ₱%s/m²', _quantity, _surface_area_sqm, _rates.rate_per_sqm);
+  ELSE
+    _coating := ROUND(_quantity * _rates.rate_per_piece, 2);
+    item := format('Coating: %s pcs at ₱%s/pc', _quantity, _rates.rate_per_piece);
+  END IF;
+  amount := _coating;
+  _total := _total + amount;
+  RETURN NEXT;
+
+  IF _finish_row.surcharge_percent > 0 THEN
+    item := format('%s finish (+%s%%)', _finish_row.label, _finish_row.surcharge_percent);
+    amount := ROUND(_coating * _finish_row.surcharge_percent / 100, 2);
+    _total := _total + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF _texture_row.surcharge_percent > 0 THEN
+    item := format('%s texture (+%s%%)', _texture_row.label, _texture_row.surcharge_percent);
+    amount := ROUND(_coating * _texture_row.surcharge_percent / 100, 2);
+    _total := _total + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF _sand_blasting THEN
+    item := 'Sand blasting';
+    amount := ROUND(
+      CASE WHEN _surface_area_sqm IS NOT NULL
+        THEN _quantity * _surface_area_sqm * _rates.sand_blasting_per_sqm
+        ELSE _quantity * _rates.sand_blasting_per_piece
+      END, 2);
+    IF amount > 0 THEN
+      _total := _total + amount;
+      RETURN NEXT;
+    END IF;
+  END IF;
+
+  IF _color_id IS NULL THEN
+    IF _rates.custom_color_surcharge > 0 THEN
+      item := 'Custom color matching';
+      amount := _rates.custom_color_surcharge;
+      _total := _total + amount;
+      RETURN NEXT;
+    END IF;
+  ELSE
+    SELECT * INTO _color FROM public.catalog_colors WHERE id = _color_id;
+    IF _color.price_surcharge > 0 THEN
+      item := format('%s color surcharge', _color.name);
+      amount := _color.price_surcharge;
+      _total := _total + amount;
+      RETURN NEXT;
+    END IF;
+  END IF;
+
+  SELECT discount_percent INTO _discount
+  FROM public.pricing_quantity_breaks
+  WHERE min_quantity <= _quantity
+  ORDER BY min_quantity DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    item := format('Quantity discount (%s%%)', _discount);
+    amount := -ROUND(_total * _discount / 100, 2);
+    _total := _total + amount;
+    RETURN NEXT;
+  END IF;
+
+  IF _apply_minimum AND _total < _rates.minimum_charge THEN
+    item := 'Minimum order charge';
+    amount := _rates.minimum_charge - _total;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+-- Estimate for a set of items priced together, as
+-- [{ "description", "quantity", "surface_area_sqm", "finish", "texture", "color_id" }].
+-- Lines carry the 1-based index of their item; the minimum order charge has none.
+CREATE OR REPLACE FUNCTION public.estimate_items_price(_items JSONB, _sand_blasting BOOLEAN)
+RETURNS TABLE (item_index INTEGER, item TEXT, amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _item RECORD;
+  _line RECORD;
+  _total NUMERIC := 0;
+  _minimum NUMERIC;
+BEGIN
+  FOR _item IN
+    SELECT value, ordinality::INTEGER AS idx
+    FROM jsonb_array_elements(COALESCE(_items, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    FOR _line IN
+      SELECT * FROM public.estimate_price(
+        (_item.value->>'quantity')::INTEGER,
+        (_item.value->>'surface_area_sqm')::NUMERIC,
+        (_item.value->>'finish')::public.finish_type,
+        (_item.value->>'texture')::public.texture_type,
+        (_item.value->>'color_id')::UUID,
+        _sand_blasting,
+        false
+      )
+    LOOP
+      item_index := _item.idx;
+      item := CASE WHEN jsonb_array_length(_items) > 1
+        THEN COALESCE(NULLIF(_item.value->>'description', ''), 'Item ' || _item.idx) || ' – ' || _line.item
+        ELSE _line.item
+      END;
+      amount := _line.amount;
+      _total := _total + amount;
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+
+  SELECT minimum_charge INTO _minimum FROM public.pricing_rates;
+
+  IF _total > 0 AND _total < _minimum THEN
+    item_index := NULL;
+    item := 'Minimum order charge';
+    amount := _minimum - _total;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+-- Estimate for an existing order, line by line. For admins and the client
+-- who placed it.
+CREATE OR REPLACE FUNCTION public.estimate_order_price(_order_id UUID)
+RETURNS TABLE (order_item_id UUID, item TEXT, amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _item_ids UUID[];
+  _items JSONB;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT (public.has_role(auth.uid(), 'admin') OR _order.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to view this estimate';
+  END IF;
+
+  SELECT
+    array_agg(oi.id ORDER BY oi.position),
+    jsonb_agg(
+      jsonb_build_object(
+        'description', oi.description,
+        'quantity', oi.quantity,
+        'surface_area_sqm', oi.surface_area_sqm,
+        'finish', oc.finish,
+        'texture', oc.texture,
+        'color_id', oc.color_id
+      )
+      ORDER BY oi.position
+    )
+  INTO _item_ids, _items
+  FROM public.order_items oi
+  JOIN public.order_customizations oc ON oc.order_item_id = oi.id
+  WHERE oi.order_id = _order_id;
+
+  IF _items IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT _item_ids[e.item_index], e.item, e.amount
+  FROM public.estimate_items_price(
+    _items,
+    'sand-blasting'::public.order_status = ANY(_order.routing)
+  ) e;
+END;
+$$;
+
+-- Powder matching moves from the order to each of its items
+DROP FUNCTION public.find_powder_for_order(UUID);
+
+CREATE OR REPLACE FUNCTION public.find_powder_for_item(_order_item_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ps.id
+  FROM public.order_customizations oc
+  LEFT JOIN public.catalog_colors cc ON cc.id = oc.color_id
+  JOIN public.powder_skus ps
+    ON ps.is_active
+    AND (
+      upper(ps.hex_code) = upper(oc.color)
+      OR upper(ps.ral_code) = upper(COALESCE(cc.ral_code, oc.color))
+      OR lower(ps.name) = lower(COALESCE(cc.name, oc.color))
+    )
+  WHERE oc.order_item_id = _order_item_id
+  ORDER BY
+    (ps.finish = oc.finish) DESC,
+    (ps.texture = oc.texture) DESC,
+    ps.kg_on_hand DESC
+  LIMIT 1;
+$$;
+
+-- Book the estimated powder for each item as the order enters coating
+CREATE OR REPLACE FUNCTION public.consume_powder_on_coating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.order_items;
+  _powder RECORD;
+  _kg NUMERIC;
+BEGIN
+  IF NEW.status <> 'coating' OR OLD.status = 'coating' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _item IN
+    SELECT * FROM public.order_items WHERE order_id = NEW.id ORDER BY position
+  LOOP
+    SELECT id, coverage_sqm_per_kg INTO _powder
+    FROM public.powder_skus
+    WHERE id = public.find_powder_for_item(_item.id);
+
+    IF NOT FOUND THEN
+      PERFORM public.notify_admins(
+        NEW.id,
+        NEW.order_number,
+        'No Powder Match: ' || NEW.order_number,
+        format(
+          'Order %s entered coating but no stocked powder matches the color of "%s", so no usage was recorded for it.',
+          NEW.order_number,
+          _item.description
+        ),
+        'medium'
+      );
+      CONTINUE;
+    END IF;
+
+    _kg := public.estimate_powder_kg(_item.quantity, _item.surface_area_sqm, _powder.coverage_sqm_per_kg);
+
+    IF _kg > 0 THEN
+      INSERT INTO public.powder_transactions (powder_id, order_id, transaction_type, quantity_kg, notes, created_by)
+      VALUES (
+        _powder.id,
+        NEW.id,
+        'consumption',
+        -_kg,
+        _item.description || CASE WHEN _item.surface_area_sqm IS NULL
+          THEN ' (estimated at 1 m² per piece; no surface area on the item)'
+          ELSE ''
+        END,
+        auth.uid()
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Oven batches share one color and finish, so only orders whose items all
+-- use the same coating can be batched. Mixed orders come back without a color.
+CREATE OR REPLACE FUNCTION public.get_curing_queue()
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  project_name TEXT,
+  status public.order_status,
+  priority public.order_priority,
+  quantity INTEGER,
+  color TEXT,
+  finish public.finish_type,
+  batch_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_oven_batches(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to manage oven batches';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.project_name,
+    o.status,
+    o.priority,
+    o.quantity,
+    coating.color,
+    coating.finish,
+    open_batch.id
+  FROM public.orders o
+  LEFT JOIN LATERAL (
+    SELECT MIN(oc.color) AS color, MIN(oc.finish::TEXT)::public.finish_type AS finish
+    FROM public.order_customizations oc
+    WHERE oc.order_id = o.id
+    HAVING COUNT(DISTINCT (upper(oc.color), oc.finish)) = 1
+  ) coating ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT ob.id
+    FROM public.oven_batch_orders obo
+    JOIN public.oven_batches ob ON ob.id = obo.batch_id
+    WHERE obo.order_id = o.id AND ob.status <> 'completed'
+    LIMIT 1
+  ) open_batch ON TRUE
+  WHERE o.status = 'curing'
+    OR (o.status = 'coating' AND o.routing[o.routing_step + 1] = 'curing')
+  ORDER BY coating.color, o.priority DESC, o.submitted_date;
+END;
+$$;
+
+-- Invoice one line per item
+CREATE OR REPLACE FUNCTION public.issue_invoice(_order_id UUID)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _invoice public.invoices;
+  _year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  _next_number INTEGER;
+  _line_items JSONB;
+  _subtotal NUMERIC(12, 2);
+  _vat_rate NUMERIC(5, 4) := 0.12;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue invoices';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Invoices can only be issued for completed orders';
+  END IF;
+
+  IF _order.quoted_price IS NULL THEN
+    RAISE EXCEPTION 'Order % has no quoted price', _order.order_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'An invoice has already been issued for order %', _order.order_number;
+  END IF;
+
+  -- Lock the counter row for this year and take the next number
+  INSERT INTO public.invoice_counters (year, last_number)
+  VALUES (_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = invoice_counters.last_number + 1
+  RETURNING last_number INTO _next_number;
+
+  _subtotal := ROUND(_order.quoted_price, 2);
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'description', _order.project_name || ' - ' || oi.description,
+      'quantity', oi.quantity,
+      'unit_price', ROUND(COALESCE(oi.quoted_price, 0) / oi.quantity, 2),
+      'amount', COALESCE(oi.quoted_price, 0)
+    )
+    ORDER BY oi.position
+  )
+  INTO _line_items
+  FROM public.order_items oi
+  WHERE oi.order_id = _order_id;
+
+  INSERT INTO public.invoices (
+    invoice_number,
+    order_id,
+    user_id,
+    line_items,
+    subtotal,
+    vat_rate,
+    vat_amount,
+    total_amount,
+    issued_by
+  )
+  VALUES (
+    'INV-' || _year || '-' || LPAD(_next_number::TEXT, 5, '0'),
+    _order.id,
+    _order.user_id,
+    COALESCE(_line_items, '[]'::jsonb),
+    _subtotal,
+    _vat_rate,
+    ROUND(_subtotal * _vat_rate, 2),
+    _subtotal + ROUND(_subtotal * _vat_rate, 2),
+    auth.uid()
+  )
+  RETURNING * INTO _invoice;
+
+  -- Let the client know their invoice is ready
+  INSERT INTO public.messages (user_id, order_id, subject, message, priority)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    'Invoice ' || _invoice.invoice_number || ' Issued',
+    'An invoice for order ' || _order.order_number || ' has been issued. You can download it from your order history.',
+    'medium'
+  );
+
+  RETURN _invoice;
+END;
+$$;
@@ -0,0 +1,227 @@
+-- Quote versions: every offer the shop makes on an order is a numbered
+-- version with a validity period and the terms it was issued under. Offers
+-- past their validity are expired by a scheduled job and can no longer be
+-- accepted.
+CREATE TABLE public.quote_settings (
+  -- Single row of shop-wide quote settings
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  validity_days INTEGER NOT NULL DEFAULT 30 CHECK (validity_days > 0),
+  terms TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_quote_settings_updated_at
+  BEFORE UPDATE ON public.quote_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+INSERT INTO public.quote_settings (validity_days, terms)
+VALUES (
+  30,
+  E'1. Prices are in Philippine Pesos and exclude 12% VAT.\n'
+  '2. This quote is valid until the date shown. Expired quotes must be re-issued before work can begin.\n'
+  '3. Production starts once the quote is approved. Completion dates are estimates.\n'
+  '4. Parts must be free of oil, heavy rust and previous coatings unless sand blasting is included.\n'
+  '5. Payment is due on pickup unless otherwise agreed in writing.'
+);
+
+ALTER TABLE public.quote_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view quote settings"
+  ON public.quote_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can update quote settings"
+  ON public.quote_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Shop offers get a version, an expiry and the terms they were issued under.
+-- Client counter-offers, acceptances and declines have no version.
+-- Statuses: pending, accepted, rejected, countered, expired
+ALTER TABLE public.quote_negotiations
+ADD COLUMN version INTEGER CHECK (version > 0),
+ADD COLUMN valid_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN terms TEXT,
+-- Line amounts at the time of the offer, when the line quotes added up to it
+ADD COLUMN line_items JSONB,
+ADD CONSTRAINT quote_negotiations_order_version_key UNIQUE (order_id, version);
+
+-- Existing shop offers become versions in the order they were made, valid for
+-- the default period from when they were made
+UPDATE public.quote_negotiations qn
+SET
+  version = numbered.version,
+  valid_until = qn.created_at + make_interval(days => (SELECT validity_days FROM public.quote_settings))
+FROM (
+  SELECT
+    q.id,
+    row_number() OVER (PARTITION BY q.order_id ORDER BY q.created_at)::INTEGER AS version
+  FROM public.quote_negotiations q
+  JOIN public.orders o ON o.id = q.order_id
+  WHERE q.quoted_by <> o.user_id
+) numbered
+WHERE numbered.id = qn.id;
+
+-- Numbers new shop offers and stamps their expiry and terms. Stops a client
+-- from accepting an offer that has expired or been replaced.
+CREATE OR REPLACE FUNCTION public.prepare_quote_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _settings public.quote_settings;
+  _offer public.quote_negotiations;
+  _lines JSONB;
+  _lines_total NUMERIC;
+  _lines_complete BOOLEAN;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = NEW.order_id;
+
+  IF NEW.quoted_by = _order.user_id THEN
+    IF NEW.status = 'accepted' THEN
+      SELECT * INTO _offer
+      FROM public.quote_negotiations
+      WHERE order_id = NEW.order_id AND version IS NOT NULL
+      ORDER BY version DESC
+      LIMIT 1;
+
+      IF _offer.id IS NULL THEN
+        RAISE EXCEPTION 'There is no quote to accept for this order';
+      END IF;
+
+      IF _offer.status = 'expired' OR _offer.valid_until < now() THEN
+        RAISE EXCEPTION 'This quote has expired. Please request a new quote.';
+      END IF;
+
+      IF NEW.quoted_price <> _offer.quoted_price THEN
+        RAISE EXCEPTION 'The quote has changed. Please review the latest quote.';
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _settings FROM public.quote_settings;
+
+  NEW.version := COALESCE(
+    (SELECT max(version) FROM public.quote_negotiations WHERE order_id = NEW.order_id),
+    0
+  ) + 1;
+  NEW.valid_until := COALESCE(NEW.valid_until, now() + make_interval(days => _settings.validity_days));
+  NEW.terms := COALESCE(NEW.terms, _settings.terms);
+
+  SELECT
+    jsonb_agg(
+      jsonb_build_object('description', description, 'quantity', quantity, 'amount', quoted_price)
+      ORDER BY position
+    ),
+    sum(quoted_price),
+    bool_and(quoted_price IS NOT NULL)
+  INTO _lines, _lines_total, _lines_complete
+  FROM public.order_items
+  WHERE order_id = NEW.order_id;
+
+  IF _lines_complete AND _lines_total = NEW.quoted_price THEN
+    NEW.line_items := _lines;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_quote_version
+  BEFORE INSERT ON public.quote_negotiations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_quote_version();
+
+-- Marks open offers past their validity as expired and lets the client and
+-- admins know when an order's latest offer lapses. Returns how many offers
+-- were expired.
+CREATE OR REPLACE FUNCTION public.expire_stale_quotes()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quote RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _quote IN
+    UPDATE public.quote_negotiations qn
+    SET status = 'expired'
+    FROM public.orders o
+    WHERE o.id = qn.order_id
+      AND qn.version IS NOT NULL
+      AND qn.status IN ('pending', 'accepted')
+      AND qn.valid_until < now()
+      AND NOT COALESCE(o.quote_approved, false)
+    RETURNING qn.order_id, qn.version, o.order_number, o.user_id
+  LOOP
+    _count := _count + 1;
+
+    -- Older versions were already replaced; only the latest one is news
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.quote_negotiations
+      WHERE order_id = _quote.order_id AND version > _quote.version
+    );
+
+    INSERT INTO public.messages (user_id, order_id, subject, message, priority)
+    VALUES (
+      _quote.user_id,
+      _quote.order_id,
+      'Quote Expired',
+      'The quote for order ' || _quote.order_number || ' has expired. You can request a new quote from the order page.',
+      'medium'
+    );
+
+    PERFORM public.notify_admins(
+      _quote.order_id,
+      _quote.order_number,
+      'Quote Expired',
+      'Quote version ' || _quote.version || ' for order ' || _quote.order_number || ' expired without being approved.',
+      'low'
+    );
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Lets the client of an order ask the shop for a fresh quote
+CREATE OR REPLACE FUNCTION public.request_new_quote(_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id AND user_id = auth.uid();
+
+  IF _order.id IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF COALESCE(_order.quote_approved, false) THEN
+    RAISE EXCEPTION 'The quote for this order has already been approved';
+  END IF;
+
+  PERFORM public.notify_admins(
+    _order.id,
+    _order.order_number,
+    'New Quote Requested',
+    'The client has requested a new quote for order ' || _order.order_number || '.',
+    'high'
+  );
+END;
+$$;
+
+-- Check for stale offers every hour
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-stale-quotes', '0 * * * *', $$SELECT public.expire_stale_quotes()$$);
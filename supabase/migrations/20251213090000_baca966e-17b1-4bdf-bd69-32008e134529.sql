@@ -0,0 +1,130 @@
+-- Payments received against orders. The amount due is the invoice total, or
+-- the quoted price plus 12% VAT before an invoice is issued.
+CREATE TYPE public.payment_type AS ENUM ('deposit', 'partial', 'final');
+CREATE TYPE public.payment_method AS ENUM ('cash', 'bank_transfer', 'gcash', 'check');
+
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  payment_type public.payment_type NOT NULL,
+  method public.payment_method NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  reference_number TEXT,
+  notes TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments for their orders"
+  ON public.payments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage payments"
+  ON public.payments FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Share of the amount due to collect before an order can be completed.
+-- 0 turns the check off.
+ALTER TABLE public.quote_settings
+ADD COLUMN deposit_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (deposit_percent >= 0 AND deposit_percent <= 100);
+
+-- What an order costs, what has been paid and what is left. NULL amounts
+-- while the order has no quote. Runs with the caller's row access.
+CREATE OR REPLACE FUNCTION public.get_order_balance(_order_id UUID)
+RETURNS TABLE (total_due NUMERIC, amount_paid NUMERIC, balance_due NUMERIC, deposit_required NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    due.total,
+    paid.total,
+    due.total - paid.total,
+    ROUND(due.total * (SELECT deposit_percent FROM public.quote_settings) / 100, 2)
+  FROM public.orders o
+  LEFT JOIN public.invoices i ON i.order_id = o.id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(i.total_amount, ROUND(o.quoted_price * 1.12, 2)) AS total
+  ) due
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(p.amount), 0) AS total FROM public.payments p WHERE p.order_id = o.id
+  ) paid
+  WHERE o.id = _order_id;
+$$;
+
+-- Orders can't be completed until the required deposit has been paid
+CREATE OR REPLACE FUNCTION public.check_deposit_before_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance RECORD;
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    SELECT * INTO _balance FROM public.get_order_balance(NEW.id);
+
+    IF _balance.deposit_required > 0 AND _balance.amount_paid < _balance.deposit_required THEN
+      RAISE EXCEPTION 'Order % needs a deposit of ₱% before it can be completed (₱% paid)',
+        NEW.order_number, _balance.deposit_required, _balance.amount_paid;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_deposit_before_completion
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_deposit_before_completion();
+
+-- An invoice is paid once payments cover the balance
+CREATE OR REPLACE FUNCTION public.sync_invoice_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order_id UUID := COALESCE(NEW.order_id, OLD.order_id);
+  _paid BOOLEAN;
+BEGIN
+  SELECT balance_due <= 0 INTO _paid FROM public.get_order_balance(_order_id);
+
+  UPDATE public.invoices
+  SET
+    status = CASE WHEN _paid THEN 'paid' ELSE 'unpaid' END::public.invoice_status,
+    paid_at = CASE WHEN _paid THEN COALESCE(paid_at, now()) END
+  WHERE order_id = _order_id
+    AND status <> CASE WHEN _paid THEN 'paid' ELSE 'unpaid' END::public.invoice_status;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_payment_status
+  AFTER INSERT OR UPDATE OR DELETE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_invoice_payment_status();
+
+-- Orders paid in full before invoicing get a paid invoice
+CREATE TRIGGER sync_new_invoice_payment_status
+  AFTER INSERT ON public.invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_invoice_payment_status();
@@ -0,0 +1,87 @@
+-- Money figures for the Reports page over a date range:
+--   revenue         invoices issued in the range
+--   collected       payments received in the range
+--   outstanding     unpaid invoice balances as of the end date, aged by days
+--                   since the invoice was issued
+--   quotes          shop offers made in the range, and how many of the orders
+--                   they were made on went on to be approved
+-- Runs with the caller's row access, so only admins see every order.
+CREATE OR REPLACE FUNCTION public.get_financial_summary(_start_date DATE, _end_date DATE)
+RETURNS TABLE (
+  revenue NUMERIC,
+  invoices_issued BIGINT,
+  collected NUMERIC,
+  outstanding NUMERIC,
+  aging_0_30 NUMERIC,
+  aging_31_60 NUMERIC,
+  aging_61_90 NUMERIC,
+  aging_over_90 NUMERIC,
+  quotes_issued BIGINT,
+  average_quote NUMERIC,
+  quoted_orders BIGINT,
+  accepted_orders BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH receivables AS (
+    SELECT
+      i.total_amount - COALESCE((
+        SELECT SUM(p.amount)
+        FROM public.payments p
+        WHERE p.order_id = i.order_id AND p.paid_at::DATE <= _end_date
+      ), 0) AS balance,
+      _end_date - i.issued_at::DATE AS age_days
+    FROM public.invoices i
+    WHERE i.issued_at::DATE <= _end_date
+  ),
+  offers AS (
+    SELECT qn.order_id, qn.quoted_price
+    FROM public.quote_negotiations qn
+    WHERE qn.version IS NOT NULL
+      AND qn.created_at::DATE BETWEEN _start_date AND _end_date
+  )
+  SELECT
+    invoiced.revenue,
+    invoiced.invoices_issued,
+    paid.collected,
+    aged.outstanding,
+    aged.aging_0_30,
+    aged.aging_31_60,
+    aged.aging_61_90,
+    aged.aging_over_90,
+    quoted.quotes_issued,
+    quoted.average_quote,
+    quoted.quoted_orders,
+    quoted.accepted_orders
+  FROM (
+    SELECT COALESCE(SUM(total_amount), 0) AS revenue, COUNT(*) AS invoices_issued
+    FROM public.invoices
+    WHERE issued_at::DATE BETWEEN _start_date AND _end_date
+  ) invoiced
+  CROSS JOIN (
+    SELECT COALESCE(SUM(amount), 0) AS collected
+    FROM public.payments
+    WHERE paid_at::DATE BETWEEN _start_date AND _end_date
+  ) paid
+  CROSS JOIN (
+    SELECT
+      COALESCE(SUM(balance), 0) AS outstanding,
+      COALESCE(SUM(balance) FILTER (WHERE age_days <= 30), 0) AS aging_0_30,
+      COALESCE(SUM(balance) FILTER (WHERE age_days BETWEEN 31 AND 60), 0) AS aging_31_60,
+      COALESCE(SUM(balance) FILTER (WHERE age_days BETWEEN 61 AND 90), 0) AS aging_61_90,
+      COALESCE(SUM(balance) FILTER (WHERE age_days > 90), 0) AS aging_over_90
+    FROM receivables
+    WHERE balance > 0
+  ) aged
+  CROSS JOIN (
+    SELECT
+      COUNT(*) AS quotes_issued,
+      ROUND(AVG(offers.quoted_price), 2) AS average_quote,
+      COUNT(DISTINCT offers.order_id) AS quoted_orders,
+      COUNT(DISTINCT offers.order_id) FILTER (WHERE o.quote_approved) AS accepted_orders
+    FROM offers
+    JOIN public.orders o ON o.id = offers.order_id
+  ) quoted;
+$$;
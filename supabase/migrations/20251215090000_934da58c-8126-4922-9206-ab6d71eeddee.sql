@@ -0,0 +1,126 @@
+-- Report aggregations for the Reports page. Each takes the report's date
+-- range (orders by creation date) and returns the computed figures, so the
+-- browser no longer downloads whole tables to count them. They run with the
+-- caller's row access, so only admins see every order.
+
+-- Orders per status. Without a date range, every order: the current pipeline.
+CREATE OR REPLACE FUNCTION public.get_order_status_counts(_start_date DATE DEFAULT NULL, _end_date DATE DEFAULT NULL)
+RETURNS TABLE (status public.order_status, order_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT status, COUNT(*)
+  FROM public.orders
+  WHERE (_start_date IS NULL OR created_at::DATE >= _start_date)
+    AND (_end_date IS NULL OR created_at::DATE <= _end_date)
+  GROUP BY status
+  ORDER BY status;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_order_priority_counts(_start_date DATE, _end_date DATE)
+RETURNS TABLE (priority public.order_priority, order_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT priority, COUNT(*)
+  FROM public.orders
+  WHERE created_at::DATE BETWEEN _start_date AND _end_date
+  GROUP BY priority
+  ORDER BY priority;
+$$;
+
+-- Every team member with the number of orders currently assigned to them
+CREATE OR REPLACE FUNCTION public.get_team_workload()
+RETURNS TABLE (team_member_id UUID, name TEXT, status TEXT, availability TEXT, assigned_orders BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    tm.id,
+    tm.name,
+    COALESCE(tm.status, 'unknown'),
+    COALESCE(tm.availability, 'unknown'),
+    COUNT(ota.id)
+  FROM public.team_members tm
+  LEFT JOIN public.order_team_assignments ota ON ota.team_member_id = tm.id
+  GROUP BY tm.id
+  ORDER BY tm.name;
+$$;
+
+-- Clients are profiles that are neither admins nor team members
+CREATE OR REPLACE FUNCTION public.get_client_statistics(_start_date DATE, _end_date DATE)
+RETURNS TABLE (total_clients BIGINT, active_clients BIGINT, new_clients BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH clients AS (
+    SELECT p.id, p.created_at
+    FROM public.profiles p
+    WHERE NOT public.has_role(p.id, 'admin')
+      AND NOT EXISTS (SELECT 1 FROM public.team_members tm WHERE tm.user_id = p.id)
+  )
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (
+      WHERE EXISTS (
+        SELECT 1 FROM public.orders o
+        WHERE o.user_id = clients.id AND o.created_at::DATE BETWEEN _start_date AND _end_date
+      )
+    ),
+    COUNT(*) FILTER (WHERE created_at::DATE BETWEEN _start_date AND _end_date)
+  FROM clients;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_top_clients(_start_date DATE, _end_date DATE, _limit INTEGER DEFAULT 10)
+RETURNS TABLE (client_name TEXT, order_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.full_name, COUNT(o.id)
+  FROM public.orders o
+  JOIN public.profiles p ON p.id = o.user_id
+  WHERE o.created_at::DATE BETWEEN _start_date AND _end_date
+    AND NOT public.has_role(p.id, 'admin')
+    AND NOT EXISTS (SELECT 1 FROM public.team_members tm WHERE tm.user_id = p.id)
+  GROUP BY p.id
+  ORDER BY COUNT(o.id) DESC, p.full_name
+  LIMIT _limit;
+$$;
+
+-- Coating choices across the items ordered in the range: one row per finish,
+-- texture and color with how many items chose it and their total pieces.
+-- Colors from the catalog are labelled by name (and RAL code).
+CREATE OR REPLACE FUNCTION public.get_coating_breakdown(_start_date DATE, _end_date DATE)
+RETURNS TABLE (dimension TEXT, label TEXT, item_count BIGINT, quantity BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH choices AS (
+    SELECT
+      oc.finish::TEXT AS finish,
+      oc.texture::TEXT AS texture,
+      CASE
+        WHEN cc.id IS NULL THEN oc.color
+        WHEN cc.ral_code IS NULL THEN cc.name
+        ELSE cc.name || ' (' || cc.ral_code || ')'
+      END AS color,
+      COALESCE(oi.quantity, 0) AS quantity
+    FROM public.order_customizations oc
+    JOIN public.orders o ON o.id = oc.order_id
+    LEFT JOIN public.order_items oi ON oi.id = oc.order_item_id
+    LEFT JOIN public.catalog_colors cc ON cc.id = oc.color_id
+    WHERE o.created_at::DATE BETWEEN _start_date AND _end_date
+  )
+  SELECT 'finish', finish, COUNT(*), SUM(quantity) FROM choices GROUP BY finish
+  UNION ALL
+  SELECT 'texture', texture, COUNT(*), SUM(quantity) FROM choices GROUP BY texture
+  UNION ALL
+  SELECT 'color', color, COUNT(*), SUM(quantity) FROM choices GROUP BY color
+  ORDER BY 1, 3 DESC, 2;
+$$;
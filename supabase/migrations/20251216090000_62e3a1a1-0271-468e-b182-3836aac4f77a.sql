@@ -0,0 +1,15 @@
+-- Orders created and completed on each day of a range, including days with
+-- none, for the order volume chart on the Reports page
+CREATE OR REPLACE FUNCTION public.get_order_volume_by_day(_start_date DATE, _end_date DATE)
+RETURNS TABLE (day DATE, created_orders BIGINT, completed_orders BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    days.day::DATE,
+    (SELECT COUNT(*) FROM public.orders o WHERE o.created_at::DATE = days.day::DATE),
+    (SELECT COUNT(*) FROM public.orders o WHERE o.completed_date::DATE = days.day::DATE)
+  FROM generate_series(_start_date, _end_date, INTERVAL '1 day') AS days(day)
+  ORDER BY 1;
+$$;
@@ -0,0 +1,159 @@
+-- Saved report definitions that are rendered and emailed on a schedule by the
+-- send-scheduled-reports edge function. Times are in the shop's time zone,
+-- Asia/Manila.
+CREATE TYPE public.report_frequency AS ENUM ('daily', 'weekly', 'monthly');
+CREATE TYPE public.report_format AS ENUM ('pdf', 'csv', 'both');
+CREATE TYPE public.report_date_range AS ENUM (
+  'previous_day',
+  'last_7_days',
+  'last_30_days',
+  'previous_month',
+  'this_quarter',
+  'this_year'
+);
+
+CREATE TABLE public.report_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Report category keys, as on the Reports page
+  categories TEXT[] NOT NULL CHECK (cardinality(categories) > 0),
+  -- Period each report covers, relative to when it is sent
+  date_range public.report_date_range NOT NULL DEFAULT 'last_7_days',
+  format public.report_format NOT NULL DEFAULT 'pdf',
+  frequency public.report_frequency NOT NULL DEFAULT 'weekly',
+  -- Weekly schedules: 0 = Sunday
+  day_of_week INTEGER NOT NULL DEFAULT 1 CHECK (day_of_week BETWEEN 0 AND 6),
+  -- Monthly schedules: capped at 28 so every month has the day
+  day_of_month INTEGER NOT NULL DEFAULT 1 CHECK (day_of_month BETWEEN 1 AND 28),
+  send_hour INTEGER NOT NULL DEFAULT 7 CHECK (send_hour BETWEEN 0 AND 23),
+  recipients TEXT[] NOT NULL CHECK (cardinality(recipients) > 0),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  -- Why the last run failed; cleared by the next successful one
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_report_schedules_next_run_at ON public.report_schedules(next_run_at) WHERE enabled;
+
+CREATE TRIGGER update_report_schedules_updated_at
+  BEFORE UPDATE ON public.report_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.report_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage report schedules"
+  ON public.report_schedules FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The first send time after _after for a schedule
+CREATE OR REPLACE FUNCTION public.get_next_report_run(
+  _frequency public.report_frequency,
+  _day_of_week INTEGER,
+  _day_of_month INTEGER,
+  _send_hour INTEGER,
+  _after TIMESTAMP WITH TIME ZONE
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _local TIMESTAMP := _after AT TIME ZONE 'Asia/Manila';
+  _next TIMESTAMP;
+BEGIN
+  IF _frequency = 'daily' THEN
+    _next := date_trunc('day', _local) + make_interval(hours => _send_hour);
+    IF _next <= _local THEN
+      _next := _next + INTERVAL '1 day';
+    END IF;
+  ELSIF _frequency = 'weekly' THEN
+    _next := date_trunc('day', _local)
+      + make_interval(days => (_day_of_week - EXTRACT(DOW FROM _local)::INTEGER + 7) % 7, hours => _send_hour);
+    IF _next <= _local THEN
+      _next := _next + INTERVAL '7 days';
+    END IF;
+  ELSE
+    _next := date_trunc('month', _local) + make_interval(days => _day_of_month - 1, hours => _send_hour);
+    IF _next <= _local THEN
+      _next := date_trunc('month', _local) + INTERVAL '1 month'
+        + make_interval(days => _day_of_month - 1, hours => _send_hour);
+    END IF;
+  END IF;
+
+  RETURN _next AT TIME ZONE 'Asia/Manila';
+END;
+$$;
+
+-- Keeps next_run_at in step with the schedule. Disabled schedules never run.
+CREATE OR REPLACE FUNCTION public.set_report_schedule_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.enabled THEN
+    NEW.next_run_at := NULL;
+  ELSIF TG_OP = 'INSERT'
+     OR NEW.next_run_at IS NULL
+     OR (NEW.frequency, NEW.day_of_week, NEW.day_of_month, NEW.send_hour)
+        IS DISTINCT FROM (OLD.frequency, OLD.day_of_week, OLD.day_of_month, OLD.send_hour) THEN
+    NEW.next_run_at := public.get_next_report_run(
+      NEW.frequency, NEW.day_of_week, NEW.day_of_month, NEW.send_hour, now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_report_schedule_next_run
+  BEFORE INSERT OR UPDATE ON public.report_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_report_schedule_next_run();
+
+-- Records the outcome of a run and moves the schedule on to its next send
+-- time, whether or not the run succeeded, so a failing report isn't retried
+-- every few minutes.
+CREATE OR REPLACE FUNCTION public.finish_report_run(_schedule_id UUID, _error TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.report_schedules
+  SET
+    last_sent_at = CASE WHEN _error IS NULL THEN now() ELSE last_sent_at END,
+    last_error = _error,
+    next_run_at = CASE
+      WHEN enabled THEN public.get_next_report_run(frequency, day_of_week, day_of_month, send_hour, now())
+    END
+  WHERE id = _schedule_id;
+$$;
+
+-- Check for due reports every 15 minutes. The edge function is called with
+-- the project URL and service role key kept in Vault as 'project_url' and
+-- 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-scheduled-reports',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-scheduled-reports',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,15 @@
+-- Looks up an account by email so the import-walk-in-orders edge function can
+-- attach imported orders to a customer who already has one. Only the service
+-- role may call it; clients must not be able to probe for registered emails.
+CREATE OR REPLACE FUNCTION public.get_user_id_by_email(_email TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM auth.users WHERE lower(email) = lower(trim(_email)) LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_id_by_email(TEXT) TO service_role;
@@ -0,0 +1,197 @@
+-- Per-order conversation between the client and the shop. Admins and the
+-- team members assigned to an order post as the shop; the order's owner posts
+-- as the client. The messages table stays the notification inbox.
+
+-- Whether a user may read and post in an order's thread
+CREATE OR REPLACE FUNCTION public.can_access_order_thread(_user_id UUID, _order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (SELECT 1 FROM public.orders WHERE id = _order_id AND user_id = _user_id)
+    OR public.is_team_member_assigned_to_order(_user_id, _order_id)
+$$;
+
+CREATE TABLE public.order_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Filled in from the author's roles and profile when the message is posted
+  author_role public.app_role NOT NULL DEFAULT 'client',
+  author_name TEXT NOT NULL DEFAULT '',
+  body TEXT NOT NULL DEFAULT '' CHECK (length(body) <= 4000),
+  -- [{ "file_name", "file_size", "path" }] in the order-message-attachments bucket
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT order_messages_not_empty CHECK (length(trim(body)) > 0 OR jsonb_array_length(attachments) > 0)
+);
+
+CREATE INDEX idx_order_messages_order_id ON public.order_messages(order_id, created_at);
+
+-- How far each participant has read an order's thread; drives read receipts
+CREATE TABLE public.order_message_reads (
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  reader_role public.app_role NOT NULL DEFAULT 'client',
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (order_id, user_id)
+);
+
+ALTER TABLE public.order_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_message_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view order messages"
+  ON public.order_messages FOR SELECT
+  TO authenticated
+  USING (public.can_access_order_thread(auth.uid(), order_id));
+
+CREATE POLICY "Participants can post order messages"
+  ON public.order_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (author_id = auth.uid() AND public.can_access_order_thread(auth.uid(), order_id));
+
+CREATE POLICY "Participants can view read receipts"
+  ON public.order_message_reads FOR SELECT
+  TO authenticated
+  USING (public.can_access_order_thread(auth.uid(), order_id));
+
+CREATE POLICY "Participants can record their own reads"
+  ON public.order_message_reads FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND public.can_access_order_thread(auth.uid(), order_id));
+
+CREATE POLICY "Participants can update their own reads"
+  ON public.order_message_reads FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- The role a user speaks with in a thread: admin, then team member, then client
+CREATE OR REPLACE FUNCTION public.get_thread_role(_user_id UUID)
+RETURNS public.app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN public.has_role(_user_id, 'admin') THEN 'admin'::public.app_role
+    WHEN EXISTS (SELECT 1 FROM public.team_members WHERE user_id = _user_id) THEN 'team_member'::public.app_role
+    ELSE 'client'::public.app_role
+  END
+$$;
+
+-- Authors can't choose their own role or name
+CREATE OR REPLACE FUNCTION public.set_order_message_author()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_role := public.get_thread_role(NEW.author_id);
+  NEW.author_name := COALESCE(
+    (SELECT name FROM public.team_members WHERE user_id = NEW.author_id LIMIT 1),
+    (SELECT full_name FROM public.profiles WHERE id = NEW.author_id),
+    ''
+  );
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_message_author
+  BEFORE INSERT ON public.order_messages
+  FOR EACH ROW EXECUTE FUNCTION public.set_order_message_author();
+
+-- Read times come from the database clock, like message times, so receipts
+-- don't depend on the reader's clock
+CREATE OR REPLACE FUNCTION public.set_order_message_read()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.reader_role := public.get_thread_role(NEW.user_id);
+  NEW.last_read_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_message_read
+  BEFORE INSERT OR UPDATE ON public.order_message_reads
+  FOR EACH ROW EXECUTE FUNCTION public.set_order_message_read();
+
+-- Messages from the client go to the admins' inboxes; messages from the shop
+-- go to the client's
+CREATE OR REPLACE FUNCTION public.notify_on_order_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order RECORD;
+  _preview TEXT;
+BEGIN
+  SELECT id, user_id, order_number INTO _order FROM public.orders WHERE id = NEW.order_id;
+
+  _preview := CASE
+    WHEN length(trim(NEW.body)) = 0 THEN 'Sent an attachment'
+    WHEN length(NEW.body) > 140 THEN left(NEW.body, 137) || '...'
+    ELSE NEW.body
+  END;
+
+  IF NEW.author_role = 'client' THEN
+    PERFORM public.notify_admins(
+      _order.id,
+      _order.order_number,
+      'New message on ' || _order.order_number,
+      NEW.author_name || ': ' || _preview
+    );
+  ELSIF _order.user_id IS DISTINCT FROM NEW.author_id THEN
+    INSERT INTO public.messages (user_id, order_id, subject, message, priority)
+    VALUES (_order.user_id, _order.id, 'New message on ' || _order.order_number, 'Top Powdercoating: ' || _preview, 'medium');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_on_order_message
+  AFTER INSERT ON public.order_messages
+  FOR EACH ROW EXECUTE FUNCTION public.notify_on_order_message();
+
+-- Stream new messages and read receipts to open threads
+ALTER PUBLICATION supabase_realtime ADD TABLE public.order_messages, public.order_message_reads;
+
+-- Attachments are private; files live under <order_id>/ and are shown
+-- through signed URLs to the thread's participants
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'order-message-attachments',
+  'order-message-attachments',
+  false,
+  10485760, -- 10MB limit
+  ARRAY['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'application/pdf']
+);
+
+CREATE POLICY "Participants can upload order message attachments"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'order-message-attachments'
+  AND public.can_access_order_thread(auth.uid(), ((storage.foldername(name))[1])::uuid)
+);
+
+CREATE POLICY "Participants can view order message attachments"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'order-message-attachments'
+  AND public.can_access_order_thread(auth.uid(), ((storage.foldername(name))[1])::uuid)
+);
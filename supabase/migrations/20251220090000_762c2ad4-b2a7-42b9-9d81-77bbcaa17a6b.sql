@@ -0,0 +1,196 @@
+-- Notification center: every notification belongs to an event, users can
+-- archive or delete their own notifications, and per-user preferences decide
+-- which events produce in-app notifications and which produce emails
+
+CREATE TYPE public.notification_event AS ENUM (
+  'new_order',
+  'order_status',
+  'quote',
+  'billing',
+  'order_message',
+  'inventory'
+);
+
+CREATE TYPE public.notification_channel AS ENUM ('in_app', 'email');
+
+ALTER TABLE public.messages
+  ADD COLUMN event public.notification_event,
+  ADD COLUMN archived_at TIMESTAMPTZ;
+
+-- Most notifications are written by triggers and functions that predate
+-- events, so the event is worked out from the subject they use
+CREATE OR REPLACE FUNCTION public.classify_notification(_subject TEXT)
+RETURNS public.notification_event
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _subject ILIKE 'New Order Received%' THEN 'new_order'
+    WHEN _subject ILIKE 'New message on %' THEN 'order_message'
+    WHEN _subject ILIKE 'Low Powder Stock%' OR _subject ILIKE 'No Powder Match%' THEN 'inventory'
+    WHEN _subject ILIKE 'Invoice %' OR _subject ILIKE '%payment%' THEN 'billing'
+    WHEN _subject ILIKE '%quote%' OR _subject ILIKE 'Counter-Offer%' THEN 'quote'
+    ELSE 'order_status'
+  END::public.notification_event;
+$$;
+
+UPDATE public.messages SET event = public.classify_notification(subject);
+
+ALTER TABLE public.messages ALTER COLUMN event SET NOT NULL;
+
+CREATE INDEX idx_messages_user_inbox ON public.messages (user_id, archived_at, created_at DESC);
+
+CREATE POLICY "Users can delete their own messages"
+  ON public.messages FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- One row per user and event; a missing row means both channels are on
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event public.notification_event NOT NULL,
+  in_app BOOLEAN NOT NULL DEFAULT true,
+  email BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, event)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Whether a user wants to hear about an event on a channel
+CREATE OR REPLACE FUNCTION public.wants_notification(
+  _user_id UUID,
+  _event public.notification_event,
+  _channel public.notification_channel
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE _channel WHEN 'in_app' THEN in_app ELSE email END
+      FROM public.notification_preferences
+      WHERE user_id = _user_id AND event = _event
+    ),
+    true
+  );
+$$;
+
+-- Edge functions check preferences with the service role
+REVOKE EXECUTE ON FUNCTION public.wants_notification(UUID, public.notification_event, public.notification_channel) FROM PUBLIC, anon, authenticated;
+
+-- Fills in the event and drops notifications the recipient has turned off,
+-- so every writer of messages respects preferences
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.event := COALESCE(NEW.event, public.classify_notification(NEW.subject));
+
+  IF NOT public.wants_notification(NEW.user_id, NEW.event, 'in_app') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_notification_preferences
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.apply_notification_preferences();
+
+-- notify_admins takes the event and skips admins who turned it off
+DROP FUNCTION public.notify_admins(UUID, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.notify_admins(
+  _order_id UUID,
+  _order_number TEXT,
+  _subject TEXT,
+  _message TEXT,
+  _priority TEXT DEFAULT 'medium',
+  _event public.notification_event DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _admin_id UUID;
+  _resolved_event public.notification_event := COALESCE(_event, public.classify_notification(_subject));
+BEGIN
+  FOR _admin_id IN
+    SELECT user_id FROM public.user_roles WHERE role = 'admin'
+  LOOP
+    CONTINUE WHEN NOT public.wants_notification(_admin_id, _resolved_event, 'in_app');
+
+    INSERT INTO public.messages (user_id, order_id, subject, message, priority, is_read, event)
+    VALUES (_admin_id, _order_id, _subject, _message, _priority, false, _resolved_event);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_on_order_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order RECORD;
+  _preview TEXT;
+BEGIN
+  SELECT id, user_id, order_number INTO _order FROM public.orders WHERE id = NEW.order_id;
+
+  _preview := CASE
+    WHEN length(trim(NEW.body)) = 0 THEN 'Sent an attachment'
+    WHEN length(NEW.body) > 140 THEN left(NEW.body, 137) || '...'
+    ELSE NEW.body
+  END;
+
+  IF NEW.author_role = 'client' THEN
+    PERFORM public.notify_admins(
+      _order.id,
+      _order.order_number,
+      'New message on ' || _order.order_number,
+      NEW.author_name || ': ' || _preview,
+      'medium',
+      'order_message'
+    );
+  ELSIF _order.user_id IS DISTINCT FROM NEW.author_id THEN
+    INSERT INTO public.messages (user_id, order_id, subject, message, priority, event)
+    VALUES (
+      _order.user_id,
+      _order.id,
+      'New message on ' || _order.order_number,
+      'Top Powdercoating: ' || _preview,
+      'medium',
+      'order_message'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
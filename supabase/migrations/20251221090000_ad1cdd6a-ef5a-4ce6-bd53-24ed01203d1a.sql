@@ -0,0 +1,34 @@
+-- Admin-edited client email templates. The defaults live in
+-- supabase/functions/_shared/emailTemplates.ts; a row here overrides the
+-- default for its template and deleting it restores the default.
+
+CREATE TYPE public.email_template_key AS ENUM (
+  'order_received',
+  'quote_issued',
+  'counter_offer',
+  'status_change',
+  'order_delayed',
+  'ready_for_pickup'
+);
+
+CREATE TABLE public.email_templates (
+  key public.email_template_key PRIMARY KEY,
+  subject TEXT NOT NULL CHECK (length(trim(subject)) > 0),
+  html_body TEXT NOT NULL CHECK (length(trim(html_body)) > 0),
+  text_body TEXT NOT NULL CHECK (length(trim(text_body)) > 0),
+  updated_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage email templates"
+  ON public.email_templates FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,87 @@
+-- Outbound notification log. Every email sent to a client is recorded with
+-- the exact message, so a failed send can be retried with backoff by the
+-- retry-notification-deliveries function or resent by an admin.
+
+CREATE TYPE public.notification_delivery_status AS ENUM ('pending', 'sent', 'failed');
+
+CREATE TABLE public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  channel public.notification_channel NOT NULL,
+  template public.email_template_key,
+  recipient TEXT NOT NULL,
+  -- The message as handed to the provider, so retries send exactly the same thing
+  payload JSONB NOT NULL,
+  status public.notification_delivery_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  -- Provider's reply to the latest attempt
+  provider_response JSONB,
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  next_attempt_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notification_deliveries_due
+  ON public.notification_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_notification_deliveries_created ON public.notification_deliveries (created_at DESC);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written only by edge functions with the service role
+CREATE POLICY "Admins can view notification deliveries"
+  ON public.notification_deliveries FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON public.notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Hands due deliveries to one worker run. Claimed rows are pushed ten minutes
+-- out, so an overlapping run or a crashed worker can't send them twice
+-- before the attempt is recorded.
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.notification_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_deliveries
+  SET next_attempt_at = now() + interval '10 minutes'
+  WHERE id IN (
+    SELECT id
+    FROM public.notification_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notification_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Retry due deliveries every five minutes, with the same Vault secrets as the
+-- scheduled reports job
+SELECT cron.schedule(
+  'retry-notification-deliveries',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/retry-notification-deliveries',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
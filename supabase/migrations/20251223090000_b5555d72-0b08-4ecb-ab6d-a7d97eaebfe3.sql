@@ -0,0 +1,3 @@
+-- Text messages as a notification channel. Added on its own because a new
+-- enum value can't be used in the transaction that adds it.
+ALTER TYPE public.notification_channel ADD VALUE IF NOT EXISTS 'sms';
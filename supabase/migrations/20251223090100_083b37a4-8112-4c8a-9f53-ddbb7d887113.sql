@@ -0,0 +1,87 @@
+-- SMS notifications for completed and delayed orders, sent to the phone
+-- number on the client's profile
+
+-- Normalizes a phone number to E.164, reading numbers without a country code
+-- as Philippine numbers. Returns NULL when it can't be read as a phone number.
+-- Must stay in sync with normalizePhoneNumber in supabase/functions/_shared/phone.ts.
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _value TEXT := btrim(COALESCE(_phone, ''));
+  _digits TEXT := regexp_replace(COALESCE(_phone, ''), '\D', '', 'g');
+BEGIN
+  IF _value LIKE '+%' OR _digits LIKE '00%' THEN
+    -- Already international; 00 is the international dialing prefix
+    IF _value NOT LIKE '+%' THEN
+      _digits := substr(_digits, 3);
+    END IF;
+  ELSIF _digits ~ '^0\d{9,10}$' THEN
+    -- Local format with the trunk prefix, like 0917 123 4567 or 02 8123 4567
+    _digits := '63' || substr(_digits, 2);
+  ELSIF _digits ~ '^9\d{9}$' THEN
+    -- Mobile number without the leading 0
+    _digits := '63' || _digits;
+  ELSIF _digits !~ '^63\d{9,10}$' THEN
+    RETURN NULL;
+  END IF;
+
+  IF _digits ~ '^[1-9]\d{7,14}$' THEN
+    RETURN '+' || _digits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Every writer of profiles (signup, walk-in imports, profile edits) stores the
+-- normalized number. Numbers that can't be read are kept as typed so admins
+-- can still see them.
+CREATE OR REPLACE FUNCTION public.normalize_profile_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.phone := COALESCE(public.normalize_phone(NEW.phone), NULLIF(btrim(NEW.phone), ''));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_profile_phone
+  BEFORE INSERT OR UPDATE OF phone ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_profile_phone();
+
+UPDATE public.profiles
+SET phone = public.normalize_phone(phone)
+WHERE public.normalize_phone(phone) IS DISTINCT FROM phone
+  AND public.normalize_phone(phone) IS NOT NULL;
+
+-- Texts are opt-in, unlike the other channels
+ALTER TABLE public.notification_preferences
+  ADD COLUMN sms BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.wants_notification(
+  _user_id UUID,
+  _event public.notification_event,
+  _channel public.notification_channel
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE _channel WHEN 'in_app' THEN in_app WHEN 'sms' THEN sms ELSE email END
+      FROM public.notification_preferences
+      WHERE user_id = _user_id AND event = _event
+    ),
+    _channel <> 'sms'
+  );
+$$;
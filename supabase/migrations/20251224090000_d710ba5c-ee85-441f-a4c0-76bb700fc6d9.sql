@@ -0,0 +1,141 @@
+-- Delayed orders could be resumed at any stage, e.g. pending_quote -> delayed
+-- -> quality-check skipped quoting and production. Remember the status an
+-- order was delayed from and only let it return there.
+ALTER TABLE public.orders
+ADD COLUMN delayed_from public.order_status;
+
+-- Orders delayed before this was tracked: production orders return to their
+-- routing step, the rest to quoting unless the quote was already approved
+UPDATE public.orders
+SET delayed_from = CASE
+  WHEN routing_step IS NOT NULL THEN routing[routing_step]
+  WHEN quote_approved THEN 'queued'::public.order_status
+  ELSE 'pending_quote'::public.order_status
+END
+WHERE status = 'delayed';
+
+-- Whether a delayed order may move to _to. Orders in production resume at the
+-- stage they stopped at; orders delayed before production go back to the
+-- status they had, or back to quoting. Mirrors canResumeFromDelay in
+-- supabase/functions/_shared/orderStatus.ts
+CREATE OR REPLACE FUNCTION public.can_resume_from_delay(
+  _delayed_from public.order_status,
+  _routing public.order_status[],
+  _routing_step INTEGER,
+  _to public.order_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _routing_step IS NOT NULL THEN _to = _routing[_routing_step]
+    ELSE _to = 'pending_quote' OR (_to = 'queued' AND _delayed_from = 'queued')
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _next_step INTEGER;
+BEGIN
+  -- Stages that are done or in progress can't be rerouted
+  IF OLD.routing IS DISTINCT FROM NEW.routing AND OLD.routing_step IS NOT NULL
+     AND OLD.routing[1:OLD.routing_step] IS DISTINCT FROM NEW.routing[1:OLD.routing_step] THEN
+    RAISE EXCEPTION 'Routing steps up to the current stage of order % cannot be changed', OLD.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    -- Adding or removing later stages changes how far along the order is
+    IF NEW.routing_step IS NOT NULL AND NEW.status <> 'delayed' THEN
+      NEW.progress := public.get_routing_progress(NEW.routing, NEW.routing_step);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'completed' THEN
+    RAISE EXCEPTION 'Order % is already completed', OLD.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'delayed' THEN
+    -- routing_step is kept so the order resumes where it stopped
+    NEW.delayed_from := OLD.status;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'delayed' THEN
+    IF NOT public.can_resume_from_delay(OLD.delayed_from, OLD.routing, OLD.routing_step, NEW.status) THEN
+      RAISE EXCEPTION 'Order % was delayed at %, it cannot resume at %',
+        OLD.order_number, COALESCE(OLD.routing[OLD.routing_step], OLD.delayed_from), NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.delayed_from := NULL;
+  END IF;
+
+  CASE NEW.status
+    WHEN 'pending_quote' THEN
+      IF OLD.status NOT IN ('queued', 'delayed') THEN
+        RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+          USING ERRCODE = 'check_violation';
+      END IF;
+      NEW.routing_step := NULL;
+      NEW.progress := 0;
+      RETURN NEW;
+
+    WHEN 'queued' THEN
+      IF OLD.status NOT IN ('pending_quote', 'delayed') THEN
+        RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+          USING ERRCODE = 'check_violation';
+      END IF;
+      NEW.routing_step := NULL;
+      NEW.progress := 10;
+      RETURN NEW;
+
+    ELSE
+      NULL;
+  END CASE;
+
+  -- Remaining targets are routing stages or completed
+  IF OLD.status = 'queued' THEN
+    _next_step := 1;
+  ELSIF OLD.status = 'delayed' THEN
+    _next_step := OLD.routing_step;
+  ELSIF OLD.status = 'quality-check' AND NEW.status = 'coating' THEN
+    -- Failed inspections go back to the first coating step for rework
+    _next_step := array_position(NEW.routing, 'coating');
+  ELSIF OLD.status = ANY (OLD.routing) THEN
+    _next_step := COALESCE(OLD.routing_step, array_position(OLD.routing, OLD.status)) + 1;
+  ELSE
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _next_step IS NULL THEN
+    RAISE EXCEPTION '% is not part of the routing for order %', NEW.status, OLD.order_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF _next_step > cardinality(NEW.routing) THEN
+    IF NEW.status <> 'completed' THEN
+      RAISE EXCEPTION 'Order % has finished its routing and can only be completed', OLD.order_number
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.routing_step := NULL;
+    NEW.progress := 100;
+  ELSIF NEW.routing[_next_step] <> NEW.status THEN
+    RAISE EXCEPTION 'Next stage for order % is %, not %', OLD.order_number, NEW.routing[_next_step], NEW.status
+      USING ERRCODE = 'check_violation';
+  ELSE
+    NEW.routing_step := _next_step;
+    NEW.progress := public.get_routing_progress(NEW.routing, _next_step);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,72 @@
+-- Quote acceptance in one transaction. The client used to insert the
+-- acceptance and then update the order separately, and the order update
+-- (approval, price and status) wasn't checked against the accepted offer.
+CREATE OR REPLACE FUNCTION public.accept_quote(_order_id UUID, _version INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _offer public.quote_negotiations;
+BEGIN
+  SELECT * INTO _order
+  FROM public.orders
+  WHERE id = _order_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF _order.id IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF COALESCE(_order.quote_approved, false) THEN
+    RAISE EXCEPTION 'The quote for this order has already been approved';
+  END IF;
+
+  SELECT * INTO _offer
+  FROM public.quote_negotiations
+  WHERE order_id = _order_id AND version IS NOT NULL
+  ORDER BY version DESC
+  LIMIT 1;
+
+  IF _offer.id IS NULL THEN
+    RAISE EXCEPTION 'There is no quote to accept for this order';
+  END IF;
+
+  IF _offer.version <> _version THEN
+    RAISE EXCEPTION 'The quote has changed. Please review the latest quote.';
+  END IF;
+
+  -- prepare_quote_version rejects expired offers
+  INSERT INTO public.quote_negotiations (order_id, quoted_by, quoted_price, notes, status)
+  VALUES (_order_id, auth.uid(), _offer.quoted_price, 'Quote accepted by client', 'accepted');
+
+  UPDATE public.orders
+  SET
+    quote_approved = true,
+    quote_approved_at = now(),
+    quoted_price = _offer.quoted_price,
+    status = 'queued'
+  WHERE id = _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_quote(UUID, INTEGER) FROM PUBLIC, anon;
+
+-- Acceptance now only goes through accept_quote
+DROP POLICY "Users can approve quotes on their own orders" ON public.orders;
+
+DROP POLICY "Users can create quote negotiations for their orders" ON public.quote_negotiations;
+
+CREATE POLICY "Users can create quote negotiations for their orders"
+ON public.quote_negotiations
+FOR INSERT
+WITH CHECK (
+  status <> 'accepted'
+  AND EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE orders.id = quote_negotiations.order_id
+    AND orders.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,26 @@
+-- Give the missing deposit error its own SQLSTATE so the app can tell it apart
+-- from other failed updates without matching on the message. TP402 ("payment
+-- required") must match DEPOSIT_REQUIRED_ERROR_CODE in src/lib/payments.ts.
+CREATE OR REPLACE FUNCTION public.check_deposit_before_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance RECORD;
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    SELECT * INTO _balance FROM public.get_order_balance(NEW.id);
+
+    IF _balance.deposit_required > 0 AND _balance.amount_paid < _balance.deposit_required THEN
+      RAISE EXCEPTION 'Order % needs a deposit of ₱% before it can be completed (₱% paid)',
+        NEW.order_number, _balance.deposit_required, _balance.amount_paid
+        USING ERRCODE = 'TP402',
+              HINT = 'Record the deposit on the order before completing it.';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
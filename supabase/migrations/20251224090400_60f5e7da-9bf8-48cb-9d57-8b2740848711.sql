@@ -0,0 +1,41 @@
+-- Walk-in customers without an email were given addresses on
+-- toppowdercoating.com, keyed by the phone digits as typed. Move them to the
+-- reserved walk-in.invalid domain, which mail is never sent to, keyed by the
+-- normalized phone number like new imports. When two accounts turn out to be
+-- the same customer, the older one takes the key and the others are addressed
+-- by their id so they no longer match.
+DO $$
+DECLARE
+  _account RECORD;
+  _email TEXT;
+BEGIN
+  FOR _account IN
+    SELECT u.id, u.email, p.phone
+    FROM auth.users u
+    LEFT JOIN public.profiles p ON p.id = u.id
+    WHERE u.email LIKE 'walk-in.%@toppowdercoating.com'
+    ORDER BY u.created_at
+  LOOP
+    _email := 'walk-in.' || regexp_replace(COALESCE(public.normalize_phone(_account.phone), ''), '\D', '', 'g')
+      || '@walk-in.invalid';
+
+    IF _email = 'walk-in.@walk-in.invalid' OR EXISTS (SELECT 1 FROM auth.users WHERE email = _email) THEN
+      _email := 'walk-in.' || _account.id || '@walk-in.invalid';
+    END IF;
+
+    UPDATE auth.users SET email = _email WHERE id = _account.id;
+
+    -- Sign-in and account linking read the address from the email identity
+    UPDATE auth.identities
+    SET identity_data = jsonb_set(identity_data, '{email}', to_jsonb(_email)), updated_at = now()
+    WHERE user_id = _account.id AND provider = 'email';
+  END LOOP;
+END;
+$$;
+
+-- Don't retry emails already queued for those addresses
+UPDATE public.notification_deliveries
+SET status = 'failed', next_attempt_at = NULL, last_error = 'Walk-in customer has no email address'
+WHERE channel = 'email'
+  AND status = 'pending'
+  AND recipient LIKE 'walk-in.%@toppowdercoating.com';
@@ -0,0 +1,477 @@
+-- Every writer of notifications names its event. Guessing it from the subject
+-- filed "Quote Pending" status updates under quotes, so the classifier only
+-- served the one-time backfill and is dropped here. An insert without an
+-- event now fails on the NOT NULL column instead of being filed somewhere.
+
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.event IS NOT NULL AND NOT public.wants_notification(NEW.user_id, NEW.event, 'in_app') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_admins(
+  _order_id UUID,
+  _order_number TEXT,
+  _subject TEXT,
+  _message TEXT,
+  _priority TEXT DEFAULT 'medium',
+  _event public.notification_event DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _admin_id UUID;
+BEGIN
+  IF _event IS NULL THEN
+    RAISE EXCEPTION 'notify_admins needs an event for "%"', _subject;
+  END IF;
+
+  FOR _admin_id IN
+    SELECT user_id FROM public.user_roles WHERE role = 'admin'
+  LOOP
+    CONTINUE WHEN NOT public.wants_notification(_admin_id, _event, 'in_app');
+
+    INSERT INTO public.messages (user_id, order_id, subject, message, priority, is_read, event)
+    VALUES (_admin_id, _order_id, _subject, _message, _priority, false, _event);
+  END LOOP;
+END;
+$$;
+
+DROP FUNCTION public.classify_notification(TEXT);
+
+CREATE OR REPLACE FUNCTION public.notify_user_on_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  order_user_id UUID;
+  order_number TEXT;
+  status_label TEXT;
+  notification_subject TEXT;
+  notification_message TEXT;
+BEGIN
+  -- Only trigger on status change
+  IF (TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM NEW.status) THEN
+    order_user_id := NEW.user_id;
+    order_number := NEW.order_number;
+
+    -- Map status to readable label
+    CASE NEW.status
+      WHEN 'pending_quote' THEN status_label := 'Pending Quote';
+      WHEN 'queued' THEN status_label := 'Queued';
+      WHEN 'sand-blasting' THEN status_label := 'Sand Blasting';
+      WHEN 'coating' THEN status_label := 'Coating';
+      WHEN 'curing' THEN status_label := 'Curing';
+      WHEN 'quality-check' THEN status_label := 'Quality Check';
+      WHEN 'completed' THEN status_label := 'Completed';
+      WHEN 'delayed' THEN status_label := 'Delayed';
+      ELSE status_label := NEW.status;
+    END CASE;
+
+    -- Set notification content based on status
+    IF NEW.status = 'completed' THEN
+      notification_subject := 'Order Completed! 🎉';
+      notification_message := 'Great news! Your order ' || order_number || ' has been completed and is ready for pickup/delivery.';
+    ELSIF NEW.status = 'delayed' THEN
+      notification_subject := 'Order Delayed';
+      notification_message := 'We apologize, but your order ' || order_number || ' has been delayed. We will update you as soon as possible.';
+    ELSIF NEW.status = 'pending_quote' THEN
+      notification_subject := 'Quote Pending';
+      notification_message := 'Your order ' || order_number || ' is awaiting a quote. You will be notified once it is ready.';
+    ELSE
+      notification_subject := 'Order Status Updated';
+      notification_message := 'Your order ' || order_number || ' status has been updated to: ' || status_label;
+    END IF;
+
+    -- Insert notification into messages table
+    INSERT INTO public.messages (user_id, order_id, subject, message, priority, is_read, event)
+    VALUES (
+      order_user_id,
+      NEW.id,
+      notification_subject,
+      notification_message,
+      CASE WHEN NEW.status IN ('completed', 'delayed') THEN 'high' ELSE 'medium' END,
+      false,
+      'order_status'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.notify_on_task_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  team_member_name TEXT;
+  admin_user_id UUID;
+BEGIN
+  -- Only trigger when status changes to completed
+  IF (TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM NEW.status AND NEW.status = 'completed') THEN
+    -- Get team member name
+    SELECT name INTO team_member_name
+    FROM public.team_members
+    WHERE user_id = auth.uid()
+    LIMIT 1;
+
+    -- Notify all admins
+    FOR admin_user_id IN
+      SELECT user_id FROM public.user_roles WHERE role = 'admin'
+    LOOP
+      INSERT INTO public.messages (user_id, order_id, subject, message, priority, is_read, event)
+      VALUES (
+        admin_user_id,
+        NEW.id,
+        'Order Completed by Team Member',
+        'Team member ' || COALESCE(team_member_name, 'Unknown') || ' has marked order ' || NEW.order_number || ' as completed.',
+        'high',
+        false,
+        'order_status'
+      );
+    END LOOP;
+
+    -- Notify the client
+    INSERT INTO public.messages (user_id, order_id, subject, message, priority, is_read, event)
+    VALUES (
+      NEW.user_id,
+      NEW.id,
+      'Your Order is Complete! 🎉',
+      'Great news! Your order ' || NEW.order_number || ' has been completed by our team.',
+      'high',
+      false,
+      'order_status'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_admins_on_new_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify_admins(
+    NEW.id,
+    NEW.order_number,
+    'New Order Received',
+    'A new order ' || NEW.order_number || ' has been submitted and requires attention.',
+    'high',
+    'new_order'
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_admins_on_quote_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only trigger when quote_approved changes from false/null to true
+  IF (OLD.quote_approved IS DISTINCT FROM NEW.quote_approved) AND NEW.quote_approved = true THEN
+    PERFORM public.notify_admins(
+      NEW.id,
+      NEW.order_number,
+      'Quote Approved by Client',
+      'The client has approved the quote for order ' || NEW.order_number || '. The order is now queued for production.',
+      'high',
+      'quote'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_admins_on_low_powder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_active
+     AND NEW.kg_on_hand < NEW.reorder_point_kg
+     AND NOT (OLD.kg_on_hand < OLD.reorder_point_kg) THEN
+    PERFORM public.notify_admins(
+      NULL,
+      NULL,
+      'Low Powder Stock: ' || NEW.name,
+      format(
+        'Powder %s (%s) is down to %s kg, below its reorder point of %s kg.',
+        NEW.sku,
+        NEW.name,
+        NEW.kg_on_hand,
+        NEW.reorder_point_kg
+      ),
+      'high',
+      'inventory'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.consume_powder_on_coating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.order_items;
+  _powder RECORD;
+  _kg NUMERIC;
+BEGIN
+  IF NEW.status <> 'coating' OR OLD.status = 'coating' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _item IN
+    SELECT * FROM public.order_items WHERE order_id = NEW.id ORDER BY position
+  LOOP
+    SELECT id, coverage_sqm_per_kg INTO _powder
+    FROM public.powder_skus
+    WHERE id = public.find_powder_for_item(_item.id);
+
+    IF NOT FOUND THEN
+      PERFORM public.notify_admins(
+        NEW.id,
+        NEW.order_number,
+        'No Powder Match: ' || NEW.order_number,
+        format(
+          'Order %s entered coating but no stocked powder matches the color of "%s", so no usage was recorded for it.',
+          NEW.order_number,
+          _item.description
+        ),
+        'medium',
+        'inventory'
+      );
+      CONTINUE;
+    END IF;
+
+    _kg := public.estimate_powder_kg(_item.quantity, _item.surface_area_sqm, _powder.coverage_sqm_per_kg);
+
+    IF _kg > 0 THEN
+      INSERT INTO public.powder_transactions (powder_id, order_id, transaction_type, quantity_kg, notes, created_by)
+      VALUES (
+        _powder.id,
+        NEW.id,
+        'consumption',
+        -_kg,
+        _item.description || CASE WHEN _item.surface_area_sqm IS NULL
+          THEN ' (estimated at 1 m² per piece; no surface area on the item)'
+          ELSE ''
+        END,
+        auth.uid()
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_invoice(_order_id UUID)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+  _invoice public.invoices;
+  _year INTEGER := EXTRACT(YEAR FROM NOW())::INTEGER;
+  _next_number INTEGER;
+  _line_items JSONB;
+  _subtotal NUMERIC(12, 2);
+  _vat_rate NUMERIC(5, 4) := 0.12;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can issue invoices';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Invoices can only be issued for completed orders';
+  END IF;
+
+  IF _order.quoted_price IS NULL THEN
+    RAISE EXCEPTION 'Order % has no quoted price', _order.order_number;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'An invoice has already been issued for order %', _order.order_number;
+  END IF;
+
+  -- Lock the counter row for this year and take the next number
+  INSERT INTO public.invoice_counters (year, last_number)
+  VALUES (_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = invoice_counters.last_number + 1
+  RETURNING last_number INTO _next_number;
+
+  _subtotal := ROUND(_order.quoted_price, 2);
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'description', _order.project_name || ' - ' || oi.description,
+      'quantity', oi.quantity,
+      'unit_price', ROUND(COALESCE(oi.quoted_price, 0) / oi.quantity, 2),
+      'amount', COALESCE(oi.quoted_price, 0)
+    )
+    ORDER BY oi.position
+  )
+  INTO _line_items
+  FROM public.order_items oi
+  WHERE oi.order_id = _order_id;
+
+  INSERT INTO public.invoices (
+    invoice_number,
+    order_id,
+    user_id,
+    line_items,
+    subtotal,
+    vat_rate,
+    vat_amount,
+    total_amount,
+    issued_by
+  )
+  VALUES (
+    'INV-' || _year || '-' || LPAD(_next_number::TEXT, 5, '0'),
+    _order.id,
+    _order.user_id,
+    COALESCE(_line_items, '[]'::jsonb),
+    _subtotal,
+    _vat_rate,
+    ROUND(_subtotal * _vat_rate, 2),
+    _subtotal + ROUND(_subtotal * _vat_rate, 2),
+    auth.uid()
+  )
+  RETURNING * INTO _invoice;
+
+  -- Let the client know their invoice is ready
+  INSERT INTO public.messages (user_id, order_id, subject, message, priority, event)
+  VALUES (
+    _order.user_id,
+    _order.id,
+    'Invoice ' || _invoice.invoice_number || ' Issued',
+    'An invoice for order ' || _order.order_number || ' has been issued. You can download it from your order history.',
+    'medium',
+    'billing'
+  );
+
+  RETURN _invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.expire_stale_quotes()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quote RECORD;
+  _count INTEGER := 0;
+BEGIN
+  FOR _quote IN
+    UPDATE public.quote_negotiations qn
+    SET status = 'expired'
+    FROM public.orders o
+    WHERE o.id = qn.order_id
+      AND qn.version IS NOT NULL
+      AND qn.status IN ('pending', 'accepted')
+      AND qn.valid_until < now()
+      AND NOT COALESCE(o.quote_approved, false)
+    RETURNING qn.order_id, qn.version, o.order_number, o.user_id
+  LOOP
+    _count := _count + 1;
+
+    -- Older versions were already replaced; only the latest one is news
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.quote_negotiations
+      WHERE order_id = _quote.order_id AND version > _quote.version
+    );
+
+    INSERT INTO public.messages (user_id, order_id, subject, message, priority, event)
+    VALUES (
+      _quote.user_id,
+      _quote.order_id,
+      'Quote Expired',
+      'The quote for order ' || _quote.order_number || ' has expired. You can request a new quote from the order page.',
+      'medium',
+      'quote'
+    );
+
+    PERFORM public.notify_admins(
+      _quote.order_id,
+      _quote.order_number,
+      'Quote Expired',
+      'Quote version ' || _quote.version || ' for order ' || _quote.order_number || ' expired without being approved.',
+      'low',
+      'quote'
+    );
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_new_quote(_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id AND user_id = auth.uid();
+
+  IF _order.id IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF COALESCE(_order.quote_approved, false) THEN
+    RAISE EXCEPTION 'The quote for this order has already been approved';
+  END IF;
+
+  PERFORM public.notify_admins(
+    _order.id,
+    _order.order_number,
+    'New Quote Requested',
+    'The client has requested a new quote for order ' || _order.order_number || '.',
+    'high',
+    'quote'
+  );
+END;
+$$;
@@ -0,0 +1,44 @@
+-- Status emails and texts are sent from the database whenever an order's
+-- status changes, so team members moving orders along notify clients the
+-- same way admins do. The call goes through pg_net with the Vault secrets
+-- the cron jobs use, after the update commits.
+
+CREATE OR REPLACE FUNCTION public.send_order_status_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url TEXT := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url');
+  _service_role_key TEXT := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key');
+BEGIN
+  -- Projects without the secrets (like a fresh local database) skip notifications
+  -- rather than failing the status change
+  IF _project_url IS NULL OR _service_role_key IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := _project_url || '/functions/v1/send-order-notification',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _service_role_key
+    ),
+    body := jsonb_build_object(
+      'user_id', NEW.user_id,
+      'order_id', NEW.id,
+      'order_number', NEW.order_number,
+      'new_status', NEW.status
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_status_send_notification
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.user_id IS NOT NULL)
+  EXECUTE FUNCTION public.send_order_status_notification();
@@ -0,0 +1,65 @@
+-- A delayed order resuming at coating is the same coat it already booked
+-- powder for, so only entering coating from the previous stage (or back from
+-- quality check for rework) records consumption
+
+CREATE OR REPLACE FUNCTION public.consume_powder_on_coating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.order_items;
+  _powder RECORD;
+  _kg NUMERIC;
+BEGIN
+  IF NEW.status <> 'coating'
+     OR OLD.status = 'coating'
+     OR (OLD.status = 'delayed' AND OLD.delayed_from = 'coating') THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _item IN
+    SELECT * FROM public.order_items WHERE order_id = NEW.id ORDER BY position
+  LOOP
+    SELECT id, coverage_sqm_per_kg INTO _powder
+    FROM public.powder_skus
+    WHERE id = public.find_powder_for_item(_item.id);
+
+    IF NOT FOUND THEN
+      PERFORM public.notify_admins(
+        NEW.id,
+        NEW.order_number,
+        'No Powder Match: ' || NEW.order_number,
+        format(
+          'Order %s entered coating but no stocked powder matches the color of "%s", so no usage was recorded for it.',
+          NEW.order_number,
+          _item.description
+        ),
+        'medium',
+        'inventory'
+      );
+      CONTINUE;
+    END IF;
+
+    _kg := public.estimate_powder_kg(_item.quantity, _item.surface_area_sqm, _powder.coverage_sqm_per_kg);
+
+    IF _kg > 0 THEN
+      INSERT INTO public.powder_transactions (powder_id, order_id, transaction_type, quantity_kg, notes, created_by)
+      VALUES (
+        _powder.id,
+        NEW.id,
+        'consumption',
+        -_kg,
+        _item.description || CASE WHEN _item.surface_area_sqm IS NULL
+          THEN ' (estimated at 1 m² per piece; no surface area on the item)'
+          ELSE ''
+        END,
+        auth.uid()
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
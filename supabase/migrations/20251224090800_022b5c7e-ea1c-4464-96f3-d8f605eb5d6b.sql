@@ -0,0 +1,228 @@
+-- Mixed-color orders are cured one color at a time: the curing queue has a
+-- row per order and coating, a batch takes the matching coating of each of
+-- its orders, and an order moves on once all of its coatings have been
+-- through the oven for the current curing step.
+
+-- The curing step a batch was planned for, so repeated curing steps in a
+-- routing are batched separately
+ALTER TABLE public.oven_batch_orders
+ADD COLUMN routing_step INTEGER;
+
+UPDATE public.oven_batch_orders obo
+SET routing_step = CASE WHEN o.status = 'curing' THEN o.routing_step ELSE o.routing_step + 1 END
+FROM public.orders o, public.oven_batches ob
+WHERE o.id = obo.order_id
+  AND ob.id = obo.batch_id
+  AND ob.status <> 'completed';
+
+-- Curing queue without the caller check, for functions that have already
+-- authorized the change. Coatings whose batch for the current curing step has
+-- completed are left out.
+CREATE OR REPLACE FUNCTION public.list_curing_queue()
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  project_name TEXT,
+  status public.order_status,
+  priority public.order_priority,
+  quantity INTEGER,
+  color TEXT,
+  finish public.finish_type,
+  batch_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH waiting AS (
+    SELECT
+      o.*,
+      CASE WHEN o.status = 'curing' THEN o.routing_step ELSE o.routing_step + 1 END AS curing_step
+    FROM public.orders o
+    WHERE o.status = 'curing'
+      OR (o.status = 'coating' AND o.routing[o.routing_step + 1] = 'curing')
+  ),
+  coatings AS (
+    SELECT oc.order_id, MIN(oc.color) AS color, oc.finish, SUM(oi.quantity)::INTEGER AS quantity
+    FROM public.order_customizations oc
+    JOIN public.order_items oi ON oi.id = oc.order_item_id
+    WHERE oc.order_id IN (SELECT w.id FROM waiting w)
+    GROUP BY oc.order_id, upper(oc.color), oc.finish
+  )
+  SELECT
+    w.id,
+    w.order_number,
+    w.project_name,
+    w.status,
+    w.priority,
+    COALESCE(c.quantity, w.quantity),
+    c.color,
+    c.finish,
+    batch.id
+  FROM waiting w
+  LEFT JOIN coatings c ON c.order_id = w.id
+  LEFT JOIN LATERAL (
+    SELECT ob.id, ob.status
+    FROM public.oven_batch_orders obo
+    JOIN public.oven_batches ob ON ob.id = obo.batch_id
+    WHERE obo.order_id = w.id
+      AND obo.routing_step IS NOT DISTINCT FROM w.curing_step
+      AND upper(ob.color) = upper(c.color)
+      AND ob.finish = c.finish
+    ORDER BY ob.created_at DESC
+    LIMIT 1
+  ) batch ON TRUE
+  WHERE batch.status IS DISTINCT FROM 'completed'
+  ORDER BY c.color, w.priority DESC, w.submitted_date;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_curing_queue() FROM PUBLIC, anon, authenticated;
+
+-- Orders curing now or going to curing next, one row per coating, with any
+-- open batch that coating is already in
+CREATE OR REPLACE FUNCTION public.get_curing_queue()
+RETURNS TABLE (
+  order_id UUID,
+  order_number TEXT,
+  project_name TEXT,
+  status public.order_status,
+  priority public.order_priority,
+  quantity INTEGER,
+  color TEXT,
+  finish public.finish_type,
+  batch_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_oven_batches(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to manage oven batches';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.list_curing_queue();
+END;
+$$;
+
+-- The batch's coating is passed in, since a mixed-color order could go into
+-- a batch for any of its colors
+DROP FUNCTION public.create_oven_batch(TEXT, NUMERIC, INTEGER, UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_oven_batch(
+  _oven TEXT,
+  _cure_temperature NUMERIC,
+  _cure_minutes INTEGER,
+  _order_ids UUID[],
+  _color TEXT,
+  _finish public.finish_type,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.oven_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _batch_number TEXT;
+  _batch public.oven_batches;
+BEGIN
+  IF NOT public.can_manage_oven_batches(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to manage oven batches';
+  END IF;
+
+  IF COALESCE(cardinality(_order_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'An oven batch needs at least one order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(_order_ids) AS ids(id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.list_curing_queue() q
+      WHERE q.order_id = ids.id
+        AND q.batch_id IS NULL
+        AND upper(q.color) = upper(_color)
+        AND q.finish = _finish
+    )
+  ) THEN
+    RAISE EXCEPTION 'Orders must be curing or about to cure, have items in % % and not already be batched for them',
+      _color, _finish;
+  END IF;
+
+  LOOP
+    _batch_number := 'OVN-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(FLOOR(RANDOM() * 1000)::TEXT, 3, '0');
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.oven_batches WHERE batch_number = _batch_number);
+  END LOOP;
+
+  INSERT INTO public.oven_batches (batch_number, oven, color, finish, cure_temperature, cure_minutes, notes, created_by)
+  VALUES (_batch_number, _oven, _color, _finish, _cure_temperature, _cure_minutes, _notes, auth.uid())
+  RETURNING * INTO _batch;
+
+  INSERT INTO public.oven_batch_orders (batch_id, order_id, routing_step)
+  SELECT _batch.id, o.id, CASE WHEN o.status = 'curing' THEN o.routing_step ELSE o.routing_step + 1 END
+  FROM public.orders o
+  WHERE o.id = ANY (_order_ids);
+
+  RETURN _batch;
+END;
+$$;
+
+-- Unloads the oven and moves each order in the batch on to the next stage of
+-- its routing, once none of its other coatings are still waiting to cure
+CREATE OR REPLACE FUNCTION public.complete_oven_batch(_batch_id UUID)
+RETURNS public.oven_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _batch public.oven_batches;
+  _order_id UUID;
+BEGIN
+  IF NOT public.can_manage_oven_batches(auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to manage oven batches';
+  END IF;
+
+  SELECT * INTO _batch FROM public.oven_batches WHERE id = _batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Oven batch not found';
+  END IF;
+
+  IF _batch.status <> 'curing' THEN
+    RAISE EXCEPTION 'Oven batch % is not in the oven', _batch.batch_number;
+  END IF;
+
+  UPDATE public.oven_batches
+  SET status = 'completed', ended_at = now()
+  WHERE id = _batch_id
+  RETURNING * INTO _batch;
+
+  FOR _order_id IN
+    SELECT obo.order_id
+    FROM public.oven_batch_orders obo
+    JOIN public.orders o ON o.id = obo.order_id
+    WHERE obo.batch_id = _batch_id AND o.status = 'curing'
+  LOOP
+    CONTINUE WHEN EXISTS (SELECT 1 FROM public.list_curing_queue() q WHERE q.order_id = _order_id);
+
+    UPDATE public.orders
+    SET
+      status = CASE
+        WHEN COALESCE(routing_step, array_position(routing, 'curing')) >= cardinality(routing) THEN 'completed'
+        ELSE routing[COALESCE(routing_step, array_position(routing, 'curing')) + 1]
+      END,
+      completed_date = CASE
+        WHEN COALESCE(routing_step, array_position(routing, 'curing')) >= cardinality(routing) THEN now()
+        ELSE completed_date
+      END
+    WHERE id = _order_id;
+
+    PERFORM public.assign_order_for_current_stage(_order_id);
+  END LOOP;
+
+  RETURN _batch;
+END;
+$$;
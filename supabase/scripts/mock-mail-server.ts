@@ -0,0 +1,64 @@
+// Stand-in for the Resend API when running the edge functions locally. Every
+// email posted to it is logged and saved, attachments decoded, under
+// ./mock-mail/<timestamp>/ instead of being sent.
+//
+//   deno run --allow-net --allow-write --allow-env supabase/scripts/mock-mail-server.ts
+//
+// then serve the functions with RESEND_API_URL pointing at it (see README).
+// Set MOCK_MAIL_FAIL_FIRST=<n> to reject the first n emails like an outage
+// would, to try out delivery retries.
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { decode as decodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+
+const PORT = Number(Deno.env.get("MOCK_MAIL_PORT") || 8025);
+const OUTPUT_DIR = "mock-mail";
+
+let failuresLeft = Number(Deno.env.get("MOCK_MAIL_FAIL_FIRST") || 0);
+
+interface MockEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: { filename: string; content: string }[];
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const email: MockEmail = await req.json();
+
+  if (failuresLeft > 0) {
+    failuresLeft--;
+    console.log(`Rejected email to ${email.to.join(", ")} (${failuresLeft} more failures to go)`);
+    return new Response(
+      JSON.stringify({ statusCode: 503, name: "service_unavailable", message: "Mock outage, try again later" }),
+      { status: 503, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const id = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID().slice(0, 8)}`;
+  const dir = `${OUTPUT_DIR}/${id}`;
+
+  await Deno.mkdir(dir, { recursive: true });
+  await Deno.writeTextFile(`${dir}/email.json`, JSON.stringify({ ...email, attachments: undefined }, null, 2));
+  await Deno.writeTextFile(`${dir}/email.html`, email.html);
+  if (email.text) {
+    await Deno.writeTextFile(`${dir}/email.txt`, email.text);
+  }
+  for (const attachment of email.attachments || []) {
+    await Deno.writeFile(`${dir}/${attachment.filename}`, decodeBase64(attachment.content));
+  }
+
+  console.log(
+    `To: ${email.to.join(", ")} | Subject: ${email.subject} | ` +
+      `Attachments: ${(email.attachments || []).map((a) => a.filename).join(", ") || "none"} -> ${dir}`
+  );
+
+  return new Response(JSON.stringify({ id }), { headers: { "Content-Type": "application/json" } });
+};
+
+serve(handler, { port: PORT });
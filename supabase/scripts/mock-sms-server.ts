@@ -0,0 +1,58 @@
+// Stand-in for the SMS provider when running the edge functions locally. Every
+// text posted to it, in Semaphore's or Twilio's format, is logged and appended
+// to ./mock-sms/messages.jsonl instead of being sent.
+//
+//   deno run --allow-net --allow-write --allow-env supabase/scripts/mock-sms-server.ts
+//
+// then serve the functions with SMS_API_URL pointing at it (see README).
+// Set MOCK_SMS_FAIL_FIRST=<n> to reject the first n texts like an outage
+// would, to try out delivery retries.
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+
+const PORT = Number(Deno.env.get("MOCK_SMS_PORT") || 8026);
+const OUTPUT_DIR = "mock-sms";
+
+let failuresLeft = Number(Deno.env.get("MOCK_SMS_FAIL_FIRST") || 0);
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const form = new URLSearchParams(await req.text());
+  // Semaphore sends number and message, Twilio sends To and Body
+  const to = form.get("number") || form.get("To") || "";
+  const body = form.get("message") || form.get("Body") || "";
+
+  if (!to || !body) {
+    return new Response(
+      JSON.stringify({ message: "A phone number and message are required" }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (failuresLeft > 0) {
+    failuresLeft--;
+    console.log(`Rejected text to ${to} (${failuresLeft} more failures to go)`);
+    return new Response(
+      JSON.stringify({ status: 503, message: "Mock outage, try again later" }),
+      { status: 503, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const id = crypto.randomUUID();
+  const sent_at = new Date().toISOString();
+
+  await Deno.mkdir(OUTPUT_DIR, { recursive: true });
+  await Deno.writeTextFile(`${OUTPUT_DIR}/messages.jsonl`, JSON.stringify({ id, to, body, sent_at }) + "\n", {
+    append: true,
+  });
+
+  console.log(`To: ${to} | ${body}`);
+
+  return new Response(JSON.stringify({ id, to, status: "sent" }), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+serve(handler, { port: PORT });
@@ -0,0 +1,61 @@
+-- Delayed orders must resume where they stopped, never skipping stages.
+-- Run with `supabase test db`.
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+-- Delayed before quoting: no jumping into production or past the quote
+SELECT ok(
+  NOT public.can_resume_from_delay('pending_quote', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], NULL, 'quality-check'),
+  'pending_quote -> delayed -> quality-check is rejected'
+);
+SELECT ok(
+  NOT public.can_resume_from_delay('pending_quote', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], NULL, 'queued'),
+  'pending_quote -> delayed -> queued is rejected'
+);
+SELECT ok(
+  NOT public.can_resume_from_delay('pending_quote', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], NULL, 'completed'),
+  'pending_quote -> delayed -> completed is rejected'
+);
+SELECT ok(
+  public.can_resume_from_delay('pending_quote', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], NULL, 'pending_quote'),
+  'pending_quote -> delayed -> pending_quote is allowed'
+);
+
+-- Delayed while queued
+SELECT ok(
+  public.can_resume_from_delay('queued', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], NULL, 'queued'),
+  'queued -> delayed -> queued is allowed'
+);
+SELECT ok(
+  NOT public.can_resume_from_delay('queued', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], NULL, 'sand-blasting'),
+  'queued -> delayed -> sand-blasting is rejected'
+);
+
+-- Delayed in production: only the stage it stopped at, even when repeated
+SELECT ok(
+  public.can_resume_from_delay('coating', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], 2, 'coating'),
+  'resuming at the stopped stage is allowed'
+);
+SELECT ok(
+  NOT public.can_resume_from_delay('coating', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], 2, 'curing'),
+  'resuming at a later stage is rejected'
+);
+SELECT ok(
+  NOT public.can_resume_from_delay('coating', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], 2, 'quality-check'),
+  'resuming at the last stage is rejected'
+);
+SELECT ok(
+  NOT public.can_resume_from_delay('coating', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], 2, 'completed'),
+  'completing a delayed order is rejected'
+);
+SELECT ok(
+  NOT public.can_resume_from_delay('coating', ARRAY['sand-blasting', 'coating', 'curing', 'coating', 'curing', 'quality-check']::public.order_status[], 2, 'queued'),
+  'sending a delayed production order back to the queue is rejected'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;